@@ -0,0 +1,84 @@
+// Headless battle simulation CLI - runs many seeded battles and prints a balance report
+//
+// Usage: npm run simulate -- <battle> [--runs 1000] [--seed 12345] [--level 3] [--max-rounds 50] [--json]
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { runSimulations, SimulationReport } from '../src/systems/BattleSimulator';
+import { generateSeed } from '../src/systems/DiceRoller';
+import { BattleConfig } from '../src/data/BattleTypes';
+
+const DATA_DIR = resolve(import.meta.dirname, '../public/data');
+
+function loadJson<T>(path: string): T {
+  return JSON.parse(readFileSync(resolve(DATA_DIR, path), 'utf-8')) as T;
+}
+
+function parseArgs(argv: string[]): { battle: string; flags: Record<string, string> } {
+  const flags: Record<string, string> = {};
+  let battle = 'hellhound_cave';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      if (next !== undefined && !next.startsWith('--')) {
+        flags[arg.slice(2)] = next;
+        i++;
+      } else {
+        flags[arg.slice(2)] = 'true';
+      }
+    } else {
+      battle = arg;
+    }
+  }
+
+  return { battle, flags };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printReport(report: SimulationReport, seed: number, level: string): void {
+  console.log(`Battle: ${report.battleId} (${report.runs} runs, seed ${seed}, hero level ${level})`);
+  console.log(`Win rate: ${percent(report.winRate)}  (wins ${report.heroWins} / losses ${report.enemyWins} / draws ${report.draws})`);
+  console.log(`Average rounds: ${report.averageRounds.toFixed(2)}`);
+  console.log('');
+  console.log('Hero      Avg damage   Downed   Downed in');
+  for (const [heroId, stats] of Object.entries(report.heroes)) {
+    console.log(
+      `${heroId.padEnd(9)} ${stats.averageDamage.toFixed(2).padStart(10)}   ` +
+      `${String(stats.downedCount).padStart(6)}   ${percent(stats.downedRate).padStart(9)}`
+    );
+  }
+}
+
+const { battle, flags } = parseArgs(process.argv.slice(2));
+const runs = parseInt(flags.runs ?? '1000');
+const seed = flags.seed !== undefined ? parseInt(flags.seed) >>> 0 : generateSeed();
+const heroLevel = flags.level !== undefined ? parseInt(flags.level) : undefined;
+const maxRounds = flags['max-rounds'] !== undefined ? parseInt(flags['max-rounds']) : undefined;
+
+const config = loadJson<BattleConfig>(`battles/${battle}.json`);
+
+const report = runSimulations(
+  {
+    config,
+    heroesData: loadJson('heroes.json'),
+    enemiesData: loadJson('enemies.json'),
+    abilitiesData: loadJson('abilities.json'),
+    advantageData: loadJson('advantage.json'),
+    statusEffectsData: loadJson('status_effects.json'),
+    heroLevel,
+    maxRounds,
+  },
+  runs,
+  seed
+);
+
+if (flags.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  printReport(report, seed, String(heroLevel ?? config.heroLevel ?? 1));
+}
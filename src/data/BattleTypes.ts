@@ -10,7 +10,24 @@ import { EquipmentBonusState } from './ItemTypes';
 export enum TerrainType {
   Normal = 0, // Walkable, 1 movement cost
   Difficult = 1, // Walkable, 2 movement cost (e.g., sand, mud)
-  Impassable = 2, // Cannot walk through (walls, water)
+  Impassable = 2, // Cannot walk through (walls, deep water)
+  Cover = 3, // Walkable; defense bonus against ranged attacks (rubble, crates)
+  Hazard = 4, // Walkable; damages units that enter or start their turn on it (fire, spikes)
+  Water = 5, // Shallow water; only swimming (or flying) units can enter
+  HighGround = 6, // Walkable, 2 movement cost to climb; one level higher than the tile's elevation
+}
+
+// Mechanical effects of a terrain kind (see TERRAIN_RULES in GridManager)
+export interface TerrainRules {
+  name: string; // Shown in tile info and the terrain editor
+  editorColor?: number; // Overlay color in the terrain editor (none for open ground)
+  moveCost: number; // Infinity = cannot be entered
+  swimOnly?: boolean; // Only swimming units can enter (flying units always can)
+  blocksSight?: boolean; // Blocks line of sight for ranged abilities
+  rangedDefense?: number; // Defense bonus for a unit here against ranged attacks
+  elevation?: number; // Height the ground adds to the tile's elevation (high ground)
+  hazardDamage?: string; // Dice dealt on entry and at turn start
+  hazardDamageType?: DamageType;
 }
 
 // =============================================================================
@@ -25,25 +42,104 @@ export type StatusEffectType =
   | 'barkskin'
   | 'held'
   | 'unconscious'
-  | 'entangle_zone';
+  | 'entangle_zone'
+  | 'burning'
+  | 'slowed'
+  | 'blessed'
+  | 'frightened'
+  | 'disengaged';
 
 export interface StatusEffect {
   type: StatusEffectType;
   duration: number; // Turns remaining, -1 for permanent/until triggered
   value?: number; // For effects with numeric values (damage per turn, defense bonus, etc.)
+  breaksOn?: StatusBreakTrigger[]; // Events that end it early (replaces the definition's)
+  concentration?: ConcentrationLink; // Ends when its caster loses concentration
+}
+
+// The caster keeping a concentration status or zone going
+export interface ConcentrationLink {
+  casterId: string; // Unit instance ID
+  casterName: string;
+}
+
+// Death save tally for a downed hero: three successes stabilize,
+// three failures keep them out for the rest of the battle
+export interface DeathSaves {
+  successes: number;
+  failures: number;
+}
+
+// A concentration ability a unit is keeping up. Damage that breaks it only
+// sets lostReason; the engine then ends the linked statuses and zones.
+export interface Concentration {
+  abilityId: string;
+  abilityName: string;
+  lostReason?: string; // e.g. "falls unconscious"
+}
+
+// Events that end a status early when it lists them in breaksOn
+// adjacent_enemy: the unit and an enemy end up next to each other after a move
+export type StatusBreakTrigger =
+  | 'attack' // The unit makes an attack
+  | 'damage_taken'
+  | 'move'
+  | 'cast' // The unit casts a spell, heal or buff
+  | 'heal_received'
+  | 'adjacent_enemy';
+
+// Points in a unit's turn (or combat) where a status's hook actions run
+export type StatusHook =
+  | 'onApply'
+  | 'onTurnStart'
+  | 'onTurnEnd'
+  | 'onAttacked' // Hit by an attack
+  | 'onDamageTaken'
+  | 'onExpire'; // Duration ran out
+
+// What a status hook does. {unit}, {name} and {amount} are filled into messages.
+// damage, heal and skip_turn only take effect in the turn hooks.
+export type StatusHookAction =
+  | { action: 'damage'; amount?: string; damageType?: DamageType; message?: string; defeatMessage?: string } // amount: dice, default the effect's value
+  | { action: 'heal'; amount?: string; message?: string }
+  | { action: 'skip_turn'; message?: string }
+  | { action: 'remove'; message?: string } // End this status early
+  | { action: 'apply_status'; status: StatusEffectType; duration: number; value?: number; message?: string }
+  | { action: 'log'; message: string };
+
+// Flat modifiers while the status lasts. The effect's value, when set, replaces
+// the magnitude (keeping the sign), e.g. Hide's defenseBonus.
+export interface StatusModifiers {
+  attack?: number; // Attack rolls
+  defense?: number;
+  magic?: number; // Spell save DC
+  resilience?: number; // Saving throws
+  speed?: number; // Initiative
+  movement?: number; // Tiles of movement
+  damage?: number; // Damage dealt by attacks and spells
 }
 
-// Status effect border colors for UI
-export const STATUS_COLORS: Record<StatusEffectType, number> = {
-  poison: 0x00ff00, // Green
-  held: 0x008080, // Teal
-  barkskin: 0x8b4513, // Brown
-  hidden: 0x800080, // Purple
-  exposed: 0xffa500, // Orange
-  immobilized: 0x0000ff, // Blue
-  unconscious: 0x000000, // Black
-  entangle_zone: 0x228b22, // Forest Green
-};
+// How applying a status the unit already has combines with the existing one
+// replace: new one wins, refresh: longer duration and higher value,
+// stack: values add up (longer duration), ignore: existing one stays
+export type StatusStacking = 'replace' | 'refresh' | 'stack' | 'ignore';
+
+// A status condition declared in status_effects.json
+export interface StatusEffectDefinition {
+  id: StatusEffectType;
+  name: string;
+  color: string; // "#rrggbb" for condition markers and the turn order
+  negative?: boolean; // A harmful condition (cured by Restoration, Celestial Tears)
+  hidden?: boolean; // Not drawn as a condition marker (e.g. unconscious)
+  stacking?: StatusStacking; // Default replace
+  tick?: 'turn_start' | 'turn_end' | 'never'; // When the duration counts down (default turn_start)
+  blocksMovement?: boolean;
+  blocksReactions?: boolean; // Can't make opportunity attacks (e.g. held)
+  preventsOpportunityAttacks?: boolean; // Moving away from enemies provokes nothing
+  breaksOn?: StatusBreakTrigger[]; // Events that end it early
+  modifiers?: StatusModifiers; // The first one listed is the stat an instance's value resizes
+  hooks?: Partial<Record<StatusHook, StatusHookAction[]>>;
+}
 
 // =============================================================================
 // Ability System
@@ -53,6 +149,34 @@ export type AbilityType = 'attack' | 'spell' | 'buff' | 'debuff' | 'toggle';
 export type TargetType = 'enemy' | 'ally' | 'self' | 'area';
 export type CostType = 'mana' | 'ki' | null;
 
+export type DamageType =
+  | 'bludgeoning'
+  | 'piercing'
+  | 'slashing'
+  | 'fire'
+  | 'cold'
+  | 'lightning'
+  | 'thunder'
+  | 'acid'
+  | 'poison'
+  | 'force'
+  | 'radiant'
+  | 'necrotic'
+  | 'psychic';
+
+// A damage type, or "non_<type>" for every type but that one (e.g. "non_radiant")
+export type DamageTypeMatch = DamageType | `non_${DamageType}`;
+
+// How a unit's defenses changed the damage it took
+export type DamageModifier = 'immune' | 'resistant' | 'vulnerable';
+
+// Damage types a hero or enemy shrugs off or suffers from (heroes.json / enemies.json)
+export interface DamageDefenses {
+  resistances?: DamageTypeMatch[]; // Half damage
+  immunities?: DamageTypeMatch[]; // No damage
+  vulnerabilities?: DamageTypeMatch[]; // Double damage
+}
+
 export interface AbilityEffect {
   type: StatusEffectType | 'remove_status';
   // For status effects
@@ -62,7 +186,7 @@ export interface AbilityEffect {
   durationOnFail?: number | string; // Can be number or dice notation
   durationOnSave?: number;
   effectOnSave?: string; // e.g. "half_movement"
-  breaksOn?: string[]; // e.g. ["attack", "damage_taken"]
+  breaksOn?: StatusBreakTrigger[]; // e.g. ["attack", "damage_taken"]
   duration?: number | string; // For simple duration effects
   count?: number; // For remove_status
   // For zone effects (e.g. Entangle)
@@ -71,6 +195,34 @@ export interface AbilityEffect {
   damageOnTurnStart?: boolean;
 }
 
+// Moving an ability's target (e.g. Shillelagh's knockback)
+export interface ForcedMovement {
+  type: 'push' | 'pull' | 'swap'; // Away from the user, towards it, or trading places
+  distance?: number; // Tiles for push/pull (default 1)
+  collisionDamage?: string; // Dice when stopped by a wall or another unit (default "1d4")
+}
+
+// Non-rectangular areas of effect (rectangles use areaSize)
+export type AreaShape =
+  | { type: 'line'; length: number } // Straight out from the caster towards the aimed tile
+  | { type: 'cone'; length: number } // Widens by a tile on each side per step from the caster
+  | { type: 'burst'; radius: number } // Diamond centred on the aimed tile
+  | ChainArea;
+
+export interface ChainArea {
+  type: 'chain'; // Hits the target, then jumps to the nearest enemy not yet hit
+  jumps: number;
+  jumpRange: number; // Max tiles between one target and the next
+  falloff: number; // Damage multiplier per jump (e.g. 0.5 halves it each time)
+}
+
+// Creatures an ability brings onto the field next to its user
+export interface SummonEffect {
+  unit: string; // Creature ID in enemies.json
+  count?: number; // Default 1; fewer appear if there's no room
+  duration: number; // Rounds before they vanish
+}
+
 export interface Ability {
   id: string;
   name: string;
@@ -81,11 +233,19 @@ export interface Ability {
   range: number; // 0 = self, 1 = melee, 2+ = ranged
   targetType: TargetType;
   damage?: string; // Dice notation e.g. "1d10"
+  damageType?: DamageType; // Untyped damage ignores resistances
   damageOnSave?: 'half' | 'none';
   healing?: string; // Dice notation
   bonusDamageIfHidden?: string; // For Azrael's Psychic Dagger
+  backstabDamage?: string; // Extra dice when attacking the target from behind
+  critRange?: number; // Lowest natural d20 that crits (default 20; 19 = crits on 19-20)
+  ignoresLineOfSight?: boolean; // Reaches targets behind walls (e.g. Sacred Flame)
   effect?: AbilityEffect;
+  forcedMovement?: ForcedMovement; // Applied on a hit or failed save
+  summon?: SummonEffect; // Self-targeted: creatures fight for the user's side
   areaSize?: { width: number; height: number }; // For AOE abilities
+  area?: AreaShape; // Line, cone, burst or chain instead of a rectangle
+  concentration?: boolean; // Effect lasts only while the caster keeps concentrating
   levelRequired?: number; // Minimum hero level to use this ability
 }
 
@@ -110,7 +270,7 @@ export interface HeroStats extends BaseStats {
   maxKi?: number;
 }
 
-export interface HeroData {
+export interface HeroData extends DamageDefenses {
   id: string;
   name: string;
   race: string;
@@ -133,9 +293,10 @@ export interface HeroData {
   speed: number;
   abilities: string[];
   special?: string; // e.g. "double_action_if_stationary" for Azrael
+  swimming?: boolean; // Can wade through shallow water
 }
 
-export interface EnemyData {
+export interface EnemyData extends DamageDefenses {
   id: string;
   name: string;
   sprite: string;
@@ -149,6 +310,7 @@ export interface EnemyData {
   abilities: string[];
   xpReward: number;
   flying?: boolean; // Flying units ignore terrain restrictions
+  swimming?: boolean; // Swimming units can wade through shallow water
 }
 
 // =============================================================================
@@ -189,19 +351,89 @@ export interface CutsceneLine {
   portrait?: string; // Optional portrait key
 }
 
+// Rectangle of tiles (inclusive corners)
+export interface TileBounds {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Victory or defeat condition; units are named by instance ID ("vessan_1") or data ID ("vessan")
+export type BattleCondition =
+  | 'defeat_all' // Every enemy is down (summons don't count)
+  | 'all_heroes_down' // Every hero is down (always a defeat, whatever else is configured)
+  | { type: 'defeat_unit'; unit: string } // A boss is down
+  | { type: 'survive_rounds'; rounds: number } // This many rounds have ended
+  | { type: 'reach_area'; bounds: TileBounds; name?: string } // Any hero stands in the area
+  | { type: 'protect_unit'; unit: string } // Lost when this unit falls
+  | { type: 'hero_falls'; unit: string } // Lost when this hero falls
+  | { type: 'all'; conditions: BattleCondition[] } // AND
+  | { type: 'any'; conditions: BattleCondition[] }; // OR
+
+// Named tile reinforcements can arrive at (placed in the terrain editor)
+export interface SpawnPoint {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export type MapEdge = 'north' | 'south' | 'east' | 'west';
+
+// What fires a reinforcement wave or a battle event; units are named like in BattleCondition
+export type BattleTrigger =
+  | { type: 'round'; round: number } // At the start of this round
+  | { type: 'unit_hp_below'; unit: string; percent: number } // A unit (e.g. the boss) drops below this % of max HP
+  | { type: 'hero_enters'; bounds: TileBounds } // Any hero steps into the area
+  | { type: 'enemies_defeated'; count: number } // This many enemies are down (summons don't count)
+  | { type: 'unit_defeated'; unit: string } // The named unit is down
+  | { type: 'ability_used'; ability: string; unit?: string }; // Someone (or the named unit) uses the ability
+
+// Enemies joining mid-battle
+export interface EnemyArrival {
+  enemies: string[]; // Enemy type IDs, one per unit
+  from: MapEdge | string; // A map edge, or a spawn point ID
+}
+
+// A group of enemies that joins the battle once, mid-fight
+export interface ReinforcementWave extends EnemyArrival {
+  trigger: BattleTrigger;
+  announcement?: string; // Combat log line when they arrive (default: "Enemy reinforcements arrive!")
+}
+
+// Something a battle event does, in order
+export type BattleEventAction =
+  | { type: 'dialogue'; lines: CutsceneLine[] } // Battle waits while it plays
+  | { type: 'set_flag'; flag: string; value?: boolean } // Game flag (default: true)
+  | ({ type: 'spawn_units' } & EnemyArrival)
+  | { type: 'remove_unit'; unit: string; message?: string } // An enemy, summon or NPC leaves the field (e.g. "Vessan vanishes into the mist!")
+  | { type: 'change_terrain'; bounds: TileBounds; terrain: TerrainType }
+  | { type: 'grant_item'; item: string; quantity?: number }; // Item ID in items.json
+
+// A scripted story beat that plays once during a battle (e.g. the boss taunts at half HP)
+export interface BattleEvent {
+  trigger: BattleTrigger;
+  actions: BattleEventAction[];
+}
+
 export interface BattleConfig {
   id: string;
   displayName: string;
   mapImage: string;
   gridWidth: number;
   gridHeight: number;
-  terrain: number[][]; // 0=walkable, 1=difficult, 2=impassable
+  terrain: number[][]; // TerrainType per tile: 0=walkable, 1=difficult, 2=impassable, 3=cover, 4=hazard, 5=water, 6=high ground
+  elevation?: number[][]; // Optional height per tile (default 0) for higher ground
   heroStartPositions: Position[];
   enemies: EnemyPlacement[];
+  npcs?: EnemyPlacement[]; // Non-combatants on the heroes' side (creatures from enemies.json), e.g. to protect
+  spawnPoints?: SpawnPoint[]; // Where reinforcements can arrive besides the map edges
+  reinforcements?: ReinforcementWave[]; // Enemy waves that join mid-battle
+  events?: BattleEvent[]; // Scripted dialogue and actions during the battle
   props?: PropPlacement[]; // Optional static decorations
   chests?: ChestPlacement[]; // Optional treasure chests (lootable after battle)
-  victoryCondition: 'defeat_all';
-  defeatCondition: 'all_heroes_down';
+  victoryCondition: BattleCondition;
+  defeatCondition: BattleCondition;
   introCutscene?: string[] | CutsceneLine[]; // Simple strings or character-specific dialogue
   victoryCutscene?: string[] | CutsceneLine[]; // Simple strings or character-specific dialogue
   postVictoryScene?: string; // Special scene ID to trigger after victory cutscene
@@ -210,7 +442,7 @@ export interface BattleConfig {
   heroLevel?: number; // Override hero level for testing (default: use saved state or 1)
   postVictoryMode?: 'return_to_town' | 'explore' | 'to_be_continued'; // What happens after victory (default: return_to_town)
   exitTrigger?: {
-    bounds: { x1: number; y1: number; x2: number; y2: number };
+    bounds: TileBounds;
     destination: 'travel' | 'town' | 'post_battle_town'; // Where to go when player enters the trigger zone
   };
   returnPosition?: { x: number; y: number }; // Position on travel map when returning from battle
@@ -222,7 +454,7 @@ export interface BattleConfig {
 
 export type Team = 'hero' | 'enemy';
 
-export interface Unit {
+export interface Unit extends DamageDefenses {
   id: string; // Unique instance ID (e.g. "vicas" or "imp_1")
   dataId: string; // Reference to hero/enemy data ID
   name: string;
@@ -255,10 +487,12 @@ export interface Unit {
   hasMoved: boolean;
   hasActed: boolean;
   actionsRemaining: number; // Usually 1, but Azrael can have 2
+  hasReacted?: boolean; // Opportunity attack already made this round
 
   // Special flags
   special?: string;
   flying?: boolean; // Flying units ignore terrain restrictions
+  swimming?: boolean; // Swimming units can wade through shallow water
 
   // Equipment (heroes only)
   equipment?: string; // Equipped item ID
@@ -267,6 +501,19 @@ export interface Unit {
   // Permanent bonuses (heroes only)
   damageBonus?: number; // From +1 Damage Runes
 
+  // Summoned units (vanish when defeated or out of time)
+  summonerId?: string; // Unit that summoned this one
+  summonRoundsLeft?: number;
+
+  // Non-combatant on the heroes' side: takes no turns and isn't part of the party
+  npc?: boolean;
+
+  // Concentration (one effect at a time; damage can break it)
+  concentratingOn?: Concentration;
+
+  // Downed heroes roll death saves each turn (cleared when revived)
+  deathSaves?: DeathSaves;
+
   // Phaser references (set at runtime)
   sprite?: Phaser.GameObjects.Sprite;
   portrait?: string;
@@ -278,25 +525,89 @@ export interface Unit {
 // Combat Resolution
 // =============================================================================
 
+export interface DiceTermResult {
+  notation: string; // e.g. "+4d6dl1", "-1d4", "+2"
+  rolls: number[]; // Every die rolled, including exploded and dropped dice
+  kept: number[]; // Dice counted toward the total
+  dropped?: boolean[]; // Per-roll flag for dice removed by keep/drop
+  total: number; // Signed contribution of this term
+  isConstant?: boolean; // Flat modifier rather than dice
+}
+
 export interface DiceRoll {
-  dice: string; // e.g. "1d20", "2d6"
-  rolls: number[]; // Individual die results
+  dice: string; // e.g. "1d20", "2d6", "1d6+1d10+2"
+  rolls: number[]; // Individual die results (kept dice only)
   total: number;
   modifier?: number;
   finalTotal?: number; // total + modifier
+  terms?: DiceTermResult[]; // Per-term breakdown for expressions
+}
+
+// =============================================================================
+// Advantage / Disadvantage
+// =============================================================================
+
+export type AdvantageState = 'normal' | 'advantage' | 'disadvantage';
+
+// A data-declared reason to roll with advantage or disadvantage (advantage.json)
+export interface AdvantageSource {
+  id: string;
+  name: string; // Shown in the combat log, e.g. "Flanking"
+  roll: 'attack' | 'save'; // Which d20 roll it affects
+  effect: 'advantage' | 'disadvantage';
+  // attacker = attacker/caster, defender = defender/save target
+  condition: 'attacker_status' | 'defender_status' | 'flanking' | 'higher_ground';
+  status?: StatusEffectType; // For *_status conditions
+}
+
+// Positional facts about an attack, worked out by the caller from the grid
+export interface CombatSituation {
+  flanking?: boolean; // Attacker has an ally directly opposite the defender
+  higherGround?: boolean; // Attacker stands higher than the defender
+  cover?: number; // Defense bonus from the defender's terrain (ranged attacks only)
+  damageScale?: number; // Multiplier on the rolled damage (chain jumps)
+}
+
+// Both d20s of an advantage/disadvantage roll and which one counted
+export interface RollAdvantage {
+  state: AdvantageState;
+  d20s: number[]; // One die for normal rolls, two otherwise
+  usedIndex: number; // Index into d20s of the die that counted
+  sources: string[]; // Names of the sources that applied
 }
 
+// Where an attacker stands relative to the defender's facing
+export type AttackDirection = 'front' | 'side' | 'rear';
+
 export interface AttackResult {
   attacker: Unit;
   defender: Unit;
   ability: Ability;
   attackRoll: DiceRoll;
+  attackAdvantage: RollAdvantage;
   targetNumber: number;
   hit: boolean;
+  isCritical: boolean; // Natural roll within the ability's crit range (auto-hit, doubled dice)
+  isFumble: boolean; // Natural 1 (automatic miss)
+  attackDirection: AttackDirection; // Side of the defender struck, from its facing
+  facingBonus: number; // Attack bonus from attackDirection (included in attackRoll)
+  backstab?: boolean; // Ability's backstab dice were added to the damage
   damageRoll?: DiceRoll;
   totalDamage?: number;
+  damageModifier?: DamageModifier; // Defender's resistance, immunity or vulnerability (included in totalDamage)
   defenderNewHp?: number;
   defenderDefeated?: boolean;
+  statusesBroken?: StatusEffect[]; // Defender statuses the damage ended (e.g. hidden)
+}
+
+// Where a forced movement left its target
+export interface ForcedMoveResult {
+  unit: Unit;
+  type: ForcedMovement['type'];
+  from: Position;
+  path: Position[]; // Tiles moved through, ending at the final position (empty if it couldn't move)
+  collidedWith?: Unit | 'terrain'; // What stopped it short
+  swappedWith?: Unit; // The ability's user, for swaps
 }
 
 export interface SpellResult {
@@ -304,15 +615,18 @@ export interface SpellResult {
   target: Unit;
   ability: Ability;
   saveRoll: DiceRoll;
+  saveAdvantage?: RollAdvantage; // Only for rolled saves
   targetNumber: number;
   savePassed: boolean;
   damageRoll?: DiceRoll;
   totalDamage?: number;
+  damageModifier?: DamageModifier; // Target's resistance, immunity or vulnerability (included in totalDamage)
   healingRoll?: DiceRoll;
   totalHealing?: number;
   effectApplied?: StatusEffect;
   targetNewHp?: number;
   targetDefeated?: boolean;
+  statusesBroken?: StatusEffect[]; // Target statuses the damage ended (e.g. hidden)
 }
 
 // =============================================================================
@@ -335,6 +649,7 @@ export type BattlePhase =
   | 'select_action' // Hero selecting action (move/attack/ability/wait)
   | 'select_move' // Hero selecting movement destination
   | 'select_target' // Hero selecting ability target
+  | 'select_facing' // Hero choosing which way to face as their turn ends
   | 'executing_action' // Animation/resolution in progress
   | 'enemy_turn' // AI is deciding/acting
   | 'round_end' // Processing end-of-round effects
@@ -349,11 +664,14 @@ export interface BattleState {
   turnOrder: InitiativeEntry[];
   currentTurnIndex: number;
   units: Unit[];
+  departedUnits: Unit[]; // Left the field: dismissed summons and units battle events removed
   activeUnit: Unit | null;
   selectedAbility: Ability | null;
   highlightedTiles: Position[];
   targetedUnit: Unit | null;
   combatLog: string[];
+  zones: Zone[]; // Persistent zones on the battlefield (e.g. Entangle)
+  seed: number; // RNG seed for this battle (same seed + inputs = same rolls)
 }
 
 // =============================================================================
@@ -369,7 +687,9 @@ export interface Zone {
   height: number; // Zone height in tiles
   duration: number; // Rounds remaining
   damage: string; // Dice notation for damage
+  damageType?: DamageType; // From the ability that created the zone
   damageOnSave: 'half' | 'none'; // What happens on save
   casterId: string; // Who created the zone (for XP tracking)
+  concentration?: ConcentrationLink; // Fades when its caster loses concentration
   graphics?: Phaser.GameObjects.Graphics; // Visual outline
 }
@@ -0,0 +1,156 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  createHeroUnit,
+  applyDamage,
+  applyHealing,
+  addStatusEffect,
+  getEffectiveDefense,
+  processStatusEffects,
+  resetUnitTurnState,
+  markUnitMoved,
+  markUnitActed,
+  canUnitAct,
+  isTeamDefeated,
+} from './Unit';
+import { StatusEffect } from '../data/BattleTypes';
+import { heroesData, makeUnit, statusEffectsData } from '../test/helpers';
+import { setStatusEffectDefinitions } from '../systems/StatusEffects';
+
+beforeAll(() => {
+  setStatusEffectDefinitions(statusEffectsData);
+});
+
+describe('createHeroUnit', () => {
+  it.each(Object.values(heroesData).map(h => [h.id, h] as const))(
+    'builds %s from heroes.json without a scene',
+    (_id, hero) => {
+      const unit = createHeroUnit(hero, 2, 3);
+
+      expect(unit).toMatchObject({
+        id: hero.id,
+        team: 'hero',
+        gridX: 2,
+        gridY: 3,
+        currentHp: hero.hp,
+        maxHp: hero.maxHp,
+        abilities: hero.abilities,
+      });
+      expect(unit.sprite).toBeUndefined();
+    }
+  );
+});
+
+describe('damage and healing', () => {
+  it('knocks a unit out at 0 HP without going negative', () => {
+    const unit = makeUnit({ currentHp: 5 });
+    applyDamage(unit, 8);
+
+    expect(unit.currentHp).toBe(0);
+    expect(unit.isUnconscious).toBe(true);
+    expect(unit.statusEffects).toEqual([{ type: 'unconscious', duration: -1 }]);
+  });
+
+  it('breaks hidden when damaged', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'hidden', duration: -1 }] });
+    const log: string[] = [];
+
+    const broken = applyDamage(unit, 1, { log: (m) => log.push(m) });
+
+    expect(unit.statusEffects).toEqual([]);
+    expect(broken.map(e => e.type)).toEqual(['hidden']);
+    expect(log).toEqual([`${unit.name} is no longer hidden.`]);
+  });
+
+  it('breaks statuses that end on healing', () => {
+    const unit = makeUnit({
+      currentHp: 5,
+      statusEffects: [{ type: 'held', duration: 2, breaksOn: ['heal_received'] }],
+    });
+    applyHealing(unit, 3);
+    expect(unit.statusEffects).toEqual([]);
+  });
+
+  it('caps healing at max HP', () => {
+    const unit = makeUnit({ currentHp: 18, maxHp: 20 });
+    applyHealing(unit, 10);
+    expect(unit.currentHp).toBe(20);
+  });
+});
+
+describe('getEffectiveDefense', () => {
+  it.each<[string, StatusEffect[], number]>([
+    ['no effects', [], 12],
+    ['hidden', [{ type: 'hidden', duration: -1, value: 2 }], 14],
+    ['barkskin', [{ type: 'barkskin', duration: 3, value: 2 }], 14],
+    ['exposed', [{ type: 'exposed', duration: 1, value: 2 }], 10],
+    ['hidden and exposed', [
+      { type: 'hidden', duration: -1, value: 2 },
+      { type: 'exposed', duration: 1, value: 2 },
+    ], 12],
+  ])('with %s', (_name, statusEffects, defense) => {
+    expect(getEffectiveDefense(makeUnit({ defense: 12, statusEffects }))).toBe(defense);
+  });
+});
+
+describe('status effects', () => {
+  it('replaces an existing effect of the same type', () => {
+    const unit = makeUnit();
+    addStatusEffect(unit, { type: 'poison', duration: 2, value: 1 });
+    addStatusEffect(unit, { type: 'poison', duration: 4, value: 3 });
+
+    expect(unit.statusEffects).toEqual([{ type: 'poison', duration: 4, value: 3 }]);
+  });
+
+  it('ticks durations down and expires effects, keeping permanent ones', () => {
+    const unit = makeUnit({
+      statusEffects: [
+        { type: 'held', duration: 1 },
+        { type: 'poison', duration: 3 },
+        { type: 'hidden', duration: -1 },
+      ],
+    });
+
+    const { expiredEffects } = processStatusEffects(unit);
+
+    expect(expiredEffects).toEqual(['held']);
+    expect(unit.statusEffects).toEqual([
+      { type: 'poison', duration: 2 },
+      { type: 'hidden', duration: -1 },
+    ]);
+  });
+});
+
+describe('turn state', () => {
+  it('gives double-action units two actions when they stay put', () => {
+    const unit = makeUnit({ special: 'double_action_if_stationary' });
+    resetUnitTurnState(unit);
+
+    markUnitActed(unit);
+    expect(canUnitAct(unit)).toBe(true);
+    markUnitActed(unit);
+    expect(canUnitAct(unit)).toBe(false);
+  });
+
+  it('drops the second action when a double-action unit moves', () => {
+    const unit = makeUnit({ special: 'double_action_if_stationary' });
+    resetUnitTurnState(unit);
+
+    markUnitMoved(unit);
+    markUnitActed(unit);
+    expect(canUnitAct(unit)).toBe(false);
+  });
+});
+
+describe('isTeamDefeated', () => {
+  it('is true only when every unit on the team is unconscious', () => {
+    const units = [
+      makeUnit({ team: 'enemy', isUnconscious: true }),
+      makeUnit({ team: 'enemy' }),
+      makeUnit({ team: 'hero' }),
+    ];
+
+    expect(isTeamDefeated(units, 'enemy')).toBe(false);
+    units[1].isUnconscious = true;
+    expect(isTeamDefeated(units, 'enemy')).toBe(true);
+  });
+});
@@ -1,14 +1,22 @@
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
 import {
   Unit,
   HeroData,
   EnemyData,
   StatusEffect,
-  StatusEffectType,
-  STATUS_COLORS,
   Team,
 } from '../data/BattleTypes';
+import {
+  applyStatusEffect,
+  breakStatusEffects,
+  getStatModifier,
+  getStatusColor,
+  runStatusHook,
+  StatusHookHandlers,
+} from '../systems/StatusEffects';
+import { checkConcentration } from '../systems/Concentration';
+import { isOutOfBattle } from '../systems/DeathSaves';
 
 // HP Bar constants
 const HP_BAR_WIDTH = 24;
@@ -17,12 +25,13 @@ const HP_BAR_OFFSET_Y = -18; // Above the unit sprite
 
 /**
  * Factory function to create a hero Unit from HeroData
+ * Without a scene no sprite is created (headless battles)
  */
 export function createHeroUnit(
   heroData: HeroData,
   gridX: number,
   gridY: number,
-  scene: Phaser.Scene
+  scene?: Phaser.Scene
 ): Unit {
   const unit: Unit = {
     id: heroData.id,
@@ -50,6 +59,10 @@ export function createHeroUnit(
 
     portrait: heroData.portrait,
     special: heroData.special,
+    swimming: heroData.swimming,
+    resistances: heroData.resistances,
+    immunities: heroData.immunities,
+    vulnerabilities: heroData.vulnerabilities,
   };
 
   // Add mana or ki if applicable
@@ -62,6 +75,8 @@ export function createHeroUnit(
     unit.maxKi = heroData.maxKi;
   }
 
+  if (!scene) return unit;
+
   // Create sprite
   const pixelX = gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
   const pixelY = gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
@@ -75,13 +90,14 @@ export function createHeroUnit(
 
 /**
  * Factory function to create an enemy Unit from EnemyData
+ * Without a scene no sprite is created (headless battles)
  */
 export function createEnemyUnit(
   enemyData: EnemyData,
   instanceId: string,
   gridX: number,
   gridY: number,
-  scene: Phaser.Scene
+  scene?: Phaser.Scene
 ): Unit {
   const unit: Unit = {
     id: instanceId, // e.g., "imp_1", "lemure_2"
@@ -107,8 +123,14 @@ export function createEnemyUnit(
     hasActed: false,
     actionsRemaining: 1,
     flying: enemyData.flying,
+    swimming: enemyData.swimming,
+    resistances: enemyData.resistances,
+    immunities: enemyData.immunities,
+    vulnerabilities: enemyData.vulnerabilities,
   };
 
+  if (!scene) return unit;
+
   // Create sprite
   const pixelX = gridX * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
   const pixelY = gridY * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
@@ -120,6 +142,42 @@ export function createEnemyUnit(
   return unit;
 }
 
+/**
+ * Factory function to create a creature summoned onto the summoner's side
+ * Creature stats come from EnemyData; it faces the way its summoner does
+ */
+export function createSummonedUnit(
+  creatureData: EnemyData,
+  instanceId: string,
+  summoner: Unit,
+  gridX: number,
+  gridY: number,
+  scene?: Phaser.Scene
+): Unit {
+  const unit = createEnemyUnit(creatureData, instanceId, gridX, gridY, scene);
+  unit.team = summoner.team;
+  unit.facing = summoner.facing;
+  updateUnitFacing(unit, creatureData.sprite);
+  return unit;
+}
+
+/**
+ * Factory function to create a non-combatant on the heroes' side (e.g. a
+ * villager to protect). Stats come from EnemyData; it never takes a turn
+ */
+export function createNpcUnit(
+  creatureData: EnemyData,
+  instanceId: string,
+  gridX: number,
+  gridY: number,
+  scene?: Phaser.Scene
+): Unit {
+  const unit = createEnemyUnit(creatureData, instanceId, gridX, gridY, scene);
+  unit.team = 'hero';
+  unit.npc = true;
+  return unit;
+}
+
 /**
  * Get the sprite key for a unit based on facing direction
  */
@@ -214,6 +272,7 @@ export function moveUnitToGrid(
 export function resetUnitTurnState(unit: Unit): void {
   unit.hasMoved = false;
   unit.hasActed = false;
+  unit.hasReacted = false;
 
   // Azrael gets 2 actions if stationary
   if (unit.special === 'double_action_if_stationary') {
@@ -264,13 +323,16 @@ export function markUnitActed(unit: Unit): void {
 
 /**
  * Apply damage to unit
+ * Returns the statuses the damage broke (e.g. hidden), logged through handlers
  */
-export function applyDamage(unit: Unit, damage: number): void {
+export function applyDamage(unit: Unit, damage: number, handlers: StatusHookHandlers = {}): StatusEffect[] {
   unit.currentHp = Math.max(0, unit.currentHp - damage);
 
-  // Hidden breaks when taking damage
-  if (hasStatusEffect(unit, 'hidden') && damage > 0) {
-    removeStatusEffect(unit, 'hidden');
+  // Statuses that react to damage (e.g. hidden breaks)
+  let broken: StatusEffect[] = [];
+  if (damage > 0) {
+    runStatusHook(unit, 'onDamageTaken', { log: handlers.log });
+    broken = breakStatusEffects(unit, 'damage_taken', handlers);
   }
 
   // Update HP bar
@@ -288,24 +350,38 @@ export function applyDamage(unit: Unit, damage: number): void {
       unit.sprite.setAngle(90);
     }
   }
+
+  // Damage can break concentration (the engine ends its effects)
+  checkConcentration(unit, damage);
+
+  return broken;
 }
 
 /**
  * Apply healing to unit
  */
 export function applyHealing(unit: Unit, healing: number): void {
+  // Heroes who failed three death saves stay down for the rest of the battle
+  if (isOutOfBattle(unit)) return;
+
   const wasUnconscious = unit.isUnconscious;
 
   unit.currentHp = Math.min(unit.maxHp, unit.currentHp + healing);
 
+  if (healing > 0) {
+    breakStatusEffects(unit, 'heal_received');
+  }
+
   // Revive if was unconscious and now has HP
   if (wasUnconscious && unit.currentHp > 0) {
     unit.isUnconscious = false;
     unit.statusEffects = unit.statusEffects.filter(e => e.type !== 'unconscious');
+    unit.deathSaves = undefined;
 
-    // Reset sprite rotation
+    // Reset sprite rotation and the defeat fade
     if (unit.sprite) {
       unit.sprite.setAngle(0);
+      unit.sprite.setAlpha(1);
     }
   }
 
@@ -314,12 +390,11 @@ export function applyHealing(unit: Unit, healing: number): void {
 }
 
 /**
- * Add status effect to unit
+ * Add status effect to unit (combined with an existing one by its stacking rule)
+ * Returns the status now on the unit, or undefined if it was ignored
  */
-export function addStatusEffect(unit: Unit, effect: StatusEffect): void {
-  // Remove existing effect of same type (replace it)
-  unit.statusEffects = unit.statusEffects.filter(e => e.type !== effect.type);
-  unit.statusEffects.push(effect);
+export function addStatusEffect(unit: Unit, effect: StatusEffect): StatusEffect | undefined {
+  return applyStatusEffect(unit, effect);
 }
 
 /**
@@ -484,9 +559,9 @@ export function updateConditionMarkers(unit: Unit, scene: Phaser.Scene): void {
     return;
   }
 
-  // Get visible status effects (exclude unconscious)
+  // Get visible status effects (exclude hidden ones like unconscious)
   const visibleEffects = unit.statusEffects.filter(
-    (e) => e.type !== 'unconscious' && STATUS_COLORS[e.type as StatusEffectType]
+    (e) => getStatusColor(e.type) !== undefined
   );
 
   if (visibleEffects.length === 0) {
@@ -495,7 +570,7 @@ export function updateConditionMarkers(unit: Unit, scene: Phaser.Scene): void {
 
   // Get the primary effect's color for the border
   const primaryEffect = visibleEffects[0];
-  const borderColor = STATUS_COLORS[primaryEffect.type as StatusEffectType];
+  const borderColor = getStatusColor(primaryEffect.type)!;
 
   // Draw colored border around the tile
   const border = scene.add.graphics();
@@ -531,6 +606,23 @@ export function updateConditionMarkers(unit: Unit, scene: Phaser.Scene): void {
     unit.conditionMarkerContainer.add(durText);
   }
 
+  // Concentration effects show their caster's initial (top-right corner)
+  if (primaryEffect.concentration) {
+    const casterText = scene.add.text(
+      CONDITION_MARKER_SIZE / 2 - 6,
+      -CONDITION_MARKER_SIZE / 2 + 6,
+      primaryEffect.concentration.casterName.charAt(0),
+      {
+        fontFamily: 'monospace',
+        fontSize: '8px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }
+    ).setOrigin(0.5);
+    unit.conditionMarkerContainer.add(casterText);
+  }
+
   // Show multiple effect indicator if more than one effect (top-left corner)
   if (visibleEffects.length > 1) {
     const multiText = scene.add.text(
@@ -562,27 +654,7 @@ export function updateConditionMarkerPosition(unit: Unit): void {
  * Calculate effective defense (base + modifiers from status effects)
  */
 export function getEffectiveDefense(unit: Unit): number {
-  let defense = unit.defense;
-
-  // Hidden bonus
-  if (hasStatusEffect(unit, 'hidden')) {
-    const hidden = getStatusEffect(unit, 'hidden');
-    defense += hidden?.value || 2;
-  }
-
-  // Barkskin bonus
-  if (hasStatusEffect(unit, 'barkskin')) {
-    const barkskin = getStatusEffect(unit, 'barkskin');
-    defense += barkskin?.value || 2;
-  }
-
-  // Exposed penalty
-  if (hasStatusEffect(unit, 'exposed')) {
-    const exposed = getStatusEffect(unit, 'exposed');
-    defense -= exposed?.value || 2;
-  }
-
-  return defense;
+  return unit.defense + getStatModifier(unit, 'defense');
 }
 
 /**
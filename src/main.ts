@@ -25,6 +25,8 @@ const isLevelUpTest = urlParams.get('levelup') === 'true';
 const battleMap = urlParams.get('map') || 'hellhound_cave'; // Optional: specify which battle
 const levelUpHero = urlParams.get('hero') || 'vicas'; // Optional: which hero to show level up for
 const levelUpLevel = parseInt(urlParams.get('level') || '2'); // Optional: what level they reached
+const seedParam = urlParams.get('seed'); // Optional: campaign RNG seed for reproducing battles
+const replayFile = urlParams.get('replay'); // Optional: exported battle replay (JSON path/URL) to play back
 
 // Determine which scenes to load based on mode
 let scenes: Phaser.Types.Scenes.SceneType[];
@@ -35,6 +37,9 @@ if (isEditorMode) {
   scenes = [TerrainEditorScene];
   gameWidth = 1200;
   gameHeight = 800;
+} else if (replayFile) {
+  // Replay mode: PreloadScene loads the replay log, then plays it back in BattleScene
+  scenes = [BootScene, PreloadScene, BattleScene];
 } else if (isMenuTest) {
   // Menu test mode: PreloadScene loads assets, then jumps directly to MenuScene
   scenes = [BootScene, PreloadScene, MenuScene];
@@ -82,6 +87,12 @@ if (isMenuTest) {
 if (isEditorMode && editorMap) {
   game.registry.set('editorMap', editorMap);
 }
+if (replayFile) {
+  game.registry.set('replayFile', replayFile);
+}
+if (seedParam !== null && !isNaN(parseInt(seedParam))) {
+  game.registry.set('rngSeed', parseInt(seedParam) >>> 0);
+}
 if (isLevelUpTest) {
   game.registry.set('levelUpTestMode', true);
   game.registry.set('levelUpHero', levelUpHero);
@@ -8,15 +8,27 @@ import {
   BattlePhase,
   InitiativeEntry,
   Ability,
-  STATUS_COLORS,
-  StatusEffectType,
-  Zone,
+  Team,
+  CombatSituation,
+  RollAdvantage,
+  AttackResult,
+  SpellResult,
+  SummonEffect,
+  EnemyArrival,
+  BattleEventAction,
+  CutsceneLine,
+  TileBounds,
+  TerrainType,
+  DeathSaves,
 } from '../data/BattleTypes';
-import { createHeroUnit, createEnemyUnit, moveUnitToGrid, resetUnitTurnState, hasStatusEffect, createHpBar, createConditionMarkers, updateConditionMarkers, updateHpBar, applyHealing, markUnitMoved } from '../entities/Unit';
-import { GridManager } from '../systems/GridManager';
-import { rollInitiative, rollDice } from '../systems/DiceRoller';
+import { createHeroUnit, createEnemyUnit, createNpcUnit, createSummonedUnit, moveUnitToGrid, createHpBar, createConditionMarkers, updateConditionMarkers, updateUnitFacing, applyHealing, markUnitMoved } from '../entities/Unit';
+import { GridManager, getTerrainRules } from '../systems/GridManager';
+import { rollDice, formatRoll, generateSeed, deriveSeed, setRollListener } from '../systems/DiceRoller';
 import {
   resolveAttack,
+  describeBrokenStatuses,
+  describeFacingBonus,
+  forecastFacingBonus,
   resolveSpell,
   resolveHeal,
   resolveSelfAbility,
@@ -24,8 +36,37 @@ import {
   payAbilityCost,
   getValidTargets,
   getDistance,
+  setAdvantageSources,
+  getOpportunityAttackers,
+  getPathOpportunityAttackers,
+  resolveOpportunityAttack,
+  getTriggeredForcedMovement,
 } from '../systems/CombatResolver';
 import { AIController } from '../systems/AIController';
+import { describeDamageModifier } from '../systems/DamageTypes';
+import { describeDeathSaves, isOutOfBattle } from '../systems/DeathSaves';
+import { describeObjectives, getConditionAreas, getDefeatConditions, ObjectiveStatus } from '../systems/BattleConditions';
+import { findArrivalTile, getEntryFacing, getEntryTiles, isMapEdge } from '../systems/Reinforcements';
+import {
+  getAreaDamageScale,
+  getAreaOriginOn,
+  getAreaTiles,
+  getChainTargets,
+  getStepFrom,
+  getUnitsInArea,
+  isAreaAbility,
+  isDirectionalArea,
+  isMultiTargetAbility,
+} from '../systems/AreaShapes';
+import {
+  setStatusEffectDefinitions,
+  getStatusColor,
+  getEffectiveStat,
+  getMovementAllowance,
+  isNegativeStatus,
+} from '../systems/StatusEffects';
+import { BattleEngine } from '../systems/BattleEngine';
+import { BattleRecorder, BattleReplayLog, ReplayDivergence, ReplayPlayer } from '../systems/BattleReplay';
 import { DialogueRenderer } from '../systems/DialogueRenderer';
 import { XPTracker } from '../systems/XPTracker';
 import { HeroState, SaveManager, SaveSlotPreview } from '../systems/SaveManager';
@@ -43,11 +84,26 @@ interface BattleSceneData {
   playTime?: number; // Play time from save
   inventory?: InventoryState; // Party inventory from save (Phase 10)
   chests?: Record<string, ChestState>; // Chest states from save (Phase 10)
+  seed?: number; // Explicit battle RNG seed (overrides the campaign seed)
+  replay?: BattleReplayLog; // Play back a recorded battle instead of taking input
+}
+
+// Where a hero stood before moving, so the move can be taken back until they act
+interface MoveUndoState {
+  unit: Unit;
+  gridX: number;
+  gridY: number;
+  facing: Unit['facing'];
+  texture?: string; // Sprite texture for the old facing
+  actionsRemaining: number; // Azrael's stationary double action
 }
 
 // Movement range for all units (per Phase 4 design: fixed 6 squares)
 const MOVEMENT_RANGE = 6;
 
+// Replays advance result panels on their own after this long (ms)
+const REPLAY_ADVANCE_DELAY = 1200;
+
 export class BattleScene extends Phaser.Scene {
   // Map and display
   private mapImage!: Phaser.GameObjects.Image;
@@ -59,6 +115,7 @@ export class BattleScene extends Phaser.Scene {
   private battleMap: string = 'south_gate';
   private heroId: string = 'vicas';
   private devMode: boolean = false;
+  private battleSeed: number = 0; // RNG seed for this battle's dice
 
   // Data references
   private heroesData!: Record<string, HeroData>;
@@ -71,10 +128,10 @@ export class BattleScene extends Phaser.Scene {
   // AI system
   private aiController!: AIController;
 
-  // Units
-  private units: Unit[] = [];
+  // Units (all units live in engine state; these are per-team views)
   private heroUnits: Unit[] = [];
   private enemyUnits: Unit[] = [];
+  private summonedUnits: Unit[] = []; // Either side's summons currently on the field
 
   // Static props (non-interactable decorations)
   private propSprites: Phaser.GameObjects.Sprite[] = [];
@@ -85,12 +142,30 @@ export class BattleScene extends Phaser.Scene {
   private isMoving: boolean = false;
   private isInMovementMode: boolean = false;
 
-  // Turn system state
-  private turnOrder: InitiativeEntry[] = [];
-  private currentTurnIndex: number = 0;
-  private round: number = 0;
-  private phase: BattlePhase = 'rolling_initiative';
-  private activeUnit: Unit | null = null;
+  // Turn system - round/turn state is owned by the engine (BattleState)
+  private engine!: BattleEngine;
+
+  private get units(): Unit[] {
+    return this.engine.state.units;
+  }
+  private get turnOrder(): InitiativeEntry[] {
+    return this.engine.state.turnOrder;
+  }
+  private get currentTurnIndex(): number {
+    return this.engine.state.currentTurnIndex;
+  }
+  private get round(): number {
+    return this.engine.state.round;
+  }
+  private get activeUnit(): Unit | null {
+    return this.engine.state.activeUnit;
+  }
+  private get phase(): BattlePhase {
+    return this.engine.state.phase;
+  }
+  private set phase(phase: BattlePhase) {
+    this.engine.state.phase = phase;
+  }
 
   // Action menu state
   private actionMenuContainer: Phaser.GameObjects.Container | null = null;
@@ -109,16 +184,22 @@ export class BattleScene extends Phaser.Scene {
   private validTargets: Unit[] = [];
   private targetIndex: number = 0;
   private targetHighlightGraphics!: Phaser.GameObjects.Graphics;
+  private targetForecastText: Phaser.GameObjects.Text | null = null; // Side/rear bonus for the selected target
+
+  // Set when a hero's turn starts; they pick a facing before it ends
+  private facingChoicePending: boolean = false;
 
   // AOE targeting state
   private isAOETargeting: boolean = false;
   private aoeOrigin: { x: number; y: number } = { x: 0, y: 0 };
-  private aoeSize: { width: number; height: number } = { width: 2, height: 2 };
   private validAOETiles: { x: number; y: number }[] = [];
 
-  // Persistent zones (e.g. Entangle)
-  private zones: Zone[] = [];
+  // Persistent zones (e.g. Entangle) - zone state is owned by the engine
   private zoneGraphics!: Phaser.GameObjects.Graphics;
+  private zoneLabels: Phaser.GameObjects.Text[] = []; // Caster names on concentration zones
+
+  // Areas the heroes must reach (reach_area conditions)
+  private objectiveAreaGraphics!: Phaser.GameObjects.Graphics;
 
   // Cursor for keyboard movement
   private cursorGraphics!: Phaser.GameObjects.Graphics;
@@ -136,6 +217,8 @@ export class BattleScene extends Phaser.Scene {
   private uiContainer!: Phaser.GameObjects.Container;
   private turnOrderContainer!: Phaser.GameObjects.Container;
   private roundText!: Phaser.GameObjects.Text;
+  private objectivesBg!: Phaser.GameObjects.Graphics;
+  private objectivesTexts: Phaser.GameObjects.Text[] = [];
 
   // Combat log
   private combatLogContainer!: Phaser.GameObjects.Container;
@@ -171,6 +254,14 @@ export class BattleScene extends Phaser.Scene {
   // Enemy turn indicator (Phase 8 - visual polish)
   private enemyTurnIndicator: Phaser.GameObjects.Container | null = null;
 
+  // Replay recording (normal battles) or playback (?replay=)
+  private recorder: BattleRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayHudText: Phaser.GameObjects.Text | null = null;
+
+  // Last hero move, until the hero acts, uses an item or ends the turn
+  private moveUndo: MoveUndoState | null = null;
+
   // Input grace period (prevents stuck keys from TravelScene transition)
   private inputEnabled: boolean = false;
 
@@ -185,6 +276,7 @@ export class BattleScene extends Phaser.Scene {
   private gameFlags: Record<string, boolean> = {};
   private playTime: number = 0;
   private sessionStartTime: number = 0;
+  private ironmanSlot: number | undefined; // Ironman campaign's save slot (permadeath, auto-save)
 
   constructor() {
     super({ key: 'BattleScene' });
@@ -212,23 +304,37 @@ export class BattleScene extends Phaser.Scene {
     this.heroId = data.heroId || 'vicas';
     this.devMode = data.devMode ?? false;
 
+    // Replay mode plays back a recorded log instead of taking input
+    this.replayPlayer = data.replay ? new ReplayPlayer(data.replay) : null;
+
+    // Battle seed makes the dice reproducible (applied by the engine)
+    this.battleSeed = data.replay?.seed ?? data.seed ?? this.getBattleSeed();
+    console.log(`Battle seed: ${this.battleSeed}`);
+
     // Initialize hero state and XP tracking (Phase 5)
-    this.heroState = data.heroState || SaveManager.createInitialHeroState();
+    this.heroState = data.replay
+      ? structuredClone(data.replay.heroState)
+      : data.heroState || SaveManager.createInitialHeroState();
     this.gameFlags = data.gameFlags || {};
     this.playTime = data.playTime || 0;
     this.sessionStartTime = Date.now();
     this.xpTracker = new XPTracker(this.heroState);
 
+    // Replays never touch the campaign
+    this.ironmanSlot = data.replay ? undefined : this.registry.get('ironmanSlot');
+
     // Initialize inventory and loot system (Phase 10)
     // Load items data from Phaser cache (loaded in PreloadScene)
     const itemsJson = this.cache.json.get('data_items');
     if (itemsJson) {
       InventoryManager.setItemsData(itemsJson);
     }
-    this.inventory = data.inventory || createDefaultInventory();
+    this.inventory = data.replay
+      ? structuredClone(data.replay.inventory)
+      : data.inventory || createDefaultInventory();
     this.chestStates = data.chests || {};
     this.inventoryManager = new InventoryManager(this.inventory, this.heroState);
-    this.lootManager = new LootManager(this.chestStates, this.inventoryManager);
+    this.lootManager = new LootManager(this.chestStates, this.inventoryManager, this.registry.get('rngSeed'));
     this.explorationChests = [];
 
     // Reset state
@@ -237,18 +343,12 @@ export class BattleScene extends Phaser.Scene {
     this.isMoving = false;
     this.isInMovementMode = false;
     this.cursorPosition = { x: 0, y: 0 };
-    this.units = [];
     this.heroUnits = [];
     this.enemyUnits = [];
+    this.summonedUnits = [];
+    this.zoneLabels = [];
     this.propSprites = [];
 
-    // Reset turn system state
-    this.turnOrder = [];
-    this.currentTurnIndex = 0;
-    this.round = 0;
-    this.phase = 'rolling_initiative';
-    this.activeUnit = null;
-
     // Reset action menu and targeting state
     this.actionMenuContainer = null;
     this.actionMenuIndex = 0;
@@ -257,6 +357,8 @@ export class BattleScene extends Phaser.Scene {
     this.selectedAbility = null;
     this.validTargets = [];
     this.targetIndex = 0;
+    this.targetForecastText = null;
+    this.facingChoicePending = false;
 
     // Reset item menu state
     this.itemMenuContainer = null;
@@ -267,33 +369,41 @@ export class BattleScene extends Phaser.Scene {
     // Reset AOE targeting state
     this.isAOETargeting = false;
     this.aoeOrigin = { x: 0, y: 0 };
-    this.aoeSize = { width: 2, height: 2 };
     this.validAOETiles = [];
 
-    // Reset persistent zones
-    this.zones = [];
-
     // Reset combat log
     this.combatLogMessages = [];
 
     // Reset click-to-advance state
     this.waitingForAdvance = false;
     this.pendingAdvanceCallback = null;
+    this.moveUndo = null;
 
-    // Load data
-    this.loadBattleData();
+    // Reset battle event dialogue
+    this.eventDialogueQueue = [];
+    this.afterEventDialogue = [];
+    this.eventDialogueActive = false;
+
+    // Load data (replays use the config they were recorded with)
+    this.loadBattleData(data.replay && structuredClone(data.replay.config));
 
     // Override hero state if battle config specifies a heroLevel (for testing)
-    if (this.battleConfig.heroLevel && !data.heroState) {
+    if (this.battleConfig.heroLevel && !data.heroState && !data.replay) {
       this.heroState = SaveManager.createHeroStateAtLevel(this.battleConfig.heroLevel);
       this.xpTracker = new XPTracker(this.heroState);
     }
 
+    // Initialize battle engine (fresh turn system state, units and zones)
+    this.engine = new BattleEngine(this.battleConfig, this.battleSeed);
+    this.setupEngineEvents();
+    this.setupReplay();
+
     // Initialize grid manager
     this.gridManager = new GridManager(
       this.battleConfig.terrain,
       this.battleConfig.gridWidth,
-      this.battleConfig.gridHeight
+      this.battleConfig.gridHeight,
+      this.battleConfig.elevation
     );
 
     // Initialize AI controller
@@ -312,6 +422,11 @@ export class BattleScene extends Phaser.Scene {
     this.zoneGraphics = this.add.graphics();
     this.zoneGraphics.setDepth(5); // Above terrain, below units
 
+    // Create objective area graphics (drawn once, under zones)
+    this.objectiveAreaGraphics = this.add.graphics();
+    this.objectiveAreaGraphics.setDepth(4);
+    this.drawObjectiveAreas();
+
     // Create cursor graphics (on top of everything except UI)
     this.cursorGraphics = this.add.graphics();
 
@@ -321,6 +436,7 @@ export class BattleScene extends Phaser.Scene {
     // Place units
     this.placeHeroes();
     this.placeEnemies();
+    this.placeNpcs();
 
     // Place static props (non-interactable decorations)
     this.placeProps();
@@ -344,6 +460,9 @@ export class BattleScene extends Phaser.Scene {
 
     // Show battle start info
     this.showBattleInfo();
+    if (this.replayPlayer) {
+      this.createReplayHud();
+    }
 
     // Initialize dialogue renderer for cutscenes - position at bottom-left
     this.dialogueRenderer = new DialogueRenderer(this);
@@ -360,8 +479,8 @@ export class BattleScene extends Phaser.Scene {
       roundsCompleted: 0,
     };
 
-    // Check for intro cutscene
-    if (this.battleConfig.introCutscene && this.battleConfig.introCutscene.length > 0) {
+    // Check for intro cutscene (skipped when watching a replay)
+    if (this.battleConfig.introCutscene && this.battleConfig.introCutscene.length > 0 && !this.replayPlayer) {
       this.showIntroCutscene();
     } else {
       // Start the battle - roll initiative and begin first round
@@ -555,12 +674,240 @@ export class BattleScene extends Phaser.Scene {
     });
 
     // Trigger victory
-    this.handleVictory();
+    this.engine.checkBattleEnd();
+  }
+
+  /**
+   * Derive this battle's seed from the campaign seed (creating one if needed)
+   */
+  private getBattleSeed(): number {
+    let campaignSeed: number | undefined = this.registry.get('rngSeed');
+    if (campaignSeed === undefined) {
+      campaignSeed = generateSeed();
+      this.registry.set('rngSeed', campaignSeed);
+    }
+    return deriveSeed(campaignSeed, this.battleMap);
+  }
+
+  // ============================================
+  // Replay Recording / Playback
+  // ============================================
+
+  /**
+   * Record this battle, or hook a replay's roll checks and speed into the scene
+   */
+  private setupReplay(): void {
+    const player = this.replayPlayer;
+
+    // Playback speed scales every delay and tween (restarts keep the clock's scale)
+    this.time.timeScale = player?.getSpeed() ?? 1;
+    this.tweens.timeScale = player?.getSpeed() ?? 1;
+
+    if (player) {
+      setRollListener((roll) => {
+        const divergence = player.checkRoll(roll);
+        if (divergence) {
+          this.reportReplayDivergence(divergence);
+        }
+      });
+    } else {
+      this.recorder = new BattleRecorder(
+        this.battleConfig,
+        this.battleSeed,
+        this.heroState,
+        this.inventory
+      );
+      const recorder = this.recorder;
+      setRollListener((roll) => recorder.addRoll(roll));
+    }
+
+    this.events.once('shutdown', () => setRollListener(null));
+  }
+
+  /**
+   * Rolls stopped matching the log - the rules or data changed since it was recorded
+   */
+  private reportReplayDivergence(divergence: ReplayDivergence): void {
+    const expected = divergence.expected
+      ? `${divergence.expected.dice} = ${divergence.expected.total}`
+      : 'no roll';
+    console.warn(
+      `Replay diverged at entry ${divergence.entryIndex}: expected ${expected}, ` +
+      `got ${divergence.actual.dice} = ${divergence.actual.total}`
+    );
+    this.showFloatingMessage('Replay diverged from the log!', 0xff4444, 2000);
+    this.updateReplayHud();
+  }
+
+  /**
+   * Play the active hero's next recorded action
+   * Ends the turn if the log has nothing more for it
+   */
+  private playNextReplayAction(): void {
+    const player = this.replayPlayer;
+    const unit = this.activeUnit;
+    if (!player || !unit) return;
+
+    player.whenReady(() => {
+      const action = player.nextAction();
+      if (!action || action.unitId !== unit.id) {
+        this.waitAction();
+        return;
+      }
+
+      switch (action.type) {
+        case 'move': {
+          const destination = action.path[action.path.length - 1];
+          const path = destination &&
+            this.gridManager.findPath(
+              unit.gridX, unit.gridY, destination.x, destination.y, unit, getMovementAllowance(unit, MOVEMENT_RANGE)
+            );
+          if (!path || path.length === 0) {
+            console.warn(`Replay move for ${unit.name} is no longer possible`);
+            this.waitAction();
+            return;
+          }
+          this.selectUnit(unit);
+          this.moveSelectedUnit(destination.x, destination.y);
+          break;
+        }
+
+        case 'ability': {
+          const ability = this.abilitiesData[action.abilityId];
+          const targets = action.targetIds
+            .map(id => this.units.find(u => u.id === id))
+            .filter((u): u is Unit => u !== undefined);
+
+          if (ability && action.origin) {
+            this.executeAOEAbility(ability, targets, action.origin, action.size);
+          } else if (ability && targets.length > 0) {
+            this.executeAbility(ability, targets[0]);
+          } else {
+            console.warn(`Replay ability ${action.abilityId} could not be played`);
+            this.waitAction();
+          }
+          break;
+        }
+
+        case 'item': {
+          const target = this.units.find(u => u.id === action.targetId);
+          if (!target) {
+            this.waitAction();
+            return;
+          }
+          this.selectedItemId = action.itemId;
+          this.executeItemUse(target);
+          break;
+        }
+
+        case 'wait':
+          this.waitAction();
+          break;
+      }
+    });
+  }
+
+  /**
+   * Run a playback step now, or once the replay is resumed/stepped
+   * Runs immediately outside replays
+   */
+  private whenReplayReady(step: () => void): void {
+    if (this.replayPlayer) {
+      this.replayPlayer.whenReady(step);
+    } else {
+      step();
+    }
+  }
+
+  /**
+   * Replay controls: SPACE pause/resume, N step, F speed, ENTER watch again
+   */
+  private setupReplayInput(): void {
+    const player = this.replayPlayer;
+    if (!player) return;
+
+    const keyboard = this.input.keyboard!;
+
+    keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE).on('down', () => {
+      player.togglePause();
+      this.updateReplayHud();
+    });
+
+    keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.N).on('down', () => {
+      player.step();
+    });
+
+    keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F).on('down', () => {
+      const speed = player.cycleSpeed();
+      this.time.timeScale = speed;
+      this.tweens.timeScale = speed;
+      this.updateReplayHud();
+    });
+
+    keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER).on('down', () => {
+      if (this.resultScreenContainer) {
+        this.scene.restart({ battleMap: this.battleMap, heroId: this.heroId, replay: player.log });
+      }
+    });
+
+    keyboard.resetKeys();
+  }
+
+  /**
+   * Playback status in the top-right corner
+   */
+  private createReplayHud(): void {
+    this.replayHudText = this.add.text(this.cameras.main.width - 10, 10, '', {
+      fontFamily: 'monospace',
+      fontSize: '12px',
+      color: '#ffffff',
+      backgroundColor: '#000000aa',
+      padding: { x: 6, y: 4 },
+    });
+    this.replayHudText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+    this.replayHudText.setOrigin(1, 0);
+    this.replayHudText.setScrollFactor(0);
+    this.replayHudText.setDepth(900);
+    this.cameras.main.ignore(this.replayHudText);
+    this.updateReplayHud();
+  }
+
+  private updateReplayHud(): void {
+    const player = this.replayPlayer;
+    if (!this.replayHudText || !player) return;
+
+    const status = player.isPaused() ? 'PAUSED' : 'PLAYING';
+    const lines = [
+      `REPLAY ${status}  x${player.getSpeed()}`,
+      'SPACE: pause  N: step  F: speed',
+    ];
+    if (player.hasDiverged()) {
+      lines.push('Diverged from log!');
+    }
+    this.replayHudText.setText(lines.join('\n'));
+    this.replayHudText.setColor(player.hasDiverged() ? '#ff6666' : '#ffffff');
+  }
+
+  /**
+   * Download the recorded battle as JSON (play it back with ?replay=<file>)
+   */
+  private exportReplay(): void {
+    if (!this.recorder) return;
+
+    const blob = new Blob([this.recorder.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay_${this.battleMap}_${this.battleSeed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.addCombatLogMessage('Replay exported');
   }
 
-  private loadBattleData(): void {
+  private loadBattleData(config?: BattleConfig): void {
     // Load battle configuration
-    this.battleConfig = this.cache.json.get(`data_battle_${this.battleMap}`);
+    this.battleConfig = config ?? this.cache.json.get(`data_battle_${this.battleMap}`);
     if (!this.battleConfig) {
       console.error(`Battle config not found for: ${this.battleMap}`);
       return;
@@ -570,6 +917,12 @@ export class BattleScene extends Phaser.Scene {
     this.heroesData = this.cache.json.get('data_heroes');
     this.enemiesData = this.cache.json.get('data_enemies');
     this.abilitiesData = this.cache.json.get('data_abilities');
+
+    // Advantage/disadvantage sources (status effects, flanking, higher ground)
+    setAdvantageSources(this.cache.json.get('data_advantage'));
+
+    // Status condition rules (modifiers, hooks, stacking)
+    setStatusEffectDefinitions(this.cache.json.get('data_status_effects'));
   }
 
   private setupMap(): void {
@@ -599,6 +952,9 @@ export class BattleScene extends Phaser.Scene {
         return;
       }
 
+      // Heroes lost in an Ironman campaign don't take the field
+      if (this.ironmanSlot !== undefined && !this.heroState[heroId]) return;
+
       const pos = positions[index];
       const unit = createHeroUnit(heroData, pos.x, pos.y, this);
 
@@ -723,6 +1079,38 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
+  /**
+   * Place non-combatants on the heroes' side (they take no turns)
+   */
+  private placeNpcs(): void {
+    for (const placement of this.battleConfig.npcs ?? []) {
+      const npcData = this.enemiesData[placement.type];
+      if (!npcData) {
+        console.error(`NPC data not found for: ${placement.type}`);
+        continue;
+      }
+
+      const unit = createNpcUnit(
+        npcData,
+        this.engine.nextEnemyId(placement.type),
+        placement.x,
+        placement.y,
+        this
+      );
+      unit.facing = this.battleConfig.heroFacing || 'south';
+      updateUnitFacing(unit, npcData.sprite);
+      if (unit.sprite) {
+        unit.sprite.setInteractive({ useHandCursor: true });
+        unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+      }
+
+      createHpBar(unit, this);
+      createConditionMarkers(unit, this);
+
+      this.units.push(unit);
+    }
+  }
+
   /**
    * Place static props (non-interactable decorations like unconscious NPCs)
    */
@@ -791,6 +1179,7 @@ export class BattleScene extends Phaser.Scene {
     this.uiCamera.ignore(this.pathPreviewGraphics);
     this.uiCamera.ignore(this.targetHighlightGraphics);
     this.uiCamera.ignore(this.zoneGraphics);
+    this.uiCamera.ignore(this.objectiveAreaGraphics);
 
     // Ignore prop sprites
     if (this.propSprites) {
@@ -839,6 +1228,12 @@ export class BattleScene extends Phaser.Scene {
   }
 
   private setupInput(): void {
+    // Replays only take playback controls
+    if (this.replayPlayer) {
+      this.setupReplayInput();
+      return;
+    }
+
     // ENTER key - context-dependent confirm
     const enterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
     enterKey.on('down', () => {
@@ -848,15 +1243,15 @@ export class BattleScene extends Phaser.Scene {
         return;
       }
 
-      // Handle click-to-advance first (Shining Force style)
-      if (this.waitingForAdvance) {
-        this.handleAdvance();
+      // Handle dialogue advancement first (battle event dialogue can play over an action result)
+      if (this.dialogueRenderer && this.dialogueRenderer.isDialogueActive()) {
+        this.dialogueRenderer.advance();
         return;
       }
 
-      // Handle dialogue advancement
-      if (this.dialogueRenderer && this.dialogueRenderer.isDialogueActive()) {
-        this.dialogueRenderer.advance();
+      // Handle click-to-advance (Shining Force style)
+      if (this.waitingForAdvance) {
+        this.handleAdvance();
         return;
       }
 
@@ -881,7 +1276,9 @@ export class BattleScene extends Phaser.Scene {
         }
       }
 
-      if (this.isAOETargeting) {
+      if (this.phase === 'select_facing') {
+        this.confirmFacing();
+      } else if (this.isAOETargeting) {
         this.confirmAOETarget();
       } else if (this.isTargeting) {
         // Check if we're targeting for an item or an ability
@@ -916,7 +1313,7 @@ export class BattleScene extends Phaser.Scene {
 
       // Handle defeat screen - ESC returns to town without retry
       if (this.phase === 'defeat' && this.resultScreenContainer) {
-        this.returnToTown();
+        this.handleResultScreenInput();
         return;
       }
 
@@ -947,6 +1344,7 @@ export class BattleScene extends Phaser.Scene {
           heroState: this.heroState,
           returnScene: 'BattleScene',
           inventory: this.inventoryManager.getInventory(),
+          deathSaves: this.getDeathSaveTallies(),
         });
       }
     });
@@ -965,7 +1363,7 @@ export class BattleScene extends Phaser.Scene {
       if (this.showingItemMenu) {
         this.hideItemMenu();
         this.showActionMenu();
-      } else if (this.activeUnit && this.activeUnit.team === 'hero' && !this.isTargeting && !this.isInMovementMode) {
+      } else if (this.activeUnit && this.activeUnit.team === 'hero' && !this.isTargeting && !this.isInMovementMode && this.phase !== 'select_facing') {
         if (this.showingActionMenu) {
           this.hideActionMenu();
         } else {
@@ -974,6 +1372,22 @@ export class BattleScene extends Phaser.Scene {
       }
     });
 
+    // R to export the battle's replay from the result screen
+    const exportKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.R);
+    exportKey.on('down', () => {
+      if (this.resultScreenContainer) {
+        this.exportReplay();
+      }
+    });
+
+    // U to undo the active hero's move
+    const undoKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.U);
+    undoKey.on('down', () => {
+      if (this.showingActionMenu) {
+        this.selectActionMenuOption('undo_move');
+      }
+    });
+
     // I for Item menu
     const itemKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.I);
     itemKey.on('down', () => {
@@ -1063,6 +1477,24 @@ export class BattleScene extends Phaser.Scene {
             lastMoveTime = now;
           }
         }
+      } else if (this.phase === 'select_facing') {
+        // Choosing a facing at end of turn: arrow keys turn the hero
+        if (now - lastMoveTime > moveDelay) {
+          let facing: Unit['facing'] | null = null;
+          if (Phaser.Input.Keyboard.JustDown(cursors.left)) {
+            facing = 'west';
+          } else if (Phaser.Input.Keyboard.JustDown(cursors.right)) {
+            facing = 'east';
+          } else if (Phaser.Input.Keyboard.JustDown(cursors.up)) {
+            facing = 'north';
+          } else if (Phaser.Input.Keyboard.JustDown(cursors.down)) {
+            facing = 'south';
+          }
+          if (facing) {
+            this.changeFacing(facing);
+            lastMoveTime = now;
+          }
+        }
       } else if (this.isAOETargeting) {
         // In AOE targeting mode: arrow keys move the AOE origin
         if (now - lastMoveTime > moveDelay) {
@@ -1197,7 +1629,7 @@ export class BattleScene extends Phaser.Scene {
   // ============================================
 
   private onUnitClicked(unit: Unit): void {
-    if (this.isMoving) return;
+    if (this.isMoving || this.replayPlayer) return;
 
     // If clicking the same unit, deselect
     if (this.selectedUnit === unit) {
@@ -1226,7 +1658,7 @@ export class BattleScene extends Phaser.Scene {
     this.movementTiles = this.gridManager.getMovementRange(
       unit.gridX,
       unit.gridY,
-      MOVEMENT_RANGE,
+      getMovementAllowance(unit, MOVEMENT_RANGE),
       unit
     );
     this.drawMovementHighlight(unit.team);
@@ -1255,6 +1687,8 @@ export class BattleScene extends Phaser.Scene {
   }
 
   private onMapClicked(pointer: Phaser.Input.Pointer): void {
+    if (this.replayPlayer) return;
+
     // Handle click-to-advance first (Shining Force style)
     if (this.waitingForAdvance) {
       this.handleAdvance();
@@ -1306,13 +1740,14 @@ export class BattleScene extends Phaser.Scene {
     this.clearCursor();
     this.clearPathPreview();
 
-    // Get path to destination
+    // Get path to destination, within the unit's movement so a detour around hazards never overshoots it
     const path = this.gridManager.findPath(
       unit.gridX,
       unit.gridY,
       toX,
       toY,
-      unit
+      unit,
+      getMovementAllowance(unit, MOVEMENT_RANGE)
     );
 
     if (!path || path.length === 0) {
@@ -1320,38 +1755,80 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
+    this.recorder?.recordMove(unit, path);
+    const undo: MoveUndoState = {
+      unit,
+      gridX: unit.gridX,
+      gridY: unit.gridY,
+      facing: unit.facing,
+      texture: unit.sprite?.texture.key,
+      actionsRemaining: unit.actionsRemaining,
+    };
+
     // Update grid manager (remove from old position)
     this.gridManager.removeUnit(unit);
 
     // Animate along path
-    for (const step of path) {
+    const start = { x: unit.gridX, y: unit.gridY };
+    let provoked = false;
+    let burned = false;
+    for (const [index, step] of path.entries()) {
+      // Leaving an enemy's reach provokes opportunity attacks, which may stop the move
+      provoked = this.resolveOpportunityAttacks(unit, step) > 0 || provoked;
+      if (unit.isUnconscious) {
+        // Can't fall on an ally being passed through; drop back to the last free tile
+        const stop = this.gridManager.findStoppingTile(unit, start, path.slice(0, index));
+        await moveUnitToGrid(unit, stop.x, stop.y, this, false);
+        break;
+      }
+
       // Update facing based on movement direction
       this.updateUnitFacing(unit, step.x, step.y);
 
       // Animate movement to this step
       await moveUnitToGrid(unit, step.x, step.y, this, true, 100);
+
+      // Hazards hurt on every tile crossed, which may also stop the move
+      burned = this.engine.processTerrainEntry(unit) || burned;
+      if (unit.isUnconscious) {
+        const stop = this.gridManager.findStoppingTile(unit, start, path.slice(0, index + 1));
+        await moveUnitToGrid(unit, stop.x, stop.y, this, false);
+        break;
+      }
     }
 
     // Update grid manager (place at new position)
-    this.gridManager.placeUnit(unit, toX, toY);
+    this.gridManager.placeUnit(unit, unit.gridX, unit.gridY);
 
     // Mark unit as moved (this also reduces Azrael's actions if he moved)
     markUnitMoved(unit);
 
     this.isMoving = false;
 
+    // Ending a status (e.g. revealing a hidden unit) commits the move
+    const brokeStatus = this.engine.processUnitMoved(unit).length > 0;
+
+    // Entering a zone or hazard or provoking an attack rolls dice, which also commits it
+    const enteredZone = this.engine.getZonesAtPosition(unit.gridX, unit.gridY).length > 0;
+    this.moveUndo = enteredZone || burned || provoked || brokeStatus || unit.team !== 'hero' ? null : undo;
+
     // Check for zone entry damage
-    const zonesEntered = this.getZonesAtPosition(toX, toY);
-    for (const zone of zonesEntered) {
-      this.applyZoneDamage(unit, zone, 'entry');
+    this.engine.processZoneEntry(unit);
+
+    // Setting off a reinforcement wave or battle event commits it as well
+    if (this.engine.checkTriggers()) {
+      this.moveUndo = null;
     }
 
-    // Check if unit was defeated by zone damage
+    // The move can decide the battle (reaching an objective area, or falling
+    // to an opportunity attack or zone damage)
+    this.checkBattleEnd();
+    if (this.phase === 'victory' || this.phase === 'defeat') {
+      return;
+    }
+
+    // Check if unit was defeated by an opportunity attack or zone damage
     if (unit.currentHp <= 0) {
-      this.checkBattleEnd();
-      if (this.phase === 'victory' || this.phase === 'defeat') {
-        return;
-      }
       // End turn if hero was defeated
       this.endCurrentTurn();
       return;
@@ -1442,7 +1919,7 @@ export class BattleScene extends Phaser.Scene {
     // Allow cursor to move freely to any valid, walkable tile
     // The path preview shows if a valid path exists, and confirmation only works on blue tiles
     const isValidPosition = this.gridManager.isValidPosition(newX, newY);
-    const isWalkable = this.gridManager.isWalkable(newX, newY);
+    const isWalkable = this.gridManager.isWalkable(newX, newY, this.selectedUnit.flying, this.selectedUnit.swimming);
 
     if (isValidPosition && isWalkable) {
       this.cursorPosition = { x: newX, y: newY };
@@ -1516,11 +1993,22 @@ export class BattleScene extends Phaser.Scene {
     if (startX === endX && startY === endY) return;
 
     // Get the path
-    const path = this.gridManager.findPath(startX, startY, endX, endY, this.selectedUnit);
+    const path = this.gridManager.findPath(
+      startX, startY, endX, endY, this.selectedUnit, getMovementAllowance(this.selectedUnit, MOVEMENT_RANGE)
+    );
     if (!path || path.length === 0) return;
 
+    // Warn in orange when the path leaves an enemy's reach
+    const opportunityAttacks = getPathOpportunityAttackers(
+      this.selectedUnit,
+      path,
+      this.units,
+      this.abilitiesData
+    );
+    const pathColor = opportunityAttacks.length > 0 ? 0xffaa00 : 0x00ff00;
+
     // Draw path as a series of connected dots/lines
-    this.pathPreviewGraphics.lineStyle(3, 0x00ff00, 0.7);
+    this.pathPreviewGraphics.lineStyle(3, pathColor, 0.7);
 
     // Start from unit position
     const startPixel = this.gridManager.gridToPixel(startX, startY);
@@ -1535,11 +2023,18 @@ export class BattleScene extends Phaser.Scene {
     this.pathPreviewGraphics.strokePath();
 
     // Draw small circles at each waypoint
-    this.pathPreviewGraphics.fillStyle(0x00ff00, 0.8);
+    this.pathPreviewGraphics.fillStyle(pathColor, 0.8);
     for (const step of path) {
       const stepPixel = this.gridManager.gridToPixel(step.x, step.y);
       this.pathPreviewGraphics.fillCircle(stepPixel.x, stepPixel.y, 4);
     }
+
+    // Ring each enemy that would get an opportunity attack
+    this.pathPreviewGraphics.lineStyle(2, 0xff4444, 0.9);
+    for (const { attacker } of opportunityAttacks) {
+      const attackerPixel = this.gridManager.gridToPixel(attacker.gridX, attacker.gridY);
+      this.pathPreviewGraphics.strokeCircle(attackerPixel.x, attackerPixel.y, GAME_CONFIG.TILE_SIZE / 2 - 2);
+    }
   }
 
   private clearPathPreview(): void {
@@ -1666,84 +2161,132 @@ export class BattleScene extends Phaser.Scene {
     this.roundText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
     this.uiContainer.add(this.roundText);
 
+    // Objectives (victory and defeat conditions) below the unit counts
+    this.objectivesBg = this.add.graphics();
+    this.uiContainer.add(this.objectivesBg);
+    this.objectivesTexts = [];
+    this.updateObjectivesHUD();
+
     // Make main camera ignore UI (it will be rendered by uiCamera instead)
     this.cameras.main.ignore(this.uiContainer);
   }
 
-  // ============================================
-  // Turn System
-  // ============================================
-
   /**
-   * Start a new round - roll initiative for all units and begin
+   * Redraw the objectives HUD: what wins the battle, then what loses it,
+   * ticking off each condition that currently holds
    */
-  private startNewRound(): void {
-    this.round++;
-    this.phase = 'rolling_initiative';
+  private updateObjectivesHUD(): void {
+    if (!this.objectivesBg) return;
 
-    // Reset all units' turn state
-    this.units.forEach((unit) => {
-      if (!unit.isUnconscious) {
-        resetUnitTurnState(unit);
-      }
-    });
+    this.objectivesTexts.forEach(t => t.destroy());
+    this.objectivesTexts = [];
 
-    // Roll initiative for all living units
-    this.rollAllInitiative();
+    const context = this.engine.getConditionContext();
+    const victory = describeObjectives(this.battleConfig.victoryCondition, context);
+    const defeat = getDefeatConditions(this.battleConfig.defeatCondition)
+      .flatMap(c => describeObjectives(c, context));
 
-    // Show initiative results with a brief delay
-    this.showInitiativeRolls();
+    const top = 150;
+    const lineHeight = 16;
+    let y = top + 8;
 
-    // Start first turn after showing results
-    this.time.delayedCall(1500, () => {
-      this.currentTurnIndex = 0;
-      this.startNextTurn();
-    });
+    const addLine = (text: string, color: string) => {
+      const line = this.add.text(20, y, text, {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color,
+      });
+      line.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+      this.uiContainer.add(line);
+      this.objectivesTexts.push(line);
+      y += lineHeight;
+    };
+    const addObjectives = (objectives: ObjectiveStatus[], metColor: string) => {
+      for (const { text, met, depth } of objectives) {
+        addLine(`${'  '.repeat(depth)}${met ? '[x]' : '[ ]'} ${text}`, met ? metColor : '#ffffff');
+      }
+    };
+
+    addLine('Objectives:', '#ffff44');
+    addObjectives(victory, '#44ff44');
+    addLine('Lose if:', '#ff8888');
+    addObjectives(defeat, '#ff4444');
+
+    this.objectivesBg.clear();
+    this.objectivesBg.fillStyle(0x000000, 0.7);
+    this.objectivesBg.fillRoundedRect(10, top, 200, y - top + 6, 5);
   }
 
   /**
-   * Roll initiative for all living units and sort turn order
+   * Mark the tiles of every reach_area objective on the map
    */
-  private rollAllInitiative(): void {
-    this.turnOrder = [];
-
-    // Roll for each living unit
-    const livingUnits = this.units.filter((u) => !u.isUnconscious);
-
-    for (const unit of livingUnits) {
-      const initiativeRoll = rollInitiative(unit.speed);
-      let total = initiativeRoll.finalTotal || initiativeRoll.total;
-
-      // Swift Anklet: +2 initiative bonus
-      if (unit.equipment === 'swift_anklet') {
-        total += 2;
-        this.addCombatLogMessage(`${unit.name}'s Swift Anklet grants +2 initiative!`);
+  private drawObjectiveAreas(): void {
+    this.objectiveAreaGraphics.clear();
+
+    for (const bounds of getConditionAreas(this.battleConfig.victoryCondition)) {
+      const tiles: { x: number; y: number }[] = [];
+      for (let x = bounds.x1; x <= bounds.x2; x++) {
+        for (let y = bounds.y1; y <= bounds.y2; y++) {
+          tiles.push({ x, y });
+        }
       }
-
-      this.turnOrder.push({
-        unit,
-        roll: initiativeRoll,
-        total,
-      });
+      this.drawAreaTiles(tiles, 0x44ff44, 0.15, 0x44ff44, this.objectiveAreaGraphics);
     }
+  }
+
+  // ============================================
+  // Turn System
+  // ============================================
 
-    // Sort by initiative (highest first)
-    // Ties broken by speed, then by team (heroes win ties)
-    this.turnOrder.sort((a, b) => {
-      if (b.total !== a.total) return b.total - a.total;
-      if (b.unit.speed !== a.unit.speed) return b.unit.speed - a.unit.speed;
-      // Heroes win ties
-      if (a.unit.team === 'hero' && b.unit.team === 'enemy') return -1;
-      if (a.unit.team === 'enemy' && b.unit.team === 'hero') return 1;
-      return 0;
+  /**
+   * Subscribe to battle engine events - the engine runs the rules,
+   * the scene animates them
+   */
+  private setupEngineEvents(): void {
+    this.engine.on('log', ({ message }) => this.addCombatLogMessage(message));
+    this.engine.on('roundStarted', () => this.onRoundStarted());
+    this.engine.on('turnStarted', ({ unit }) => this.onTurnStarted(unit));
+    this.engine.on('damageDealt', ({ target, amount }) => this.showDamageNumber(target, amount, false));
+    this.engine.on('unitDefeated', ({ unit }) => this.handleUnitDefeated(unit));
+    this.engine.on('unitSummoned', () => this.updateTurnOrderUI());
+    this.engine.on('unitDismissed', ({ unit }) => this.removeFromField(unit));
+    this.engine.on('reinforcementsDue', ({ wave }) => this.spawnReinforcements(wave));
+    this.engine.on('terrainChanged', ({ bounds, terrain }) => this.changeTerrain(bounds, terrain));
+    this.engine.on('eventAction', ({ action }) => this.runEventAction(action));
+    this.engine.on('zonesChanged', () => this.drawZones());
+    this.engine.on('concentrationEnded', ({ released }) => {
+      released.forEach(unit => updateConditionMarkers(unit, this));
     });
+    this.engine.on('roundEnded', ({ round }) => this.onRoundEnded(round));
+    this.engine.on('battleEnded', ({ winner }) => this.onBattleEnded(winner));
+  }
+
+  /**
+   * Roll initiative for the next round (recorded first so the rolls land in it)
+   */
+  private startNewRound(): void {
+    this.recorder?.recordRound(this.round + 1);
+    this.engine.startNewRound();
+  }
 
+  /**
+   * New round started - show initiative results, then begin the first turn
+   */
+  private onRoundStarted(): void {
     console.log('Initiative Order:', this.turnOrder.map(
       (e) => {
         const equipBonus = e.unit.equipment === 'swift_anklet' ? ' (+2 Swift Anklet)' : '';
         return `${e.unit.name}: ${e.roll.rolls[0]} + ${e.unit.speed}${equipBonus} = ${e.total}`;
       }
     ));
+
+    // Show initiative results with a brief delay
+    this.showInitiativeRolls();
+
+    // Start first turn after showing results
+    this.time.delayedCall(1500, () => {
+      this.engine.startNextTurn();
+    });
   }
 
   /**
@@ -1763,37 +2306,30 @@ export class BattleScene extends Phaser.Scene {
   }
 
   /**
-   * Start the next unit's turn
+   * A unit's turn started - hand off to hero input or enemy AI
    */
-  private startNextTurn(): void {
-    // Find next living unit
-    while (
-      this.currentTurnIndex < this.turnOrder.length &&
-      this.turnOrder[this.currentTurnIndex].unit.isUnconscious
-    ) {
-      this.currentTurnIndex++;
-    }
-
-    // If we've gone through all units, start new round
-    if (this.currentTurnIndex >= this.turnOrder.length) {
-      this.endRound();
+  private onTurnStarted(unit: Unit): void {
+    // A battle event is still talking
+    if (this.eventDialogueActive) {
+      this.whenEventDialogueDone(() => this.onTurnStarted(unit));
       return;
     }
 
-    const entry = this.turnOrder[this.currentTurnIndex];
-    this.activeUnit = entry.unit;
+    this.recorder?.recordTurn(unit);
+    this.replayPlayer?.beginTurn(unit.id);
 
     // Highlight active unit in turn order
     this.updateTurnOrderUI();
+    this.updateObjectivesHUD();
 
     // Update active unit panel (shows hero stats in bottom-left)
     this.updateActiveUnitPanel();
 
     // Different handling for hero vs enemy
-    if (this.activeUnit.team === 'hero') {
-      this.startHeroTurn(this.activeUnit);
+    if (unit.team === 'hero') {
+      this.startHeroTurn(unit);
     } else {
-      this.startEnemyTurn(this.activeUnit);
+      this.startEnemyTurn(unit);
     }
   }
 
@@ -1802,77 +2338,11 @@ export class BattleScene extends Phaser.Scene {
    * Returns true if the unit can act, false if their turn should be skipped
    */
   private processStartOfTurnEffects(unit: Unit): { canAct: boolean; skipReason?: string } {
-    // Check for held - skip turn entirely
-    const heldEffect = unit.statusEffects.find(e => e.type === 'held');
-    if (heldEffect) {
-      this.addCombatLogMessage(`${unit.name} is held and skips their turn!`);
-
-      // Decrement hold duration
-      heldEffect.duration--;
-      if (heldEffect.duration <= 0) {
-        unit.statusEffects = unit.statusEffects.filter(e => e.type !== 'held');
-        this.addCombatLogMessage(`${unit.name} is no longer held.`);
-      }
-
-      this.updateTurnOrderUI();
-      return { canAct: false, skipReason: 'held' };
-    }
-
-    // Process poison damage at turn start
-    const poisonEffect = unit.statusEffects.find(e => e.type === 'poison');
-    if (poisonEffect && poisonEffect.value) {
-      const poisonDamage = poisonEffect.value;
-      this.addCombatLogMessage(`${unit.name} takes ${poisonDamage} poison damage!`);
-
-      // Import and use applyDamage
-      unit.currentHp = Math.max(0, unit.currentHp - poisonDamage);
-      this.showDamageNumber(unit, poisonDamage, false);
-
-      // Check if unit was defeated by poison
-      if (unit.currentHp === 0) {
-        unit.isUnconscious = true;
-        unit.statusEffects.push({ type: 'unconscious', duration: -1 });
-        this.addCombatLogMessage(`${unit.name} has succumbed to poison!`);
-        this.handleUnitDefeated(unit);
-        this.updateTurnOrderUI();
-        return { canAct: false, skipReason: 'defeated' };
-      }
-
-      // Decrement poison duration
-      poisonEffect.duration--;
-      if (poisonEffect.duration <= 0) {
-        unit.statusEffects = unit.statusEffects.filter(e => e.type !== 'poison');
-        this.addCombatLogMessage(`${unit.name} has recovered from poison.`);
-      }
-    }
-
-    // Process zone damage (Entangle) at turn start
-    if (!unit.isUnconscious) {
-      this.processZoneTurnStart(unit);
-
-      // Check if unit was defeated by zone damage
-      if (unit.currentHp <= 0) {
-        return { canAct: false, skipReason: 'defeated' };
-      }
-    }
-
-    // Process other status effect durations (barkskin, exposed, hidden, immobilized)
-    // These tick down at start of unit's turn
-    const tickingEffects = ['barkskin', 'exposed', 'hidden', 'immobilized'];
-    for (const effectType of tickingEffects) {
-      const effect = unit.statusEffects.find(e => e.type === effectType);
-      if (effect && effect.duration > 0) {
-        effect.duration--;
-        if (effect.duration <= 0) {
-          unit.statusEffects = unit.statusEffects.filter(e => e.type !== effectType);
-          this.addCombatLogMessage(`${unit.name}'s ${effectType} effect has worn off.`);
-        }
-      }
-    }
-
-    this.updateTurnOrderUI();
-    return { canAct: true };
-  }
+    const result = this.engine.processStartOfTurnEffects(unit);
+    this.updateTurnOrderUI();
+    updateConditionMarkers(unit, this); // A death save may have got them back up
+    return result;
+  }
 
   /**
    * Start a hero unit's turn
@@ -1910,6 +2380,7 @@ export class BattleScene extends Phaser.Scene {
       }
 
       // Show action menu
+      this.facingChoicePending = true;
       this.showActionMenu();
     });
   }
@@ -1974,7 +2445,7 @@ export class BattleScene extends Phaser.Scene {
     let hasActed = false;
 
     // AI decision loop - move then attack, or attack then move
-    const executeNextAction = () => {
+    const executeNextAction = () => this.whenReplayReady(() => {
       const decision = this.aiController.decideAction(
         unit,
         this.units,
@@ -1988,6 +2459,15 @@ export class BattleScene extends Phaser.Scene {
           if (decision.targetPosition) {
             hasMoved = true;
             this.executeEnemyMove(unit, decision.targetPosition, () => {
+              // Downed by an opportunity attack on the way
+              if (unit.isUnconscious) {
+                this.checkBattleEnd();
+                if (this.phase !== 'victory' && this.phase !== 'defeat') {
+                  this.finishEnemyTurn(unit);
+                }
+                return;
+              }
+
               // After moving, try to act
               this.time.delayedCall(300, executeNextAction);
             });
@@ -2018,7 +2498,7 @@ export class BattleScene extends Phaser.Scene {
           this.finishEnemyTurn(unit);
           break;
       }
-    };
+    });
 
     // Start the AI decision loop
     this.time.delayedCall(300, executeNextAction);
@@ -2047,7 +2527,7 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Limit path to movement range
-    let limitedPath = path.slice(0, MOVEMENT_RANGE);
+    let limitedPath = path.slice(0, getMovementAllowance(unit, MOVEMENT_RANGE));
 
     // Ensure final destination is not occupied (can path through allies but not stop on them)
     while (limitedPath.length > 0) {
@@ -2066,26 +2546,39 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
+    this.recorder?.recordMove(unit, limitedPath);
     this.addCombatLogMessage(`${unit.name} moves`);
 
+    // Off the grid while moving, so passing through allies leaves their tiles alone
+    const start = { x: unit.gridX, y: unit.gridY };
+    this.gridManager.removeUnit(unit);
+
     // Animate movement along path
     let pathIndex = 0;
     const moveAlongPath = () => {
       if (pathIndex >= limitedPath.length) {
-        // Check for zone entry damage at final position
-        const finalPos = limitedPath[limitedPath.length - 1];
-        if (finalPos) {
-          const zonesEntered = this.getZonesAtPosition(finalPos.x, finalPos.y);
-          for (const zone of zonesEntered) {
-            this.applyZoneDamage(unit, zone, 'entry');
-          }
-        }
+        this.gridManager.placeUnit(unit, unit.gridX, unit.gridY);
+
+        // End statuses broken by moving, then check zone entry damage at final position
+        this.engine.processUnitMoved(unit);
+        this.engine.processZoneEntry(unit);
         onComplete();
         return;
       }
 
       const nextPos = limitedPath[pathIndex];
 
+      // Leaving a hero's reach provokes opportunity attacks, which may stop the move
+      this.resolveOpportunityAttacks(unit, nextPos);
+      if (unit.isUnconscious) {
+        // Can't fall on an ally being passed through; drop back to the last free tile
+        const stop = this.gridManager.findStoppingTile(unit, start, limitedPath.slice(0, pathIndex));
+        moveUnitToGrid(unit, stop.x, stop.y, this, false);
+        this.gridManager.placeUnit(unit, stop.x, stop.y);
+        onComplete();
+        return;
+      }
+
       // Update facing based on movement direction
       const dx = nextPos.x - unit.gridX;
       const dy = nextPos.y - unit.gridY;
@@ -2094,9 +2587,6 @@ export class BattleScene extends Phaser.Scene {
       else if (dy > 0) unit.facing = 'south';
       else if (dy < 0) unit.facing = 'north';
 
-      // Update grid manager's unit tracking first (before animation)
-      this.gridManager.moveUnit(unit, nextPos.x, nextPos.y);
-
       // Calculate target pixel position for indicator
       const targetPixelX = nextPos.x * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
       const targetPixelY = nextPos.y * GAME_CONFIG.TILE_SIZE + GAME_CONFIG.TILE_SIZE / 2;
@@ -2114,6 +2604,16 @@ export class BattleScene extends Phaser.Scene {
 
       // Animate sprite movement
       moveUnitToGrid(unit, nextPos.x, nextPos.y, this, true, 100).then(() => {
+        // Hazards hurt on every tile crossed, which may also stop the move
+        this.engine.processTerrainEntry(unit);
+        if (unit.isUnconscious) {
+          const stop = this.gridManager.findStoppingTile(unit, start, limitedPath.slice(0, pathIndex + 1));
+          moveUnitToGrid(unit, stop.x, stop.y, this, false);
+          this.gridManager.placeUnit(unit, stop.x, stop.y);
+          onComplete();
+          return;
+        }
+
         pathIndex++;
         moveAlongPath();
       });
@@ -2122,6 +2622,52 @@ export class BattleScene extends Phaser.Scene {
     moveAlongPath();
   }
 
+  /**
+   * Resolve opportunity attacks on a unit about to step from its tile to the next
+   * Returns how many were made
+   */
+  private resolveOpportunityAttacks(unit: Unit, to: { x: number; y: number }): number {
+    const attacks = getOpportunityAttackers(
+      unit,
+      { x: unit.gridX, y: unit.gridY },
+      to,
+      this.units,
+      this.abilitiesData
+    );
+
+    let made = 0;
+    for (const { attacker, ability } of attacks) {
+      if (unit.isUnconscious) break;
+
+      const result = resolveOpportunityAttack(attacker, unit, ability, this.getCombatSituation(attacker, unit));
+      made++;
+      this.showFloatingMessage('Opportunity attack!', 0xffaa00);
+
+      if (result.hit && result.totalDamage !== undefined) {
+        this.addCombatLogMessage(
+          `${attacker.name} → ${ability.name} → ${unit.name} (opportunity): ${result.totalDamage} damage`
+        );
+        this.showDamageNumber(unit, result.totalDamage, false);
+        this.trackDamage(result.totalDamage, attacker.team === 'hero');
+
+        if (result.defenderDefeated) {
+          this.addCombatLogMessage(`${unit.name} is DEFEATED!`);
+          this.engine.reportDefeat(unit);
+        }
+      } else {
+        this.addCombatLogMessage(`${attacker.name}'s opportunity attack misses ${unit.name}`);
+        this.showMissIndicator(unit);
+      }
+      this.logAdvantageSources(result.attackAdvantage);
+      this.logFacingBonus(result);
+      this.logCoverBonus(result);
+      this.logDamageModifier(unit, result);
+      this.logBrokenStatuses(unit, result);
+    }
+
+    return made;
+  }
+
   /**
    * Execute enemy attack
    */
@@ -2131,6 +2677,11 @@ export class BattleScene extends Phaser.Scene {
     ability: Ability,
     onComplete: () => void
   ): void {
+    if (ability.summon) {
+      this.executeEnemySummon(unit, ability, ability.summon, onComplete);
+      return;
+    }
+
     // Update facing toward target
     const dx = target.gridX - unit.gridX;
     const dy = target.gridY - unit.gridY;
@@ -2140,12 +2691,16 @@ export class BattleScene extends Phaser.Scene {
       unit.facing = dy > 0 ? 'south' : 'north';
     }
 
-    // Check if this is an AOE ability - handle differently
-    if (ability.targetType === 'area' && ability.areaSize) {
+    // Check if this is an AOE or chain ability - handle differently
+    if (isMultiTargetAbility(ability)) {
       this.executeEnemyAOEAttack(unit, target, ability, onComplete);
       return;
     }
 
+    this.recorder?.recordAbility(unit, ability, [target]);
+    this.engine.reportAbilityUsed(unit, ability);
+    this.engine.beginConcentration(unit, ability);
+
     // Build result lines for action panel
     const resultLines: string[] = [];
 
@@ -2162,7 +2717,7 @@ export class BattleScene extends Phaser.Scene {
         this.addCombatLogMessage(`${unit.name}'s Ambusher's Ring grants +2 ATK!`);
       }
 
-      const result = resolveAttack(unit, target, ability);
+      const result = resolveAttack(unit, target, ability, this.getCombatSituation(unit, target));
 
       // Restore attack stat if bonus was applied
       if (ambusherBonus > 0) {
@@ -2173,10 +2728,21 @@ export class BattleScene extends Phaser.Scene {
       const rollTotal = result.attackRoll.finalTotal || result.attackRoll.total;
       const bonusText = ambusherBonus > 0 ? ` (+${ambusherBonus})` : '';
       resultLines.push(`${unit.name} uses ${ability.name}!`);
-      resultLines.push(`Rolls ${result.attackRoll.rolls[0]} + ${unit.attack + ambusherBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
+      resultLines.push(`Rolls ${this.formatD20(result.attackAdvantage)} + ${unit.attack + ambusherBonus + result.facingBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
+      const facingText = describeFacingBonus(result);
+      if (facingText) resultLines.push(facingText);
 
       if (result.hit && result.totalDamage !== undefined) {
-        resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
+        if (result.isCritical) {
+          resultLines.push(`CRITICAL HIT! ${result.totalDamage} damage to ${target.name}!`);
+          this.showFloatingMessage('CRITICAL HIT!', 0xffd700, 1500);
+        } else {
+          resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
+        }
+        resultLines.push(`Damage: ${formatRoll(result.damageRoll!)}`);
+        if (result.damageModifier) {
+          resultLines.push(describeDamageModifier(target, result.damageModifier, ability.damageType));
+        }
         this.showDamageNumber(target, result.totalDamage, false);
         this.trackDamage(result.totalDamage, false);
 
@@ -2202,8 +2768,11 @@ export class BattleScene extends Phaser.Scene {
             resultLines.push(`${unit.name}'s Bloodstone heals 2 HP!`);
           }
 
-          this.handleUnitDefeated(target);
+          this.engine.reportDefeat(target);
         }
+      } else if (result.isFumble) {
+        resultLines.push(`FUMBLE! Natural 1 - automatic MISS!`);
+        this.showFloatingMessage('FUMBLE!', 0x888888);
       } else {
         resultLines.push(`MISS!`);
       }
@@ -2211,6 +2780,13 @@ export class BattleScene extends Phaser.Scene {
       // Combat log
       this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
       this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${result.targetNumber} - ${result.hit ? 'HIT' : 'MISS'}`);
+      this.logAdvantageSources(result.attackAdvantage);
+      this.logFacingBonus(result);
+      this.logCoverBonus(result);
+      this.logDamageModifier(result.defender, result);
+      this.logBrokenStatuses(result.defender, result);
+      this.logCriticalOrFumble(result);
+      this.applyForcedMovement(result.attacker, target, result);
 
     } else {
       // Spell attack
@@ -2225,7 +2801,7 @@ export class BattleScene extends Phaser.Scene {
         this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
       }
 
-      const result = resolveSpell(unit, target, ability);
+      const result = resolveSpell(unit, target, ability, this.getCombatSituation(unit, target));
 
       // Restore resilience if bonus was applied
       if (wardstoneBonus > 0) {
@@ -2237,12 +2813,15 @@ export class BattleScene extends Phaser.Scene {
       if (result.saveRoll.dice !== 'none') {
         const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
         const bonusText = wardstoneBonus > 0 ? ` (+${wardstoneBonus})` : '';
-        resultLines.push(`${target.name} rolls ${result.saveRoll.rolls[0]} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
+        resultLines.push(`${target.name} rolls ${this.formatD20(result.saveAdvantage)} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
         resultLines.push(result.savePassed ? 'Save PASSED!' : 'Save FAILED!');
       }
 
       if (result.totalDamage !== undefined && result.totalDamage > 0) {
         resultLines.push(`${result.totalDamage} damage to ${target.name}!`);
+        if (result.damageRoll) {
+          resultLines.push(`Damage: ${formatRoll(result.damageRoll)}`);
+        }
         this.showDamageNumber(target, result.totalDamage, false);
         this.trackDamage(result.totalDamage, false);
 
@@ -2254,6 +2833,10 @@ export class BattleScene extends Phaser.Scene {
         }
       }
 
+      if (result.damageModifier) {
+        resultLines.push(describeDamageModifier(target, result.damageModifier, ability.damageType));
+      }
+
       if (result.effectApplied) {
         resultLines.push(`${target.name} is ${result.effectApplied.type}!`);
       }
@@ -2272,11 +2855,15 @@ export class BattleScene extends Phaser.Scene {
           resultLines.push(`${unit.name}'s Bloodstone heals 2 HP!`);
         }
 
-        this.handleUnitDefeated(target);
+        this.engine.reportDefeat(target);
       }
 
       // Combat log
       this.addCombatLogMessage(`${unit.name} → ${ability.name} → ${target.name}`);
+      this.logAdvantageSources(result.saveAdvantage);
+      this.logDamageModifier(target, result);
+      this.logBrokenStatuses(target, result);
+      this.applyForcedMovement(unit, target, result);
     }
 
     // Show action result panel, then continue
@@ -2288,6 +2875,29 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
+  /**
+   * Execute an enemy summoning ability
+   */
+  private executeEnemySummon(
+    unit: Unit,
+    ability: Ability,
+    summon: SummonEffect,
+    onComplete: () => void
+  ): void {
+    this.recorder?.recordAbility(unit, ability, [unit]);
+    this.engine.reportAbilityUsed(unit, ability);
+    payAbilityCost(unit, ability);
+
+    const resultLines = [`${unit.name} uses ${ability.name}!`, ...this.summonCreatures(unit, summon)];
+
+    this.showActionResultPanel(resultLines, () => {
+      this.checkBattleEnd();
+      if (this.phase !== 'victory' && this.phase !== 'defeat') {
+        onComplete();
+      }
+    });
+  }
+
   /**
    * Execute enemy AOE attack - hits all heroes in the area
    */
@@ -2297,26 +2907,24 @@ export class BattleScene extends Phaser.Scene {
     ability: Ability,
     onComplete: () => void
   ): void {
-    if (!ability.areaSize) return;
-
-    // Calculate AOE area centered on the primary target
-    // The AOE origin is positioned so the target is roughly in the center
-    const aoeWidth = ability.areaSize.width;
-    const aoeHeight = ability.areaSize.height;
-    const originX = Math.max(0, primaryTarget.gridX - Math.floor(aoeWidth / 2));
-    const originY = Math.max(0, primaryTarget.gridY - Math.floor(aoeHeight / 2));
-
-    // Find all heroes in the AOE area
-    const heroesInArea = this.units.filter(u => {
-      if (u.team !== 'hero' || u.isUnconscious) return false;
-      return u.gridX >= originX &&
-             u.gridX < originX + aoeWidth &&
-             u.gridY >= originY &&
-             u.gridY < originY + aoeHeight;
-    });
+    // Aim the area at the primary target (rectangles roughly centred on it)
+    const origin = getAreaOriginOn(ability, { x: primaryTarget.gridX, y: primaryTarget.gridY });
+    const tiles = getAreaTiles(ability, unit, origin);
+
+    // Find all heroes in the AOE area, or along the chain
+    const heroesInArea = ability.area?.type === 'chain'
+      ? getChainTargets(unit, primaryTarget, ability.area, this.units)
+      : getUnitsInArea(tiles, this.units).filter(u => u.team !== unit.team);
 
-    // Show visual indicator of AOE area
-    this.showEnemyAOEIndicator(originX, originY, aoeWidth, aoeHeight, heroesInArea);
+    this.recorder?.recordAbility(unit, ability, heroesInArea, origin, ability.areaSize);
+    this.engine.reportAbilityUsed(unit, ability);
+    this.engine.beginConcentration(unit, ability);
+
+    // Show visual indicator of AOE area (each link of a chain)
+    const shownTiles = ability.area?.type === 'chain'
+      ? heroesInArea.map(u => ({ x: u.gridX, y: u.gridY }))
+      : tiles;
+    this.showEnemyAOEIndicator(shownTiles, heroesInArea);
 
     // Pay the mana cost
     if (ability.cost && ability.costType === 'mana' && unit.currentMana !== undefined) {
@@ -2326,7 +2934,7 @@ export class BattleScene extends Phaser.Scene {
     // Build result lines
     const resultLines: string[] = [];
     resultLines.push(`${unit.name} casts ${ability.name}!`);
-    resultLines.push(`(${aoeWidth}x${aoeHeight} area)`);
+    resultLines.push(`(${this.describeArea(ability)})`);
 
     this.addCombatLogMessage(`${unit.name} → ${ability.name} (AOE)`);
 
@@ -2342,7 +2950,7 @@ export class BattleScene extends Phaser.Scene {
         let totalDefeated = 0;
 
         // Resolve spell against each hero in the area
-        heroesInArea.forEach(target => {
+        heroesInArea.forEach((target, index) => {
           // Wardstone: +2 RES on first save of battle
           let wardstoneBonus = 0;
           if (target.equipment === 'wardstone' &&
@@ -2354,7 +2962,10 @@ export class BattleScene extends Phaser.Scene {
             this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
           }
 
-          const result = resolveSpell(unit, target, ability);
+          const result = resolveSpell(unit, target, ability, {
+            ...this.getCombatSituation(unit, target),
+            damageScale: getAreaDamageScale(ability, index),
+          });
 
           // Restore resilience if bonus was applied
           if (wardstoneBonus > 0) {
@@ -2366,11 +2977,14 @@ export class BattleScene extends Phaser.Scene {
             const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
             const bonusText = wardstoneBonus > 0 ? `(+${wardstoneBonus})` : '';
             const saveResult = result.savePassed ? 'SAVED!' : 'FAILED!';
-            this.addCombatLogMessage(`  ${target.name}: SAVE ${result.saveRoll.rolls[0]}+${target.resilience + wardstoneBonus}${bonusText}=${saveTotal} - ${saveResult}`);
+            this.addCombatLogMessage(`  ${target.name}: SAVE ${this.formatD20(result.saveAdvantage)}+${target.resilience + wardstoneBonus}${bonusText}=${saveTotal} - ${saveResult}`);
+            this.logAdvantageSources(result.saveAdvantage);
             resultLines.push(`${target.name}: ${saveResult}`);
           }
 
           // Apply damage
+          this.logDamageModifier(target, result, '    ');
+          this.logBrokenStatuses(target, result, '    ');
           if (result.totalDamage !== undefined && result.totalDamage > 0) {
             this.addCombatLogMessage(`    DMG: ${result.totalDamage}`);
             resultLines.push(`  ${result.totalDamage} damage!`);
@@ -2389,7 +3003,7 @@ export class BattleScene extends Phaser.Scene {
           if (result.targetDefeated) {
             totalDefeated++;
             resultLines.push(`${target.name} is DEFEATED!`);
-            this.handleUnitDefeated(target);
+            this.engine.reportDefeat(target);
           }
         });
 
@@ -2411,34 +3025,10 @@ export class BattleScene extends Phaser.Scene {
   /**
    * Show visual indicator for enemy AOE attack
    */
-  private showEnemyAOEIndicator(
-    originX: number,
-    originY: number,
-    width: number,
-    height: number,
-    targets: Unit[]
-  ): void {
+  private showEnemyAOEIndicator(tiles: { x: number; y: number }[], targets: Unit[]): void {
     // Draw the AOE area highlight
     this.cursorGraphics.clear();
-    this.cursorGraphics.fillStyle(0xff4400, 0.4);
-
-    for (let dx = 0; dx < width; dx++) {
-      for (let dy = 0; dy < height; dy++) {
-        const tx = originX + dx;
-        const ty = originY + dy;
-        const pixelX = tx * GAME_CONFIG.TILE_SIZE;
-        const pixelY = ty * GAME_CONFIG.TILE_SIZE;
-        this.cursorGraphics.fillRect(pixelX, pixelY, GAME_CONFIG.TILE_SIZE, GAME_CONFIG.TILE_SIZE);
-      }
-    }
-
-    // Draw border
-    this.cursorGraphics.lineStyle(3, 0xff0000, 1);
-    const startX = originX * GAME_CONFIG.TILE_SIZE;
-    const startY = originY * GAME_CONFIG.TILE_SIZE;
-    const aoeWidth = width * GAME_CONFIG.TILE_SIZE;
-    const aoeHeight = height * GAME_CONFIG.TILE_SIZE;
-    this.cursorGraphics.strokeRect(startX, startY, aoeWidth, aoeHeight);
+    this.drawAreaTiles(tiles, 0xff4400, 0.4, 0xff0000);
 
     // Highlight targets in the area with red tint
     targets.forEach(target => {
@@ -2470,6 +3060,12 @@ export class BattleScene extends Phaser.Scene {
       unit.sprite.clearTint();
     }
 
+    // End the turn facing the nearest hero
+    const facing = this.aiController.chooseFacing(unit, this.units);
+    if (facing && !unit.isUnconscious) {
+      this.setUnitFacing(unit, facing);
+    }
+
     // No pause needed after movement-only turns - advance quickly
     this.time.delayedCall(300, () => {
       this.endCurrentTurn();
@@ -2480,6 +3076,17 @@ export class BattleScene extends Phaser.Scene {
    * End the current unit's turn and advance to next
    */
   private endCurrentTurn(): void {
+    this.moveUndo = null;
+
+    // Heroes that acted this turn choose which way to face first
+    const unit = this.activeUnit;
+    if (this.facingChoicePending && unit?.team === 'hero' && !unit.isUnconscious && !this.engine.isBattleOver()) {
+      this.facingChoicePending = false;
+      this.startFacingChoice(unit);
+      return;
+    }
+    this.facingChoicePending = false;
+
     // Clear selection
     if (this.activeUnit?.sprite) {
       this.activeUnit.sprite.clearTint();
@@ -2487,36 +3094,109 @@ export class BattleScene extends Phaser.Scene {
     this.hideEnemyTurnIndicator();
     this.deselectUnit();
 
-    // Advance to next unit
-    this.currentTurnIndex++;
-    this.startNextTurn();
+    // Advance to next unit (the engine ends the round after the last one)
+    this.engine.endCurrentTurn();
   }
 
+  // ============================================
+  // End-of-Turn Facing
+  // ============================================
+
   /**
-   * Handle end of round - process status effects, check victory/defeat
+   * Let the hero turn to face a direction before their turn ends
+   * (attacks from the side or rear get a bonus). Replays apply the recorded facing.
    */
-  private endRound(): void {
-    this.phase = 'round_end';
+  private startFacingChoice(unit: Unit): void {
+    this.hideEnemyTurnIndicator();
+    this.deselectUnit();
 
-    // Track completed rounds
-    this.battleStats.roundsCompleted = this.round;
+    if (this.replayPlayer) {
+      const facing = this.replayPlayer.takeFacing(unit.id);
+      if (facing) {
+        this.setUnitFacing(unit, facing);
+      }
+      this.endCurrentTurn();
+      return;
+    }
+
+    this.phase = 'select_facing';
+    this.showFloatingMessage('Choose facing (Arrows, ENTER)');
+    this.drawFacingIndicator(unit);
+  }
 
-    // Process zone durations (decrement and remove expired)
-    this.processZoneRoundEnd();
+  private changeFacing(facing: Unit['facing']): void {
+    const unit = this.activeUnit;
+    if (!unit || this.phase !== 'select_facing') return;
 
-    // Check victory/defeat conditions
-    const allEnemiesDefeated = this.enemyUnits.every((u) => u.isUnconscious);
-    const allHeroesDefeated = this.heroUnits.every((u) => u.isUnconscious);
+    this.setUnitFacing(unit, facing);
+    this.drawFacingIndicator(unit);
+  }
 
-    if (allEnemiesDefeated) {
-      this.handleVictory();
-      return;
-    }
+  private confirmFacing(): void {
+    const unit = this.activeUnit;
+    if (!unit || this.phase !== 'select_facing') return;
 
-    if (allHeroesDefeated) {
-      this.handleDefeat();
-      return;
+    this.cursorGraphics.clear();
+    this.recorder?.recordFacing(unit);
+    this.phase = 'executing_action';
+    this.endCurrentTurn();
+  }
+
+  /**
+   * Point a unit in a direction and update its sprite to match
+   */
+  private setUnitFacing(unit: Unit, facing: Unit['facing']): void {
+    const facingToSprite: Record<Unit['facing'], string> = {
+      north: 'back',
+      south: 'front',
+      east: 'right',
+      west: 'left',
+    };
+
+    unit.facing = facing;
+    if (unit.sprite) {
+      const heroData = this.heroesData[unit.dataId];
+      const enemyData = this.enemiesData[unit.dataId];
+      const baseSprite = heroData?.sprite || enemyData?.sprite || `sprite_${unit.dataId}`;
+      unit.sprite.setTexture(`${baseSprite}_${facingToSprite[facing]}`);
     }
+  }
+
+  /**
+   * Draw the unit's tile with a marker on the edge it faces
+   */
+  private drawFacingIndicator(unit: Unit): void {
+    const size = GAME_CONFIG.TILE_SIZE;
+    const left = unit.gridX * size;
+    const top = unit.gridY * size;
+    const mid = size / 2;
+    const tip = 10; // Marker length
+
+    // Marker triangle points: tip on the faced edge, base toward the centre
+    const markers: Record<Unit['facing'], number[]> = {
+      north: [mid, 2, mid - tip, 2 + tip, mid + tip, 2 + tip],
+      south: [mid, size - 2, mid - tip, size - 2 - tip, mid + tip, size - 2 - tip],
+      east: [size - 2, mid, size - 2 - tip, mid - tip, size - 2 - tip, mid + tip],
+      west: [2, mid, 2 + tip, mid - tip, 2 + tip, mid + tip],
+    };
+    const [x1, y1, x2, y2, x3, y3] = markers[unit.facing];
+
+    this.cursorGraphics.clear();
+    this.cursorGraphics.lineStyle(2, 0xffff00, 1);
+    this.cursorGraphics.strokeRect(left + 2, top + 2, size - 4, size - 4);
+    this.cursorGraphics.fillStyle(0xffff00, 1);
+    this.cursorGraphics.fillTriangle(left + x1, top + y1, left + x2, top + y2, left + x3, top + y3);
+  }
+
+  /**
+   * Round ended (zones already ticked) - start the next one unless the battle is over
+   */
+  private onRoundEnded(round: number): void {
+    // Track completed rounds
+    this.battleStats.roundsCompleted = round;
+    this.updateObjectivesHUD();
+
+    if (this.engine.isBattleOver()) return;
 
     // Start new round
     this.time.delayedCall(500, () => {
@@ -2524,6 +3204,16 @@ export class BattleScene extends Phaser.Scene {
     });
   }
 
+  private onBattleEnded(winner: Team): void {
+    this.recorder?.recordWinner(winner);
+
+    if (winner === 'hero') {
+      this.handleVictory();
+    } else {
+      this.handleDefeat();
+    }
+  }
+
   /**
    * Handle victory condition
    */
@@ -2538,9 +3228,12 @@ export class BattleScene extends Phaser.Scene {
     // Mark this battle as complete in game flags
     this.gameFlags[`${this.battleMap}_battle_complete`] = true;
 
-    // Show victory screen after a brief delay
+    this.loseFallenHeroes();
+    this.scatterRemainingEnemies();
+
+    // Show victory screen after a brief delay (and any event dialogue)
     this.time.delayedCall(1000, () => {
-      this.showResultScreen(true);
+      this.whenEventDialogueDone(() => this.showResultScreen(true));
     });
   }
 
@@ -2555,12 +3248,57 @@ export class BattleScene extends Phaser.Scene {
     // Update final round count
     this.battleStats.roundsCompleted = this.round;
 
-    // Show defeat screen after a brief delay
+    this.loseFallenHeroes();
+
+    // Show defeat screen after a brief delay (and any event dialogue)
     this.time.delayedCall(1000, () => {
-      this.showResultScreen(false);
+      this.whenEventDialogueDone(() => this.showResultScreen(false));
     });
   }
 
+  /**
+   * Ironman: heroes who failed their death saves leave the party for good
+   * Removed from the shared hero state so XP, shrines and saves skip them
+   */
+  private loseFallenHeroes(): void {
+    if (this.ironmanSlot === undefined) return;
+
+    for (const hero of this.heroUnits) {
+      if (isOutOfBattle(hero) && this.heroState[hero.dataId]) {
+        delete this.heroState[hero.dataId];
+        this.addCombatLogMessage(`${hero.name} has fallen and will not return.`);
+      }
+    }
+  }
+
+  /**
+   * Enemies still standing when the objective is won (e.g. the boss fell) flee the field
+   */
+  private scatterRemainingEnemies(): void {
+    for (const enemy of this.enemyUnits) {
+      if (enemy.isUnconscious) continue;
+
+      this.addCombatLogMessage(`${enemy.name} flees!`);
+      this.gridManager.removeUnit(enemy);
+      enemy.hpBarContainer?.setVisible(false);
+      enemy.conditionMarkerContainer?.setVisible(false);
+      if (enemy.sprite) {
+        this.tweens.add({
+          targets: enemy.sprite,
+          alpha: 0,
+          duration: 600,
+        });
+      }
+    }
+  }
+
+  /**
+   * Ironman: the campaign ends with the player's own hero
+   */
+  private isIronmanTaleOver(): boolean {
+    return this.ironmanSlot !== undefined && !this.heroState[this.heroId];
+  }
+
   /**
    * Show the victory or defeat result screen
    */
@@ -2582,7 +3320,7 @@ export class BattleScene extends Phaser.Scene {
 
     // Result box
     const boxWidth = 400;
-    const boxHeight = isVictory ? 320 : 280;
+    const boxHeight = isVictory ? 348 : 308;
     const boxX = (screenWidth - boxWidth) / 2;
     const boxY = (screenHeight - boxHeight) / 2;
 
@@ -2608,11 +3346,17 @@ export class BattleScene extends Phaser.Scene {
     let yPos = boxY + 80;
     const lineHeight = 28;
 
+    // Party critical hits and fumbles (counted by the XP tracker)
+    const rollStats = Object.values(this.xpTracker.getAllAttackRollStats());
+    const criticals = rollStats.reduce((sum, stats) => sum + stats.criticals, 0);
+    const fumbles = rollStats.reduce((sum, stats) => sum + stats.fumbles, 0);
+
     const summaryLines = [
       `Enemies Defeated: ${this.battleStats.enemiesDefeated}`,
       `Damage Dealt: ${this.battleStats.totalDamageDealt}`,
       `Damage Taken: ${this.battleStats.totalDamageTaken}`,
       `Rounds: ${this.battleStats.roundsCompleted}`,
+      `Critical Hits: ${criticals}  Fumbles: ${fumbles}`,
     ];
 
     for (const line of summaryLines) {
@@ -2641,7 +3385,8 @@ export class BattleScene extends Phaser.Scene {
 
     for (const hero of this.heroUnits) {
       const hpColor = hero.isUnconscious ? '#ff4444' : (hero.currentHp < hero.maxHp / 2 ? '#ffaa00' : '#44ff44');
-      const statusText = hero.isUnconscious ? 'KO' : `${hero.currentHp}/${hero.maxHp}`;
+      const fallen = this.ironmanSlot !== undefined && !this.heroState[hero.dataId];
+      const statusText = fallen ? 'Fallen' : hero.isUnconscious ? 'KO' : `${hero.currentHp}/${hero.maxHp}`;
       const heroStatus = this.add.text(screenWidth / 2, yPos, `${hero.name}: ${statusText}`, {
         fontFamily: 'monospace',
         fontSize: '14px',
@@ -2655,7 +3400,29 @@ export class BattleScene extends Phaser.Scene {
 
     // Instructions
     yPos = boxY + boxHeight - 40;
-    if (isVictory) {
+    if (this.replayPlayer) {
+      const replayText = this.add.text(screenWidth / 2, yPos, 'Replay finished  |  Press ENTER to watch again', {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#888888',
+      });
+      replayText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+      replayText.setOrigin(0.5);
+      this.resultScreenContainer.add(replayText);
+      return;
+    }
+
+    if (this.isIronmanTaleOver()) {
+      const endText = this.add.text(screenWidth / 2, yPos, 'Your tale ends here  |  Press ENTER', {
+        fontFamily: 'monospace',
+        fontSize: '14px',
+        color: '#ff4444',
+      });
+      endText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+      endText.setOrigin(0.5);
+      this.resultScreenContainer.add(endText);
+    } else if (isVictory || this.ironmanSlot !== undefined) {
+      // Ironman has no retries
       const continueText = this.add.text(screenWidth / 2, yPos, 'Press ENTER to continue', {
         fontFamily: 'monospace',
         fontSize: '14px',
@@ -2674,6 +3441,15 @@ export class BattleScene extends Phaser.Scene {
       retryText.setOrigin(0.5);
       this.resultScreenContainer.add(retryText);
     }
+
+    const exportText = this.add.text(screenWidth / 2, boxY + boxHeight - 20, 'Press R to export replay', {
+      fontFamily: 'monospace',
+      fontSize: '12px',
+      color: '#666666',
+    });
+    exportText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+    exportText.setOrigin(0.5);
+    this.resultScreenContainer.add(exportText);
   }
 
   /**
@@ -2682,6 +3458,11 @@ export class BattleScene extends Phaser.Scene {
   private handleResultScreenInput(isRetry: boolean = false): void {
     if (!this.resultScreenContainer) return;
 
+    if (this.isIronmanTaleOver()) {
+      this.endIronmanCampaign();
+      return;
+    }
+
     if (this.phase === 'victory') {
       // Check for victory cutscene
       if (this.battleConfig.victoryCutscene && this.battleConfig.victoryCutscene.length > 0) {
@@ -2694,8 +3475,8 @@ export class BattleScene extends Phaser.Scene {
         this.returnToTown();
       }
     } else if (this.phase === 'defeat') {
-      if (isRetry) {
-        // Restart the battle
+      if (isRetry && this.ironmanSlot === undefined) {
+        // Restart the battle (never in Ironman)
         this.scene.restart({ battleMap: this.battleMap, heroId: this.heroId });
       } else {
         // Return to town
@@ -3002,9 +3783,8 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
-    // Check terrain (0 = walkable, 1 = difficult but walkable, 2 = impassable)
-    const terrain = this.battleConfig.terrain[newY]?.[newX];
-    if (terrain === 2 || terrain === undefined) return;
+    // Check terrain (impassable tiles and water block the party)
+    if (!this.gridManager.isWalkable(newX, newY)) return;
 
     // Check if shrine is blocking the tile
     if (this.explorationShrine && newX === this.explorationShrine.gridX && newY === this.explorationShrine.gridY) {
@@ -3183,6 +3963,19 @@ export class BattleScene extends Phaser.Scene {
       }
     });
 
+    // Ironman campaigns record themselves to their one slot, no menu
+    if (this.ironmanSlot !== undefined) {
+      const ironmanSlot = this.ironmanSlot;
+      this.dialogueRenderer.startDialogue(
+        ['*You burn your offering at the shrine. You find yourself fully rested.*'],
+        'Shrine',
+        () => {
+          this.saveGameFromShrine(ironmanSlot);
+        }
+      );
+      return;
+    }
+
     // Show shrine dialogue (same as town shrine)
     this.dialogueRenderer.startDialogue(
       ['*You burn your offering at the shrine. You find yourself fully rested. Would you like to record your progress for the bards?*'],
@@ -3216,7 +4009,7 @@ export class BattleScene extends Phaser.Scene {
         const heroName = this.getHeroDisplayName(preview.mainHero || 'unknown');
         const level = preview.heroLevels?.[0] || 1;
         const time = this.formatPlayTimeShrine(preview.playTime || 0);
-        return `Slot ${preview.slot}: ${heroName} Lv${level} ${time}`;
+        return `Slot ${preview.slot}: ${heroName} Lv${level} ${time}${preview.ironman ? ' [Ironman]' : ''}`;
       }
     });
     this.shrineSaveMenuOptions.push('Cancel');
@@ -3406,9 +4199,12 @@ export class BattleScene extends Phaser.Scene {
       timestamp: new Date().toISOString(),
       inventory: this.inventory,
       chests: this.chestStates,
+      rngSeed: this.registry.get('rngSeed'),
     };
 
-    const success = SaveManager.save(saveData);
+    const success = this.ironmanSlot !== undefined
+      ? SaveManager.autoSave(saveData)
+      : SaveManager.save(saveData);
 
     this.hideShrineSaveMenu();
 
@@ -3456,6 +4252,19 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Death save tallies of downed heroes, by hero ID (for the party menu)
+   */
+  private getDeathSaveTallies(): Record<string, DeathSaves> {
+    const tallies: Record<string, DeathSaves> = {};
+    for (const hero of this.heroUnits) {
+      if (hero.isUnconscious && hero.deathSaves) {
+        tallies[hero.dataId] = { ...hero.deathSaves };
+      }
+    }
+    return tallies;
+  }
+
   /**
    * Exit exploration mode and go to the configured destination
    */
@@ -3471,6 +4280,7 @@ export class BattleScene extends Phaser.Scene {
     const destination = this.battleConfig.exitTrigger?.destination || 'travel';
 
     if (destination === 'travel') {
+      this.autoSaveIronman('world_map', this.battleConfig.returnPosition);
       this.scene.start('TravelScene', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3483,6 +4293,7 @@ export class BattleScene extends Phaser.Scene {
         devMode: this.devMode,
       });
     } else if (destination === 'post_battle_town') {
+      this.autoSaveIronman('ishetar_town_post_battle');
       this.scene.start('IshetarScene2', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3494,6 +4305,7 @@ export class BattleScene extends Phaser.Scene {
         chests: this.chestStates,
       });
     } else if (destination === 'town') {
+      this.autoSaveIronman('ishetar_town');
       this.scene.start('IshetarScene1', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3655,6 +4467,9 @@ export class BattleScene extends Phaser.Scene {
       }
     });
 
+    // Destroy any summons still on the field
+    [...this.summonedUnits].forEach((summon) => this.removeFromField(summon, false));
+
     // Destroy hero condition markers (combat is over, they shouldn't persist)
     this.heroUnits.forEach((hero) => {
       if (hero.conditionMarkerContainer) {
@@ -3708,6 +4523,7 @@ export class BattleScene extends Phaser.Scene {
     // - Hellhound Cave: return to TravelScene near Quetzi Shrine (so ambush can trigger again)
     if (this.battleMap === 'hellhound_cave') {
       // Return to travel map near Quetzi Shrine so the ambush can trigger again
+      this.autoSaveIronman('quetzi_shrine_exploration');
       this.scene.start('TravelScene', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3721,6 +4537,7 @@ export class BattleScene extends Phaser.Scene {
       });
     } else if (this.battleMap === 'hunting_paths' || this.battleMap === 'quetzi_shrine') {
       // Return to post-South Gate town
+      this.autoSaveIronman('ishetar_town_post_battle');
       this.scene.start('IshetarScene2', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3733,6 +4550,7 @@ export class BattleScene extends Phaser.Scene {
       });
     } else {
       // South Gate or unknown: return to pre-South Gate town
+      this.autoSaveIronman('ishetar_town');
       this.scene.start('IshetarScene1', {
         heroId: this.heroId,
         heroState: updatedHeroState,
@@ -3746,6 +4564,43 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Ironman: record the campaign as the party leaves the battle
+   * The map is where loading the save puts the party back
+   */
+  private autoSaveIronman(currentMap: string, playerPosition: { x: number; y: number } = { x: 0, y: 0 }): void {
+    if (this.ironmanSlot === undefined) return;
+
+    const sessionSeconds = Math.floor((Date.now() - this.sessionStartTime) / 1000);
+    const success = SaveManager.autoSave({
+      slot: this.ironmanSlot,
+      mainHero: this.heroId,
+      currentMap,
+      playerPosition,
+      playTime: this.playTime + sessionSeconds,
+      heroState: this.heroState,
+      flags: this.gameFlags,
+      timestamp: new Date().toISOString(),
+      inventory: this.inventory,
+      chests: this.chestStates,
+      rngSeed: this.registry.get('rngSeed'),
+    });
+    if (!success) {
+      console.warn(`Ironman auto-save to slot ${this.ironmanSlot} failed`);
+    }
+  }
+
+  /**
+   * Ironman: the player's hero has fallen, so the save goes with them
+   */
+  private endIronmanCampaign(): void {
+    if (this.ironmanSlot !== undefined) {
+      SaveManager.delete(this.ironmanSlot);
+    }
+    this.registry.remove('ironmanSlot');
+    this.scene.start('NarratorScene');
+  }
+
   /**
    * Wait/End Turn action - skips remaining actions for active unit
    */
@@ -3758,6 +4613,8 @@ export class BattleScene extends Phaser.Scene {
     this.activeUnit.hasActed = true;
     this.activeUnit.actionsRemaining = 0;
 
+    this.moveUndo = null;
+    this.recorder?.recordWait(this.activeUnit);
     this.showFloatingMessage(`${this.activeUnit.name} waits`);
 
     // Brief pause to let the message register before next turn starts
@@ -4147,13 +5004,11 @@ export class BattleScene extends Phaser.Scene {
           let borderWidth = isActive ? 2 : 1;
 
           // Check for status effects and use the first one's color
-          const visibleEffects = entry.unit.statusEffects.filter(e =>
-            e.type !== 'unconscious' && STATUS_COLORS[e.type as StatusEffectType]
-          );
+          const visibleEffects = entry.unit.statusEffects.filter(e => getStatusColor(e.type) !== undefined);
 
           if (visibleEffects.length > 0 && !isPast) {
             const primaryEffect = visibleEffects[0];
-            borderColor = STATUS_COLORS[primaryEffect.type as StatusEffectType];
+            borderColor = getStatusColor(primaryEffect.type)!;
             borderWidth = 2;
           }
 
@@ -4175,7 +5030,7 @@ export class BattleScene extends Phaser.Scene {
             if (effect.duration > 0 && effect.duration !== -1) {
               // Duration background
               const durBg = this.add.graphics();
-              durBg.fillStyle(STATUS_COLORS[effect.type as StatusEffectType], 0.9);
+              durBg.fillStyle(getStatusColor(effect.type)!, 0.9);
               durBg.fillCircle(6 + portraitSize - 4, y + portraitSize - 6, 7);
               this.turnOrderContainer.add(durBg);
 
@@ -4215,9 +5070,7 @@ export class BattleScene extends Phaser.Scene {
       nameText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
 
       // Get visible status effects for this unit
-      const visibleEffects = entry.unit.statusEffects.filter(e =>
-        e.type !== 'unconscious' && STATUS_COLORS[e.type as StatusEffectType]
-      );
+      const visibleEffects = entry.unit.statusEffects.filter(e => getStatusColor(e.type) !== undefined);
 
       // Show status text or active indicator below name
       if (isActive) {
@@ -4230,10 +5083,19 @@ export class BattleScene extends Phaser.Scene {
         });
         arrow.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
         this.turnOrderContainer.add(arrow);
+      } else if (entry.unit.isUnconscious && entry.unit.deathSaves) {
+        // Downed heroes show their death save tally
+        const savesText = this.add.text(40, y + 12, `Death saves ${describeDeathSaves(entry.unit.deathSaves)}`, {
+          fontFamily: 'monospace',
+          fontSize: '8px',
+          color: '#ff6666',
+        });
+        savesText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+        this.turnOrderContainer.add(savesText);
       } else if (visibleEffects.length > 0 && !isPast && !entry.unit.isUnconscious) {
         // Show status effect names in matching color
         const effectNames = visibleEffects.map(e => e.type).join(', ');
-        const effectColor = STATUS_COLORS[visibleEffects[0].type as StatusEffectType];
+        const effectColor = getStatusColor(visibleEffects[0].type)!;
         const statusText = this.add.text(40, y + 12, effectNames, {
           fontFamily: 'monospace',
           fontSize: '8px',
@@ -4539,65 +5401,55 @@ export class BattleScene extends Phaser.Scene {
     const statFontSize = '8px';
     const colWidth = 52;
 
-    // Check for status effects that modify stats
-    const hasBarkskin = hasStatusEffect(unit, 'barkskin');
-    const hasExposed = hasStatusEffect(unit, 'exposed');
-    const hasImmobilized = hasStatusEffect(unit, 'immobilized');
-
-    // Helper to get stat color
-    const getStatColor = (stat: string): string => {
-      if (stat === 'DEF') {
-        if (hasBarkskin) return '#44ff44'; // Buffed - green
-        if (hasExposed) return '#ff4444'; // Debuffed - red
-      }
-      if (stat === 'MOV' && hasImmobilized) {
-        return '#ff4444'; // Debuffed - red
-      }
+    // Stats with status modifiers applied: buffed green, debuffed red
+    const movValue = getMovementAllowance(unit, MOVEMENT_RANGE);
+    const getStatColor = (value: number, base: number): string => {
+      if (value > base) return '#44ff44';
+      if (value < base) return '#ff4444';
       return '#cccccc'; // Normal
     };
 
     // First column: ATK, MAG, SPD
     const stats1 = [
-      { label: 'ATK', value: unit.attack },
-      { label: 'MAG', value: unit.magic },
-      { label: 'SPD', value: unit.speed },
+      { label: 'ATK', value: getEffectiveStat(unit, 'attack'), base: unit.attack },
+      { label: 'MAG', value: getEffectiveStat(unit, 'magic'), base: unit.magic },
+      { label: 'SPD', value: getEffectiveStat(unit, 'speed'), base: unit.speed },
     ];
 
     stats1.forEach((stat, i) => {
       const statText = this.add.text(padding, statsY + i * 12, `${stat.label}: ${stat.value}`, {
         fontFamily: 'monospace',
         fontSize: statFontSize,
-        color: getStatColor(stat.label),
+        color: getStatColor(stat.value, stat.base),
       });
       statText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
       this.activeUnitPanel!.add(statText);
     });
 
     // Second column: DEF, RES, MOV
-    const movValue = hasImmobilized ? 0 : 6; // MOVEMENT_RANGE is 6
     const stats2 = [
-      { label: 'DEF', value: unit.defense },
-      { label: 'RES', value: unit.resilience },
-      { label: 'MOV', value: movValue },
+      { label: 'DEF', value: getEffectiveStat(unit, 'defense'), base: unit.defense },
+      { label: 'RES', value: getEffectiveStat(unit, 'resilience'), base: unit.resilience },
+      { label: 'MOV', value: movValue, base: MOVEMENT_RANGE },
     ];
 
     stats2.forEach((stat, i) => {
       const statText = this.add.text(padding + colWidth, statsY + i * 12, `${stat.label}: ${stat.value}`, {
         fontFamily: 'monospace',
         fontSize: statFontSize,
-        color: getStatColor(stat.label),
+        color: getStatColor(stat.value, stat.base),
       });
       statText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
       this.activeUnitPanel!.add(statText);
     });
 
     // Third column: Status indicators (if any)
-    const statusEffects = unit.statusEffects.filter(e => e.type !== 'unconscious');
+    const statusEffects = unit.statusEffects.filter(e => getStatusColor(e.type) !== undefined);
     if (statusEffects.length > 0) {
       let statusY = statsY;
       statusEffects.forEach((effect, i) => {
         if (i >= 3) return; // Max 3 status icons
-        const color = STATUS_COLORS[effect.type] || 0xffffff;
+        const color = getStatusColor(effect.type) ?? 0xffffff;
         const statusText = this.add.text(
           padding + colWidth * 2,
           statusY,
@@ -4635,6 +5487,13 @@ export class BattleScene extends Phaser.Scene {
   private showActionMenu(): void {
     if (!this.activeUnit || this.activeUnit.team !== 'hero') return;
 
+    // Replays pick the hero's next recorded action instead of showing the menu
+    if (this.replayPlayer) {
+      this.phase = 'select_action';
+      this.playNextReplayAction();
+      return;
+    }
+
     this.showingActionMenu = true;
     this.actionMenuIndex = 0;
     this.phase = 'select_action';
@@ -4725,8 +5584,8 @@ export class BattleScene extends Phaser.Scene {
 
     // First option: Move or Wait (Move if hasn't moved, Wait if already moved)
     if (!this.activeUnit.hasMoved) {
-      // Check if immobilized
-      const isImmobilized = hasStatusEffect(this.activeUnit, 'immobilized');
+      // Check if statuses leave no movement (immobilized)
+      const isImmobilized = getMovementAllowance(this.activeUnit, MOVEMENT_RANGE) === 0;
       options.push({
         label: isImmobilized ? 'Move (Immobilized!)' : 'Move (M)',
         action: 'move',
@@ -4798,6 +5657,15 @@ export class BattleScene extends Phaser.Scene {
       });
     }
 
+    // Take back this turn's move until the hero commits to it
+    if (this.moveUndo?.unit === this.activeUnit) {
+      options.push({
+        label: 'Undo Move (U)',
+        action: 'undo_move',
+        enabled: true,
+      });
+    }
+
     return options;
   }
 
@@ -4864,21 +5732,55 @@ export class BattleScene extends Phaser.Scene {
     } else if (selected.action === 'item') {
       this.hideActionMenu();
       this.showItemSubmenu();
+    } else if (selected.action === 'undo_move') {
+      this.hideActionMenu();
+      this.undoMove();
     }
   }
 
   /**
-   * Hide the action menu
+   * Put the active hero back where they started this turn
+   * Restores position, facing and the actions moving cost
    */
-  private hideActionMenu(): void {
-    if (this.actionMenuContainer) {
-      this.actionMenuContainer.destroy();
-      this.actionMenuContainer = null;
-    }
-    this.showingActionMenu = false;
-  }
+  private undoMove(): void {
+    const undo = this.moveUndo;
+    if (!undo || undo.unit !== this.activeUnit || this.isMoving) return;
 
-  /**
+    const unit = undo.unit;
+    this.moveUndo = null;
+
+    this.gridManager.removeUnit(unit);
+    moveUnitToGrid(unit, undo.gridX, undo.gridY, this, false);
+    this.gridManager.placeUnit(unit, undo.gridX, undo.gridY);
+
+    unit.facing = undo.facing;
+    if (undo.texture) {
+      unit.sprite?.setTexture(undo.texture);
+    }
+    unit.hasMoved = false;
+    unit.actionsRemaining = undo.actionsRemaining;
+
+    this.recorder?.discardLastMove(unit);
+    this.addCombatLogMessage(`${unit.name} undoes their move`);
+
+    const pixelPos = this.gridManager.gridToPixel(unit.gridX, unit.gridY);
+    this.cameras.main.pan(pixelPos.x, pixelPos.y, 200);
+
+    this.showActionMenu();
+  }
+
+  /**
+   * Hide the action menu
+   */
+  private hideActionMenu(): void {
+    if (this.actionMenuContainer) {
+      this.actionMenuContainer.destroy();
+      this.actionMenuContainer = null;
+    }
+    this.showingActionMenu = false;
+  }
+
+  /**
    * Select an action menu option by its action type (for hotkeys)
    */
   private selectActionMenuOption(actionType: string): void {
@@ -5108,17 +6010,19 @@ export class BattleScene extends Phaser.Scene {
 
   /**
    * Get valid targets for item usage (adjacent allies including self)
+   * Healing items can revive downed allies who haven't failed their death saves
    */
   private getValidItemTargets(item: ItemData): Unit[] {
     if (!this.activeUnit) return [];
 
     const range = item.range ?? 1; // Default to adjacent
     const validTargets: Unit[] = [];
+    const revives = item.effect.type === 'heal';
 
     // Find all allies within range
     for (const unit of this.units) {
       if (unit.team !== 'hero') continue;
-      if (unit.isUnconscious) continue;
+      if (unit.isUnconscious && (!revives || isOutOfBattle(unit))) continue;
 
       const distance = getDistance(
         this.activeUnit.gridX,
@@ -5180,6 +6084,9 @@ export class BattleScene extends Phaser.Scene {
     this.isTargeting = false;
     this.targetHighlightGraphics.clear();
 
+    this.moveUndo = null;
+    this.recorder?.recordItem(this.activeUnit, item.id, target);
+
     // Execute the item effect
     this.resolveItemEffect(item, target);
   }
@@ -5218,15 +6125,18 @@ export class BattleScene extends Phaser.Scene {
     const healDice = item.effect.amount as string;
     const healRoll = rollDice(healDice);
     const healAmount = Math.min(healRoll.total, target.maxHp - target.currentHp);
+    const wasUnconscious = target.isUnconscious;
 
-    target.currentHp = Math.min(target.maxHp, target.currentHp + healRoll.total);
-
-    // Update HP bar
-    updateHpBar(target);
+    // Revives a downed ally (updates the HP bar)
+    applyHealing(target, healRoll.total);
+    updateConditionMarkers(target, this);
 
     // Combat log
     this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
     this.addCombatLogMessage(`Healed ${healAmount} HP (${healDice}: ${healRoll.total})`);
+    if (wasUnconscious) {
+      this.addCombatLogMessage(`${target.name} is back on their feet!`);
+    }
 
     // Show result panel
     this.showItemResultPanel(item, user, target, `+${healAmount} HP`);
@@ -5274,8 +6184,9 @@ export class BattleScene extends Phaser.Scene {
     const conditionToRemove = item.effect.condition;
 
     if (conditionToRemove === 'any') {
-      // Celestial Tears - remove any one condition
-      if (target.statusEffects.length === 0) {
+      // Celestial Tears - remove any one harmful condition
+      const conditionIndex = target.statusEffects.findIndex(e => isNegativeStatus(e.type));
+      if (conditionIndex === -1) {
         this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
         this.addCombatLogMessage(`${target.name} has no conditions to remove!`);
         this.showItemResultPanel(item, user, target, 'No effect');
@@ -5283,7 +6194,7 @@ export class BattleScene extends Phaser.Scene {
       }
 
       // Remove the first condition
-      const removed = target.statusEffects.shift();
+      const [removed] = target.statusEffects.splice(conditionIndex, 1);
       if (removed) {
         this.addCombatLogMessage(`${user.name} uses ${item.name} on ${target.name}!`);
         this.addCombatLogMessage(`${removed.type} removed!`);
@@ -5448,13 +6359,16 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Handle AOE abilities with area targeting
-    if (ability.targetType === 'area' && ability.areaSize) {
+    if (isAreaAbility(ability)) {
       this.startAOETargeting(ability);
       return;
     }
 
-    // Get valid targets
-    this.validTargets = getValidTargets(this.activeUnit, ability, this.units);
+    // Get valid targets (walls block line of sight)
+    const caster = this.activeUnit;
+    this.validTargets = getValidTargets(caster, ability, this.units).filter(target =>
+      this.gridManager.canTargetTile(caster.gridX, caster.gridY, target.gridX, target.gridY, ability)
+    );
 
     if (this.validTargets.length === 0) {
       this.showFloatingMessage('No valid targets!', 0xff4444);
@@ -5481,16 +6395,16 @@ export class BattleScene extends Phaser.Scene {
     // Determine highlight color based on target type
     const color = ability.targetType === 'ally' ? 0x44ff44 : 0xff4444;
 
-    // Highlight range tiles
+    // Highlight range tiles the caster can see
     if (this.activeUnit && ability.range > 0) {
       this.targetHighlightGraphics.fillStyle(color, 0.2);
+      const { gridX, gridY } = this.activeUnit;
 
       for (let dx = -ability.range; dx <= ability.range; dx++) {
         for (let dy = -ability.range; dy <= ability.range; dy++) {
-          if (Math.abs(dx) + Math.abs(dy) <= ability.range) {
-            const tx = this.activeUnit.gridX + dx;
-            const ty = this.activeUnit.gridY + dy;
-
+          const tx = gridX + dx;
+          const ty = gridY + dy;
+          if (this.gridManager.canTargetTile(gridX, gridY, tx, ty, ability)) {
             if (tx >= 0 && tx < this.battleConfig.gridWidth &&
                 ty >= 0 && ty < this.battleConfig.gridHeight) {
               const pixelX = tx * GAME_CONFIG.TILE_SIZE;
@@ -5535,12 +6449,42 @@ export class BattleScene extends Phaser.Scene {
 
     // Draw yellow cursor around target tile
     this.drawTargetCursor(target.gridX, target.gridY);
+    this.showTargetForecast(target);
 
     // Pan camera to target
     const pixelPos = this.gridManager.gridToPixel(target.gridX, target.gridY);
     this.cameras.main.pan(pixelPos.x, pixelPos.y, 200);
   }
 
+  /**
+   * Show the side/rear bonus an attack on the target would get
+   */
+  private showTargetForecast(target: Unit): void {
+    this.clearTargetForecast();
+
+    const ability = this.selectedAbility;
+    if (!this.activeUnit || !ability || ability.type !== 'attack') return;
+
+    const text = forecastFacingBonus(this.activeUnit, target, ability);
+    if (!text) return;
+
+    const pixelPos = this.gridManager.gridToPixel(target.gridX, target.gridY);
+    this.targetForecastText = this.add.text(pixelPos.x, pixelPos.y - GAME_CONFIG.TILE_SIZE / 2 - 4, text, {
+      fontFamily: 'monospace',
+      fontSize: '10px',
+      color: '#ffdd44',
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setResolution(GAME_CONFIG.TEXT_RESOLUTION).setOrigin(0.5, 1);
+    this.targetForecastText.setDepth(900);
+    this.uiCamera.ignore(this.targetForecastText);
+  }
+
+  private clearTargetForecast(): void {
+    this.targetForecastText?.destroy();
+    this.targetForecastText = null;
+  }
+
   /**
    * Draw a yellow cursor around the target tile
    */
@@ -5592,6 +6536,7 @@ export class BattleScene extends Phaser.Scene {
     });
     this.targetHighlightGraphics.clear();
     this.cursorGraphics.clear();
+    this.clearTargetForecast();
 
     this.isTargeting = false;
     this.selectedAbility = null;
@@ -5607,10 +6552,9 @@ export class BattleScene extends Phaser.Scene {
    * Start AOE targeting mode for an area ability
    */
   private startAOETargeting(ability: Ability): void {
-    if (!this.activeUnit || !ability.areaSize) return;
+    if (!this.activeUnit || !isAreaAbility(ability)) return;
 
     this.isAOETargeting = true;
-    this.aoeSize = ability.areaSize;
 
     // Calculate valid tiles where the AOE can be placed
     // Per spec: at least one tile of the AOE must be within range
@@ -5623,37 +6567,68 @@ export class BattleScene extends Phaser.Scene {
       return;
     }
 
-    // Start AOE origin at caster position (or first valid tile)
-    const firstValid = this.validAOETiles[0];
-    this.aoeOrigin = { x: firstValid.x, y: firstValid.y };
+    // Lines and cones start out the way the caster faces; others at the first valid tile
+    const caster = { x: this.activeUnit.gridX, y: this.activeUnit.gridY };
+    const facingTile = getStepFrom(caster, this.activeUnit.facing);
+    const startTile = isDirectionalArea(ability) &&
+      this.validAOETiles.some(t => t.x === facingTile.x && t.y === facingTile.y)
+      ? facingTile
+      : this.validAOETiles[0];
+    this.aoeOrigin = { x: startTile.x, y: startTile.y };
 
     // Draw the AOE preview
     this.drawAOEPreview();
   }
 
   /**
-   * Calculate valid tiles where AOE origin can be placed
-   * AOE origin is top-left corner. At least one tile of the AOE must be in range.
+   * Calculate valid tiles where the AOE can be aimed
+   * Rectangles: top-left corner, with at least one tile of the AOE in range.
+   * Bursts: the centre tile, in range. Lines and cones: the tile beside the
+   * caster in each direction they can go.
    */
   private calculateValidAOETiles(ability: Ability): { x: number; y: number }[] {
-    if (!this.activeUnit || !ability.areaSize) return [];
+    if (!this.activeUnit) return [];
 
+    const caster = this.activeUnit;
     const validTiles: { x: number; y: number }[] = [];
-    const range = ability.range;
+    const inGrid = (x: number, y: number) =>
+      x >= 0 && x < this.battleConfig.gridWidth && y >= 0 && y < this.battleConfig.gridHeight;
+
+    if (isDirectionalArea(ability)) {
+      for (const direction of ['north', 'east', 'south', 'west'] as const) {
+        const tile = getStepFrom({ x: caster.gridX, y: caster.gridY }, direction);
+        if (inGrid(tile.x, tile.y)) {
+          validTiles.push(tile);
+        }
+      }
+      return validTiles;
+    }
+
+    if (ability.area?.type === 'burst') {
+      for (let ox = 0; ox < this.battleConfig.gridWidth; ox++) {
+        for (let oy = 0; oy < this.battleConfig.gridHeight; oy++) {
+          if (this.gridManager.canTargetTile(caster.gridX, caster.gridY, ox, oy, ability)) {
+            validTiles.push({ x: ox, y: oy });
+          }
+        }
+      }
+      return validTiles;
+    }
+
+    if (!ability.areaSize) return [];
     const { width, height } = ability.areaSize;
 
     // Check all possible AOE origin positions
     // The origin is the top-left corner of the AOE area
     for (let ox = 0; ox < this.battleConfig.gridWidth - width + 1; ox++) {
       for (let oy = 0; oy < this.battleConfig.gridHeight - height + 1; oy++) {
-        // Check if at least one tile of this AOE placement is within range
+        // Check if at least one tile of this AOE placement is within range and in sight
         let hasValidTile = false;
         for (let dx = 0; dx < width && !hasValidTile; dx++) {
           for (let dy = 0; dy < height && !hasValidTile; dy++) {
             const tx = ox + dx;
             const ty = oy + dy;
-            const distance = getDistance(this.activeUnit.gridX, this.activeUnit.gridY, tx, ty);
-            if (distance <= range) {
+            if (this.gridManager.canTargetTile(caster.gridX, caster.gridY, tx, ty, ability)) {
               hasValidTile = true;
             }
           }
@@ -5668,11 +6643,14 @@ export class BattleScene extends Phaser.Scene {
   }
 
   /**
-   * Move the AOE cursor
+   * Move the AOE cursor (lines and cones turn to face the pressed direction)
    */
   private moveAOECursor(dx: number, dy: number): void {
-    const newX = this.aoeOrigin.x + dx;
-    const newY = this.aoeOrigin.y + dy;
+    if (!this.activeUnit || !this.selectedAbility) return;
+
+    const directional = isDirectionalArea(this.selectedAbility);
+    const newX = directional ? this.activeUnit.gridX + dx : this.aoeOrigin.x + dx;
+    const newY = directional ? this.activeUnit.gridY + dy : this.aoeOrigin.y + dy;
 
     // Check if new position is valid
     const isValid = this.validAOETiles.some(t => t.x === newX && t.y === newY);
@@ -5681,13 +6659,68 @@ export class BattleScene extends Phaser.Scene {
       this.drawAOEPreview();
 
       // Pan camera to center of AOE
-      const centerX = this.aoeOrigin.x + this.aoeSize.width / 2;
-      const centerY = this.aoeOrigin.y + this.aoeSize.height / 2;
+      const tiles = this.getAOETiles();
+      const centerX = tiles.reduce((sum, t) => sum + t.x, 0) / tiles.length;
+      const centerY = tiles.reduce((sum, t) => sum + t.y, 0) / tiles.length;
       const pixelPos = this.gridManager.gridToPixel(centerX, centerY);
       this.cameras.main.pan(pixelPos.x, pixelPos.y, 100);
     }
   }
 
+  /**
+   * Tiles covered by the selected area ability at the current aim
+   */
+  private getAOETiles(): { x: number; y: number }[] {
+    if (!this.activeUnit || !this.selectedAbility) return [];
+    return getAreaTiles(this.selectedAbility, this.activeUnit, this.aoeOrigin);
+  }
+
+  /**
+   * Fill area tiles and outline the area's edge
+   */
+  private drawAreaTiles(
+    tiles: { x: number; y: number }[],
+    fillColor: number,
+    fillAlpha: number,
+    lineColor: number,
+    graphics: Phaser.GameObjects.Graphics = this.cursorGraphics
+  ): void {
+    const size = GAME_CONFIG.TILE_SIZE;
+    const inArea = (x: number, y: number) => tiles.some(t => t.x === x && t.y === y);
+
+    graphics.fillStyle(fillColor, fillAlpha);
+    for (const { x, y } of tiles) {
+      graphics.fillRect(x * size, y * size, size, size);
+    }
+
+    // Outline only the sides that face out of the area
+    graphics.lineStyle(3, lineColor, 1);
+    for (const { x, y } of tiles) {
+      const left = x * size;
+      const top = y * size;
+      if (!inArea(x, y - 1)) graphics.lineBetween(left, top, left + size, top);
+      if (!inArea(x, y + 1)) graphics.lineBetween(left, top + size, left + size, top + size);
+      if (!inArea(x - 1, y)) graphics.lineBetween(left, top, left, top + size);
+      if (!inArea(x + 1, y)) graphics.lineBetween(left + size, top, left + size, top + size);
+    }
+  }
+
+  /**
+   * Short description of an ability's area for result panels, e.g. "3-tile cone"
+   */
+  private describeArea(ability: Ability): string {
+    const area = ability.area;
+    if (!area) {
+      return ability.areaSize ? `${ability.areaSize.width}x${ability.areaSize.height} area` : 'area';
+    }
+    switch (area.type) {
+      case 'line': return `${area.length}-tile line`;
+      case 'cone': return `${area.length}-tile cone`;
+      case 'burst': return `${area.radius}-tile burst`;
+      case 'chain': return `chain of up to ${area.jumps + 1}`;
+    }
+  }
+
   /**
    * Draw AOE area preview
    */
@@ -5715,25 +6748,8 @@ export class BattleScene extends Phaser.Scene {
       }
     }
 
-    // Draw AOE area (bright red for targeted area)
-    this.cursorGraphics.fillStyle(0xff0000, 0.5);
-    for (let dx = 0; dx < this.aoeSize.width; dx++) {
-      for (let dy = 0; dy < this.aoeSize.height; dy++) {
-        const tx = this.aoeOrigin.x + dx;
-        const ty = this.aoeOrigin.y + dy;
-        const pixelX = tx * GAME_CONFIG.TILE_SIZE;
-        const pixelY = ty * GAME_CONFIG.TILE_SIZE;
-        this.cursorGraphics.fillRect(pixelX, pixelY, GAME_CONFIG.TILE_SIZE, GAME_CONFIG.TILE_SIZE);
-      }
-    }
-
-    // Draw border around AOE area
-    this.cursorGraphics.lineStyle(3, 0xffff00, 1);
-    const startX = this.aoeOrigin.x * GAME_CONFIG.TILE_SIZE;
-    const startY = this.aoeOrigin.y * GAME_CONFIG.TILE_SIZE;
-    const aoeWidth = this.aoeSize.width * GAME_CONFIG.TILE_SIZE;
-    const aoeHeight = this.aoeSize.height * GAME_CONFIG.TILE_SIZE;
-    this.cursorGraphics.strokeRect(startX, startY, aoeWidth, aoeHeight);
+    // Draw AOE area (bright red for targeted area, yellow border)
+    this.drawAreaTiles(this.getAOETiles(), 0xff0000, 0.5, 0xffff00);
 
     // Highlight units in AOE area
     this.highlightUnitsInAOE();
@@ -5775,13 +6791,7 @@ export class BattleScene extends Phaser.Scene {
    * Get all units within the current AOE area
    */
   private getUnitsInAOE(): Unit[] {
-    return this.units.filter(u => {
-      if (u.isUnconscious) return false;
-      return u.gridX >= this.aoeOrigin.x &&
-             u.gridX < this.aoeOrigin.x + this.aoeSize.width &&
-             u.gridY >= this.aoeOrigin.y &&
-             u.gridY < this.aoeOrigin.y + this.aoeSize.height;
-    });
+    return getUnitsInArea(this.getAOETiles(), this.units);
   }
 
   /**
@@ -5793,7 +6803,7 @@ export class BattleScene extends Phaser.Scene {
     const ability = this.selectedAbility;
     const targets = this.getUnitsInAOE();
     const origin = { ...this.aoeOrigin }; // Save origin before clearing
-    const size = { ...this.aoeSize };
+    const size = ability.areaSize && { ...ability.areaSize };
 
     // Clear AOE state without showing menu (we're executing, not canceling)
     this.cancelAOETargeting(false);
@@ -5834,11 +6844,15 @@ export class BattleScene extends Phaser.Scene {
     ability: Ability,
     targets: Unit[],
     origin: { x: number; y: number },
-    size: { width: number; height: number }
+    size?: { width: number; height: number }
   ): void {
     if (!this.activeUnit) return;
 
     this.phase = 'executing_action';
+    this.moveUndo = null;
+    this.recorder?.recordAbility(this.activeUnit, ability, targets, origin, size);
+    this.engine.reportAbilityUsed(this.activeUnit, ability);
+    this.engine.beginConcentration(this.activeUnit, ability);
 
     // Pay the cost
     payAbilityCost(this.activeUnit, ability);
@@ -5855,7 +6869,7 @@ export class BattleScene extends Phaser.Scene {
       // Resolve spell against each target
       let totalDefeated = 0;
 
-      targets.forEach(target => {
+      targets.forEach((target, index) => {
         // Wardstone: +2 RES on first save of battle (for defender)
         let wardstoneBonus = 0;
         if (target.equipment === 'wardstone' &&
@@ -5867,7 +6881,10 @@ export class BattleScene extends Phaser.Scene {
           this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
         }
 
-        const result = resolveSpell(this.activeUnit!, target, ability);
+        const result = resolveSpell(this.activeUnit!, target, ability, {
+          ...this.getCombatSituation(this.activeUnit!, target),
+          damageScale: getAreaDamageScale(ability, index),
+        });
 
         // Restore resilience if bonus was applied
         if (wardstoneBonus > 0) {
@@ -5878,12 +6895,15 @@ export class BattleScene extends Phaser.Scene {
         const saveRoll = result.saveRoll;
         if (saveRoll.dice !== 'none') {
           const bonusText = wardstoneBonus > 0 ? `(+${wardstoneBonus})` : '';
-          const rollStr = `${saveRoll.rolls[0]}+${target.resilience + wardstoneBonus}${bonusText}=${saveRoll.finalTotal || saveRoll.total}`;
+          const rollStr = `${this.formatD20(result.saveAdvantage)}+${target.resilience + wardstoneBonus}${bonusText}=${saveRoll.finalTotal || saveRoll.total}`;
           const saveResult = result.savePassed ? 'SAVED!' : 'FAILED!';
           this.addCombatLogMessage(`  ${target.name}: SAVE ${rollStr}`);
+          this.logAdvantageSources(result.saveAdvantage);
           this.addCombatLogMessage(`    ${saveResult}`);
         }
 
+        this.logDamageModifier(target, result, '    ');
+        this.logBrokenStatuses(target, result, '    ');
         if (result.totalDamage !== undefined && result.totalDamage > 0) {
           this.addCombatLogMessage(`    DMG: ${result.totalDamage}`);
           this.showDamageNumber(target, result.totalDamage, false);
@@ -5903,7 +6923,7 @@ export class BattleScene extends Phaser.Scene {
             this.addCombatLogMessage(`${this.activeUnit!.name}'s Bloodstone heals 2 HP!`);
           }
 
-          this.handleUnitDefeated(target);
+          this.engine.reportDefeat(target);
         }
       });
 
@@ -5916,8 +6936,8 @@ export class BattleScene extends Phaser.Scene {
     }
 
     // Create persistent zone if ability has entangle_zone effect
-    if (ability.effect?.type === 'entangle_zone') {
-      this.createZone(ability, origin, size);
+    if (ability.effect?.type === 'entangle_zone' && size) {
+      this.engine.createZone(this.activeUnit, ability, origin, size);
     }
 
     // Mark as having acted
@@ -5950,54 +6970,16 @@ export class BattleScene extends Phaser.Scene {
   // Persistent Zones (e.g. Entangle)
   // ============================================
 
-  /**
-   * Create a persistent zone on the battlefield
-   */
-  private createZone(
-    ability: Ability,
-    origin: { x: number; y: number },
-    size: { width: number; height: number }
-  ): void {
-    if (!this.activeUnit || !ability.effect) return;
-
-    // Roll duration
-    const durationNotation = ability.effect.duration;
-    let duration = 1;
-    if (typeof durationNotation === 'string') {
-      const durationRoll = rollDice(durationNotation);
-      duration = durationRoll.total;
-    } else if (typeof durationNotation === 'number') {
-      duration = durationNotation;
-    }
-
-    const zone: Zone = {
-      id: `zone_${Date.now()}`,
-      type: 'entangle',
-      originX: origin.x,
-      originY: origin.y,
-      width: size.width,
-      height: size.height,
-      duration,
-      damage: ability.damage || '1d6',
-      damageOnSave: ability.damageOnSave || 'half',
-      casterId: this.activeUnit.dataId,
-    };
-
-    this.zones.push(zone);
-    this.addCombatLogMessage(`  Zone created for ${duration} rounds!`);
-
-    // Draw the zone
-    this.drawZones();
-  }
-
   /**
    * Draw all active zones on the battlefield
    */
   private drawZones(): void {
     this.zoneGraphics.clear();
+    this.zoneLabels.forEach(label => label.destroy());
+    this.zoneLabels = [];
 
-    for (const zone of this.zones) {
-      const color = STATUS_COLORS.entangle_zone; // Forest green
+    for (const zone of this.engine.state.zones) {
+      const color = getStatusColor('entangle_zone') ?? 0x228b22; // Forest green
       const startX = zone.originX * GAME_CONFIG.TILE_SIZE;
       const startY = zone.originY * GAME_CONFIG.TILE_SIZE;
       const zoneWidth = zone.width * GAME_CONFIG.TILE_SIZE;
@@ -6010,79 +6992,20 @@ export class BattleScene extends Phaser.Scene {
       // Draw border
       this.zoneGraphics.lineStyle(3, color, 0.8);
       this.zoneGraphics.strokeRect(startX, startY, zoneWidth, zoneHeight);
-    }
-  }
-
-  /**
-   * Check if a position is inside any zone
-   */
-  private getZonesAtPosition(x: number, y: number): Zone[] {
-    return this.zones.filter(zone =>
-      x >= zone.originX &&
-      x < zone.originX + zone.width &&
-      y >= zone.originY &&
-      y < zone.originY + zone.height
-    );
-  }
-
-  /**
-   * Apply zone damage to a unit (on entry or turn start)
-   */
-  private applyZoneDamage(unit: Unit, zone: Zone, reason: string): void {
-    if (unit.isUnconscious) return;
-
-    // Roll save
-    const saveRoll = rollDice('1d20');
-    const saveTotal = saveRoll.total + unit.resilience;
-    const targetNumber = 13; // Use standard magic target
-    const savePassed = saveTotal >= targetNumber;
-
-    // Roll damage
-    const damageRoll = rollDice(zone.damage);
-    let totalDamage = damageRoll.total;
-
-    if (savePassed && zone.damageOnSave === 'half') {
-      totalDamage = Math.floor(totalDamage / 2);
-    } else if (savePassed && zone.damageOnSave === 'none') {
-      totalDamage = 0;
-    }
-
-    if (totalDamage > 0) {
-      unit.currentHp -= totalDamage;
-      this.showDamageNumber(unit, totalDamage, false);
-      this.addCombatLogMessage(`  ${unit.name} takes ${totalDamage} damage from Entangle (${reason})!`);
-
-      if (unit.currentHp <= 0) {
-        unit.currentHp = 0;
-        this.handleUnitDefeated(unit);
-      }
-    } else {
-      this.addCombatLogMessage(`  ${unit.name} avoids Entangle damage!`);
-    }
-  }
-
-  /**
-   * Process zone effects at the start of a unit's turn
-   */
-  private processZoneTurnStart(unit: Unit): void {
-    const zones = this.getZonesAtPosition(unit.gridX, unit.gridY);
-    for (const zone of zones) {
-      this.applyZoneDamage(unit, zone, 'turn start');
-    }
-  }
 
-  /**
-   * Decrement zone durations at round end and remove expired zones
-   */
-  private processZoneRoundEnd(): void {
-    for (let i = this.zones.length - 1; i >= 0; i--) {
-      this.zones[i].duration--;
-      if (this.zones[i].duration <= 0) {
-        this.addCombatLogMessage(`Entangle zone fades away.`);
-        this.zones.splice(i, 1);
+      // Concentration zones name the caster keeping them up
+      if (zone.concentration) {
+        const label = this.add.text(startX + 3, startY + 2, zone.concentration.casterName, {
+          fontFamily: 'monospace',
+          fontSize: '8px',
+          color: '#ffffff',
+          stroke: '#000000',
+          strokeThickness: 2,
+        }).setDepth(5);
+        this.uiCamera.ignore(label);
+        this.zoneLabels.push(label);
       }
     }
-    this.drawZones();
   }
 
   // ============================================
@@ -6095,7 +7018,19 @@ export class BattleScene extends Phaser.Scene {
   private executeAbility(ability: Ability, target: Unit): void {
     if (!this.activeUnit) return;
 
+    // Chains resolve like an area: the target, then each jump
+    if (ability.area?.type === 'chain') {
+      const targets = getChainTargets(this.activeUnit, target, ability.area, this.units);
+      this.faceTarget(this.activeUnit, target);
+      this.executeAOEAbility(ability, targets, { x: target.gridX, y: target.gridY });
+      return;
+    }
+
     this.phase = 'executing_action';
+    this.moveUndo = null;
+    this.recorder?.recordAbility(this.activeUnit, ability, [target]);
+    this.engine.reportAbilityUsed(this.activeUnit, ability);
+    this.engine.beginConcentration(this.activeUnit, ability);
 
     // Pay the cost
     payAbilityCost(this.activeUnit, ability);
@@ -6129,7 +7064,7 @@ export class BattleScene extends Phaser.Scene {
         this.addCombatLogMessage(`${this.activeUnit.name}'s Ambusher's Ring grants +2 ATK!`);
       }
 
-      const result = resolveAttack(this.activeUnit, target, ability);
+      const result = resolveAttack(this.activeUnit, target, ability, this.getCombatSituation(this.activeUnit, target));
 
       // Restore attack stat if bonus was applied
       if (ambusherBonus > 0) {
@@ -6141,7 +7076,12 @@ export class BattleScene extends Phaser.Scene {
       const rollTotal = attackRoll.finalTotal || attackRoll.total;
       const bonusText = ambusherBonus > 0 ? ` (+${ambusherBonus})` : '';
       resultLines.push(`${this.activeUnit.name} uses ${ability.name}!`);
-      resultLines.push(`Rolls ${attackRoll.rolls[0]} + ${this.activeUnit.attack + ambusherBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
+      resultLines.push(`Rolls ${this.formatD20(result.attackAdvantage)} + ${this.activeUnit.attack + ambusherBonus + result.facingBonus}${bonusText} = ${rollTotal} vs DEF ${result.targetNumber}`);
+      const facingText = describeFacingBonus(result);
+      if (facingText) resultLines.push(facingText);
+
+      // Count crits and fumbles for the battle summary
+      this.xpTracker.recordAttackRoll(this.activeUnit.dataId, result.isCritical, result.isFumble);
 
       // Award XP for resource spent (paid attacks) - regardless of hit/miss
       if (shouldTrackXP && ability.cost > 0) {
@@ -6149,7 +7089,16 @@ export class BattleScene extends Phaser.Scene {
       }
 
       if (result.hit && result.damageRoll) {
-        resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
+        if (result.isCritical) {
+          resultLines.push(`CRITICAL HIT! ${result.totalDamage} damage to ${target.name}!`);
+          this.showFloatingMessage('CRITICAL HIT!', 0xffd700, 1500);
+        } else {
+          resultLines.push(`HIT! ${result.totalDamage} damage to ${target.name}!`);
+        }
+        resultLines.push(`Damage: ${formatRoll(result.damageRoll)}`);
+        if (result.damageModifier) {
+          resultLines.push(describeDamageModifier(target, result.damageModifier, ability.damageType));
+        }
         this.showDamageNumber(target, result.totalDamage!, false);
         this.trackDamage(result.totalDamage!, true);
 
@@ -6160,7 +7109,7 @@ export class BattleScene extends Phaser.Scene {
 
         if (result.defenderDefeated) {
           resultLines.push(`${target.name} is DEFEATED!`);
-          if (shouldTrackXP) {
+          if (shouldTrackXP && !target.summonerId) {
             this.xpTracker.awardKillXP(this.activeUnit.dataId, target.name);
           }
 
@@ -6175,10 +7124,15 @@ export class BattleScene extends Phaser.Scene {
             resultLines.push(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
           }
 
-          this.handleUnitDefeated(target);
+          this.engine.reportDefeat(target);
         }
       } else {
-        resultLines.push(`MISS!`);
+        if (result.isFumble) {
+          resultLines.push(`FUMBLE! Natural 1 - automatic MISS!`);
+          this.showFloatingMessage('FUMBLE!', 0x888888);
+        } else {
+          resultLines.push(`MISS!`);
+        }
         this.showMissIndicator(target);
 
         // Award attempt XP for free attacks even on miss
@@ -6190,6 +7144,13 @@ export class BattleScene extends Phaser.Scene {
       // Combat log
       this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
       this.addCombatLogMessage(`  ATK: ${rollTotal} vs DEF ${result.targetNumber} - ${result.hit ? 'HIT' : 'MISS'}`);
+      this.logAdvantageSources(result.attackAdvantage);
+      this.logFacingBonus(result);
+      this.logCoverBonus(result);
+      this.logDamageModifier(result.defender, result);
+      this.logBrokenStatuses(result.defender, result);
+      this.logCriticalOrFumble(result);
+      this.applyForcedMovement(result.attacker, target, result);
 
     } else if (ability.type === 'spell' && ability.targetType === 'enemy') {
       // Wardstone: +2 RES on first save of battle (for defender)
@@ -6203,7 +7164,7 @@ export class BattleScene extends Phaser.Scene {
         this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
       }
 
-      const result = resolveSpell(this.activeUnit, target, ability);
+      const result = resolveSpell(this.activeUnit, target, ability, this.getCombatSituation(this.activeUnit, target));
 
       // Restore resilience if bonus was applied
       if (wardstoneBonus > 0) {
@@ -6220,7 +7181,7 @@ export class BattleScene extends Phaser.Scene {
       if (result.saveRoll.dice !== 'none') {
         const saveTotal = result.saveRoll.finalTotal || result.saveRoll.total;
         const bonusText = wardstoneBonus > 0 ? ` (+${wardstoneBonus})` : '';
-        resultLines.push(`${target.name} rolls ${result.saveRoll.rolls[0]} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
+        resultLines.push(`${target.name} rolls ${this.formatD20(result.saveAdvantage)} + ${target.resilience + wardstoneBonus}${bonusText} = ${saveTotal} vs MAG ${result.targetNumber}`);
         resultLines.push(result.savePassed ? 'Save PASSED!' : 'Save FAILED!');
       }
 
@@ -6232,6 +7193,7 @@ export class BattleScene extends Phaser.Scene {
         } else {
           resultLines.push(`${result.totalDamage} damage to ${target.name}!`);
         }
+        resultLines.push(`Damage: ${formatRoll(result.damageRoll)}`);
         this.showDamageNumber(target, result.totalDamage, false);
         this.trackDamage(result.totalDamage, true);
 
@@ -6244,6 +7206,10 @@ export class BattleScene extends Phaser.Scene {
         this.xpTracker.awardDamageXP(this.activeUnit.dataId, 0);
       }
 
+      if (result.damageModifier) {
+        resultLines.push(describeDamageModifier(target, result.damageModifier, ability.damageType));
+      }
+
       if (result.effectApplied) {
         resultLines.push(`${target.name} is ${result.effectApplied.type}!`);
         // No separate debuff XP - already covered by resource XP if ability costs mana
@@ -6251,7 +7217,7 @@ export class BattleScene extends Phaser.Scene {
 
       if (result.targetDefeated) {
         resultLines.push(`${target.name} is DEFEATED!`);
-        if (shouldTrackXP) {
+        if (shouldTrackXP && !target.summonerId) {
           this.xpTracker.awardKillXP(this.activeUnit.dataId, target.name);
         }
 
@@ -6266,13 +7232,17 @@ export class BattleScene extends Phaser.Scene {
           resultLines.push(`${this.activeUnit.name}'s Bloodstone heals 2 HP!`);
         }
 
-        this.handleUnitDefeated(target);
+        this.engine.reportDefeat(target);
       }
 
       // Combat log
       this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
+      this.logAdvantageSources(result.saveAdvantage);
+      this.logDamageModifier(target, result);
+      this.logBrokenStatuses(target, result);
+      this.applyForcedMovement(this.activeUnit, target, result);
 
-    } else if (ability.type === 'buff' || ability.targetType === 'ally') {
+    } else if ((ability.type === 'buff' && ability.targetType !== 'self') || ability.targetType === 'ally') {
       const result = resolveHeal(this.activeUnit, target, ability);
 
       // Healer's Pendant: +1 to first heal of battle
@@ -6333,6 +7303,10 @@ export class BattleScene extends Phaser.Scene {
         // No separate buff XP - already covered by resource XP if paid
       }
 
+      if (ability.summon) {
+        resultLines.push(...this.summonCreatures(this.activeUnit, ability.summon));
+      }
+
       // Combat log
       this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name}`);
 
@@ -6348,7 +7322,7 @@ export class BattleScene extends Phaser.Scene {
         this.addCombatLogMessage(`${target.name}'s Wardstone grants +2 RES!`);
       }
 
-      const result = resolveSpell(this.activeUnit, target, ability);
+      const result = resolveSpell(this.activeUnit, target, ability, this.getCombatSituation(this.activeUnit, target));
 
       // Restore resilience if bonus was applied
       if (wardstoneBonus > 0) {
@@ -6369,6 +7343,7 @@ export class BattleScene extends Phaser.Scene {
 
       // Combat log
       this.addCombatLogMessage(`${this.activeUnit.name} → ${ability.name} → ${target.name}`);
+      this.logAdvantageSources(result.saveAdvantage);
     }
 
     // Calculate XP earned this action
@@ -6424,6 +7399,348 @@ export class BattleScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Positional facts for advantage checks (flanking, higher ground)
+   */
+  private getCombatSituation(attacker: Unit, defender: Unit): CombatSituation {
+    return {
+      flanking: this.gridManager.isFlanking(attacker, defender),
+      higherGround: this.gridManager.hasHigherGround(attacker, defender),
+      cover: this.gridManager.getCoverBonus(attacker, defender),
+    };
+  }
+
+  /**
+   * Format the d20 of a roll, showing both dice with advantage/disadvantage
+   * e.g. "15" or "15 [15/7 ADV]"
+   */
+  private formatD20(advantage?: RollAdvantage): string {
+    if (!advantage) return '0';
+    const used = advantage.d20s[advantage.usedIndex];
+    if (advantage.state === 'normal') return `${used}`;
+    const tag = advantage.state === 'advantage' ? 'ADV' : 'DIS';
+    return `${used} [${advantage.d20s.join('/')} ${tag}]`;
+  }
+
+  /**
+   * Log a critical hit or fumble on an attack roll
+   */
+  private logCriticalOrFumble(result: AttackResult): void {
+    if (result.isCritical) {
+      this.addCombatLogMessage(`  CRITICAL HIT! (natural ${result.attackRoll.rolls[0]}, damage dice doubled)`);
+    } else if (result.isFumble) {
+      this.addCombatLogMessage(`  FUMBLE! (natural 1)`);
+    }
+  }
+
+  /**
+   * Log which advantage/disadvantage sources applied to a roll
+   */
+  private logAdvantageSources(advantage?: RollAdvantage): void {
+    if (!advantage || advantage.sources.length === 0) return;
+    const label = advantage.state === 'advantage' ? 'ADV'
+      : advantage.state === 'disadvantage' ? 'DIS'
+      : 'ADV/DIS cancel';
+    this.addCombatLogMessage(`  ${label}: ${advantage.sources.join(', ')}`);
+  }
+
+  /**
+   * Log a side/rear attack bonus from the defender's facing
+   */
+  private logFacingBonus(result: AttackResult): void {
+    const text = describeFacingBonus(result);
+    if (text) {
+      this.addCombatLogMessage(`  ${text}`);
+    }
+  }
+
+  /**
+   * Push, pull or swap the target when the ability lands, sliding the moved sprites
+   */
+  private applyForcedMovement(source: Unit, target: Unit, result: AttackResult | SpellResult): void {
+    const movement = getTriggeredForcedMovement(result);
+    if (!movement) return;
+
+    const move = this.gridManager.applyForcedMovement(source, target, movement);
+    for (const unit of [move.unit, move.swappedWith]) {
+      if (unit) moveUnitToGrid(unit, unit.gridX, unit.gridY, this, true, 150);
+    }
+    this.engine.processForcedMove(move, movement);
+  }
+
+  /**
+   * Place an ability's creatures on free tiles beside the summoner, with
+   * sprites, HP bars and condition markers. Returns result panel lines.
+   */
+  private summonCreatures(summoner: Unit, summon: SummonEffect): string[] {
+    const creatureData = this.enemiesData[summon.unit];
+    if (!creatureData) {
+      console.error(`Summoned creature data not found for: ${summon.unit}`);
+      return [];
+    }
+
+    const tiles = this.gridManager.getFreeTilesNear(summoner.gridX, summoner.gridY, summon.count ?? 1, creatureData);
+    if (tiles.length === 0) {
+      return ['There is no room for anything to answer!'];
+    }
+
+    return tiles.map((tile) => {
+      const unit = createSummonedUnit(
+        creatureData,
+        this.engine.nextSummonId(creatureData.id),
+        summoner,
+        tile.x,
+        tile.y,
+        this
+      );
+      if (unit.sprite) {
+        unit.sprite.setInteractive({ useHandCursor: true });
+        unit.sprite.on('pointerdown', () => this.onUnitClicked(unit));
+
+        // Fade in
+        unit.sprite.setAlpha(0);
+        this.tweens.add({ targets: unit.sprite, alpha: 1, duration: 300 });
+      }
+      createHpBar(unit, this);
+      createConditionMarkers(unit, this);
+
+      this.gridManager.placeUnit(unit, tile.x, tile.y);
+      this.summonedUnits.push(unit);
+      this.engine.summonUnit(unit, summoner, summon.duration);
+
+      return `${unit.name} appears for ${summon.duration} rounds!`;
+    });
+  }
+
+  /**
+   * Put a wave's enemies on the map - walking in from the edge or fading in
+   * at a spawn point - and into the battle
+   */
+  private spawnReinforcements(wave: EnemyArrival): void {
+    const tiles = getEntryTiles(wave.from, this.battleConfig);
+    const fromEdge = isMapEdge(wave.from);
+    const facing = getEntryFacing(wave.from, this.battleConfig.enemyFacing || 'north');
+    const step = { north: [0, -1], south: [0, 1], east: [1, 0], west: [-1, 0] }[facing];
+
+    for (const type of wave.enemies) {
+      const enemyData = this.enemiesData[type];
+      if (!enemyData) {
+        console.error(`Enemy data not found for: ${type}`);
+        continue;
+      }
+
+      const tile = findArrivalTile(tiles, this.gridManager, enemyData);
+      if (!tile) {
+        console.warn(`No room for reinforcement ${type} from ${wave.from}`);
+        continue;
+      }
+
+      const unit = createEnemyUnit(enemyData, this.engine.nextEnemyId(type), tile.x, tile.y, this);
+      unit.facing = facing;
+      updateUnitFacing(unit, enemyData.sprite);
+
+      unit.sprite?.setInteractive({ useHandCursor: true });
+      unit.sprite?.on('pointerdown', () => this.onUnitClicked(unit));
+      createHpBar(unit, this);
+      createConditionMarkers(unit, this);
+
+      const parts = [unit.sprite, unit.hpBarContainer, unit.conditionMarkerContainer]
+        .filter((part): part is Phaser.GameObjects.Sprite | Phaser.GameObjects.Container => !!part);
+      parts.forEach(part => this.uiCamera.ignore(part));
+
+      if (fromEdge) {
+        // Walk in from just off the map
+        const dx = step[0] * GAME_CONFIG.TILE_SIZE;
+        const dy = step[1] * GAME_CONFIG.TILE_SIZE;
+        parts.forEach(part => part.setPosition(part.x - dx, part.y - dy));
+        this.tweens.add({ targets: parts, x: `+=${dx}`, y: `+=${dy}`, duration: 500 });
+      } else {
+        parts.forEach(part => part.setAlpha(0));
+        this.tweens.add({ targets: parts, alpha: 1, duration: 300 });
+      }
+
+      this.gridManager.placeUnit(unit, tile.x, tile.y);
+      this.enemyUnits.push(unit);
+      this.engine.addReinforcement(unit);
+    }
+
+    // Wait for the round banner when they arrive at the start of a round
+    const delay = this.engine.state.phase === 'rolling_initiative' ? 1100 : 0;
+    this.time.delayedCall(delay, () => this.showFloatingMessage('Reinforcements!', 0xff4444));
+    this.updateTurnOrderUI();
+  }
+
+  // ============================================
+  // Battle Events
+  // ============================================
+
+  /**
+   * Carry out a battle event's dialogue, flag and item actions
+   * (the engine handles units and terrain)
+   */
+  private runEventAction(action: BattleEventAction): void {
+    switch (action.type) {
+      case 'dialogue':
+        this.queueEventDialogue(action.lines);
+        break;
+      case 'set_flag':
+        this.gameFlags[action.flag] = action.value ?? true;
+        break;
+      case 'grant_item': {
+        const quantity = action.quantity ?? 1;
+        let added = 0;
+        while (added < quantity && this.inventoryManager.addItem(action.item)) {
+          added++;
+        }
+        this.inventory = this.inventoryManager.getInventory();
+
+        const name = InventoryManager.getItem(action.item)?.name ?? action.item;
+        if (added > 0) {
+          this.addCombatLogMessage(`The party receives ${name}${added > 1 ? ` x${added}` : ''}!`);
+        }
+        if (added < quantity) {
+          this.addCombatLogMessage(`  No room for ${added > 0 ? 'the rest of the ' : ''}${name}.`);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Update the grid for tiles a battle event changed, with a brief flash so
+   * the player sees where
+   */
+  private changeTerrain(bounds: TileBounds, terrain: TerrainType): void {
+    const tiles: { x: number; y: number }[] = [];
+    for (let y = bounds.y1; y <= bounds.y2; y++) {
+      for (let x = bounds.x1; x <= bounds.x2; x++) {
+        this.gridManager.setTerrain(x, y, terrain);
+        tiles.push({ x, y });
+      }
+    }
+
+    const color = getTerrainRules(terrain).editorColor ?? 0xffffff;
+    const flash = this.add.graphics();
+    flash.setDepth(5);
+    this.uiCamera.ignore(flash);
+    this.drawAreaTiles(tiles, color, 0.4, color, flash);
+    this.tweens.add({
+      targets: flash,
+      alpha: 0,
+      duration: 1200,
+      onComplete: () => flash.destroy(),
+    });
+  }
+
+  // Event dialogue still to show, and what is waiting for it to finish
+  private eventDialogueQueue: CutsceneLine[] = [];
+  private afterEventDialogue: (() => void)[] = [];
+  private eventDialogueActive: boolean = false;
+
+  /**
+   * Play event dialogue (after any already playing); turns wait until it ends
+   * Skipped when watching a replay, like the intro cutscene
+   */
+  private queueEventDialogue(lines: CutsceneLine[]): void {
+    if (this.replayPlayer) return;
+
+    this.eventDialogueQueue.push(...lines);
+    if (!this.eventDialogueActive) {
+      this.showNextEventDialogueLine();
+    }
+  }
+
+  private showNextEventDialogueLine(): void {
+    const line = this.eventDialogueQueue.shift();
+    if (!line) {
+      // Dialogue complete - let the battle carry on
+      this.eventDialogueActive = false;
+      this.afterEventDialogue.splice(0).forEach(callback => callback());
+      return;
+    }
+
+    this.eventDialogueActive = true;
+    const portraitKey = line.portrait || `portrait_${line.speaker.toLowerCase()}`;
+
+    this.dialogueRenderer.startDialogue(
+      [line.text],
+      line.speaker,
+      () => this.showNextEventDialogueLine(),
+      this.textures.exists(portraitKey) ? portraitKey : undefined
+    );
+  }
+
+  /**
+   * Run the callback once event dialogue has finished (right away if none is playing)
+   */
+  private whenEventDialogueDone(callback: () => void): void {
+    if (this.eventDialogueActive) {
+      this.afterEventDialogue.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  /**
+   * Take a vanished summon, or an enemy a battle event removed, off the map
+   * (faded out unless the battle is being cleared)
+   */
+  private removeFromField(unit: Unit, fade: boolean = true): void {
+    this.gridManager.removeUnit(unit);
+    this.summonedUnits = this.summonedUnits.filter(u => u !== unit);
+    this.enemyUnits = this.enemyUnits.filter(u => u !== unit);
+
+    const { sprite, hpBarContainer, conditionMarkerContainer } = unit;
+    unit.sprite = undefined;
+    unit.hpBarContainer = undefined;
+    unit.conditionMarkerContainer = undefined;
+    hpBarContainer?.destroy();
+    conditionMarkerContainer?.destroy();
+
+    if (sprite && fade) {
+      this.tweens.add({
+        targets: sprite,
+        alpha: 0,
+        duration: 400,
+        onComplete: () => sprite.destroy(),
+      });
+    } else {
+      sprite?.destroy();
+    }
+
+    if (fade) {
+      this.updateTurnOrderUI();
+    }
+  }
+
+  /**
+   * Log a target's resistance, immunity or vulnerability to the damage it took
+   */
+  private logDamageModifier(target: Unit, result: AttackResult | SpellResult, indent: string = '  '): void {
+    if (result.damageModifier) {
+      this.addCombatLogMessage(`${indent}${describeDamageModifier(target, result.damageModifier, result.ability.damageType)}`);
+    }
+  }
+
+  /**
+   * Log statuses the hit ended on its target (e.g. hidden broken by damage)
+   */
+  private logBrokenStatuses(target: Unit, result: AttackResult | SpellResult, indent: string = '  '): void {
+    for (const line of describeBrokenStatuses(target, result.statusesBroken)) {
+      this.addCombatLogMessage(`${indent}${line}`);
+    }
+  }
+
+  /**
+   * Log the cover bonus from the defender's terrain
+   */
+  private logCoverBonus(result: AttackResult): void {
+    const cover = this.gridManager.getCoverBonus(result.attacker, result.defender);
+    if (cover > 0) {
+      this.addCombatLogMessage(`  ${result.defender.name} in cover: +${cover} DEF`);
+    }
+  }
+
   /**
    * Face the target before attacking
    */
@@ -6523,10 +7840,12 @@ export class BattleScene extends Phaser.Scene {
       unit.sprite.setAlpha(0.5);
     }
 
-    // Track enemy defeats for battle summary
-    if (unit.team === 'enemy') {
+    // Track enemy defeats for battle summary (summons don't count)
+    if (unit.team === 'enemy' && !unit.summonerId) {
       this.battleStats.enemiesDefeated++;
     }
+
+    this.updateObjectivesHUD();
   }
 
   /**
@@ -6544,14 +7863,10 @@ export class BattleScene extends Phaser.Scene {
    * Check for battle end conditions
    */
   private checkBattleEnd(): void {
-    const allEnemiesDefeated = this.enemyUnits.every((u) => u.isUnconscious);
-    const allHeroesDefeated = this.heroUnits.every((u) => u.isUnconscious);
+    this.updateObjectivesHUD();
 
-    if (allEnemiesDefeated) {
-      this.handleVictory();
-    } else if (allHeroesDefeated) {
-      this.handleDefeat();
-    }
+    // Emits battleEnded (-> handleVictory/handleDefeat) the first time a condition is met
+    this.engine.checkBattleEnd();
   }
 
   // ============================================
@@ -6564,6 +7879,13 @@ export class BattleScene extends Phaser.Scene {
   private waitForAdvance(callback: () => void): void {
     this.waitingForAdvance = true;
     this.pendingAdvanceCallback = callback;
+
+    // Nobody is at the keyboard during a replay
+    if (this.replayPlayer) {
+      this.time.delayedCall(REPLAY_ADVANCE_DELAY, () => {
+        this.whenReplayReady(() => this.handleAdvance());
+      });
+    }
   }
 
   /**
@@ -6593,9 +7915,10 @@ export class BattleScene extends Phaser.Scene {
         unit.conditionMarkerContainer.destroy();
       }
     });
-    this.units = [];
+    this.units.length = 0;
     this.heroUnits = [];
     this.enemyUnits = [];
+    this.summonedUnits = [];
     this.selectedUnit = null;
     this.movementTiles = [];
     this.isInMovementMode = false;
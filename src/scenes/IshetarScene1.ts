@@ -461,7 +461,9 @@ export class IshetarScene1 extends Phaser.Scene {
 
     // Place hero party members (excluding the player's chosen hero)
     const allHeroes = ['vicas', 'azrael', 'lyra', 'thump', 'rooker'];
-    const partyHeroes = allHeroes.filter(h => h !== this.heroId);
+    // Heroes lost in an Ironman campaign are no longer in the party
+    const isIronman = this.registry.get('ironmanSlot') !== undefined;
+    const partyHeroes = allHeroes.filter(h => h !== this.heroId && (!isIronman || this.heroState[h]));
     const heroPositions = this.mapData.heroPositions || [];
 
     partyHeroes.forEach((heroId, index) => {
@@ -605,6 +607,16 @@ export class IshetarScene1 extends Phaser.Scene {
     // Restore all heroes to full HP/Mana/Ki immediately
     this.heroState = SaveManager.restoreAllResources(this.heroState);
 
+    // Ironman campaigns record themselves to their one slot, no menu
+    const ironmanSlot: number | undefined = this.registry.get('ironmanSlot');
+    if (ironmanSlot !== undefined) {
+      this.positionDialogueForPlayer();
+      this.dialogueRenderer.startDialogue(npc.dialogue, npc.name, () => {
+        this.saveGame(ironmanSlot);
+      }, npc.portrait);
+      return;
+    }
+
     // Show shrine dialogue, then offer save choice
     this.positionDialogueForPlayer();
     this.dialogueRenderer.startDialogue(
@@ -656,7 +668,7 @@ export class IshetarScene1 extends Phaser.Scene {
         const heroName = this.getHeroDisplayName(preview.mainHero || 'unknown');
         const level = preview.heroLevels?.[0] || 1;
         const time = this.formatPlayTime(preview.playTime || 0);
-        return `Slot ${preview.slot}: ${heroName} Lv${level} ${time}`;
+        return `Slot ${preview.slot}: ${heroName} Lv${level} ${time}${preview.ironman ? ' [Ironman]' : ''}`;
       }
     });
     options.push('Cancel');
@@ -719,9 +731,12 @@ export class IshetarScene1 extends Phaser.Scene {
       timestamp: new Date().toISOString(),
       inventory: this.inventory,
       chests: this.chestStates,
+      rngSeed: this.registry.get('rngSeed'),
     };
 
-    const success = SaveManager.save(saveData);
+    const success = this.registry.get('ironmanSlot') !== undefined
+      ? SaveManager.autoSave(saveData)
+      : SaveManager.save(saveData);
 
     if (success) {
       // Update our tracked play time to include this session
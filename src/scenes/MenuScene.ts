@@ -3,6 +3,8 @@ import { GAME_CONFIG } from '../config';
 import { HeroState, SaveManager } from '../systems/SaveManager';
 import { ProgressBar } from '../components/ProgressBar';
 import { ItemData, InventoryState, CONSUMABLE_IDS, ConsumableId } from '../data/ItemTypes';
+import { DeathSaves } from '../data/BattleTypes';
+import { describeDeathSaves } from '../systems/DeathSaves';
 
 interface HeroData {
   id: string;
@@ -40,6 +42,7 @@ interface MenuSceneData {
   returnScene: string;
   initialView?: MenuView;
   inventory?: InventoryState;
+  deathSaves?: Record<string, DeathSaves>; // Downed heroes when opened mid-battle, by hero ID
 }
 
 /**
@@ -52,6 +55,7 @@ export class MenuScene extends Phaser.Scene {
   private abilitiesData: Record<string, AbilityData> = {};
   private itemsData: Record<string, ItemData> = {};
   private inventory: InventoryState | null = null;
+  private deathSaves: Record<string, DeathSaves> = {};
   private returnScene: string = '';
 
   private currentView: MenuView = 'main';
@@ -113,6 +117,7 @@ export class MenuScene extends Phaser.Scene {
     this.heroState = data.heroState || {};
     this.returnScene = data.returnScene || 'IshetarScene1';
     this.inventory = data.inventory || null;
+    this.deathSaves = data.deathSaves || {};
 
     // Load data from cache
     this.heroesData = this.cache.json.get('data_heroes') || {};
@@ -422,6 +427,18 @@ export class MenuScene extends Phaser.Scene {
     classText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
     this.partyElements.push(classText);
 
+    // Death save tally while the hero is down in battle
+    const saves = this.deathSaves[heroId];
+    if (saves) {
+      const savesText = this.add.text(cardX + 20, cardY + 62, `Death saves: ${describeDeathSaves(saves)}`, {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#ff6666',
+      });
+      savesText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+      this.partyElements.push(savesText);
+    }
+
     // HP Bar - on the left side
     const barX = cardX + 50;
     const barY = cardY + 80;
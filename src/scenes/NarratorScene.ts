@@ -2,6 +2,7 @@ import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
 import { DialogueRenderer } from '../systems/DialogueRenderer';
 import { SaveManager, SaveSlotPreview } from '../systems/SaveManager';
+import { generateSeed } from '../systems/DiceRoller';
 
 interface HeroOption {
   id: string;
@@ -13,7 +14,7 @@ interface HeroOption {
 export class NarratorScene extends Phaser.Scene {
   private dialogueRenderer!: DialogueRenderer;
   private enterKey!: Phaser.Input.Keyboard.Key;
-  private currentPhase: 'mode_select' | 'intro' | 'menu' | 'hero_select' | 'opening' | 'save_select' | 'delete_confirm' | 'dev_scene_select' = 'mode_select';
+  private currentPhase: 'mode_select' | 'intro' | 'menu' | 'hero_select' | 'opening' | 'save_select' | 'delete_confirm' | 'dev_scene_select' | 'campaign_select' = 'mode_select';
   private menuSelection: number = 0;
   private menuOptions: string[] = ['New Game', 'Continue'];
 
@@ -38,6 +39,7 @@ export class NarratorScene extends Phaser.Scene {
     { name: 'Battle: Quetzi Shrine', scene: 'BattleScene:quetzi_shrine', description: 'Lv2 - Rescue mission' },
     { name: 'Battle: Hellhound Cave', scene: 'BattleScene:hellhound_cave', description: 'Lv3 - Final battle' },
     { name: 'Battle: Maple Tree', scene: 'BattleScene:maple_tree', description: 'Lv4 - Bonus battle' },
+    { name: 'Battle: Shrine Defense', scene: 'BattleScene:shrine_defense', description: 'Lv2 - Protect Meris (test)' },
     { name: 'MenuScene', scene: 'MenuScene', description: 'Party stats overlay' },
   ];
   private devSceneTexts: Phaser.GameObjects.Text[] = [];
@@ -76,6 +78,15 @@ export class NarratorScene extends Phaser.Scene {
   private heroSelectionBorder!: Phaser.GameObjects.Graphics;
   private selectedHeroId: string = 'azrael';
 
+  // Campaign selection (Normal vs Ironman)
+  private campaignSelection: number = 0;
+  private campaignOptions: { name: string; description: string }[] = [
+    { name: 'Normal', description: '- Save at any shrine' },
+    { name: 'Ironman', description: '- One auto-save, fallen heroes stay fallen' },
+  ];
+  private campaignTexts: Phaser.GameObjects.Text[] = [];
+  private campaignCursorText!: Phaser.GameObjects.Text;
+
   constructor() {
     super({ key: 'NarratorScene' });
   }
@@ -303,6 +314,7 @@ export class NarratorScene extends Phaser.Scene {
         case 'quetzi_shrine': return 2;
         case 'hellhound_cave': return 3;
         case 'maple_tree': return 4;
+        case 'shrine_defense': return 2;
         default: return 1;
       }
     };
@@ -559,8 +571,81 @@ export class NarratorScene extends Phaser.Scene {
   }
 
   private startNewGame(): void {
+    this.currentPhase = 'campaign_select';
+    this.campaignSelection = 0;
+
+    this.dialogueRenderer.showStatic('And how shall your tale be told?', 'Miss Tibbets');
+
+    const menuStartY = 360;
+    const menuX = 450;
+
+    this.campaignOptions.forEach((option, index) => {
+      const text = this.add.text(menuX, menuStartY + index * 32, `${option.name}  ${option.description}`, {
+        fontFamily: 'monospace',
+        fontSize: '16px',
+        color: '#ffffff',
+      });
+      text.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+      this.campaignTexts.push(text);
+    });
+
+    this.campaignCursorText = this.add.text(menuX - 20, menuStartY, '>', {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#ffff00',
+    });
+    this.campaignCursorText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+  }
+
+  private clearCampaignSelect(): void {
+    this.campaignTexts.forEach(t => t.destroy());
+    this.campaignTexts = [];
+    if (this.campaignCursorText) {
+      this.campaignCursorText.destroy();
+    }
+  }
+
+  private updateCampaignCursor(): void {
+    if (this.campaignCursorText) {
+      const menuStartY = 360;
+      this.campaignCursorText.setY(menuStartY + this.campaignSelection * 32);
+    }
+  }
+
+  private selectCampaign(): void {
+    const selected = this.campaignOptions[this.campaignSelection].name;
+    this.clearCampaignSelect();
+
+    if (selected === 'Ironman') {
+      // Ironman claims one slot up front; it is the only one the campaign writes to
+      const slot = SaveManager.findEmptySlot();
+      if (slot === null) {
+        this.currentPhase = 'intro';
+        const fullLines = [
+          "An Ironman tale needs a page of its own, and every slot is already full.",
+          "Clear one away under Continue, or tell your tale the usual way."
+        ];
+        this.dialogueRenderer.startDialogue(fullLines, 'Miss Tibbets', () => {
+          this.startNewGame();
+        });
+        return;
+      }
+      this.registry.set('ironmanSlot', slot);
+    } else {
+      this.registry.remove('ironmanSlot');
+    }
+
+    this.startOpening();
+  }
+
+  private startOpening(): void {
     this.currentPhase = 'opening';
 
+    // Fresh campaign RNG seed unless one was given via ?seed=
+    if (this.registry.get('rngSeed') === undefined) {
+      this.registry.set('rngSeed', generateSeed());
+    }
+
     const heroName = this.heroes.find(h => h.id === this.selectedHeroId)?.name || 'hero';
 
     const openingLines = [
@@ -627,7 +712,8 @@ export class NarratorScene extends Phaser.Scene {
         const levels = preview.heroLevels?.join('/') || '1/1/1/1/1';
         const playTime = SaveManager.formatPlayTime(preview.playTime || 0);
         const location = SaveManager.getMapDisplayName(preview.location || 'unknown');
-        slotText = `Slot ${preview.slot}: ${heroName} | Lv ${levels} | ${playTime} | ${location}`;
+        const mode = preview.ironman ? ' | Ironman' : '';
+        slotText = `Slot ${preview.slot}: ${heroName} | Lv ${levels} | ${playTime} | ${location}${mode}`;
       }
 
       const text = this.add.text(startX, y, slotText, {
@@ -684,18 +770,31 @@ export class NarratorScene extends Phaser.Scene {
     // Load the save and start the game
     const saveData = SaveManager.load(selectedPreview.slot);
     if (saveData) {
+      // Restore the campaign RNG seed so battles replay the same dice
+      this.registry.set('rngSeed', saveData.rngSeed);
+
+      // Ironman saves keep writing to their own slot; old saves load as normal
+      if (saveData.ironman) {
+        this.registry.set('ironmanSlot', saveData.slot);
+      } else {
+        this.registry.remove('ironmanSlot');
+      }
+
       this.saveSlotContainer.setVisible(false);
       this.dialogueRenderer.hide();
 
       // Special case: quetzi_shrine_exploration loads into TravelScene
       // Position at the shrine location so player can continue exploring
-      if (saveData.currentMap === 'quetzi_shrine_exploration') {
+      // Ironman auto-saves made leaving a battle for the world map keep their position
+      if (saveData.currentMap === 'quetzi_shrine_exploration' || saveData.currentMap === 'world_map') {
         this.scene.start('TravelScene', {
           heroId: saveData.mainHero,
           heroState: saveData.heroState,
           gameFlags: saveData.flags,
           playTime: saveData.playTime,
-          playerPosition: { x: 4, y: 13 }, // Position immediately left of Quetzi Shrine marker (5, 13)
+          playerPosition: saveData.currentMap === 'world_map'
+            ? saveData.playerPosition
+            : { x: 4, y: 13 }, // Position immediately left of Quetzi Shrine marker (5, 13)
           inventory: saveData.inventory,
           chests: saveData.chests,
         });
@@ -874,6 +973,18 @@ export class NarratorScene extends Phaser.Scene {
       if (Phaser.Input.Keyboard.JustDown(this.enterKey)) {
         this.selectHero();
       }
+    } else if (this.currentPhase === 'campaign_select') {
+      if (Phaser.Input.Keyboard.JustDown(this.upKey)) {
+        this.campaignSelection = Math.max(0, this.campaignSelection - 1);
+        this.updateCampaignCursor();
+      }
+      if (Phaser.Input.Keyboard.JustDown(this.downKey)) {
+        this.campaignSelection = Math.min(this.campaignOptions.length - 1, this.campaignSelection + 1);
+        this.updateCampaignCursor();
+      }
+      if (Phaser.Input.Keyboard.JustDown(this.enterKey)) {
+        this.selectCampaign();
+      }
     } else if (this.currentPhase === 'save_select') {
       if (Phaser.Input.Keyboard.JustDown(this.upKey)) {
         this.saveSlotSelection = Math.max(0, this.saveSlotSelection - 1);
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
 import { InventoryState } from '../data/ItemTypes';
+import { parseReplay } from '../systems/BattleReplay';
 
 export class PreloadScene extends Phaser.Scene {
   constructor() {
@@ -120,11 +121,20 @@ export class PreloadScene extends Phaser.Scene {
     this.load.json('data_enemies', 'data/enemies.json');
     this.load.json('data_abilities', 'data/abilities.json');
     this.load.json('data_items', 'data/items.json');
+    this.load.json('data_advantage', 'data/advantage.json');
+    this.load.json('data_status_effects', 'data/status_effects.json');
     this.load.json('data_battle_south_gate', 'data/battles/south_gate.json');
     this.load.json('data_battle_hunting_paths', 'data/battles/hunting_paths.json');
     this.load.json('data_battle_quetzi_shrine', 'data/battles/quetzi_shrine.json');
     this.load.json('data_battle_hellhound_cave', 'data/battles/hellhound_cave.json');
     this.load.json('data_battle_maple_tree', 'data/battles/maple_tree.json');
+    this.load.json('data_battle_shrine_defense', 'data/battles/shrine_defense.json');
+
+    // Replay log to play back (?replay=<file>)
+    const replayFile = this.registry.get('replayFile');
+    if (replayFile) {
+      this.load.json('replay_log', replayFile);
+    }
 
     // Audio / Music
     this.load.audio('music_title', 'assets/audio/title_screen.mp3');
@@ -183,8 +193,21 @@ export class PreloadScene extends Phaser.Scene {
     const isTravelTest = this.registry.get('travelTestMode');
     const isMenuTest = this.registry.get('menuTestMode');
     const isLevelUpTest = this.registry.get('levelUpTestMode');
-
-    if (isLevelUpTest) {
+    const replayFile = this.registry.get('replayFile');
+
+    if (replayFile) {
+      // Play the recorded battle back in BattleScene
+      const replay = parseReplay(this.cache.json.get('replay_log'));
+      if (replay) {
+        this.scene.start('BattleScene', {
+          battleMap: replay.battleId,
+          heroId: 'vicas',
+          replay,
+        });
+      } else {
+        this.showReplayError(replayFile);
+      }
+    } else if (isLevelUpTest) {
       // Jump straight to IshetarScene1 - it will read the levelUpTestMode from registry
       this.scene.start('IshetarScene1', {
         heroId: 'vicas',
@@ -262,6 +285,16 @@ export class PreloadScene extends Phaser.Scene {
     }
   }
 
+  private showReplayError(replayFile: string): void {
+    const errorText = this.add.text(GAME_CONFIG.WIDTH / 2, GAME_CONFIG.HEIGHT / 2, `Could not load replay: ${replayFile}`, {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#ff4444',
+    });
+    errorText.setOrigin(0.5, 0.5);
+    errorText.setResolution(GAME_CONFIG.TEXT_RESOLUTION);
+  }
+
   private showLaunchButton(): void {
     const width = GAME_CONFIG.WIDTH;
     const height = GAME_CONFIG.HEIGHT;
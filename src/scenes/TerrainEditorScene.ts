@@ -1,5 +1,8 @@
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config';
+import { SpawnPoint, TerrainType } from '../data/BattleTypes';
+import { getTerrainRules } from '../systems/GridManager';
+import { getEntryTiles } from '../systems/Reinforcements';
 
 interface MapOption {
   id: string;
@@ -19,7 +22,18 @@ interface EnemyPlacement {
   y: number;
 }
 
-type EditorMode = 'terrain' | 'hero' | 'enemy';
+type EditorMode = 'terrain' | 'hero' | 'enemy' | 'spawn';
+
+// Number keys 1-7 paint these terrain kinds
+const PAINT_KEYS: [string, TerrainType][] = [
+  ['ONE', TerrainType.Normal],
+  ['TWO', TerrainType.Difficult],
+  ['THREE', TerrainType.Impassable],
+  ['FOUR', TerrainType.Cover],
+  ['FIVE', TerrainType.Hazard],
+  ['SIX', TerrainType.Water],
+  ['SEVEN', TerrainType.HighGround],
+];
 
 export class TerrainEditorScene extends Phaser.Scene {
   private maps: MapOption[] = [
@@ -56,6 +70,7 @@ export class TerrainEditorScene extends Phaser.Scene {
   // Unit placement data
   private heroPositions: HeroPosition[] = [];
   private enemyPlacements: EnemyPlacement[] = [];
+  private spawnPoints: SpawnPoint[] = [];
 
   constructor() {
     super({ key: 'TerrainEditorScene' });
@@ -131,13 +146,18 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.input.keyboard!.on('keydown-C', () => this.clearAll());
 
     // Terrain modes
-    this.input.keyboard!.on('keydown-ONE', () => { this.editorMode = 'terrain'; this.currentPaintValue = 0; this.updateInstructions(); });
-    this.input.keyboard!.on('keydown-TWO', () => { this.editorMode = 'terrain'; this.currentPaintValue = 1; this.updateInstructions(); });
-    this.input.keyboard!.on('keydown-THREE', () => { this.editorMode = 'terrain'; this.currentPaintValue = 2; this.updateInstructions(); });
+    PAINT_KEYS.forEach(([key, terrain]) => {
+      this.input.keyboard!.on(`keydown-${key}`, () => {
+        this.editorMode = 'terrain';
+        this.currentPaintValue = terrain;
+        this.updateInstructions();
+      });
+    });
 
     // Unit placement modes
     this.input.keyboard!.on('keydown-H', () => { this.editorMode = 'hero'; this.updateInstructions(); });
     this.input.keyboard!.on('keydown-N', () => { this.editorMode = 'enemy'; this.updateInstructions(); });
+    this.input.keyboard!.on('keydown-R', () => { this.editorMode = 'spawn'; this.updateInstructions(); });
 
     // Enemy type cycling (when in enemy mode)
     this.input.keyboard!.on('keydown-OPEN_BRACKET', () => this.cycleEnemyType(-1));
@@ -173,9 +193,11 @@ export class TerrainEditorScene extends Phaser.Scene {
     const isBattle = map.isBattle;
 
     const modeIndicator = this.editorMode === 'terrain'
-      ? `Terrain: ${['0: Walkable', '1: Difficult', '2: Impassable'][this.currentPaintValue]}`
+      ? `Terrain: ${this.currentPaintValue}: ${getTerrainRules(this.currentPaintValue).name}`
       : this.editorMode === 'hero'
       ? 'Hero Placement (click to add/remove)'
+      : this.editorMode === 'spawn'
+      ? 'Reinforcement Spawn Points (click to add/remove)'
       : `Enemy: ${this.enemyTypes[this.currentEnemyTypeIndex]} ([ ] to cycle)`;
 
     const lines = [
@@ -185,6 +207,7 @@ export class TerrainEditorScene extends Phaser.Scene {
       '',
       'TERRAIN MODE:',
       '1: Walkable  2: Difficult  3: Impassable',
+      '4: Cover  5: Hazard  6: Water  7: High Ground',
       '',
     ];
 
@@ -194,6 +217,7 @@ export class TerrainEditorScene extends Phaser.Scene {
         'H: Hero positions',
         'N: Enemy positions',
         '[ / ]: Cycle enemy type',
+        'R: Reinforcement spawn points',
         ''
       );
     }
@@ -222,6 +246,7 @@ export class TerrainEditorScene extends Phaser.Scene {
     // Reset unit placements
     this.heroPositions = [];
     this.enemyPlacements = [];
+    this.spawnPoints = [];
 
     // Load map image (scaled to 50% to match game rendering)
     this.mapImage = this.add.image(0, 0, map.file);
@@ -316,17 +341,18 @@ export class TerrainEditorScene extends Phaser.Scene {
 
     if (gridX >= 0 && gridX < this.mapGridWidth && gridY >= 0 && gridY < this.mapGridHeight) {
       const currentValue = this.terrainData[gridY]?.[gridX] ?? 0;
-      const terrainNames = ['Walkable', 'Difficult', 'Impassable'];
 
       // Check for units at this position
       const heroIndex = this.heroPositions.findIndex(h => h.x === gridX && h.y === gridY);
       const enemy = this.enemyPlacements.find(e => e.x === gridX && e.y === gridY);
+      const spawnPoint = this.spawnPoints.find(p => p.x === gridX && p.y === gridY);
 
       let unitInfo = '';
       if (heroIndex !== -1) unitInfo = ` | Hero #${heroIndex + 1}`;
       if (enemy) unitInfo = ` | Enemy: ${enemy.type}`;
+      if (spawnPoint) unitInfo += ` | Spawn: ${spawnPoint.id}`;
 
-      this.coordsText.setText(`Tile: ${gridX}, ${gridY} [${terrainNames[currentValue]}]${unitInfo}`);
+      this.coordsText.setText(`Tile: ${gridX}, ${gridY} [${getTerrainRules(currentValue).name}]${unitInfo}`);
 
       // Paint while dragging (terrain mode only)
       if (this.isDragging && pointer.leftButtonDown() && this.editorMode === 'terrain') {
@@ -353,6 +379,8 @@ export class TerrainEditorScene extends Phaser.Scene {
         this.toggleHeroPosition(gridX, gridY);
       } else if (this.editorMode === 'enemy') {
         this.toggleEnemyPosition(gridX, gridY);
+      } else if (this.editorMode === 'spawn') {
+        this.toggleSpawnPoint(gridX, gridY);
       }
     }
   }
@@ -395,6 +423,21 @@ export class TerrainEditorScene extends Phaser.Scene {
     this.redrawUnitOverlay();
   }
 
+  private toggleSpawnPoint(gridX: number, gridY: number): void {
+    const existingIndex = this.spawnPoints.findIndex(p => p.x === gridX && p.y === gridY);
+
+    if (existingIndex !== -1) {
+      // Remove existing spawn point
+      this.spawnPoints.splice(existingIndex, 1);
+    } else {
+      // Add new spawn point (numbered past the highest so IDs stay unique)
+      const highest = Math.max(0, ...this.spawnPoints.map(p => Number(p.id.replace('spawn_', '')) || 0));
+      this.spawnPoints.push({ id: `spawn_${highest + 1}`, x: gridX, y: gridY });
+    }
+
+    this.redrawUnitOverlay();
+  }
+
   private paintTile(gridX: number, gridY: number): void {
     if (gridX < 0 || gridX >= this.mapGridWidth || gridY < 0 || gridY >= this.mapGridHeight) {
       return;
@@ -402,6 +445,11 @@ export class TerrainEditorScene extends Phaser.Scene {
 
     this.terrainData[gridY][gridX] = this.currentPaintValue;
     this.redrawTerrainOverlay();
+
+    // Spawn previews depend on which tiles can be stood on
+    if (this.spawnPoints.length > 0) {
+      this.redrawUnitOverlay();
+    }
   }
 
   private redrawTerrainOverlay(): void {
@@ -409,19 +457,10 @@ export class TerrainEditorScene extends Phaser.Scene {
 
     for (let y = 0; y < this.mapGridHeight; y++) {
       for (let x = 0; x < this.mapGridWidth; x++) {
-        const value = this.terrainData[y][x];
-        if (value === 1) {
-          // Difficult terrain - yellow
-          this.terrainOverlay.fillStyle(0xffff00, 0.4);
-          this.terrainOverlay.fillRect(
-            x * GAME_CONFIG.TILE_SIZE,
-            y * GAME_CONFIG.TILE_SIZE,
-            GAME_CONFIG.TILE_SIZE,
-            GAME_CONFIG.TILE_SIZE
-          );
-        } else if (value === 2) {
-          // Impassable - red
-          this.terrainOverlay.fillStyle(0xff0000, 0.4);
+        // Each terrain kind has its own color (difficult yellow, impassable red, ...)
+        const color = getTerrainRules(this.terrainData[y][x]).editorColor;
+        if (color !== undefined) {
+          this.terrainOverlay.fillStyle(color, 0.4);
           this.terrainOverlay.fillRect(
             x * GAME_CONFIG.TILE_SIZE,
             y * GAME_CONFIG.TILE_SIZE,
@@ -474,7 +513,26 @@ export class TerrainEditorScene extends Phaser.Scene {
       this.unitOverlay.strokeCircle(centerX, centerY, halfTile - 4);
     });
 
-    // Add text labels for heroes and enemies
+    // Draw spawn points (purple squares) with the tiles reinforcements could arrive on
+    const config = { gridWidth: this.mapGridWidth, gridHeight: this.mapGridHeight, spawnPoints: this.spawnPoints };
+    this.spawnPoints.forEach(point => {
+      getEntryTiles(point.id, config)
+        .filter(tile => {
+          const rules = getTerrainRules(this.terrainData[tile.y][tile.x]);
+          return rules.moveCost !== Infinity && !rules.swimOnly && !rules.hazardDamage;
+        })
+        .forEach(tile => {
+          this.unitOverlay.fillStyle(0x9933ff, 0.25);
+          this.unitOverlay.fillRect(tile.x * tileSize, tile.y * tileSize, tileSize, tileSize);
+        });
+
+      this.unitOverlay.fillStyle(0x9933ff, 0.8);
+      this.unitOverlay.fillRect(point.x * tileSize + 4, point.y * tileSize + 4, tileSize - 8, tileSize - 8);
+      this.unitOverlay.lineStyle(2, 0xffffff, 1);
+      this.unitOverlay.strokeRect(point.x * tileSize + 4, point.y * tileSize + 4, tileSize - 8, tileSize - 8);
+    });
+
+    // Add text labels for heroes, enemies and spawn points
     // Clear any existing labels first
     this.children.list
       .filter(child => child.getData && child.getData('unitLabel'))
@@ -506,6 +564,19 @@ export class TerrainEditorScene extends Phaser.Scene {
       text.setDepth(101);
       text.setData('unitLabel', true);
     });
+
+    // Spawn point numbers
+    this.spawnPoints.forEach(point => {
+      const text = this.add.text(
+        point.x * tileSize + halfTile,
+        point.y * tileSize + halfTile,
+        point.id.replace('spawn_', 'S'),
+        { fontFamily: 'monospace', fontSize: '12px', color: '#ffffff', fontStyle: 'bold' }
+      );
+      text.setOrigin(0.5, 0.5);
+      text.setDepth(101);
+      text.setData('unitLabel', true);
+    });
   }
 
   private clearAll(): void {
@@ -519,6 +590,7 @@ export class TerrainEditorScene extends Phaser.Scene {
     // Clear units
     this.heroPositions = [];
     this.enemyPlacements = [];
+    this.spawnPoints = [];
 
     this.redrawTerrainOverlay();
     this.redrawUnitOverlay();
@@ -538,6 +610,10 @@ export class TerrainEditorScene extends Phaser.Scene {
         terrain: this.terrainData,
         heroStartPositions: this.heroPositions,
         enemies: this.enemyPlacements,
+        npcs: [],
+        spawnPoints: this.spawnPoints,
+        reinforcements: [],
+        events: [],
         victoryCondition: 'defeat_all',
         defeatCondition: 'all_heroes_down',
         introCutscene: ['Battle begins!'],
@@ -577,6 +653,8 @@ export class TerrainEditorScene extends Phaser.Scene {
       console.log(JSON.stringify(this.heroPositions));
       console.log('\nENEMY PLACEMENTS:');
       console.log(JSON.stringify(this.enemyPlacements));
+      console.log('\nSPAWN POINTS:');
+      console.log(JSON.stringify(this.spawnPoints));
     }
 
     alert(`Data exported to browser console!\nOpen DevTools (F12) → Console tab to copy it.`);
@@ -1,6 +1,16 @@
-import { Unit, Ability } from '../data/BattleTypes';
+import { Unit, Ability, ChainArea } from '../data/BattleTypes';
 import { GridManager } from './GridManager';
 import { getDistance } from './CombatResolver';
+import { getMovementAllowance } from './StatusEffects';
+import { getDamageModifier, getDamageMultiplier } from './DamageTypes';
+import {
+  getAreaDamageScale,
+  getAreaOriginOn,
+  getAreaTiles,
+  getChainTargets,
+  getUnitsInArea,
+  isAreaAbility,
+} from './AreaShapes';
 
 /**
  * AI Decision Result
@@ -16,17 +26,37 @@ export interface AIDecision {
 // This allows players to heal/regroup early but prevents turtling indefinitely
 const BASE_AGGRO_RANGE = 5;
 
+// Each point of defense is a 5% swing on a d20 attack roll
+const HIT_CHANCE_PER_DEFENSE = 0.05;
+
+/**
+ * AI Controller options
+ */
+export interface AIControllerOptions {
+  ignoreAggroRange?: boolean; // Always pursue targets (e.g. AI-driven heroes in simulations)
+  weighDebuffsByDamage?: boolean; // Rate defense debuffs by the extra damage they set up (AI-driven heroes)
+}
+
 /**
  * AI Controller for enemy units
  * Handles decision making for enemy turns
+ * Targets are always the opposing team, so it can also drive heroes headlessly
  */
 export class AIController {
   private gridManager: GridManager;
   private abilities: Record<string, Ability>;
-
-  constructor(gridManager: GridManager, abilities: Record<string, Ability>) {
+  private ignoreAggroRange: boolean;
+  private weighDebuffsByDamage: boolean;
+
+  constructor(
+    gridManager: GridManager,
+    abilities: Record<string, Ability>,
+    options: AIControllerOptions = {}
+  ) {
     this.gridManager = gridManager;
     this.abilities = abilities;
+    this.ignoreAggroRange = options.ignoreAggroRange ?? false;
+    this.weighDebuffsByDamage = options.weighDebuffsByDamage ?? false;
   }
 
   /**
@@ -39,7 +69,8 @@ export class AIController {
     hasActed: boolean,
     currentRound: number = 1
   ): AIDecision {
-    const heroes = allUnits.filter(u => u.team === 'hero' && !u.isUnconscious);
+    // Opposing units (heroes when controlling an enemy)
+    const heroes = allUnits.filter(u => u.team !== enemy.team && !u.isUnconscious);
 
     if (heroes.length === 0) {
       return { action: 'wait' };
@@ -55,7 +86,7 @@ export class AIController {
       ...heroes.map(h => getDistance(enemy.gridX, enemy.gridY, h.gridX, h.gridY))
     );
 
-    if (closestHeroDistance > aggroRange) {
+    if (!this.ignoreAggroRange && closestHeroDistance > aggroRange) {
       // No heroes in aggro range - enemy waits passively
       return { action: 'wait' };
     }
@@ -65,6 +96,14 @@ export class AIController {
       .map(id => this.abilities[id])
       .filter(a => a !== undefined);
 
+    // Call in help before anything else while none of ours is on the field
+    if (!hasActed) {
+      const summonDecision = this.trySummon(enemy, allUnits, enemyAbilities);
+      if (summonDecision) {
+        return summonDecision;
+      }
+    }
+
     // Check if we can attack from current position
     if (!hasActed) {
       const attackDecision = this.tryAttack(enemy, heroes, enemyAbilities);
@@ -92,6 +131,28 @@ export class AIController {
     return { action: 'wait' };
   }
 
+  /**
+   * Facing to end the turn with: toward the nearest opponent, so attackers
+   * have to work around to the side or rear
+   * Returns null when no opponents are left
+   */
+  chooseFacing(unit: Unit, allUnits: Unit[]): Unit['facing'] | null {
+    const opponents = allUnits.filter(u => u.team !== unit.team && !u.isUnconscious);
+    if (opponents.length === 0) return null;
+
+    const nearest = opponents.reduce((best, u) =>
+      getDistance(unit.gridX, unit.gridY, u.gridX, u.gridY) <
+        getDistance(unit.gridX, unit.gridY, best.gridX, best.gridY) ? u : best
+    );
+
+    const dx = nearest.gridX - unit.gridX;
+    const dy = nearest.gridY - unit.gridY;
+    if (Math.abs(dx) > Math.abs(dy)) {
+      return dx > 0 ? 'east' : 'west';
+    }
+    return dy > 0 ? 'south' : 'north';
+  }
+
   /**
    * Try to find an attack or debuff we can make from current position
    */
@@ -107,11 +168,14 @@ export class AIController {
         // Must be able to afford the ability
         if (!this.canAffordAbility(enemy, a)) return false;
 
+        // Don't drop a concentration effect that's still going for another
+        if (a.concentration && enemy.concentratingOn) return false;
+
         // Include attacks
         if (a.type === 'attack') return true;
 
-        // Include spells that target enemies (damage or debuff)
-        if (a.type === 'spell' && a.targetType === 'enemy') return true;
+        // Include spells that target enemies (damage or debuff) or an area
+        if (a.type === 'spell' && (a.targetType === 'enemy' || isAreaAbility(a))) return true;
 
         // Include debuffs
         if (a.type === 'debuff') return true;
@@ -120,42 +184,71 @@ export class AIController {
       })
       .sort((a, b) => {
         // Sort by estimated tactical value (damage + debuff value)
-        const valueA = this.estimateAbilityValue(a);
-        const valueB = this.estimateAbilityValue(b);
+        const valueA = this.estimateAbilityValue(enemy, a);
+        const valueB = this.estimateAbilityValue(enemy, b);
         return valueB - valueA;
       });
 
-    // Find best target for each ability
+    // Find best target for each ability, then use the ability worth the most
+    // against its target (resistances and vulnerabilities change the damage)
+    let best: { decision: AIDecision; value: number } | null = null;
     for (const ability of offensiveAbilities) {
       const target = this.selectTarget(enemy, heroes, ability);
-      if (target) {
-        return {
-          action: ability.type === 'attack' ? 'attack' : 'ability',
-          targetUnit: target,
-          ability,
+      if (!target) continue;
+
+      const value = this.estimateAbilityValue(enemy, ability, target);
+      if (!best || value > best.value) {
+        best = {
+          decision: {
+            action: ability.type === 'attack' ? 'attack' : 'ability',
+            targetUnit: target,
+            ability,
+          },
+          value,
         };
       }
     }
 
-    return null;
+    return best?.decision ?? null;
+  }
+
+  /**
+   * Use a summoning ability if the unit has none of its summons left and
+   * there's room beside it for at least one
+   */
+  private trySummon(
+    enemy: Unit,
+    allUnits: Unit[],
+    abilities: Ability[]
+  ): AIDecision | null {
+    if (allUnits.some(u => u.summonerId === enemy.id && !u.isUnconscious)) return null;
+
+    const ability = abilities.find(a => a.summon && this.canAffordAbility(enemy, a));
+    if (!ability) return null;
+
+    const hasRoom = this.gridManager.getFreeTilesNear(enemy.gridX, enemy.gridY, 1, {}).length > 0;
+    return hasRoom ? { action: 'ability', targetUnit: enemy, ability } : null;
   }
 
   /**
    * Select the best target for an ability based on enemy type
    */
   private selectTarget(enemy: Unit, heroes: Unit[], ability: Ability): Unit | null {
-    // Get heroes in range
-    const inRange = heroes.filter(hero => {
-      const dist = getDistance(enemy.gridX, enemy.gridY, hero.gridX, hero.gridY);
-      return dist <= ability.range;
-    });
+    // Get heroes in range and line of sight, skipping any the ability can't hurt
+    const inRange = heroes.filter(hero =>
+      this.gridManager.canTargetTile(enemy.gridX, enemy.gridY, hero.gridX, hero.gridY, ability) &&
+      !(ability.damage && !ability.effect && getDamageModifier(hero, ability.damageType) === 'immune')
+    );
 
     if (inRange.length === 0) return null;
 
     // For AOE abilities, find the target that would hit the most heroes
-    if (ability.targetType === 'area' && ability.areaSize) {
+    if (isAreaAbility(ability)) {
       return this.selectAOETarget(enemy, heroes, ability, inRange);
     }
+    if (ability.area?.type === 'chain') {
+      return this.selectChainTarget(enemy, heroes, ability, ability.area, inRange);
+    }
 
     // Target prioritization based on enemy type
     const enemyType = enemy.dataId;
@@ -184,33 +277,19 @@ export class AIController {
    * Prioritizes targets that would hit the most heroes
    */
   private selectAOETarget(
-    _enemy: Unit,
+    enemy: Unit,
     heroes: Unit[],
     ability: Ability,
     inRange: Unit[]
   ): Unit | null {
-    if (!ability.areaSize) return inRange[0];
-
-    const aoeWidth = ability.areaSize.width;
-    const aoeHeight = ability.areaSize.height;
-
     let bestTarget: Unit | null = null;
     let bestHitCount = 0;
 
     // For each potential target, calculate how many heroes would be hit
     for (const target of inRange) {
-      // AOE is centered on target (same logic as executeEnemyAOEAttack)
-      const originX = target.gridX - Math.floor(aoeWidth / 2);
-      const originY = target.gridY - Math.floor(aoeHeight / 2);
-
-      // Count heroes in this AOE area
-      const hitCount = heroes.filter(hero => {
-        if (hero.isUnconscious) return false;
-        return hero.gridX >= originX &&
-               hero.gridX < originX + aoeWidth &&
-               hero.gridY >= originY &&
-               hero.gridY < originY + aoeHeight;
-      }).length;
+      // Aimed at the target (same logic as executeEnemyAOEAttack)
+      const origin = getAreaOriginOn(ability, { x: target.gridX, y: target.gridY });
+      const hitCount = getUnitsInArea(getAreaTiles(ability, enemy, origin), heroes).length;
 
       if (hitCount > bestHitCount) {
         bestHitCount = hitCount;
@@ -223,13 +302,33 @@ export class AIController {
       }
     }
 
-    // Only use AOE if it hits multiple targets, or if no better option
-    if (bestHitCount >= 2 || inRange.length === 1) {
-      return bestTarget;
+    // Null when every aim misses (a line or cone can't reach a diagonal target)
+    return bestTarget;
+  }
+
+  /**
+   * Select the chain target whose jumps deal the most total damage
+   */
+  private selectChainTarget(
+    enemy: Unit,
+    heroes: Unit[],
+    ability: Ability,
+    chain: ChainArea,
+    inRange: Unit[]
+  ): Unit | null {
+    let bestTarget: Unit | null = null;
+    let bestScale = 0;
+
+    for (const target of inRange) {
+      const scale = getChainTargets(enemy, target, chain, [enemy, ...heroes])
+        .reduce((sum, _unit, index) => sum + getAreaDamageScale(ability, index), 0);
+      if (scale > bestScale) {
+        bestScale = scale;
+        bestTarget = target;
+      }
     }
 
-    // If AOE would only hit 1 target, still use it (it's still damage)
-    return bestTarget || inRange[0];
+    return bestTarget;
   }
 
   /**
@@ -274,7 +373,7 @@ export class AIController {
     const moveRange = this.gridManager.getMovementRange(
       enemy.gridX,
       enemy.gridY,
-      6, // Standard movement
+      getMovementAllowance(enemy, 6), // Standard movement, less for slowed/immobilized
       enemy
     );
 
@@ -333,6 +432,7 @@ export class AIController {
     // Get all offensive abilities (attacks, damaging spells, debuffs)
     const offensiveAbilities = abilities.filter(a => {
       if (!this.canAffordAbility(enemy, a)) return false;
+      if (a.concentration && enemy.concentratingOn) return false;
       if (a.type === 'attack') return true;
       if (a.type === 'spell' && a.targetType === 'enemy') return true;
       if (a.type === 'debuff') return true;
@@ -369,8 +469,8 @@ export class AIController {
 
     // Default: prefer highest tactical value
     return offensiveAbilities.sort((a, b) => {
-      const valueA = this.estimateAbilityValue(a);
-      const valueB = this.estimateAbilityValue(b);
+      const valueA = this.estimateAbilityValue(enemy, a);
+      const valueB = this.estimateAbilityValue(enemy, b);
       return valueB - valueA;
     })[0];
   }
@@ -401,8 +501,9 @@ export class AIController {
 
     if (!targetHero) return -1000;
 
-    // Reward being in attack range
-    if (closestHeroDist <= desiredRange) {
+    // Reward being in attack range, with a clear shot
+    if (closestHeroDist <= desiredRange &&
+        this.gridManager.hasLineOfSight(pos.x, pos.y, targetHero.gridX, targetHero.gridY)) {
       score += 100;
     }
 
@@ -435,6 +536,21 @@ export class AIController {
       score += heroesInMeleeRange * 15;
     }
 
+    // Terrain: keep off hazards, favour cover at range and high ground in range
+    const terrain = this.gridManager.getTerrainRules(pos.x, pos.y);
+    if (terrain.hazardDamage && !enemy.flying &&
+        getDamageModifier(enemy, terrain.hazardDamageType) !== 'immune') {
+      score -= 30;
+    }
+    if (terrain.rangedDefense && closestHeroDist > 1) {
+      score += terrain.rangedDefense * 5;
+    }
+    const elevation = this.gridManager.getElevation(pos.x, pos.y);
+    if (closestHeroDist <= desiredRange &&
+        heroes.some(h => this.gridManager.getElevation(h.gridX, h.gridY) < elevation)) {
+      score += 10;
+    }
+
     return score;
   }
 
@@ -453,11 +569,13 @@ export class AIController {
   /**
    * Estimate the tactical value of any ability (damage, debuffs, buffs)
    * Returns an estimated "effective damage" value for AI decision-making
+   * Against a known target, damage is scaled by its resistances and vulnerabilities
    */
-  private estimateAbilityValue(ability: Ability): number {
+  private estimateAbilityValue(user: Unit, ability: Ability, target?: Unit): number {
     // Direct damage abilities
     if (ability.damage) {
-      return this.estimateDamage(ability.damage);
+      const multiplier = target ? getDamageMultiplier(getDamageModifier(target, ability.damageType)) : 1;
+      return this.estimateDamage(ability.damage) * multiplier;
     }
 
     // Effect-based abilities (debuffs, DoTs, healing)
@@ -487,6 +605,9 @@ export class AIController {
 
       // Exposed/defense reduction
       if (effect.type === 'exposed') {
+        if (this.weighDebuffsByDamage) {
+          return this.estimateExposedValue(user, effect.defensePenalty ?? 0, target);
+        }
         return 5; // Sets up follow-up attacks
       }
     }
@@ -499,6 +620,20 @@ export class AIController {
     return 0;
   }
 
+  /**
+   * Extra damage a defense penalty sets up: the user's best hit, scaled by
+   * how much likelier the next attack on the target is to land
+   */
+  private estimateExposedValue(user: Unit, defensePenalty: number, target?: Unit): number {
+    if (target?.statusEffects.some(e => e.type === 'exposed')) return 0;
+
+    const bestDamage = Math.max(0, ...user.abilities.map(id => {
+      const damage = this.abilities[id]?.damage;
+      return damage ? this.estimateDamage(damage) : 0;
+    }));
+    return bestDamage * defensePenalty * HIT_CHANCE_PER_DEFENSE;
+  }
+
   /**
    * Check if enemy can afford to use an ability (has enough mana/ki)
    */
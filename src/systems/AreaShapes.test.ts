@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAreaDamageScale,
+  getAreaDirection,
+  getAreaOriginOn,
+  getAreaTiles,
+  getChainTargets,
+  getUnitsInArea,
+} from './AreaShapes';
+import { Ability, AreaShape, ChainArea } from '../data/BattleTypes';
+import { abilitiesData, makeUnit } from '../test/helpers';
+
+function shaped(area: AreaShape): Ability {
+  return { ...abilitiesData.shatter, areaSize: undefined, area };
+}
+
+function tileKeys(tiles: { x: number; y: number }[]): string[] {
+  return tiles.map(t => `${t.x},${t.y}`).sort();
+}
+
+describe('getAreaDirection', () => {
+  it.each([
+    [{ x: 3, y: 1 }, 'east'],
+    [{ x: 0, y: 4 }, 'south'],
+    [{ x: -2, y: -2 }, 'west'],
+    [{ x: 0, y: 0 }, 'north'],
+  ] as const)('aims at %o as %s', (to, expected) => {
+    expect(getAreaDirection({ x: 0, y: 0 }, to, 'north')).toBe(expected);
+  });
+});
+
+describe('getAreaTiles', () => {
+  const caster = makeUnit({ gridX: 2, gridY: 2, facing: 'north' });
+
+  it('covers a rectangle from its top-left tile', () => {
+    expect(tileKeys(getAreaTiles(abilitiesData.entangle, caster, { x: 0, y: 0 })))
+      .toEqual(['0,0', '0,1', '1,0', '1,1']);
+  });
+
+  it('runs a line out from the caster towards the aim', () => {
+    expect(getAreaTiles(shaped({ type: 'line', length: 3 }), caster, { x: 5, y: 3 }))
+      .toEqual([{ x: 3, y: 2 }, { x: 4, y: 2 }, { x: 5, y: 2 }]);
+  });
+
+  it('widens a cone by a tile on each side per step', () => {
+    expect(tileKeys(getAreaTiles(shaped({ type: 'cone', length: 2 }), caster, { x: 2, y: 1 })))
+      .toEqual(['1,0', '2,0', '2,1', '3,0']);
+  });
+
+  it('falls back to the caster\'s facing when aimed at itself', () => {
+    expect(getAreaTiles(shaped({ type: 'line', length: 1 }), caster, { x: 2, y: 2 }))
+      .toEqual([{ x: 2, y: 1 }]);
+  });
+
+  it('spreads a burst as a diamond around the aim', () => {
+    expect(tileKeys(getAreaTiles(shaped({ type: 'burst', radius: 1 }), caster, { x: 4, y: 4 })))
+      .toEqual(['3,4', '4,3', '4,4', '4,5', '5,4']);
+  });
+});
+
+describe('getAreaOriginOn', () => {
+  it('centres rectangles on the target and aims other shapes straight at it', () => {
+    expect(getAreaOriginOn(abilitiesData.celestial_storm, { x: 4, y: 0 })).toEqual({ x: 3, y: 0 });
+    expect(getAreaOriginOn(shaped({ type: 'burst', radius: 1 }), { x: 4, y: 0 })).toEqual({ x: 4, y: 0 });
+  });
+});
+
+describe('getUnitsInArea', () => {
+  it('finds living units on the tiles', () => {
+    const inside = makeUnit({ id: 'inside', gridX: 1, gridY: 0 });
+    const downed = makeUnit({ id: 'downed', gridX: 0, gridY: 0, isUnconscious: true });
+    const outside = makeUnit({ id: 'outside', gridX: 3, gridY: 0 });
+
+    expect(getUnitsInArea([{ x: 0, y: 0 }, { x: 1, y: 0 }], [inside, downed, outside])).toEqual([inside]);
+  });
+});
+
+describe('getChainTargets', () => {
+  const chain: ChainArea = { type: 'chain', jumps: 2, jumpRange: 2, falloff: 0.5 };
+
+  it('jumps to the nearest enemy not yet hit, within range of the last target', () => {
+    const caster = makeUnit({ id: 'rooker' });
+    const ally = makeUnit({ id: 'ally', gridX: 3, gridY: 0 });
+    const first = makeUnit({ id: 'first', team: 'enemy', gridX: 4, gridY: 0 });
+    const near = makeUnit({ id: 'near', team: 'enemy', gridX: 5, gridY: 0 });
+    const far = makeUnit({ id: 'far', team: 'enemy', gridX: 7, gridY: 0 });
+    const outOfReach = makeUnit({ id: 'outOfReach', team: 'enemy', gridX: 7, gridY: 4 });
+
+    const hit = getChainTargets(caster, first, chain, [caster, ally, first, near, far, outOfReach]);
+
+    expect(hit.map(u => u.id)).toEqual(['first', 'near', 'far']);
+  });
+
+  it('stops when nothing is in reach', () => {
+    const caster = makeUnit();
+    const lone = makeUnit({ team: 'enemy', gridX: 4, gridY: 4 });
+
+    expect(getChainTargets(caster, lone, chain, [caster, lone])).toEqual([lone]);
+  });
+
+  it('falls off with each jump', () => {
+    const ability = shaped(chain);
+
+    expect([0, 1, 2].map(i => getAreaDamageScale(ability, i))).toEqual([1, 0.5, 0.25]);
+    expect(getAreaDamageScale(abilitiesData.shatter, 2)).toBe(1);
+  });
+});
@@ -0,0 +1,168 @@
+// AreaShapes - which tiles and units an area ability catches
+//
+// Rectangles (areaSize) are anchored at their top-left tile. Lines and cones
+// run out from the caster towards the aimed tile, bursts are diamonds centred
+// on it, and chains hit a target then jump to the nearest enemy not yet hit.
+
+import { Ability, ChainArea, Position, Unit } from '../data/BattleTypes';
+
+type Direction = Unit['facing'];
+
+const DIRECTION_STEPS: Record<Direction, Position> = {
+  north: { x: 0, y: -1 },
+  south: { x: 0, y: 1 },
+  east: { x: 1, y: 0 },
+  west: { x: -1, y: 0 },
+};
+
+/**
+ * Whether the ability is aimed at a patch of ground rather than a unit
+ */
+export function isAreaAbility(ability: Ability): boolean {
+  return ability.targetType === 'area' && !!(ability.areaSize || ability.area);
+}
+
+/**
+ * Whether the ability can hit more than one unit (areas and chains)
+ */
+export function isMultiTargetAbility(ability: Ability): boolean {
+  return isAreaAbility(ability) || ability.area?.type === 'chain';
+}
+
+/**
+ * Lines and cones are aimed by picking a direction from the caster
+ */
+export function isDirectionalArea(ability: Ability): boolean {
+  return ability.area?.type === 'line' || ability.area?.type === 'cone';
+}
+
+/**
+ * Direction from one tile to another along the dominant axis (ties go east/west)
+ * Returns the fallback when both are the same tile
+ */
+export function getAreaDirection(from: Position, to: Position, fallback: Direction): Direction {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 && dy === 0) return fallback;
+  if (Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 'east' : 'west';
+  return dy > 0 ? 'south' : 'north';
+}
+
+/**
+ * Tile one step from the caster in a direction (the aim for lines and cones)
+ */
+export function getStepFrom(from: Position, direction: Direction): Position {
+  const step = DIRECTION_STEPS[direction];
+  return { x: from.x + step.x, y: from.y + step.y };
+}
+
+/**
+ * Where to aim the ability to catch a unit standing at target
+ * Rectangles are centred on it (returning their top-left tile); every
+ * other shape aims straight at it
+ */
+export function getAreaOriginOn(ability: Ability, target: Position): Position {
+  if (ability.areaSize && !ability.area) {
+    return {
+      x: Math.max(0, target.x - Math.floor(ability.areaSize.width / 2)),
+      y: Math.max(0, target.y - Math.floor(ability.areaSize.height / 2)),
+    };
+  }
+  return { x: target.x, y: target.y };
+}
+
+/**
+ * Tiles covered when the caster aims the ability at origin
+ * May include tiles off the map; no unit ever stands on those
+ */
+export function getAreaTiles(ability: Ability, caster: Unit, origin: Position): Position[] {
+  const tiles: Position[] = [];
+  const area = ability.area;
+
+  if (!area) {
+    const { width, height } = ability.areaSize ?? { width: 1, height: 1 };
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        tiles.push({ x: origin.x + dx, y: origin.y + dy });
+      }
+    }
+    return tiles;
+  }
+
+  switch (area.type) {
+    case 'line':
+    case 'cone': {
+      const from = { x: caster.gridX, y: caster.gridY };
+      const step = DIRECTION_STEPS[getAreaDirection(from, origin, caster.facing)];
+      for (let distance = 1; distance <= area.length; distance++) {
+        // Cones spread sideways (perpendicular to the step) as they go
+        const spread = area.type === 'cone' ? distance - 1 : 0;
+        for (let side = -spread; side <= spread; side++) {
+          tiles.push({
+            x: from.x + step.x * distance + step.y * side,
+            y: from.y + step.y * distance + step.x * side,
+          });
+        }
+      }
+      return tiles;
+    }
+
+    case 'burst':
+      for (let dy = -area.radius; dy <= area.radius; dy++) {
+        for (let dx = -area.radius; dx <= area.radius; dx++) {
+          if (Math.abs(dx) + Math.abs(dy) <= area.radius) {
+            tiles.push({ x: origin.x + dx, y: origin.y + dy });
+          }
+        }
+      }
+      return tiles;
+
+    case 'chain':
+      return [{ x: origin.x, y: origin.y }];
+  }
+}
+
+/**
+ * Living units standing on any of the tiles
+ */
+export function getUnitsInArea(tiles: Position[], units: Unit[]): Unit[] {
+  return units.filter(u =>
+    !u.isUnconscious && tiles.some(t => t.x === u.gridX && t.y === u.gridY)
+  );
+}
+
+/**
+ * Units a chain hits in order: the primary target, then each jump to the
+ * nearest living opponent of the caster within jumpRange of the last one hit
+ */
+export function getChainTargets(caster: Unit, primary: Unit, chain: ChainArea, units: Unit[]): Unit[] {
+  const hit = [primary];
+
+  for (let jump = 0; jump < chain.jumps; jump++) {
+    const last = hit[hit.length - 1];
+    let next: Unit | null = null;
+    let nextDistance = Infinity;
+
+    for (const unit of units) {
+      if (unit.team === caster.team || unit.isUnconscious || hit.includes(unit)) continue;
+      const distance = Math.abs(unit.gridX - last.gridX) + Math.abs(unit.gridY - last.gridY);
+      if (distance <= chain.jumpRange && distance < nextDistance) {
+        next = unit;
+        nextDistance = distance;
+      }
+    }
+
+    if (!next) break;
+    hit.push(next);
+  }
+
+  return hit;
+}
+
+/**
+ * Damage multiplier for the unit hit at this position in the ability's
+ * targets (0 = first); only chains fall off
+ */
+export function getAreaDamageScale(ability: Ability, index: number): number {
+  return ability.area?.type === 'chain' ? Math.pow(ability.area.falloff, index) : 1;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConditionContext,
+  describeObjectives,
+  getConditionAreas,
+  isConditionMet,
+  isDefeatMet,
+} from './BattleConditions';
+import { BattleCondition } from '../data/BattleTypes';
+import { makeUnit } from '../test/helpers';
+
+/**
+ * Thump and Lyra against Vessan and a wisp, one round in
+ */
+function makeContext(): ConditionContext {
+  return {
+    units: [
+      makeUnit({ id: 'thump', dataId: 'thump', name: 'Thump', gridX: 2, gridY: 2 }),
+      makeUnit({ id: 'lyra', dataId: 'lyra', name: 'Lyra', gridX: 3, gridY: 2 }),
+      makeUnit({ id: 'vessan_1', dataId: 'vessan', name: 'Vessan', team: 'enemy' }),
+      makeUnit({ id: 'divine_wisp_1', dataId: 'divine_wisp', name: 'Divine Wisp', team: 'enemy' }),
+    ],
+    roundsCompleted: 1,
+  };
+}
+
+function knockOut(context: ConditionContext, id: string): void {
+  const unit = context.units.find(u => u.id === id)!;
+  unit.currentHp = 0;
+  unit.isUnconscious = true;
+}
+
+const shrine = { x1: 5, y1: 5, x2: 6, y2: 6 };
+
+describe('isConditionMet', () => {
+  it('names units by instance or data ID', () => {
+    const context = makeContext();
+    knockOut(context, 'vessan_1');
+
+    expect(isConditionMet({ type: 'defeat_unit', unit: 'vessan' }, context)).toBe(true);
+    expect(isConditionMet({ type: 'defeat_unit', unit: 'vessan_1' }, context)).toBe(true);
+    expect(isConditionMet('defeat_all', context)).toBe(false);
+  });
+
+  it('never counts a unit that is not in the battle as down', () => {
+    expect(isConditionMet({ type: 'protect_unit', unit: 'meris' }, makeContext())).toBe(false);
+  });
+
+  it('counts rounds that have ended', () => {
+    const context = makeContext();
+
+    expect(isConditionMet({ type: 'survive_rounds', rounds: 1 }, context)).toBe(true);
+    expect(isConditionMet({ type: 'survive_rounds', rounds: 2 }, context)).toBe(false);
+  });
+
+  it('needs a standing hero inside the area', () => {
+    const context = makeContext();
+    const reach: BattleCondition = { type: 'reach_area', bounds: shrine };
+    const lyra = context.units[1];
+
+    expect(isConditionMet(reach, context)).toBe(false);
+
+    lyra.gridX = 6;
+    lyra.gridY = 5;
+    expect(isConditionMet(reach, context)).toBe(true);
+
+    knockOut(context, 'lyra');
+    expect(isConditionMet(reach, context)).toBe(false);
+  });
+
+  it('combines conditions with all and any', () => {
+    const context = makeContext();
+    knockOut(context, 'vessan_1');
+    const boss: BattleCondition = { type: 'defeat_unit', unit: 'vessan' };
+    const survive: BattleCondition = { type: 'survive_rounds', rounds: 3 };
+
+    expect(isConditionMet({ type: 'all', conditions: [boss, survive] }, context)).toBe(false);
+    expect(isConditionMet({ type: 'any', conditions: [boss, survive] }, context)).toBe(true);
+  });
+});
+
+describe('isDefeatMet', () => {
+  it('is met by the configured condition', () => {
+    const context = makeContext();
+    knockOut(context, 'lyra');
+
+    expect(isDefeatMet({ type: 'hero_falls', unit: 'lyra' }, context)).toBe(true);
+    expect(isDefeatMet('all_heroes_down', context)).toBe(false);
+  });
+
+  it('is always met when every hero is down', () => {
+    const context = makeContext();
+    knockOut(context, 'thump');
+    knockOut(context, 'lyra');
+
+    expect(isDefeatMet({ type: 'protect_unit', unit: 'meris' }, context)).toBe(true);
+  });
+});
+
+describe('describeObjectives', () => {
+  it('lists a group and then its parts, ticking off the ones met', () => {
+    const context = makeContext();
+    knockOut(context, 'vessan_1');
+
+    const objectives = describeObjectives({
+      type: 'any',
+      conditions: [
+        { type: 'defeat_unit', unit: 'vessan' },
+        { type: 'survive_rounds', rounds: 3 },
+        { type: 'reach_area', bounds: shrine, name: 'the shrine' },
+      ],
+    }, context);
+
+    expect(objectives).toEqual([
+      { text: 'Any of:', met: true, depth: 0 },
+      { text: 'Defeat Vessan', met: true, depth: 1 },
+      { text: 'Survive 3 rounds (1/3)', met: false, depth: 1 },
+      { text: 'Reach the shrine', met: false, depth: 1 },
+    ]);
+  });
+
+  it('shows a group of one as just its part', () => {
+    const objectives = describeObjectives({ type: 'all', conditions: ['defeat_all'] }, makeContext());
+
+    expect(objectives).toEqual([{ text: 'Defeat all enemies', met: false, depth: 0 }]);
+  });
+});
+
+describe('getConditionAreas', () => {
+  it('collects areas from nested groups', () => {
+    const gate = { x1: 0, y1: 0, x2: 1, y2: 0 };
+
+    expect(getConditionAreas({
+      type: 'all',
+      conditions: [
+        'defeat_all',
+        { type: 'any', conditions: [{ type: 'reach_area', bounds: shrine }, { type: 'reach_area', bounds: gate }] },
+      ],
+    })).toEqual([shrine, gate]);
+  });
+});
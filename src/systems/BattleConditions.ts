@@ -0,0 +1,171 @@
+// BattleConditions - when a battle is won or lost
+//
+// A battle config names one victory and one defeat condition. Conditions are
+// plain checks on the units and rounds played (defeat a boss, survive N rounds,
+// reach an area, keep a hero or NPC alive) and combine with "all" (AND) and "any"
+// (OR). Losing every hero is always a defeat, whatever else is configured.
+
+import { BattleCondition, TileBounds, Unit } from '../data/BattleTypes';
+
+// What conditions are checked against
+export interface ConditionContext {
+  units: Unit[];
+  departed?: Unit[]; // Units that left the field (e.g. fled in a battle event)
+  roundsCompleted: number;
+}
+
+// One line of the objectives HUD
+export interface ObjectiveStatus {
+  text: string;
+  met: boolean;
+  depth: number; // Nesting under "all"/"any" groups
+}
+
+/**
+ * Units a condition names, by instance ID or data ID
+ */
+export function findConditionUnits(ref: string, units: Unit[]): Unit[] {
+  return units.filter((u) => u.id === ref || u.dataId === ref);
+}
+
+/**
+ * Whether a tile lies in the bounds (corners included)
+ */
+export function isInBounds(x: number, y: number, bounds: TileBounds): boolean {
+  return x >= bounds.x1 && x <= bounds.x2 && y >= bounds.y1 && y <= bounds.y2;
+}
+
+/**
+ * Main party on a team (summons and NPCs don't keep a side in the fight)
+ */
+function partyOf(units: Unit[], team: Unit['team']): Unit[] {
+  return units.filter((u) => u.team === team && !u.summonerId && !u.npc);
+}
+
+/**
+ * Whether every named unit is down (a name matching nothing never counts)
+ */
+function allDown(ref: string, units: Unit[]): boolean {
+  const named = findConditionUnits(ref, units);
+  return named.length > 0 && named.every((u) => u.isUnconscious);
+}
+
+/**
+ * Whether a condition currently holds
+ */
+export function isConditionMet(condition: BattleCondition, context: ConditionContext): boolean {
+  const { units, departed = [], roundsCompleted } = context;
+
+  if (condition === 'defeat_all') {
+    return partyOf(units, 'enemy').every((u) => u.isUnconscious);
+  }
+  if (condition === 'all_heroes_down') {
+    return partyOf(units, 'hero').every((u) => u.isUnconscious);
+  }
+
+  switch (condition.type) {
+    case 'defeat_unit':
+      // Driving a unit off the field beats it too (departed units are down)
+      return allDown(condition.unit, [...units, ...departed]);
+    case 'protect_unit':
+    case 'hero_falls':
+      return allDown(condition.unit, units);
+    case 'survive_rounds':
+      return roundsCompleted >= condition.rounds;
+    case 'reach_area':
+      return partyOf(units, 'hero').some(
+        (u) => !u.isUnconscious && isInBounds(u.gridX, u.gridY, condition.bounds)
+      );
+    case 'all':
+      return condition.conditions.every((c) => isConditionMet(c, context));
+    case 'any':
+      return condition.conditions.some((c) => isConditionMet(c, context));
+  }
+}
+
+/**
+ * Ways the heroes can lose: every hero down, plus the configured defeat condition
+ */
+export function getDefeatConditions(condition: BattleCondition): BattleCondition[] {
+  return condition === 'all_heroes_down' ? [condition] : ['all_heroes_down', condition];
+}
+
+/**
+ * Whether the heroes have lost
+ */
+export function isDefeatMet(condition: BattleCondition, context: ConditionContext): boolean {
+  return getDefeatConditions(condition).some((c) => isConditionMet(c, context));
+}
+
+/**
+ * Display name of the unit a condition names
+ */
+function unitName(ref: string, units: Unit[]): string {
+  return findConditionUnits(ref, units)[0]?.name ?? ref;
+}
+
+/**
+ * Short description of a single condition, e.g. "Defeat Vessan" or "Survive 3 rounds (1/3)"
+ */
+export function describeCondition(condition: BattleCondition, context: ConditionContext): string {
+  const { units, departed = [], roundsCompleted } = context;
+
+  if (condition === 'defeat_all') return 'Defeat all enemies';
+  if (condition === 'all_heroes_down') return 'All heroes fall';
+
+  switch (condition.type) {
+    case 'defeat_unit':
+      return `Defeat ${unitName(condition.unit, [...units, ...departed])}`;
+    case 'survive_rounds':
+      return `Survive ${condition.rounds} rounds (${Math.min(roundsCompleted, condition.rounds)}/${condition.rounds})`;
+    case 'reach_area':
+      return `Reach ${condition.name ?? 'the marked area'}`;
+    case 'protect_unit':
+    case 'hero_falls':
+      return `${unitName(condition.unit, units)} falls`;
+    case 'all':
+      return 'All of:';
+    case 'any':
+      return 'Any of:';
+  }
+}
+
+/**
+ * Flatten a condition into objective lines, groups first then their parts
+ */
+export function describeObjectives(
+  condition: BattleCondition,
+  context: ConditionContext,
+  depth: number = 0
+): ObjectiveStatus[] {
+  const line: ObjectiveStatus = {
+    text: describeCondition(condition, context),
+    met: isConditionMet(condition, context),
+    depth,
+  };
+
+  if (typeof condition !== 'string' && (condition.type === 'all' || condition.type === 'any')) {
+    // A group of one reads better as just its part
+    if (condition.conditions.length === 1) {
+      return describeObjectives(condition.conditions[0], context, depth);
+    }
+    return [line, ...condition.conditions.flatMap((c) => describeObjectives(c, context, depth + 1))];
+  }
+  return [line];
+}
+
+/**
+ * Every reach_area condition's bounds, for drawing them on the map
+ */
+export function getConditionAreas(condition: BattleCondition): TileBounds[] {
+  if (typeof condition === 'string') return [];
+  switch (condition.type) {
+    case 'reach_area':
+      return [condition.bounds];
+    case 'all':
+    case 'any':
+      return condition.conditions.flatMap(getConditionAreas);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,417 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { BattleEngine } from './BattleEngine';
+import { resetRandomSource } from './DiceRoller';
+import { BattleConfig, TerrainType, Unit } from '../data/BattleTypes';
+import { createNpcUnit } from '../entities/Unit';
+import { abilitiesData, enemiesData, makeUnit, queueRolls } from '../test/helpers';
+
+const config = {
+  id: 'test_field',
+  gridWidth: 8,
+  gridHeight: 8,
+  terrain: Array.from({ length: 8 }, () => Array(8).fill(0)),
+  victoryCondition: 'defeat_all',
+  defeatCondition: 'all_heroes_down',
+} as unknown as BattleConfig;
+
+/**
+ * Engine with a hero, an enemy and the config's NPCs; the hero wins
+ * initiative and is active
+ */
+function startBattle(overrides: Partial<BattleConfig> = {}) {
+  const engine = new BattleEngine({ ...config, ...overrides }, 1);
+  const hero = makeUnit({ id: 'thump', name: 'Thump' });
+  const enemy = makeUnit({ id: 'imp_1', name: 'Imp', team: 'enemy' });
+  engine.state.units.push(hero, enemy);
+  for (const { type, x, y } of overrides.npcs ?? []) {
+    engine.state.units.push(createNpcUnit(enemiesData[type], engine.nextEnemyId(type), x, y));
+  }
+
+  queueRolls([[20, 15], [20, 5]]);
+  engine.startNewRound();
+  engine.startNextTurn();
+  return { engine, hero, enemy };
+}
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('summons', () => {
+  it('slot into this round by initiative', () => {
+    const { engine, hero, enemy } = startBattle();
+    const wolf = makeUnit({ id: engine.nextSummonId('wolf'), name: 'Wolf' });
+
+    queueRolls([[20, 10]]);
+    engine.summonUnit(wolf, hero, 2);
+
+    expect(wolf.id).toBe('wolf_summon_1');
+    expect(wolf.summonerId).toBe('thump');
+    expect(engine.state.turnOrder.map(e => e.unit)).toEqual([hero, wolf, enemy]);
+    expect(engine.endCurrentTurn()).toBe(wolf);
+  });
+
+  it('vanish when their time runs out', () => {
+    const { engine, hero } = startBattle();
+    const wolf = makeUnit({ id: 'wolf', team: 'hero' });
+    const dismissed: string[] = [];
+    engine.on('unitDismissed', ({ unit }) => dismissed.push(unit.id));
+
+    queueRolls([[20, 1]]);
+    engine.summonUnit(wolf, hero, 1);
+    engine.endCurrentTurn();
+    engine.endCurrentTurn();
+    engine.endCurrentTurn();
+
+    expect(dismissed).toEqual(['wolf']);
+    expect(engine.state.units).not.toContain(wolf);
+  });
+
+  it('vanish when defeated', () => {
+    const { engine, hero } = startBattle();
+    const wolf = makeUnit({ id: 'wolf' });
+
+    queueRolls([[20, 1]]);
+    engine.summonUnit(wolf, hero, 3);
+    wolf.isUnconscious = true;
+    engine.reportDefeat(wolf);
+
+    expect(engine.state.units).not.toContain(wolf);
+  });
+
+  it("don't keep their side in the battle", () => {
+    const { engine, hero, enemy } = startBattle();
+    const lemure = makeUnit({ id: 'lemure', team: 'enemy' });
+
+    queueRolls([[20, 1]]);
+    engine.summonUnit(lemure, enemy, 3);
+    enemy.isUnconscious = true;
+
+    expect(engine.checkBattleEnd()).toBe('hero');
+    expect(hero.isUnconscious).toBe(false);
+  });
+});
+
+describe('concentration', () => {
+  const held = (casterId: string) => ({
+    type: 'held' as const,
+    duration: 3,
+    concentration: { casterId, casterName: 'Thump' },
+  });
+
+  it('ends the first effect when a second is cast', () => {
+    const { engine, hero, enemy } = startBattle();
+
+    engine.beginConcentration(hero, abilitiesData.hold);
+    enemy.statusEffects.push(held('thump'));
+    engine.beginConcentration(hero, abilitiesData.entangle);
+
+    expect(enemy.statusEffects).toEqual([]);
+    expect(hero.concentratingOn?.abilityId).toBe('entangle');
+  });
+
+  it('ends linked statuses and zones when damage breaks it', () => {
+    const { engine, hero, enemy } = startBattle();
+    const released: string[] = [];
+    engine.on('concentrationEnded', ({ released: units }) => released.push(...units.map(u => u.id)));
+
+    engine.beginConcentration(hero, abilitiesData.entangle);
+    queueRolls([], 'min');
+    engine.createZone(hero, abilitiesData.entangle, { x: 4, y: 4 }, { width: 2, height: 2 });
+    enemy.statusEffects.push(held('thump'), { type: 'poison', duration: 2 });
+    hero.concentratingOn!.lostReason = 'falls unconscious';
+    engine.processConcentration();
+
+    expect(hero.concentratingOn).toBeUndefined();
+    expect(engine.state.zones).toEqual([]);
+    expect(enemy.statusEffects.map(e => e.type)).toEqual(['poison']);
+    expect(released).toEqual(['imp_1']);
+    expect(engine.state.combatLog).toContain('Thump falls unconscious and loses concentration on Entangle!');
+  });
+
+  it('lapses once its effects have run out', () => {
+    const { engine, hero } = startBattle();
+
+    engine.beginConcentration(hero, abilitiesData.hold);
+    engine.processConcentration();
+
+    expect(hero.concentratingOn).toBeUndefined();
+  });
+
+  it('ignores abilities without concentration', () => {
+    const { engine, hero } = startBattle();
+
+    engine.beginConcentration(hero, abilitiesData.shatter);
+
+    expect(hero.concentratingOn).toBeUndefined();
+  });
+});
+
+describe('death saves', () => {
+  it('give a downed hero a turn that only rolls the save', () => {
+    const { engine, hero, enemy } = startBattle();
+    engine.state.units.push(makeUnit({ id: 'lyra', name: 'Lyra' }));
+    hero.currentHp = 0;
+    hero.isUnconscious = true;
+
+    expect(engine.endCurrentTurn()).toBe(enemy);
+    expect(engine.endCurrentTurn()).toBeNull();
+
+    queueRolls([[20, 15], [20, 5], [20, 3], [20, 12]]);
+    engine.startNewRound();
+    expect(engine.startNextTurn()).toBe(hero);
+    expect(engine.processStartOfTurnEffects(hero)).toEqual({ canAct: false, skipReason: 'unconscious' });
+    expect(hero.deathSaves).toEqual({ successes: 1, failures: 0 });
+  });
+
+  it('let a natural 20 get the hero back up to act', () => {
+    const { engine, hero } = startBattle();
+    hero.currentHp = 0;
+    hero.isUnconscious = true;
+
+    queueRolls([[20, 20]]);
+
+    expect(engine.processStartOfTurnEffects(hero).canAct).toBe(true);
+    expect(hero.currentHp).toBe(1);
+    expect(hero.isUnconscious).toBe(false);
+  });
+
+  it('are skipped once the hero is stable', () => {
+    const { engine, hero, enemy } = startBattle();
+    hero.isUnconscious = true;
+    hero.deathSaves = { successes: 3, failures: 0 };
+    engine.endCurrentTurn();
+    engine.endCurrentTurn();
+
+    queueRolls([[20, 15], [20, 5]]);
+    engine.startNewRound();
+
+    expect(engine.startNextTurn()).toBe(enemy);
+  });
+});
+
+describe('battle conditions', () => {
+  it('win once the boss is down, even with minions standing', () => {
+    const { engine, enemy } = startBattle({ victoryCondition: { type: 'defeat_unit', unit: 'vessan' } });
+    const vessan = makeUnit({ id: 'vessan_1', dataId: 'vessan', team: 'enemy' });
+    engine.state.units.push(vessan);
+
+    expect(engine.checkBattleEnd()).toBeNull();
+
+    vessan.isUnconscious = true;
+
+    expect(engine.checkBattleEnd()).toBe('hero');
+    expect(enemy.isUnconscious).toBe(false);
+  });
+
+  it('win after surviving the rounds', () => {
+    const { engine } = startBattle({ victoryCondition: { type: 'survive_rounds', rounds: 1 } });
+    const winners: string[] = [];
+    engine.on('battleEnded', ({ winner }) => winners.push(winner));
+
+    engine.endCurrentTurn();
+    expect(winners).toEqual([]);
+
+    engine.endCurrentTurn();
+    expect(winners).toEqual(['hero']);
+  });
+
+  it('lose when a named hero falls', () => {
+    const { engine, hero } = startBattle({ defeatCondition: { type: 'hero_falls', unit: 'thump' } });
+    engine.state.units.push(makeUnit({ id: 'lyra', name: 'Lyra' }));
+    hero.isUnconscious = true;
+
+    expect(engine.checkBattleEnd()).toBe('enemy');
+  });
+
+  it('lose when the NPC under protection falls', () => {
+    const { engine, hero, enemy } = startBattle({
+      npcs: [{ type: 'meris', x: 4, y: 4 }],
+      defeatCondition: { type: 'protect_unit', unit: 'meris' },
+    });
+    const meris = engine.state.units.find(u => u.dataId === 'meris')!;
+
+    expect(meris).toMatchObject({ id: 'meris_1', name: 'Meris', team: 'hero', npc: true });
+    expect(engine.state.turnOrder.map(e => e.unit)).toEqual([hero, enemy]); // NPCs take no turns
+    expect(engine.checkBattleEnd()).toBeNull();
+
+    meris.isUnconscious = true;
+
+    expect(engine.checkBattleEnd()).toBe('enemy');
+  });
+
+  it('always lose when every hero is down', () => {
+    const { engine, hero } = startBattle({
+      npcs: [{ type: 'meris', x: 4, y: 4 }],
+      defeatCondition: { type: 'protect_unit', unit: 'meris' },
+    });
+    hero.isUnconscious = true;
+
+    expect(engine.checkBattleEnd()).toBe('enemy'); // Meris standing doesn't keep the party in it
+  });
+});
+
+describe('reinforcements', () => {
+  it('arrive at the start of their round and roll into the turn order', () => {
+    const { engine, hero, enemy } = startBattle({
+      reinforcements: [{ trigger: { type: 'round', round: 2 }, enemies: ['imp'], from: 'north' }],
+    });
+    const imp = makeUnit({ id: 'imp_2', name: 'Imp', team: 'enemy' });
+    engine.on('reinforcementsDue', () => engine.addReinforcement(imp));
+    engine.endCurrentTurn();
+    engine.endCurrentTurn();
+
+    expect(engine.state.units).not.toContain(imp);
+
+    queueRolls([[20, 15], [20, 5], [20, 10]]);
+    engine.startNewRound();
+
+    expect(engine.state.turnOrder.map(e => e.unit)).toEqual([hero, imp, enemy]);
+    expect(engine.state.combatLog).toContain('Enemy reinforcements arrive!');
+  });
+
+  it('arrive before the battle can be won, and only once', () => {
+    const { engine, enemy } = startBattle({
+      reinforcements: [{
+        trigger: { type: 'enemies_defeated', count: 1 },
+        enemies: ['imp'],
+        from: 'spawn_1',
+        announcement: 'More imps pour out of the cave!',
+      }],
+    });
+    const arrivals: Unit[] = [];
+    engine.on('reinforcementsDue', () => {
+      const imp = makeUnit({ id: `imp_${arrivals.length + 2}`, team: 'enemy' });
+      arrivals.push(imp);
+      engine.addReinforcement(imp);
+    });
+    enemy.isUnconscious = true;
+
+    queueRolls([[20, 10]]);
+
+    expect(engine.checkBattleEnd()).toBeNull();
+    expect(engine.checkBattleEnd()).toBeNull();
+    expect(arrivals).toHaveLength(1);
+    expect(engine.state.combatLog).toContain('More imps pour out of the cave!');
+  });
+
+  it('report whether a move set one off (which commits the move)', () => {
+    const gate = { x1: 5, y1: 5, x2: 6, y2: 6 };
+    const { engine, hero } = startBattle({
+      reinforcements: [{ trigger: { type: 'hero_enters', bounds: gate }, enemies: ['imp'], from: 'north' }],
+    });
+    engine.on('reinforcementsDue', () => engine.addReinforcement(makeUnit({ id: 'imp_2', team: 'enemy' })));
+
+    expect(engine.checkTriggers()).toBe(false);
+
+    hero.gridX = 5;
+    hero.gridY = 6;
+    queueRolls([[20, 10]]);
+
+    expect(engine.checkTriggers()).toBe(true);
+    expect(engine.checkTriggers()).toBe(false);
+  });
+});
+
+describe('battle events', () => {
+  it('play once when their trigger fires', () => {
+    const { engine, enemy } = startBattle({
+      events: [{
+        trigger: { type: 'unit_hp_below', unit: 'imp_1', percent: 50 },
+        actions: [
+          { type: 'dialogue', lines: [{ speaker: 'Imp', text: 'You will pay for that!' }] },
+          { type: 'set_flag', flag: 'imp_taunted' },
+        ],
+      }],
+    });
+    const actions: string[] = [];
+    engine.on('eventAction', ({ action }) => actions.push(action.type));
+
+    engine.checkBattleEnd();
+    expect(actions).toEqual([]);
+
+    enemy.currentHp = 4;
+    engine.checkBattleEnd();
+    engine.checkBattleEnd();
+
+    expect(actions).toEqual(['dialogue', 'set_flag']);
+  });
+
+  it('can take an enemy off the field, but never a party hero', () => {
+    const { engine, hero, enemy } = startBattle({
+      events: [{
+        trigger: { type: 'ability_used', ability: 'entangle', unit: 'thump' },
+        actions: [
+          { type: 'remove_unit', unit: 'thump' },
+          { type: 'remove_unit', unit: 'imp_1', message: 'The imp flees into the trees!' },
+        ],
+      }],
+    });
+
+    engine.reportAbilityUsed(hero, abilitiesData.entangle);
+    engine.checkBattleEnd();
+
+    expect(engine.state.units).toEqual([hero]);
+    expect(enemy.isUnconscious).toBe(true);
+    expect(engine.state.combatLog).toContain('The imp flees into the trees!');
+  });
+
+  it('count a boss that left the field as beaten', () => {
+    const { engine } = startBattle({
+      victoryCondition: { type: 'defeat_unit', unit: 'vessan' },
+      events: [{
+        trigger: { type: 'round', round: 2 },
+        actions: [{ type: 'remove_unit', unit: 'vessan', message: 'Vessan vanishes into the mist!' }],
+      }],
+    });
+    engine.state.units.push(makeUnit({ id: 'vessan_1', dataId: 'vessan', name: 'Vessan', team: 'enemy' }));
+
+    expect(engine.checkBattleEnd()).toBeNull();
+
+    engine.endCurrentTurn();
+    engine.endCurrentTurn();
+    queueRolls([[20, 15], [20, 5], [20, 10]]);
+    engine.startNewRound();
+
+    expect(engine.state.combatLog).toContain('Vessan vanishes into the mist!');
+    expect(engine.checkBattleEnd()).toBe('hero');
+  });
+
+  it('never reuse the ID of a unit that left the field', () => {
+    const { engine, enemy } = startBattle({
+      events: [{ trigger: { type: 'round', round: 1 }, actions: [{ type: 'remove_unit', unit: 'imp_1' }] }],
+    });
+    enemy.dataId = 'imp';
+    engine.state.units.push(makeUnit({ id: 'imp_2', dataId: 'imp', team: 'enemy' }));
+
+    expect(engine.state.departedUnits.map(u => u.id)).toEqual(['imp_1']);
+    expect(engine.nextEnemyId('imp')).toBe('imp_3');
+  });
+
+  it('wait for the ability that set them off to resolve', () => {
+    const { engine, hero, enemy } = startBattle({
+      events: [{
+        trigger: { type: 'ability_used', ability: 'entangle' },
+        actions: [{ type: 'remove_unit', unit: 'imp_1' }],
+      }],
+    });
+
+    engine.reportAbilityUsed(hero, abilitiesData.entangle);
+    expect(engine.state.units).toContain(enemy); // Still there for the ability to land on
+
+    expect(engine.checkTriggers()).toBe(true);
+    expect(engine.state.units).not.toContain(enemy);
+  });
+
+  it("change the battle's own copy of the terrain", () => {
+    const { engine } = startBattle({
+      events: [{
+        trigger: { type: 'round', round: 1 },
+        actions: [{ type: 'change_terrain', bounds: { x1: 0, y1: 0, x2: 1, y2: 0 }, terrain: TerrainType.Hazard }],
+      }],
+    });
+
+    expect(engine.state.config.terrain[0].slice(0, 3)).toEqual([4, 4, 0]);
+    expect(config.terrain[0][0]).toBe(0);
+  });
+});
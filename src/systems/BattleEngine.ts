@@ -0,0 +1,894 @@
+// BattleEngine - round/turn state machine shared by BattleScene and the headless simulator
+
+import {
+  Unit,
+  Ability,
+  BattleConfig,
+  BattleState,
+  InitiativeEntry,
+  StatusEffect,
+  Team,
+  Zone,
+  ForcedMovement,
+  ForcedMoveResult,
+  BattleEvent,
+  BattleEventAction,
+  EnemyArrival,
+  ReinforcementWave,
+  TileBounds,
+  TerrainType,
+} from '../data/BattleTypes';
+import { resetUnitTurnState, applyDamage, applyHealing } from '../entities/Unit';
+import { rollDice, rollInitiative, rollTotal, seedRandom } from './DiceRoller';
+import {
+  breakStatusEffects,
+  getEffectiveStat,
+  getStatusEffectDefinition,
+  runStatusHook,
+  StatusHookHandlers,
+  tickStatusEffects,
+} from './StatusEffects';
+import { getDistance } from './CombatResolver';
+import { getTerrainRules } from './GridManager';
+import { adjustDamage } from './DamageTypes';
+import { getConcentrationLink, isLinkedTo } from './Concentration';
+import { describeDeathSaves, needsDeathSave, rollDeathSave } from './DeathSaves';
+import { ConditionContext, findConditionUnits, isConditionMet, isDefeatMet } from './BattleConditions';
+import { AbilityUse, isTriggerMet, TriggerContext } from './BattleEvents';
+import { nextEnemyId } from './Reinforcements';
+
+// Dice dealt to a pushed or pulled unit that hits something, unless the ability says otherwise
+const DEFAULT_COLLISION_DAMAGE = '1d4';
+
+/**
+ * Events emitted by the engine, keyed by name with their payloads
+ */
+export interface BattleEngineEvents {
+  roundStarted: { round: number; turnOrder: InitiativeEntry[] };
+  turnStarted: { unit: Unit };
+  turnSkipped: { unit: Unit; reason: string }; // 'defeated', 'unconscious' (death save) or the status that skipped it
+  turnEnded: { unit: Unit };
+  damageDealt: { target: Unit; amount: number; cause: DamageCause; sourceId?: string };
+  unitDefeated: { unit: Unit };
+  unitSummoned: { unit: Unit; summoner: Unit };
+  unitDismissed: { unit: Unit }; // Left the field: a summon vanished, or a battle event removed it
+  reinforcementsDue: { wave: EnemyArrival }; // Place the wave's units, then addReinforcement each
+  terrainChanged: { bounds: TileBounds; terrain: TerrainType }; // A battle event changed these tiles
+  eventAction: { action: BattleEventAction }; // Dialogue, flags and items for the listeners to carry out
+  concentrationEnded: { caster: Unit; released: Unit[] }; // released: units whose linked statuses ended
+  zonesChanged: { zones: Zone[] };
+  roundEnded: { round: number };
+  battleEnded: { winner: Team };
+  log: { message: string };
+}
+
+// What dealt engine-driven damage
+export type DamageCause = 'status' | 'zone' | 'terrain' | 'collision';
+
+export type BattleEngineEvent = keyof BattleEngineEvents;
+type Listener<K extends BattleEngineEvent> = (payload: BattleEngineEvents[K]) => void;
+
+/**
+ * Turn order: highest initiative first, ties broken by speed, then heroes first
+ */
+function compareInitiative(a: InitiativeEntry, b: InitiativeEntry): number {
+  if (b.total !== a.total) return b.total - a.total;
+  if (b.unit.speed !== a.unit.speed) return b.unit.speed - a.unit.speed;
+  if (a.unit.team === 'hero' && b.unit.team === 'enemy') return -1;
+  if (a.unit.team === 'enemy' && b.unit.team === 'hero') return 1;
+  return 0;
+}
+
+/**
+ * Owns BattleState and runs initiative, turn order, start-of-turn effects,
+ * zones and victory checks. Rendering layers subscribe to its events.
+ */
+export class BattleEngine {
+  readonly state: BattleState;
+  private winner: Team | null = null;
+  private summonCount: number = 0;
+  private roundsCompleted: number = 0;
+  private arrivedWaves = new Set<ReinforcementWave>();
+  private firedEvents = new Set<BattleEvent>();
+  private abilitiesUsed: AbilityUse[] = [];
+  private listeners: { [K in BattleEngineEvent]?: Listener<K>[] } = {};
+
+  constructor(config: BattleConfig, seed: number) {
+    this.state = {
+      // Own copy of the terrain, which battle events can change
+      config: { ...config, terrain: config.terrain.map((row) => [...row]) },
+      round: 0,
+      phase: 'rolling_initiative',
+      turnOrder: [],
+      currentTurnIndex: 0,
+      units: [],
+      departedUnits: [],
+      activeUnit: null,
+      selectedAbility: null,
+      highlightedTiles: [],
+      targetedUnit: null,
+      combatLog: [],
+      zones: [],
+      seed,
+    };
+
+    // Seed the dice so the battle is reproducible from its seed
+    seedRandom(seed);
+  }
+
+  // ============================================
+  // Events
+  // ============================================
+
+  on<K extends BattleEngineEvent>(event: K, listener: Listener<K>): void {
+    const list = (this.listeners[event] ??= []) as Listener<K>[];
+    list.push(listener);
+  }
+
+  off<K extends BattleEngineEvent>(event: K, listener: Listener<K>): void {
+    const list = this.listeners[event] as Listener<K>[] | undefined;
+    if (!list) return;
+    this.listeners[event] = list.filter(l => l !== listener) as typeof this.listeners[K];
+  }
+
+  private emit<K extends BattleEngineEvent>(event: K, payload: BattleEngineEvents[K]): void {
+    const list = this.listeners[event] as Listener<K>[] | undefined;
+    list?.forEach(listener => listener(payload));
+  }
+
+  private log(message: string): void {
+    this.state.combatLog.push(message);
+    this.emit('log', { message });
+  }
+
+  // ============================================
+  // Rounds and Turns
+  // ============================================
+
+  /**
+   * Start a new round: reset turn state and roll initiative
+   */
+  startNewRound(): void {
+    this.state.round++;
+    this.state.phase = 'rolling_initiative';
+
+    // Reset all units' turn state
+    this.state.units.forEach((unit) => {
+      if (!unit.isUnconscious) {
+        resetUnitTurnState(unit);
+      }
+    });
+
+    this.rollAllInitiative();
+    this.state.currentTurnIndex = 0;
+    this.state.activeUnit = null;
+
+    // Waves and events due this round play before anyone acts
+    this.checkTriggers();
+
+    this.emit('roundStarted', { round: this.state.round, turnOrder: this.state.turnOrder });
+  }
+
+  /**
+   * Roll initiative for all living units (and downed heroes still making
+   * death saves) and sort turn order; NPCs take no turns
+   */
+  private rollAllInitiative(): void {
+    // Roll for each living unit
+    const livingUnits = this.state.units.filter((u) => !u.npc && (!u.isUnconscious || needsDeathSave(u)));
+
+    this.state.turnOrder = livingUnits
+      .map((unit) => this.rollInitiativeEntry(unit))
+      .sort(compareInitiative);
+  }
+
+  private rollInitiativeEntry(unit: Unit): InitiativeEntry {
+    const initiativeRoll = rollInitiative(getEffectiveStat(unit, 'speed'));
+    let total = initiativeRoll.finalTotal || initiativeRoll.total;
+
+    // Swift Anklet: +2 initiative bonus
+    if (unit.equipment === 'swift_anklet') {
+      total += 2;
+      this.log(`${unit.name}'s Swift Anklet grants +2 initiative!`);
+    }
+
+    return { unit, roll: initiativeRoll, total };
+  }
+
+  /**
+   * Start the next living unit's turn
+   * Returns the active unit, or null if the round ended
+   */
+  startNextTurn(): Unit | null {
+    const { turnOrder } = this.state;
+
+    // Find next living unit (downed heroes still get a turn for their death save)
+    while (
+      this.state.currentTurnIndex < turnOrder.length &&
+      turnOrder[this.state.currentTurnIndex].unit.isUnconscious &&
+      !needsDeathSave(turnOrder[this.state.currentTurnIndex].unit)
+    ) {
+      this.state.currentTurnIndex++;
+    }
+
+    // If we've gone through all units, the round is over
+    if (this.state.currentTurnIndex >= turnOrder.length) {
+      this.state.activeUnit = null;
+      this.endRound();
+      return null;
+    }
+
+    const unit = turnOrder[this.state.currentTurnIndex].unit;
+    this.state.activeUnit = unit;
+    this.emit('turnStarted', { unit });
+    return unit;
+  }
+
+  /**
+   * End the active unit's turn and advance to the next one
+   * Returns the next active unit, or null if the round ended
+   */
+  endCurrentTurn(): Unit | null {
+    // Concentration broken by damage during the turn ends now
+    this.processConcentration();
+
+    if (this.state.activeUnit) {
+      this.processEndOfTurnEffects(this.state.activeUnit);
+      this.emit('turnEnded', { unit: this.state.activeUnit });
+    }
+
+    // End-of-turn damage can decide the battle
+    if (this.checkBattleEnd()) return null;
+
+    this.state.currentTurnIndex++;
+    return this.startNextTurn();
+  }
+
+  /**
+   * Process status effects at the start of a unit's turn
+   * Returns canAct false if their turn should be skipped
+   */
+  processStartOfTurnEffects(unit: Unit): { canAct: boolean; skipReason?: string } {
+    const handlers = this.statusHandlers(unit);
+
+    // Downed heroes roll a death save instead of acting (a natural 20 gets them up)
+    if (unit.isUnconscious && !this.processDeathSave(unit)) {
+      return this.skipTurn(unit, 'unconscious');
+    }
+
+    // Status hooks first (poison ticks, held skips the turn)
+    const { skipReason } = runStatusHook(unit, 'onTurnStart', handlers);
+    if (unit.isUnconscious) {
+      return this.skipTurn(unit, 'defeated');
+    }
+    if (skipReason) {
+      tickStatusEffects(unit, 'turn_start', handlers);
+      return this.skipTurn(unit, skipReason);
+    }
+
+    // Process zone damage (Entangle) and hazardous terrain at turn start
+    for (const zone of this.getZonesAtPosition(unit.gridX, unit.gridY)) {
+      this.applyZoneDamage(unit, zone, 'turn start');
+    }
+    this.applyHazardDamage(unit, 'turn start');
+    if (unit.isUnconscious) {
+      return this.skipTurn(unit, 'defeated');
+    }
+
+    // Count down durations that tick at turn start
+    tickStatusEffects(unit, 'turn_start', handlers);
+
+    return { canAct: true };
+  }
+
+  /**
+   * Roll a downed hero's death save
+   * Returns true if a natural 20 brought them back up
+   */
+  private processDeathSave(unit: Unit): boolean {
+    if (!needsDeathSave(unit)) return false;
+
+    const { roll, outcome } = rollDeathSave(unit);
+    const tally = unit.deathSaves ? ` [${describeDeathSaves(unit.deathSaves)}]` : '';
+
+    switch (outcome) {
+      case 'revived':
+        this.log(`${unit.name} rolls a natural 20 on a death save and gets back up!`);
+        applyHealing(unit, 1);
+        return true;
+      case 'success':
+        this.log(`${unit.name} succeeds on a death save (rolled ${roll}).${tally}`);
+        break;
+      case 'stabilized':
+        this.log(`${unit.name} succeeds on a death save (rolled ${roll}) and is stable.`);
+        break;
+      case 'failure':
+        this.log(`${unit.name} fails a death save (rolled ${roll}).${tally}`);
+        break;
+      case 'out':
+        this.log(`${unit.name} fails a death save (rolled ${roll}) and is out of the battle!`);
+        break;
+    }
+    return false;
+  }
+
+  /**
+   * Run a unit's end-of-turn status hooks and durations
+   */
+  private processEndOfTurnEffects(unit: Unit): void {
+    if (unit.isUnconscious) return;
+
+    const handlers = this.statusHandlers(unit);
+    runStatusHook(unit, 'onTurnEnd', handlers);
+    if (!unit.isUnconscious) {
+      tickStatusEffects(unit, 'turn_end', handlers);
+    }
+  }
+
+  /**
+   * Let status hooks deal damage, heal and log through the engine
+   */
+  private statusHandlers(unit: Unit): StatusHookHandlers {
+    return {
+      damage: (amount) => this.dealDamage(unit, amount, 'status'),
+      heal: (amount) => applyHealing(unit, amount),
+      log: (message) => this.log(message),
+    };
+  }
+
+  private skipTurn(unit: Unit, reason: string): { canAct: false; skipReason: string } {
+    this.emit('turnSkipped', { unit, reason });
+    return { canAct: false, skipReason: reason };
+  }
+
+  /**
+   * Handle end of round - process zones, then check victory/defeat
+   * battleEnded (if any) is emitted before roundEnded
+   */
+  private endRound(): void {
+    this.state.phase = 'round_end';
+
+    // Process zone durations (decrement and remove expired)
+    this.processZoneRoundEnd();
+
+    // Summons whose time is up vanish
+    this.processSummonRoundEnd();
+
+    this.roundsCompleted = this.state.round;
+    this.checkBattleEnd();
+    this.emit('roundEnded', { round: this.state.round });
+  }
+
+  /**
+   * What the victory and defeat conditions are checked against
+   */
+  getConditionContext(): ConditionContext {
+    return {
+      units: this.state.units,
+      departed: this.state.departedUnits,
+      roundsCompleted: this.roundsCompleted,
+    };
+  }
+
+  /**
+   * Check the battle's victory and defeat conditions (victory wins a tie)
+   * Returns the winning team, or null while the battle goes on
+   */
+  checkBattleEnd(): Team | null {
+    if (this.winner) return this.winner;
+
+    // Waves and events that are due play out before the battle can be won
+    this.checkTriggers();
+
+    const { victoryCondition, defeatCondition } = this.state.config;
+    const context = this.getConditionContext();
+
+    if (isConditionMet(victoryCondition, context)) {
+      this.winner = 'hero';
+    } else if (isDefeatMet(defeatCondition, context)) {
+      this.winner = 'enemy';
+    }
+
+    if (this.winner) {
+      this.state.phase = this.winner === 'hero' ? 'victory' : 'defeat';
+      this.emit('battleEnded', { winner: this.winner });
+    }
+    return this.winner;
+  }
+
+  isBattleOver(): boolean {
+    return this.winner !== null;
+  }
+
+  // ============================================
+  // Damage and Defeat
+  // ============================================
+
+  /**
+   * Apply damage from an engine-driven source (poison, zones, hazards)
+   */
+  private dealDamage(target: Unit, amount: number, cause: DamageCause, sourceId?: string): void {
+    applyDamage(target, amount, { log: (message) => this.log(message) });
+    this.emit('damageDealt', { target, amount, cause, sourceId });
+
+    if (target.isUnconscious) {
+      this.reportDefeat(target);
+    } else {
+      this.processConcentration();
+    }
+  }
+
+  /**
+   * Report a unit dropped to 0 HP (also used for attacks resolved outside the engine)
+   */
+  reportDefeat(unit: Unit): void {
+    this.emit('unitDefeated', { unit });
+    this.processConcentration();
+
+    if (unit.summonerId) {
+      this.dismissSummon(unit);
+    }
+  }
+
+  // ============================================
+  // Summons
+  // ============================================
+
+  /**
+   * Unique instance ID for a new summon, e.g. "lemure_summon_1"
+   */
+  nextSummonId(dataId: string): string {
+    this.summonCount++;
+    return `${dataId}_summon_${this.summonCount}`;
+  }
+
+  /**
+   * Instance ID for an enemy or NPC joining the battle, e.g. "imp_3"
+   * (numbering on from ones that have left the field, so IDs never repeat)
+   */
+  nextEnemyId(dataId: string): string {
+    return nextEnemyId(dataId, [...this.state.units, ...this.state.departedUnits]);
+  }
+
+  /**
+   * Bring a unit (already placed on the grid) into the battle for the given
+   * number of rounds. It rolls initiative and acts this round if it beats
+   * anyone still waiting for their turn.
+   */
+  summonUnit(unit: Unit, summoner: Unit, duration: number): void {
+    unit.summonerId = summoner.id;
+    unit.summonRoundsLeft = duration;
+    this.state.units.push(unit);
+    this.joinTurnOrder(unit);
+
+    this.log(`${summoner.name} summons ${unit.name}!`);
+    this.emit('unitSummoned', { unit, summoner });
+  }
+
+  /**
+   * Roll initiative for a unit joining mid-round and slot it in among those
+   * still waiting for their turn
+   */
+  private joinTurnOrder(unit: Unit): void {
+    const entry = this.rollInitiativeEntry(unit);
+    const { turnOrder } = this.state;
+    let index = this.state.activeUnit ? this.state.currentTurnIndex + 1 : this.state.currentTurnIndex;
+    while (index < turnOrder.length && compareInitiative(turnOrder[index], entry) <= 0) {
+      index++;
+    }
+    turnOrder.splice(index, 0, entry);
+  }
+
+  private dismissSummon(unit: Unit): void {
+    this.removeUnit(unit, `${unit.name} vanishes.`);
+  }
+
+  /**
+   * Take a unit off the field. It keeps its place in this round's turn
+   * order (skipped like any downed unit) and is gone from the next roll.
+   */
+  private removeUnit(unit: Unit, message: string): void {
+    const index = this.state.units.indexOf(unit);
+    if (index === -1) return;
+
+    this.state.units.splice(index, 1);
+    this.state.departedUnits.push(unit);
+    unit.isUnconscious = true;
+    this.log(message);
+    this.emit('unitDismissed', { unit });
+  }
+
+  /**
+   * Count down summon durations at round end
+   */
+  private processSummonRoundEnd(): void {
+    const summons = this.state.units.filter((u) => u.summonRoundsLeft !== undefined);
+    for (const unit of summons) {
+      unit.summonRoundsLeft!--;
+      if (unit.summonRoundsLeft! <= 0) {
+        this.dismissSummon(unit);
+      }
+    }
+  }
+
+  // ============================================
+  // Reinforcements and Battle Events
+  // ============================================
+
+  /**
+   * Bring in every wave and play every event whose trigger has fired
+   * (each happens once)
+   * Returns true if any did
+   */
+  checkTriggers(): boolean {
+    if (this.winner) return false;
+    const { reinforcements = [], events = [] } = this.state.config;
+    const context: TriggerContext = {
+      units: this.state.units,
+      round: this.state.round,
+      abilitiesUsed: this.abilitiesUsed,
+    };
+
+    let fired = false;
+    for (const wave of reinforcements) {
+      if (this.arrivedWaves.has(wave) || !isTriggerMet(wave.trigger, context)) continue;
+
+      fired = true;
+      this.arrivedWaves.add(wave);
+      this.log(wave.announcement ?? 'Enemy reinforcements arrive!');
+      this.emit('reinforcementsDue', { wave });
+    }
+
+    for (const event of events) {
+      if (this.firedEvents.has(event) || !isTriggerMet(event.trigger, context)) continue;
+
+      fired = true;
+      this.firedEvents.add(event);
+      event.actions.forEach((action) => this.runEventAction(action));
+    }
+    return fired;
+  }
+
+  /**
+   * Record an ability being used (for ability_used triggers)
+   * Its triggers fire at the next check, once the ability has resolved, so an
+   * event never changes the field partway through the ability
+   */
+  reportAbilityUsed(unit: Unit, ability: Ability): void {
+    this.abilitiesUsed.push({ unit, abilityId: ability.id });
+  }
+
+  /**
+   * Carry out the actions that change the battle; pass the rest to the listeners
+   */
+  private runEventAction(action: BattleEventAction): void {
+    switch (action.type) {
+      case 'spawn_units':
+        this.emit('reinforcementsDue', { wave: action });
+        break;
+      case 'remove_unit':
+        // Party heroes stay; enemies, summons and NPCs can leave
+        for (const unit of findConditionUnits(action.unit, this.state.units)) {
+          if (unit.team === 'hero' && !unit.summonerId && !unit.npc) continue;
+          this.removeUnit(unit, action.message ?? `${unit.name} leaves the battle.`);
+        }
+        break;
+      case 'change_terrain': {
+        const { bounds, terrain } = action;
+        for (let y = bounds.y1; y <= bounds.y2; y++) {
+          for (let x = bounds.x1; x <= bounds.x2; x++) {
+            if (this.state.config.terrain[y]?.[x] !== undefined) {
+              this.state.config.terrain[y][x] = terrain;
+            }
+          }
+        }
+        this.emit('terrainChanged', { bounds, terrain });
+        break;
+      }
+      default:
+        this.emit('eventAction', { action });
+    }
+  }
+
+  /**
+   * Bring a reinforcement (already placed on the grid) into the battle. Like
+   * a summon, it acts this round if it beats anyone still waiting for their turn.
+   */
+  addReinforcement(unit: Unit): void {
+    this.state.units.push(unit);
+    this.joinTurnOrder(unit);
+  }
+
+  // ============================================
+  // Movement
+  // ============================================
+
+  /**
+   * Raise status break triggers once a unit finishes moving: move on the unit,
+   * adjacent_enemy on it and on any enemy it ended up next to
+   * Returns the statuses that ended
+   */
+  processUnitMoved(unit: Unit): StatusEffect[] {
+    const handlers: StatusHookHandlers = { log: (message) => this.log(message) };
+    const broken = breakStatusEffects(unit, 'move', handlers);
+
+    const adjacentEnemies = this.state.units.filter(other =>
+      other.team !== unit.team &&
+      !other.isUnconscious &&
+      getDistance(unit.gridX, unit.gridY, other.gridX, other.gridY) === 1
+    );
+    if (adjacentEnemies.length > 0) {
+      broken.push(...breakStatusEffects(unit, 'adjacent_enemy', handlers));
+      for (const enemy of adjacentEnemies) {
+        broken.push(...breakStatusEffects(enemy, 'adjacent_enemy', handlers));
+      }
+    }
+
+    return broken;
+  }
+
+  // ============================================
+  // Forced Movement (push, pull, swap)
+  // ============================================
+
+  /**
+   * Log a unit moved by an ability, deal collision damage if it was stopped
+   * short, then apply zone and hazard entry where it ended up
+   */
+  processForcedMove(move: ForcedMoveResult, movement: ForcedMovement): void {
+    const { unit } = move;
+    const tiles = move.path.length;
+
+    if (move.swappedWith) {
+      this.log(`  ${unit.name} swaps places with ${move.swappedWith.name}!`);
+    } else if (tiles > 0) {
+      const verb = move.type === 'push' ? 'pushed back' : 'pulled in';
+      this.log(`  ${unit.name} is ${verb} ${tiles} tile${tiles === 1 ? '' : 's'}!`);
+    }
+
+    if (move.collidedWith) {
+      const amount = rollTotal(movement.collisionDamage ?? DEFAULT_COLLISION_DAMAGE);
+      const obstacle = move.collidedWith === 'terrain' ? 'a wall' : move.collidedWith.name;
+      this.log(`  ${unit.name} slams into ${obstacle} for ${amount} damage!`);
+      this.dealDamage(unit, amount, 'collision');
+    }
+
+    if (tiles === 0) return;
+    for (const moved of [unit, move.swappedWith]) {
+      if (!moved) continue;
+      this.processZoneEntry(moved);
+      this.processTerrainEntry(moved);
+    }
+  }
+
+  // ============================================
+  // Terrain Hazards (fire, spikes)
+  // ============================================
+
+  /**
+   * Apply hazard damage for a unit stepping onto a hazard tile (every tile
+   * of a move, not just where it ends)
+   * Returns whether the unit took any damage
+   */
+  processTerrainEntry(unit: Unit): boolean {
+    return this.applyHazardDamage(unit, 'entry');
+  }
+
+  /**
+   * Damage a unit standing on hazardous terrain (on entry or turn start)
+   * Flying units pass over hazards unharmed
+   */
+  private applyHazardDamage(unit: Unit, reason: string): boolean {
+    if (unit.isUnconscious || unit.flying) return false;
+
+    const terrain = getTerrainRules(this.state.config.terrain[unit.gridY]?.[unit.gridX] ?? 0);
+    if (!terrain.hazardDamage) return false;
+
+    const amount = adjustDamage(unit, rollTotal(terrain.hazardDamage), terrain.hazardDamageType).amount;
+    if (amount <= 0) return false;
+
+    this.log(`  ${unit.name} takes ${amount} damage from hazardous terrain (${reason})!`);
+    this.dealDamage(unit, amount, 'terrain');
+    return true;
+  }
+
+  // ============================================
+  // Concentration
+  // ============================================
+
+  /**
+   * Start concentrating on an ability before it resolves
+   * Casting a second concentration ability ends the first
+   */
+  beginConcentration(caster: Unit, ability: Ability): void {
+    if (!ability.concentration) return;
+
+    if (caster.concentratingOn) {
+      this.endConcentration(caster, `${caster.name} stops concentrating on ${caster.concentratingOn.abilityName}.`);
+    }
+
+    caster.concentratingOn = { abilityId: ability.id, abilityName: ability.name };
+    this.log(`  ${caster.name} is concentrating on ${ability.name}.`);
+  }
+
+  /**
+   * End concentration that damage broke, and concentration with nothing
+   * left to keep up (its statuses and zones ran out)
+   */
+  processConcentration(): void {
+    for (const unit of this.state.units) {
+      const concentration = unit.concentratingOn;
+      if (!concentration) continue;
+
+      if (concentration.lostReason) {
+        this.endConcentration(
+          unit,
+          `${unit.name} ${concentration.lostReason} and loses concentration on ${concentration.abilityName}!`
+        );
+      } else if (!this.hasConcentrationEffects(unit)) {
+        unit.concentratingOn = undefined;
+      }
+    }
+  }
+
+  private hasConcentrationEffects(caster: Unit): boolean {
+    return this.state.units.some(u => u.statusEffects.some(e => isLinkedTo(e.concentration, caster))) ||
+      this.state.zones.some(zone => isLinkedTo(zone.concentration, caster));
+  }
+
+  /**
+   * Stop the caster concentrating and end every status and zone linked to it
+   */
+  private endConcentration(caster: Unit, message: string): void {
+    caster.concentratingOn = undefined;
+    this.log(message);
+
+    const released: Unit[] = [];
+    for (const unit of this.state.units) {
+      const linked = unit.statusEffects.filter(e => isLinkedTo(e.concentration, caster));
+      if (linked.length === 0) continue;
+
+      unit.statusEffects = unit.statusEffects.filter(e => !linked.includes(e));
+      released.push(unit);
+      for (const effect of linked) {
+        const name = getStatusEffectDefinition(effect.type)?.name ?? effect.type;
+        this.log(`  ${unit.name} is no longer ${name.toLowerCase()}.`);
+      }
+    }
+
+    const { zones } = this.state;
+    const count = zones.length;
+    for (let i = zones.length - 1; i >= 0; i--) {
+      if (isLinkedTo(zones[i].concentration, caster)) {
+        zones.splice(i, 1);
+      }
+    }
+    if (zones.length !== count) {
+      this.log(`  ${caster.name}'s Entangle zone fades away.`);
+      this.emit('zonesChanged', { zones });
+    }
+
+    this.emit('concentrationEnded', { caster, released });
+  }
+
+  // ============================================
+  // Persistent Zones (e.g. Entangle)
+  // ============================================
+
+  /**
+   * Create a persistent zone on the battlefield
+   */
+  createZone(
+    caster: Unit,
+    ability: Ability,
+    origin: { x: number; y: number },
+    size: { width: number; height: number }
+  ): Zone {
+    // Roll duration
+    const durationNotation = ability.effect?.duration;
+    let duration = 1;
+    if (typeof durationNotation === 'string') {
+      duration = rollTotal(durationNotation);
+    } else if (typeof durationNotation === 'number') {
+      duration = durationNotation;
+    }
+
+    const zone: Zone = {
+      id: `zone_${this.state.round}_${this.state.zones.length}`,
+      type: 'entangle',
+      originX: origin.x,
+      originY: origin.y,
+      width: size.width,
+      height: size.height,
+      duration,
+      damage: ability.damage || '1d6',
+      damageType: ability.damageType,
+      damageOnSave: ability.damageOnSave || 'half',
+      casterId: caster.dataId,
+    };
+
+    const concentration = getConcentrationLink(caster, ability);
+    if (concentration) {
+      zone.concentration = concentration;
+    }
+
+    this.state.zones.push(zone);
+    this.log(zone.concentration
+      ? `  Zone created for ${duration} rounds (while ${caster.name} concentrates)!`
+      : `  Zone created for ${duration} rounds!`);
+    this.emit('zonesChanged', { zones: this.state.zones });
+    return zone;
+  }
+
+  /**
+   * Get all zones covering a position
+   */
+  getZonesAtPosition(x: number, y: number): Zone[] {
+    return this.state.zones.filter(zone =>
+      x >= zone.originX &&
+      x < zone.originX + zone.width &&
+      y >= zone.originY &&
+      y < zone.originY + zone.height
+    );
+  }
+
+  /**
+   * Apply zone damage for a unit entering a position
+   */
+  processZoneEntry(unit: Unit): void {
+    for (const zone of this.getZonesAtPosition(unit.gridX, unit.gridY)) {
+      this.applyZoneDamage(unit, zone, 'entry');
+    }
+  }
+
+  /**
+   * Apply zone damage to a unit (on entry or turn start)
+   */
+  private applyZoneDamage(unit: Unit, zone: Zone, reason: string): void {
+    if (unit.isUnconscious) return;
+
+    // Roll save
+    const saveRoll = rollDice('1d20');
+    const saveTotal = saveRoll.total + unit.resilience;
+    const targetNumber = 13; // Use standard magic target
+    const savePassed = saveTotal >= targetNumber;
+
+    // Roll damage
+    const damageRoll = rollDice(zone.damage);
+    let totalDamage = damageRoll.finalTotal ?? damageRoll.total;
+
+    if (savePassed && zone.damageOnSave === 'half') {
+      totalDamage = Math.floor(totalDamage / 2);
+    } else if (savePassed && zone.damageOnSave === 'none') {
+      totalDamage = 0;
+    }
+    totalDamage = adjustDamage(unit, totalDamage, zone.damageType).amount;
+
+    if (totalDamage > 0) {
+      this.log(`  ${unit.name} takes ${totalDamage} damage from Entangle (${reason})!`);
+      this.dealDamage(unit, totalDamage, 'zone', zone.casterId);
+    } else {
+      this.log(`  ${unit.name} avoids Entangle damage!`);
+    }
+  }
+
+  /**
+   * Decrement zone durations at round end and remove expired zones
+   */
+  private processZoneRoundEnd(): void {
+    const { zones } = this.state;
+    const count = zones.length;
+
+    for (let i = zones.length - 1; i >= 0; i--) {
+      zones[i].duration--;
+      if (zones[i].duration <= 0) {
+        this.log(`Entangle zone fades away.`);
+        zones.splice(i, 1);
+      }
+    }
+
+    if (zones.length !== count) {
+      this.emit('zonesChanged', { zones });
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { AbilityUse, isTriggerMet, TriggerContext } from './BattleEvents';
+import { Unit } from '../data/BattleTypes';
+import { makeUnit } from '../test/helpers';
+
+function makeContext(units: Unit[], abilitiesUsed: AbilityUse[] = []): TriggerContext {
+  return { units, round: 1, abilitiesUsed };
+}
+
+describe('isTriggerMet', () => {
+  it('fires when the named unit drops below the HP share', () => {
+    const vessan = makeUnit({ id: 'vessan_1', dataId: 'vessan', team: 'enemy', currentHp: 10, maxHp: 20 });
+    const trigger = { type: 'unit_hp_below', unit: 'vessan', percent: 50 } as const;
+
+    expect(isTriggerMet(trigger, makeContext([vessan]))).toBe(false);
+
+    vessan.currentHp = 9;
+    expect(isTriggerMet(trigger, makeContext([vessan]))).toBe(true);
+  });
+
+  it('fires when a standing hero enters the area', () => {
+    const hero = makeUnit({ gridX: 2, gridY: 2 });
+    const trigger = { type: 'hero_enters', bounds: { x1: 2, y1: 0, x2: 4, y2: 2 } } as const;
+
+    expect(isTriggerMet(trigger, makeContext([hero]))).toBe(true);
+
+    hero.isUnconscious = true;
+    expect(isTriggerMet(trigger, makeContext([hero]))).toBe(false);
+  });
+
+  it('counts defeated enemies but not summons', () => {
+    const units = [
+      makeUnit({ id: 'imp_1', team: 'enemy', isUnconscious: true }),
+      makeUnit({ id: 'lemure_summon_1', team: 'enemy', isUnconscious: true, summonerId: 'imp_1' }),
+    ];
+    const trigger = { type: 'enemies_defeated', count: 2 } as const;
+
+    expect(isTriggerMet(trigger, makeContext(units))).toBe(false);
+  });
+
+  it('fires once every named unit is down', () => {
+    const imps = [
+      makeUnit({ id: 'imp_1', dataId: 'imp', team: 'enemy', isUnconscious: true }),
+      makeUnit({ id: 'imp_2', dataId: 'imp', team: 'enemy' }),
+    ];
+
+    expect(isTriggerMet({ type: 'unit_defeated', unit: 'imp_1' }, makeContext(imps))).toBe(true);
+    expect(isTriggerMet({ type: 'unit_defeated', unit: 'imp' }, makeContext(imps))).toBe(false);
+    expect(isTriggerMet({ type: 'unit_defeated', unit: 'ogre' }, makeContext(imps))).toBe(false);
+  });
+
+  it('fires when the ability is used, by anyone or by the named unit', () => {
+    const lyra = makeUnit({ id: 'lyra', dataId: 'lyra' });
+    const context = makeContext([lyra], [{ unit: lyra, abilityId: 'entangle' }]);
+
+    expect(isTriggerMet({ type: 'ability_used', ability: 'entangle' }, context)).toBe(true);
+    expect(isTriggerMet({ type: 'ability_used', ability: 'entangle', unit: 'lyra' }, context)).toBe(true);
+    expect(isTriggerMet({ type: 'ability_used', ability: 'entangle', unit: 'thump' }, context)).toBe(false);
+    expect(isTriggerMet({ type: 'ability_used', ability: 'fireball' }, context)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+// BattleEvents - triggers for reinforcement waves and scripted battle events
+//
+// A battle config can list events: a trigger (a round starting, a unit
+// getting hurt or going down, a hero stepping somewhere, an ability being
+// used) and the actions that follow, such as dialogue, game flags, units
+// arriving or leaving, terrain changes and items. Each event plays once.
+// The engine runs the actions that change the battle and hands the rest
+// (dialogue, flags, items) to its listeners.
+
+import { BattleTrigger, Unit } from '../data/BattleTypes';
+import { findConditionUnits, isInBounds } from './BattleConditions';
+
+// An ability someone used this battle
+export interface AbilityUse {
+  unit: Unit;
+  abilityId: string;
+}
+
+// What triggers are checked against
+export interface TriggerContext {
+  units: Unit[];
+  round: number;
+  abilitiesUsed: AbilityUse[];
+}
+
+/**
+ * Whether a unit reference (instance ID or data ID) names this unit
+ */
+function isNamed(ref: string, unit: Unit): boolean {
+  return unit.id === ref || unit.dataId === ref;
+}
+
+/**
+ * Whether a trigger has fired
+ */
+export function isTriggerMet(trigger: BattleTrigger, context: TriggerContext): boolean {
+  const { units, round, abilitiesUsed } = context;
+
+  switch (trigger.type) {
+    case 'round':
+      return round >= trigger.round;
+    case 'unit_hp_below':
+      return findConditionUnits(trigger.unit, units).some(
+        (u) => u.currentHp < (u.maxHp * trigger.percent) / 100
+      );
+    case 'hero_enters':
+      return units.some(
+        (u) => u.team === 'hero' && !u.summonerId && !u.npc && !u.isUnconscious &&
+          isInBounds(u.gridX, u.gridY, trigger.bounds)
+      );
+    case 'enemies_defeated':
+      return units.filter((u) => u.team === 'enemy' && !u.summonerId && u.isUnconscious).length >= trigger.count;
+    case 'unit_defeated': {
+      const named = findConditionUnits(trigger.unit, units);
+      return named.length > 0 && named.every((u) => u.isUnconscious);
+    }
+    case 'ability_used':
+      return abilitiesUsed.some(
+        (use) => use.abilityId === trigger.ability && (!trigger.unit || isNamed(trigger.unit, use.unit))
+      );
+  }
+}
@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BattleRecorder, BattleReplayLog, parseReplay, ReplayPlayer } from './BattleReplay';
+import { resetRandomSource, rollDice, setRollListener } from './DiceRoller';
+import { SaveManager } from './SaveManager';
+import { BattleConfig } from '../data/BattleTypes';
+import { abilitiesData, makeUnit, queueRolls } from '../test/helpers';
+
+const config = {
+  id: 'test_field',
+  name: 'Test Field',
+  gridWidth: 8,
+  gridHeight: 8,
+  terrain: [],
+  heroStartPositions: [],
+  enemies: [],
+} as unknown as BattleConfig;
+
+function createRecorder(): BattleRecorder {
+  return new BattleRecorder(
+    config,
+    1234,
+    SaveManager.createInitialHeroState(),
+    SaveManager.createInitialInventory()
+  );
+}
+
+/**
+ * Record a short battle: one round where the hero attacks and the enemy waits
+ */
+function recordBattle(): BattleReplayLog {
+  const recorder = createRecorder();
+  const hero = makeUnit({ id: 'vicas' });
+  const enemy = makeUnit({ id: 'goblin_1', team: 'enemy' });
+  setRollListener((roll) => recorder.addRoll(roll));
+
+  queueRolls([[20, 12], [20, 5], [20, 15], [8, 6]]);
+  recorder.recordRound(1);
+  rollDice('1d20');
+  rollDice('1d20');
+  recorder.recordTurn(hero);
+  recorder.recordMove(hero, [{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+  recorder.recordAbility(hero, abilitiesData.psychic_dagger, [enemy]);
+  rollDice('1d20');
+  rollDice('1d8+2');
+  recorder.recordTurn(enemy);
+  recorder.recordWait(enemy);
+  recorder.recordWinner('hero');
+
+  setRollListener(null);
+  return recorder.getLog();
+}
+
+afterEach(() => {
+  setRollListener(null);
+  resetRandomSource();
+  vi.restoreAllMocks();
+});
+
+describe('BattleRecorder', () => {
+  it('attaches each roll to the entry it was made in', () => {
+    const log = recordBattle();
+
+    expect(log.entries.map(e => e.type)).toEqual(['round', 'turn', 'move', 'ability', 'turn', 'wait']);
+    expect(log.entries[0].rolls.map(r => r.total)).toEqual([12, 5]);
+    expect(log.entries[3].rolls).toEqual([
+      { dice: '1d20', rolls: [15], total: 15 },
+      { dice: '1d8+2', rolls: [6], total: 8 },
+    ]);
+    expect(log.winner).toBe('hero');
+  });
+
+  it('keeps its own copy of the starting state', () => {
+    const heroState = SaveManager.createInitialHeroState();
+    const recorder = new BattleRecorder(config, 1, heroState, SaveManager.createInitialInventory());
+    heroState.vicas.currentHp = 0;
+
+    expect(recorder.getLog().heroState.vicas.currentHp).not.toBe(0);
+  });
+
+  it('drops an undone move, but not one that made rolls', () => {
+    const recorder = createRecorder();
+    const hero = makeUnit({ id: 'vicas' });
+    recorder.recordTurn(hero);
+    recorder.recordMove(hero, [{ x: 1, y: 0 }]);
+    recorder.discardLastMove(hero);
+
+    expect(recorder.getLog().entries.map(e => e.type)).toEqual(['turn']);
+
+    recorder.recordMove(hero, [{ x: 1, y: 0 }]);
+    setRollListener((roll) => recorder.addRoll(roll));
+    rollDice('1d20');
+    recorder.discardLastMove(hero);
+
+    expect(recorder.getLog().entries.map(e => e.type)).toEqual(['turn', 'move']);
+  });
+
+  it('round-trips through JSON', () => {
+    const recorder = createRecorder();
+    recorder.recordRound(1);
+
+    expect(parseReplay(JSON.parse(recorder.toJSON()))).toEqual(recorder.getLog());
+  });
+});
+
+describe('parseReplay', () => {
+  it.each([
+    ['not an object', 'replay'],
+    ['a different version', { ...recordBattle(), version: 99 }],
+    ['no seed', { ...recordBattle(), seed: undefined }],
+    ['no entries', { ...recordBattle(), entries: undefined }],
+  ])('rejects %s', (_name, data) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseReplay(data)).toBeNull();
+  });
+});
+
+describe('ReplayPlayer', () => {
+  it('hands out each turn\'s actions and stops at the next turn', () => {
+    const player = new ReplayPlayer(recordBattle());
+
+    expect(player.beginTurn('vicas')).toBe(true);
+    expect(player.nextAction()).toMatchObject({ type: 'move', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] });
+    expect(player.nextAction()).toMatchObject({ type: 'ability', abilityId: 'psychic_dagger', targetIds: ['goblin_1'] });
+    expect(player.nextAction()).toBeNull();
+
+    expect(player.beginTurn('goblin_1')).toBe(true);
+    expect(player.nextAction()).toMatchObject({ type: 'wait' });
+    expect(player.beginTurn('vicas')).toBe(false);
+  });
+
+  it('hands out the facing chosen as the turn ended only after its actions', () => {
+    const recorder = createRecorder();
+    const hero = makeUnit({ id: 'vicas', facing: 'east' });
+    recorder.recordTurn(hero);
+    recorder.recordWait(hero);
+    recorder.recordFacing(hero);
+    const player = new ReplayPlayer(recorder.getLog());
+
+    player.beginTurn('vicas');
+    expect(player.takeFacing('vicas')).toBeNull();
+    expect(player.nextAction()).toMatchObject({ type: 'wait' });
+    expect(player.nextAction()).toBeNull();
+    expect(player.takeFacing('vicas')).toBe('east');
+  });
+
+  it('accepts the recorded rolls in order', () => {
+    const player = new ReplayPlayer(recordBattle());
+    setRollListener((roll) => expect(player.checkRoll(roll)).toBeNull());
+
+    queueRolls([[20, 12], [20, 5], [20, 15], [8, 6]]);
+    rollDice('1d20');
+    rollDice('1d20');
+    rollDice('1d20');
+    rollDice('1d8+2');
+
+    expect(player.hasDiverged()).toBe(false);
+  });
+
+  it('reports only the first roll that stops matching', () => {
+    const player = new ReplayPlayer(recordBattle());
+    const divergences: unknown[] = [];
+    setRollListener((roll) => {
+      const divergence = player.checkRoll(roll);
+      if (divergence) divergences.push(divergence);
+    });
+
+    queueRolls([[20, 12], [20, 5], [20, 3], [8, 1]]);
+    rollDice('1d20');
+    rollDice('1d20');
+    rollDice('1d20');
+    rollDice('1d8+2');
+
+    expect(divergences).toEqual([{
+      entryIndex: 3,
+      expected: { dice: '1d20', rolls: [15], total: 15 },
+      actual: { dice: '1d20', rolls: [3], total: 3 },
+    }]);
+    expect(player.hasDiverged()).toBe(true);
+  });
+
+  it('holds steps while paused and releases one at a time', () => {
+    const player = new ReplayPlayer(recordBattle());
+    const ran: string[] = [];
+
+    player.togglePause();
+    player.whenReady(() => ran.push('first'));
+    expect(ran).toEqual([]);
+
+    player.step();
+    expect(ran).toEqual(['first']);
+
+    player.whenReady(() => ran.push('second'));
+    player.togglePause();
+    expect(ran).toEqual(['first', 'second']);
+    expect(player.isPaused()).toBe(false);
+  });
+
+  it('cycles through playback speeds', () => {
+    const player = new ReplayPlayer(recordBattle());
+
+    expect(player.getSpeed()).toBe(1);
+    expect([player.cycleSpeed(), player.cycleSpeed(), player.cycleSpeed(), player.cycleSpeed()])
+      .toEqual([2, 4, 0.5, 1]);
+  });
+});
@@ -0,0 +1,363 @@
+// BattleReplay - records a battle's action log and plays it back
+//
+// A battle is reproducible from its seed, config and starting party, so the log
+// only needs the heroes' choices to replay it; enemy actions and all rolls are
+// kept as well so a tester's log shows what happened and playback can detect
+// when the current rules no longer produce the same rolls.
+
+import { BattleConfig, DiceRoll, Position, Team, Unit, Ability } from '../data/BattleTypes';
+import { InventoryState } from '../data/ItemTypes';
+import { HeroState } from './SaveManager';
+
+export const REPLAY_VERSION = 1;
+
+// Playback speeds cycled through by the speed control
+const REPLAY_SPEEDS = [1, 2, 4, 0.5];
+
+export interface RecordedRoll {
+  dice: string; // e.g. "1d20", "2d20kh1", "1d6+2"
+  rolls: number[]; // Kept dice
+  total: number; // Including modifiers
+}
+
+interface ReplayEntryBase {
+  rolls: RecordedRoll[]; // Every roll made until the next entry
+}
+
+export type ReplayEntry = ReplayEntryBase & (
+  | { type: 'round'; round: number }
+  | { type: 'turn'; unitId: string }
+  | { type: 'move'; unitId: string; path: Position[] }
+  | {
+      type: 'ability';
+      unitId: string;
+      abilityId: string;
+      targetIds: string[];
+      origin?: Position; // Area abilities: top-left tile of the area
+      size?: { width: number; height: number };
+    }
+  | { type: 'item'; unitId: string; itemId: string; targetId: string }
+  | { type: 'wait'; unitId: string }
+  | { type: 'face'; unitId: string; facing: Unit['facing'] } // Facing chosen at the end of a hero's turn
+);
+
+export type ReplayAction = Extract<ReplayEntry, { type: 'move' | 'ability' | 'item' | 'wait' }>;
+
+export interface BattleReplayLog {
+  version: number;
+  battleId: string;
+  seed: number;
+  recordedAt: string; // ISO timestamp
+  config: BattleConfig; // Battle config as it was when the battle started
+  heroState: Record<string, HeroState>; // Party at the start of the battle
+  inventory: InventoryState;
+  entries: ReplayEntry[];
+  winner?: Team;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function toRecordedRoll(roll: DiceRoll): RecordedRoll {
+  return {
+    dice: roll.dice,
+    rolls: [...roll.rolls],
+    total: roll.finalTotal ?? roll.total,
+  };
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Builds a replay log as a battle is played. Feed it every roll via addRoll
+ * (see setRollListener) and record each turn and action as it starts.
+ */
+export class BattleRecorder {
+  private log: BattleReplayLog;
+
+  constructor(
+    config: BattleConfig,
+    seed: number,
+    heroState: Record<string, HeroState>,
+    inventory: InventoryState
+  ) {
+    this.log = {
+      version: REPLAY_VERSION,
+      battleId: config.id,
+      seed,
+      recordedAt: new Date().toISOString(),
+      config: clone(config),
+      heroState: clone(heroState),
+      inventory: clone(inventory),
+      entries: [],
+    };
+  }
+
+  /**
+   * Attach a roll to the most recent entry
+   */
+  addRoll(roll: DiceRoll): void {
+    const entry = this.log.entries[this.log.entries.length - 1];
+    if (entry) {
+      entry.rolls.push(toRecordedRoll(roll));
+    }
+  }
+
+  recordRound(round: number): void {
+    this.log.entries.push({ type: 'round', round, rolls: [] });
+  }
+
+  recordTurn(unit: Unit): void {
+    this.log.entries.push({ type: 'turn', unitId: unit.id, rolls: [] });
+  }
+
+  recordMove(unit: Unit, path: Position[]): void {
+    this.log.entries.push({
+      type: 'move',
+      unitId: unit.id,
+      path: path.map(({ x, y }) => ({ x, y })),
+      rolls: [],
+    });
+  }
+
+  recordAbility(
+    unit: Unit,
+    ability: Ability,
+    targets: Unit[],
+    origin?: Position,
+    size?: { width: number; height: number }
+  ): void {
+    this.log.entries.push({
+      type: 'ability',
+      unitId: unit.id,
+      abilityId: ability.id,
+      targetIds: targets.map(t => t.id),
+      ...(origin && { origin: { x: origin.x, y: origin.y } }),
+      ...(size && { size: { ...size } }),
+      rolls: [],
+    });
+  }
+
+  recordItem(unit: Unit, itemId: string, target: Unit): void {
+    this.log.entries.push({ type: 'item', unitId: unit.id, itemId, targetId: target.id, rolls: [] });
+  }
+
+  /**
+   * Drop the unit's last move when it is taken back
+   * Only moves that made no rolls can be undone, so nothing else is lost
+   */
+  discardLastMove(unit: Unit): void {
+    const entry = this.log.entries[this.log.entries.length - 1];
+    if (entry?.type === 'move' && entry.unitId === unit.id && entry.rolls.length === 0) {
+      this.log.entries.pop();
+    }
+  }
+
+  recordWait(unit: Unit): void {
+    this.log.entries.push({ type: 'wait', unitId: unit.id, rolls: [] });
+  }
+
+  recordFacing(unit: Unit): void {
+    this.log.entries.push({ type: 'face', unitId: unit.id, facing: unit.facing, rolls: [] });
+  }
+
+  recordWinner(winner: Team): void {
+    this.log.winner = winner;
+  }
+
+  getLog(): BattleReplayLog {
+    return this.log;
+  }
+
+  /**
+   * Serialize the log for export
+   */
+  toJSON(): string {
+    return JSON.stringify(this.log, null, 2);
+  }
+}
+
+/**
+ * Validate loaded JSON as a replay log
+ * Returns null (and logs why) if it can't be played back
+ */
+export function parseReplay(data: unknown): BattleReplayLog | null {
+  const log = data as Partial<BattleReplayLog> | null;
+
+  if (!log || typeof log !== 'object') {
+    console.error('Replay is not a JSON object');
+    return null;
+  }
+  if (log.version !== REPLAY_VERSION) {
+    console.error(`Unsupported replay version: ${log.version}`);
+    return null;
+  }
+  if (typeof log.seed !== 'number' || !log.config || !log.heroState || !log.inventory) {
+    console.error('Replay is missing its seed, config or starting party');
+    return null;
+  }
+  if (!Array.isArray(log.entries)) {
+    console.error('Replay has no entries');
+    return null;
+  }
+
+  return log as BattleReplayLog;
+}
+
+// ============================================
+// Playback
+// ============================================
+
+export interface ReplayDivergence {
+  entryIndex: number; // Entry the unexpected roll belongs to
+  expected: RecordedRoll | null; // null when the log had no more rolls
+  actual: RecordedRoll;
+}
+
+/**
+ * Steps through a replay log: hands out each hero action in turn, checks
+ * live rolls against the recorded ones and holds pause/step/speed state
+ */
+export class ReplayPlayer {
+  readonly log: BattleReplayLog;
+
+  // Index of the next entry to read
+  private cursor: number = 0;
+
+  // Flattened recorded rolls with the entry each belongs to
+  private expectedRolls: { entryIndex: number; roll: RecordedRoll }[];
+  private rollIndex: number = 0;
+  private divergence: ReplayDivergence | null = null;
+
+  // Playback controls
+  private paused: boolean = false;
+  private speedIndex: number = 0;
+  private pendingStep: (() => void) | null = null;
+
+  constructor(log: BattleReplayLog) {
+    this.log = log;
+    this.expectedRolls = log.entries.flatMap((entry, entryIndex) =>
+      entry.rolls.map(roll => ({ entryIndex, roll }))
+    );
+  }
+
+  /**
+   * Move to the given unit's next recorded turn
+   * Returns false if the log has no further turn for the unit
+   */
+  beginTurn(unitId: string): boolean {
+    for (let i = this.cursor; i < this.log.entries.length; i++) {
+      const entry = this.log.entries[i];
+      if (entry.type === 'turn' && entry.unitId === unitId) {
+        this.cursor = i + 1;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Next recorded action in the current turn, or null when the turn's actions are used up
+   */
+  nextAction(): ReplayAction | null {
+    const entry = this.log.entries[this.cursor];
+    if (!entry || entry.type === 'round' || entry.type === 'turn' || entry.type === 'face') {
+      return null;
+    }
+    this.cursor++;
+    return entry;
+  }
+
+  /**
+   * Facing the unit chose as its turn ended, if that is the next entry
+   */
+  takeFacing(unitId: string): Unit['facing'] | null {
+    const entry = this.log.entries[this.cursor];
+    if (entry?.type !== 'face' || entry.unitId !== unitId) {
+      return null;
+    }
+    this.cursor++;
+    return entry.facing;
+  }
+
+  /**
+   * Compare a live roll with the recorded one
+   * Returns the divergence the first time rolls stop matching, otherwise null
+   */
+  checkRoll(roll: DiceRoll): ReplayDivergence | null {
+    if (this.divergence) return null; // Only report the first mismatch
+
+    const actual = toRecordedRoll(roll);
+    const expected = this.expectedRolls[this.rollIndex++];
+
+    const matches = !!expected &&
+      expected.roll.dice === actual.dice &&
+      expected.roll.total === actual.total &&
+      expected.roll.rolls.join(',') === actual.rolls.join(',');
+    if (matches) return null;
+
+    this.divergence = {
+      entryIndex: expected?.entryIndex ?? this.log.entries.length,
+      expected: expected?.roll ?? null,
+      actual,
+    };
+    return this.divergence;
+  }
+
+  hasDiverged(): boolean {
+    return this.divergence !== null;
+  }
+
+  // ============================================
+  // Pause / Step / Speed
+  // ============================================
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getSpeed(): number {
+    return REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  cycleSpeed(): number {
+    this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+    return this.getSpeed();
+  }
+
+  /**
+   * Run the next playback step now, or hold it until resumed/stepped while paused
+   */
+  whenReady(step: () => void): void {
+    if (this.paused) {
+      this.pendingStep = step;
+    } else {
+      step();
+    }
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    if (!this.paused) {
+      this.runPendingStep();
+    }
+  }
+
+  /**
+   * While paused, let exactly one held step run
+   */
+  step(): void {
+    if (this.paused) {
+      this.runPendingStep();
+    }
+  }
+
+  private runPendingStep(): void {
+    const step = this.pendingStep;
+    this.pendingStep = null;
+    step?.();
+  }
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { runSimulations } from './BattleSimulator';
+import { resetRandomSource } from './DiceRoller';
+import { BattleConfig } from '../data/BattleTypes';
+import {
+  abilitiesData,
+  advantageData,
+  enemiesData,
+  heroesData,
+  statusEffectsData,
+} from '../test/helpers';
+import hellhoundCaveJson from '../../public/data/battles/hellhound_cave.json';
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('runSimulations', () => {
+  it('has every hero deal damage over a seeded batch', () => {
+    const report = runSimulations(
+      {
+        config: hellhoundCaveJson as unknown as BattleConfig,
+        heroesData,
+        enemiesData,
+        abilitiesData,
+        advantageData,
+        statusEffectsData,
+      },
+      20,
+      1
+    );
+
+    for (const [heroId, heroData] of Object.entries(heroesData)) {
+      const dealsDamage = heroData.abilities.some(id => abilitiesData[id]?.damage);
+      if (!dealsDamage) continue;
+      expect(report.heroes[heroId]?.averageDamage, heroId).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,704 @@
+// BattleSimulator - plays out battles headlessly (no Phaser) for balance testing
+
+import {
+  Unit,
+  Ability,
+  HeroData,
+  EnemyData,
+  BattleConfig,
+  AdvantageSource,
+  StatusEffectDefinition,
+  CombatSituation,
+  SpellResult,
+  AttackResult,
+  SummonEffect,
+  EnemyArrival,
+} from '../data/BattleTypes';
+import { createDefaultEquipmentBonusState } from '../data/ItemTypes';
+import {
+  createHeroUnit,
+  createEnemyUnit,
+  createNpcUnit,
+  createSummonedUnit,
+  markUnitMoved,
+  markUnitActed,
+  applyHealing,
+} from '../entities/Unit';
+import { GridManager } from './GridManager';
+import { AIController } from './AIController';
+import { BattleEngine } from './BattleEngine';
+import {
+  resolveAttack,
+  resolveSpell,
+  payAbilityCost,
+  setAdvantageSources,
+  getOpportunityAttackers,
+  resolveOpportunityAttack,
+  getTriggeredForcedMovement,
+} from './CombatResolver';
+import { deriveSeed } from './DiceRoller';
+import { getMovementAllowance, setStatusEffectDefinitions } from './StatusEffects';
+import {
+  getAreaDamageScale,
+  getAreaOriginOn,
+  getAreaTiles,
+  getChainTargets,
+  getUnitsInArea,
+  isMultiTargetAbility,
+} from './AreaShapes';
+import { SaveManager } from './SaveManager';
+import { findArrivalTile, getEntryFacing, getEntryTiles } from './Reinforcements';
+
+// Same movement limit as BattleScene
+const MOVEMENT_RANGE = 6;
+const HERO_ORDER = ['vicas', 'azrael', 'lyra', 'thump', 'rooker'];
+
+// Battles still running after this many rounds count as a draw
+const DEFAULT_MAX_ROUNDS = 50;
+
+// Safety cap on AI decisions per turn (move + attack + Azrael's second action)
+const MAX_ACTIONS_PER_TURN = 6;
+
+export interface SimulationOptions {
+  config: BattleConfig;
+  heroesData: Record<string, HeroData>;
+  enemiesData: Record<string, EnemyData>;
+  abilitiesData: Record<string, Ability>;
+  advantageData?: { sources: AdvantageSource[] }; // Contents of advantage.json
+  statusEffectsData?: { effects: StatusEffectDefinition[] }; // Contents of status_effects.json
+  heroLevel?: number; // Level for all heroes (default: config.heroLevel or 1)
+  heroLevels?: Record<string, number>; // Per-hero level overrides
+  equipment?: Record<string, string>; // Equipped item per hero ID
+  maxRounds?: number; // Draw after this many rounds (default 50)
+}
+
+export type SimulationWinner = 'hero' | 'enemy' | 'draw';
+
+export interface BattleOutcome {
+  seed: number;
+  winner: SimulationWinner;
+  rounds: number;
+  heroDamage: Record<string, number>; // Direct damage dealt per hero
+  heroDowned: Record<string, number>; // Times each hero dropped to 0 HP
+}
+
+export interface HeroSimulationStats {
+  averageDamage: number; // Per battle
+  downedCount: number; // Total times downed across all runs
+  downedRate: number; // Fraction of runs in which the hero went down at least once
+}
+
+export interface SimulationReport {
+  battleId: string;
+  runs: number;
+  heroWins: number;
+  enemyWins: number;
+  draws: number;
+  winRate: number; // 0-1
+  averageRounds: number;
+  heroes: Record<string, HeroSimulationStats>;
+}
+
+/**
+ * Headless battle simulator
+ * Runs BattleEngine's round/turn rules with AIController driving both sides
+ */
+export class BattleSimulator {
+  private options: SimulationOptions;
+
+  // Per-battle state (reset in run)
+  private engine!: BattleEngine;
+  private gridManager!: GridManager;
+  private heroAI!: AIController;
+  private enemyAI!: AIController;
+  private heroDamage: Record<string, number> = {};
+  private heroDowned: Record<string, number> = {};
+
+  constructor(options: SimulationOptions) {
+    this.options = options;
+
+    if (options.advantageData) {
+      setAdvantageSources(options.advantageData);
+    }
+    if (options.statusEffectsData) {
+      setStatusEffectDefinitions(options.statusEffectsData);
+    }
+  }
+
+  /**
+   * Play one full battle with the given seed
+   */
+  run(seed: number): BattleOutcome {
+    this.setupBattle(seed);
+
+    const maxRounds = this.options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+    const engine = this.engine;
+
+    while (!engine.isBattleOver() && engine.state.round < maxRounds) {
+      engine.startNewRound();
+
+      let unit = engine.startNextTurn();
+      while (unit) {
+        if (engine.processStartOfTurnEffects(unit).canAct) {
+          this.takeTurn(unit);
+        }
+        if (engine.checkBattleEnd()) break;
+        unit = engine.endCurrentTurn();
+      }
+    }
+
+    return {
+      seed,
+      winner: engine.checkBattleEnd() ?? 'draw',
+      rounds: engine.state.round,
+      heroDamage: { ...this.heroDamage },
+      heroDowned: { ...this.heroDowned },
+    };
+  }
+
+  // ============================================
+  // Setup
+  // ============================================
+
+  private setupBattle(seed: number): void {
+    const { config, abilitiesData } = this.options;
+
+    this.heroDamage = {};
+    this.heroDowned = {};
+
+    // New engine per battle (seeds the dice)
+    this.engine = new BattleEngine(config, seed);
+    this.engine.on('damageDealt', ({ target, amount, sourceId }) => {
+      // Zone damage is credited to the hero who cast it
+      const caster = this.engine.state.units.find(u => u.team === 'hero' && u.dataId === sourceId);
+      if (caster && caster.team !== target.team) this.trackDamage(caster, amount);
+    });
+    this.engine.on('unitDefeated', ({ unit }) => {
+      if (unit.team === 'hero' && !unit.summonerId && !unit.npc) this.heroDowned[unit.id]++;
+    });
+    this.engine.on('unitDismissed', ({ unit }) => this.gridManager.removeUnit(unit));
+    this.engine.on('reinforcementsDue', ({ wave }) => this.placeReinforcements(wave));
+    this.engine.on('terrainChanged', ({ bounds, terrain }) => {
+      for (let y = bounds.y1; y <= bounds.y2; y++) {
+        for (let x = bounds.x1; x <= bounds.x2; x++) {
+          this.gridManager.setTerrain(x, y, terrain);
+        }
+      }
+    });
+
+    this.gridManager = new GridManager(
+      config.terrain,
+      config.gridWidth,
+      config.gridHeight,
+      config.elevation
+    );
+
+    // Heroes always pursue and only set up attacks when that beats attacking;
+    // enemies keep their aggro range behaviour
+    this.heroAI = new AIController(this.gridManager, abilitiesData, {
+      ignoreAggroRange: true,
+      weighDebuffsByDamage: true,
+    });
+    this.enemyAI = new AIController(this.gridManager, abilitiesData);
+
+    this.placeHeroes();
+    this.placeEnemies();
+    this.placeNpcs();
+  }
+
+  private placeHeroes(): void {
+    const { config, heroesData, abilitiesData } = this.options;
+    const positions = config.heroStartPositions;
+
+    HERO_ORDER.forEach((heroId, index) => {
+      if (index >= positions.length) return;
+
+      const heroData = heroesData[heroId];
+      if (!heroData) {
+        console.error(`Hero data not found for: ${heroId}`);
+        return;
+      }
+
+      const pos = positions[index];
+      const unit = createHeroUnit(heroData, pos.x, pos.y);
+      const level = this.getHeroLevel(heroId);
+
+      // Level-based max stats (same tables as saved hero state)
+      unit.maxHp = SaveManager.getMaxHp(heroId, level);
+      unit.currentHp = unit.maxHp;
+      const maxMana = SaveManager.getMaxMana(heroId, level);
+      if (maxMana !== null) {
+        unit.maxMana = maxMana;
+        unit.currentMana = maxMana;
+      }
+      if (unit.maxKi !== undefined) {
+        unit.maxKi = SaveManager.getMaxKi(level);
+        unit.currentKi = unit.maxKi;
+      }
+
+      // Only abilities unlocked at this level
+      unit.abilities = heroData.abilities.filter(
+        id => (abilitiesData[id]?.levelRequired ?? 1) <= level
+      );
+
+      const equipment = this.options.equipment?.[heroId];
+      if (equipment) {
+        unit.equipment = equipment;
+        unit.equipmentBonusState = createDefaultEquipmentBonusState();
+      }
+
+      unit.facing = config.heroFacing || 'south';
+
+      this.gridManager.placeUnit(unit, pos.x, pos.y);
+      this.engine.state.units.push(unit);
+      this.heroDamage[unit.id] = 0;
+      this.heroDowned[unit.id] = 0;
+    });
+  }
+
+  private placeEnemies(): void {
+    const { config, enemiesData } = this.options;
+    const instanceCounts: Record<string, number> = {};
+
+    config.enemies.forEach((placement) => {
+      const enemyData = enemiesData[placement.type];
+      if (!enemyData) {
+        console.error(`Enemy data not found for: ${placement.type}`);
+        return;
+      }
+
+      instanceCounts[placement.type] = (instanceCounts[placement.type] || 0) + 1;
+      const instanceId = `${placement.type}_${instanceCounts[placement.type]}`;
+
+      const unit = createEnemyUnit(enemyData, instanceId, placement.x, placement.y);
+      unit.facing = config.enemyFacing || 'north';
+
+      this.gridManager.placeUnit(unit, placement.x, placement.y);
+      this.engine.state.units.push(unit);
+    });
+  }
+
+  private placeNpcs(): void {
+    const { config, enemiesData } = this.options;
+
+    for (const placement of config.npcs ?? []) {
+      const npcData = enemiesData[placement.type];
+      if (!npcData) {
+        console.error(`NPC data not found for: ${placement.type}`);
+        continue;
+      }
+
+      const unit = createNpcUnit(npcData, this.engine.nextEnemyId(placement.type), placement.x, placement.y);
+      unit.facing = config.heroFacing || 'south';
+
+      this.gridManager.placeUnit(unit, placement.x, placement.y);
+      this.engine.state.units.push(unit);
+    }
+  }
+
+  /**
+   * Put a wave's enemies on the entry tiles and into the battle
+   */
+  private placeReinforcements(wave: EnemyArrival): void {
+    const { config, enemiesData } = this.options;
+    const tiles = getEntryTiles(wave.from, config);
+
+    for (const type of wave.enemies) {
+      const enemyData = enemiesData[type];
+      if (!enemyData) {
+        console.error(`Enemy data not found for: ${type}`);
+        continue;
+      }
+
+      const tile = findArrivalTile(tiles, this.gridManager, enemyData);
+      if (!tile) continue;
+
+      const unit = createEnemyUnit(enemyData, this.engine.nextEnemyId(type), tile.x, tile.y);
+      unit.facing = getEntryFacing(wave.from, config.enemyFacing || 'north');
+
+      this.gridManager.placeUnit(unit, tile.x, tile.y);
+      this.engine.addReinforcement(unit);
+    }
+  }
+
+  private getHeroLevel(heroId: string): number {
+    return this.options.heroLevels?.[heroId]
+      ?? this.options.heroLevel
+      ?? this.options.config.heroLevel
+      ?? 1;
+  }
+
+  // ============================================
+  // Turns
+  // ============================================
+
+  /**
+   * AI decision loop - move then attack, or attack then move
+   */
+  private takeTurn(unit: Unit): void {
+    const ai = unit.team === 'hero' ? this.heroAI : this.enemyAI;
+
+    // Immobilized units can still act, just not move
+    if (getMovementAllowance(unit, MOVEMENT_RANGE) === 0) {
+      unit.hasMoved = true;
+    }
+
+    for (let i = 0; i < MAX_ACTIONS_PER_TURN; i++) {
+      if (unit.isUnconscious || this.engine.checkBattleEnd()) return;
+
+      const decision = ai.decideAction(
+        unit,
+        this.engine.state.units,
+        unit.hasMoved,
+        unit.hasActed,
+        this.engine.state.round
+      );
+
+      if (decision.action === 'move' && decision.targetPosition) {
+        this.executeMove(unit, decision.targetPosition);
+        markUnitMoved(unit);
+      } else if (
+        (decision.action === 'attack' || decision.action === 'ability') &&
+        decision.targetUnit &&
+        decision.ability
+      ) {
+        this.executeAction(unit, decision.targetUnit, decision.ability);
+        markUnitActed(unit);
+      } else {
+        break;
+      }
+    }
+
+    // End the turn facing the nearest opponent, guarding the rear
+    if (!unit.isUnconscious) {
+      unit.facing = ai.chooseFacing(unit, this.engine.state.units) ?? unit.facing;
+    }
+  }
+
+  private executeMove(unit: Unit, target: { x: number; y: number }): void {
+    const path = this.gridManager.findPath(unit.gridX, unit.gridY, target.x, target.y, unit);
+    if (!path || path.length === 0) return;
+
+    // Limit path to movement range, and never stop on an occupied tile
+    let limitedPath = path.slice(0, getMovementAllowance(unit, MOVEMENT_RANGE));
+    while (limitedPath.length > 0) {
+      const finalPos = limitedPath[limitedPath.length - 1];
+      const occupant = this.gridManager.getUnitAt(finalPos.x, finalPos.y);
+      if (!occupant || occupant === unit) break;
+      limitedPath = limitedPath.slice(0, -1);
+    }
+    if (limitedPath.length === 0) return;
+
+    // Off the grid while moving, so passing through allies leaves their tiles alone
+    const start = { x: unit.gridX, y: unit.gridY };
+    this.gridManager.removeUnit(unit);
+
+    for (const [index, step] of limitedPath.entries()) {
+      // Leaving an enemy's reach provokes opportunity attacks, which may stop the move
+      this.resolveOpportunityAttacks(unit, step);
+      if (unit.isUnconscious) {
+        // Can't fall on an ally being passed through; drop back to the last free tile
+        const stop = this.gridManager.findStoppingTile(unit, start, limitedPath.slice(0, index));
+        this.gridManager.placeUnit(unit, stop.x, stop.y);
+        return;
+      }
+
+      const dx = step.x - unit.gridX;
+      const dy = step.y - unit.gridY;
+      if (dx > 0) unit.facing = 'east';
+      else if (dx < 0) unit.facing = 'west';
+      else if (dy > 0) unit.facing = 'south';
+      else if (dy < 0) unit.facing = 'north';
+
+      unit.gridX = step.x;
+      unit.gridY = step.y;
+
+      // Hazards hurt on every tile crossed, which may also stop the move
+      this.engine.processTerrainEntry(unit);
+      if (unit.isUnconscious) {
+        const stop = this.gridManager.findStoppingTile(unit, start, limitedPath.slice(0, index + 1));
+        this.gridManager.placeUnit(unit, stop.x, stop.y);
+        return;
+      }
+    }
+    this.gridManager.placeUnit(unit, unit.gridX, unit.gridY);
+
+    // Statuses broken by moving, then zone entry damage at final position
+    this.engine.processUnitMoved(unit);
+    this.engine.processZoneEntry(unit);
+  }
+
+  private resolveOpportunityAttacks(unit: Unit, to: { x: number; y: number }): void {
+    const from = { x: unit.gridX, y: unit.gridY };
+    const attacks = getOpportunityAttackers(
+      unit,
+      from,
+      to,
+      this.engine.state.units,
+      this.options.abilitiesData
+    );
+
+    for (const { attacker, ability } of attacks) {
+      if (unit.isUnconscious) return;
+
+      const result = resolveOpportunityAttack(attacker, unit, ability, this.getCombatSituation(attacker, unit));
+      if (result.hit && result.totalDamage !== undefined) {
+        this.trackDamage(attacker, result.totalDamage);
+        if (result.defenderDefeated) {
+          this.engine.reportDefeat(unit);
+        }
+      }
+    }
+  }
+
+  // ============================================
+  // Combat
+  // ============================================
+
+  private executeAction(unit: Unit, target: Unit, ability: Ability): void {
+    this.engine.reportAbilityUsed(unit, ability);
+
+    if (ability.summon) {
+      this.executeSummon(unit, ability, ability.summon);
+      return;
+    }
+
+    this.faceTarget(unit, target);
+    this.engine.beginConcentration(unit, ability);
+
+    if (isMultiTargetAbility(ability)) {
+      this.executeAOE(unit, target, ability);
+      return;
+    }
+
+    // Enemy single-target abilities are free in BattleScene; heroes pay
+    if (unit.team === 'hero') {
+      payAbilityCost(unit, ability);
+    }
+
+    if (ability.type === 'attack') {
+      // Ambusher's Ring: +2 ATK on first attack of battle
+      let ambusherBonus = 0;
+      if (unit.equipment === 'ambushers_ring' &&
+          unit.equipmentBonusState &&
+          !unit.equipmentBonusState.firstAttackUsed) {
+        ambusherBonus = 2;
+        unit.attack += 2;
+        unit.equipmentBonusState.firstAttackUsed = true;
+      }
+
+      const result = resolveAttack(unit, target, ability, this.getCombatSituation(unit, target));
+
+      if (ambusherBonus > 0) {
+        unit.attack -= ambusherBonus;
+      }
+
+      if (result.hit && result.totalDamage !== undefined) {
+        this.trackDamage(unit, result.totalDamage);
+        if (result.defenderDefeated) {
+          this.applyBloodstone(unit);
+          this.engine.reportDefeat(target);
+        }
+      }
+      this.applyForcedMovement(unit, target, result);
+    } else {
+      const result = this.resolveSpellWithWardstone(unit, target, ability);
+      if (result.totalDamage) {
+        this.trackDamage(unit, result.totalDamage);
+      }
+      if (result.targetDefeated) {
+        this.applyBloodstone(unit);
+        this.engine.reportDefeat(target);
+      }
+      this.applyForcedMovement(unit, target, result);
+    }
+  }
+
+  /**
+   * Place the ability's creatures on free tiles beside the summoner
+   */
+  private executeSummon(unit: Unit, ability: Ability, summon: SummonEffect): void {
+    const creatureData = this.options.enemiesData[summon.unit];
+    if (!creatureData) {
+      console.error(`Summoned creature data not found for: ${summon.unit}`);
+      return;
+    }
+
+    payAbilityCost(unit, ability);
+
+    const tiles = this.gridManager.getFreeTilesNear(unit.gridX, unit.gridY, summon.count ?? 1, creatureData);
+    for (const tile of tiles) {
+      const creature = createSummonedUnit(creatureData, this.engine.nextSummonId(creatureData.id), unit, tile.x, tile.y);
+      this.gridManager.placeUnit(creature, tile.x, tile.y);
+      this.engine.summonUnit(creature, unit, summon.duration);
+    }
+  }
+
+  /**
+   * Push, pull or swap the target when the ability lands
+   */
+  private applyForcedMovement(unit: Unit, target: Unit, result: AttackResult | SpellResult): void {
+    const movement = getTriggeredForcedMovement(result);
+    if (!movement) return;
+
+    const move = this.gridManager.applyForcedMovement(unit, target, movement);
+    this.engine.processForcedMove(move, movement);
+  }
+
+  /**
+   * AOE aimed at the primary target (or a chain starting from it) - hits
+   * every opposing unit it reaches
+   */
+  private executeAOE(unit: Unit, primaryTarget: Unit, ability: Ability): void {
+    const units = this.engine.state.units;
+    const origin = getAreaOriginOn(ability, { x: primaryTarget.gridX, y: primaryTarget.gridY });
+    const targets = ability.area?.type === 'chain'
+      ? getChainTargets(unit, primaryTarget, ability.area, units)
+      : getUnitsInArea(getAreaTiles(ability, unit, origin), units).filter(u => u.team !== unit.team);
+
+    payAbilityCost(unit, ability);
+
+    for (const [index, target] of targets.entries()) {
+      const scale = getAreaDamageScale(ability, index);
+      const result = this.resolveSpellWithWardstone(unit, target, ability, scale);
+      if (result.totalDamage) {
+        this.trackDamage(unit, result.totalDamage);
+      }
+      if (result.targetDefeated) {
+        this.applyBloodstone(unit);
+        this.engine.reportDefeat(target);
+      }
+    }
+
+    if (ability.effect?.type === 'entangle_zone' && ability.areaSize) {
+      this.engine.createZone(unit, ability, origin, ability.areaSize);
+    }
+  }
+
+  /**
+   * Wardstone: +2 RES on the defender's first save of battle
+   */
+  private resolveSpellWithWardstone(unit: Unit, target: Unit, ability: Ability, damageScale: number = 1): SpellResult {
+    let wardstoneBonus = 0;
+    if (target.equipment === 'wardstone' &&
+        target.equipmentBonusState &&
+        !target.equipmentBonusState.firstSaveUsed) {
+      wardstoneBonus = 2;
+      target.resilience += 2;
+      target.equipmentBonusState.firstSaveUsed = true;
+    }
+
+    const result = resolveSpell(unit, target, ability, { ...this.getCombatSituation(unit, target), damageScale });
+
+    if (wardstoneBonus > 0) {
+      target.resilience -= wardstoneBonus;
+    }
+
+    return result;
+  }
+
+  /**
+   * Bloodstone: heal 2 HP on first kill
+   */
+  private applyBloodstone(unit: Unit): void {
+    if (unit.equipment === 'bloodstone' &&
+        unit.equipmentBonusState &&
+        !unit.equipmentBonusState.firstKillUsed) {
+      unit.equipmentBonusState.firstKillUsed = true;
+      applyHealing(unit, 2);
+    }
+  }
+
+  private faceTarget(unit: Unit, target: Unit): void {
+    const dx = target.gridX - unit.gridX;
+    const dy = target.gridY - unit.gridY;
+    if (Math.abs(dx) > Math.abs(dy)) {
+      unit.facing = dx > 0 ? 'east' : 'west';
+    } else {
+      unit.facing = dy > 0 ? 'south' : 'north';
+    }
+  }
+
+  private getCombatSituation(attacker: Unit, defender: Unit): CombatSituation {
+    return {
+      flanking: this.gridManager.isFlanking(attacker, defender),
+      higherGround: this.gridManager.hasHigherGround(attacker, defender),
+      cover: this.gridManager.getCoverBonus(attacker, defender),
+    };
+  }
+
+  // ============================================
+  // Stats
+  // ============================================
+
+  private trackDamage(attacker: Unit, damage: number): void {
+    if (attacker.team === 'hero') {
+      // Summons' damage counts for the hero who called them
+      const heroId = attacker.summonerId ?? attacker.id;
+      this.heroDamage[heroId] = (this.heroDamage[heroId] || 0) + damage;
+    }
+  }
+}
+
+/**
+ * Run many seeded battles and aggregate the results
+ * Each run's seed is derived from baseSeed, so a report is reproducible
+ */
+export function runSimulations(
+  options: SimulationOptions,
+  runs: number,
+  baseSeed: number
+): SimulationReport {
+  const simulator = new BattleSimulator(options);
+  const heroIds = HERO_ORDER.filter(
+    (id, index) => options.heroesData[id] && index < options.config.heroStartPositions.length
+  );
+
+  let heroWins = 0;
+  let enemyWins = 0;
+  let draws = 0;
+  let totalRounds = 0;
+  const totalDamage: Record<string, number> = {};
+  const downedCount: Record<string, number> = {};
+  const downedRuns: Record<string, number> = {};
+  heroIds.forEach(id => {
+    totalDamage[id] = 0;
+    downedCount[id] = 0;
+    downedRuns[id] = 0;
+  });
+
+  for (let i = 0; i < runs; i++) {
+    const outcome = simulator.run(deriveSeed(baseSeed, `run_${i}`));
+
+    if (outcome.winner === 'hero') heroWins++;
+    else if (outcome.winner === 'enemy') enemyWins++;
+    else draws++;
+    totalRounds += outcome.rounds;
+
+    for (const id of heroIds) {
+      totalDamage[id] += outcome.heroDamage[id] || 0;
+      downedCount[id] += outcome.heroDowned[id] || 0;
+      if (outcome.heroDowned[id] > 0) downedRuns[id]++;
+    }
+  }
+
+  const heroes: Record<string, HeroSimulationStats> = {};
+  for (const id of heroIds) {
+    heroes[id] = {
+      averageDamage: runs > 0 ? totalDamage[id] / runs : 0,
+      downedCount: downedCount[id],
+      downedRate: runs > 0 ? downedRuns[id] / runs : 0,
+    };
+  }
+
+  return {
+    battleId: options.config.id,
+    runs,
+    heroWins,
+    enemyWins,
+    draws,
+    winRate: runs > 0 ? heroWins / runs : 0,
+    averageRounds: runs > 0 ? totalRounds / runs : 0,
+    heroes,
+  };
+}
@@ -0,0 +1,607 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  resolveAttack,
+  resolveSpell,
+  resolveHeal,
+  resolveSelfAbility,
+  resolveOpportunityAttack,
+  canUseAbility,
+  payAbilityCost,
+  getValidTargets,
+  setAdvantageSources,
+  getRollAdvantage,
+  getOpportunityAttackers,
+  getPathOpportunityAttackers,
+  getAttackDirection,
+  getTriggeredForcedMovement,
+  describeBrokenStatuses,
+} from './CombatResolver';
+import { resetRandomSource } from './DiceRoller';
+import { Ability } from '../data/BattleTypes';
+import { abilitiesData, advantageData, makeUnit, queueRolls, rollAll, statusEffectsData } from '../test/helpers';
+import { setStatusEffectDefinitions } from './StatusEffects';
+
+beforeAll(() => {
+  setStatusEffectDefinitions(statusEffectsData);
+});
+
+const abilities = Object.values(abilitiesData);
+
+// Lowest and highest totals a plain "NdS" damage expression can roll
+function minDice(notation: string): number {
+  return Number(notation.split('d')[0]);
+}
+
+function maxDice(notation: string): number {
+  const [count, sides] = notation.split('d').map(Number);
+  return count * sides;
+}
+
+const weaponAttacks = abilities.filter(a => a.type === 'attack' && a.damage);
+const halfOnSaveSpells = abilities.filter(a => a.type === 'spell' && a.damageOnSave === 'half');
+const paidAbilities = abilities.filter(a => a.cost > 0 && a.costType);
+
+afterEach(() => {
+  resetRandomSource();
+  setAdvantageSources({ sources: [] });
+});
+
+describe('resolveAttack', () => {
+  it.each(weaponAttacks.map(a => [a.id, a] as const))(
+    '%s deals its maximum dice damage on a max roll',
+    (_id, ability) => {
+      const attacker = makeUnit({ team: 'hero', attack: 3 });
+      const defender = makeUnit({ team: 'enemy', defense: 12, currentHp: 50, maxHp: 50 });
+      queueRolls([[20, 15]], 'max');
+
+      const result = resolveAttack(attacker, defender, ability);
+
+      expect(result.hit).toBe(true);
+      expect(result.isCritical).toBe(false);
+      expect(result.totalDamage).toBe(maxDice(ability.damage!));
+      expect(defender.currentHp).toBe(50 - maxDice(ability.damage!));
+    }
+  );
+
+  it.each(weaponAttacks.map(a => [a.id, a] as const))(
+    '%s doubles its dice on a critical hit',
+    (_id, ability) => {
+      const attacker = makeUnit({ team: 'hero' });
+      const defender = makeUnit({ team: 'enemy', currentHp: 100, maxHp: 100 });
+      queueRolls([[20, 20]], 'max');
+
+      const result = resolveAttack(attacker, defender, ability);
+
+      expect(result.isCritical).toBe(true);
+      expect(result.totalDamage).toBe(2 * maxDice(ability.damage!));
+    }
+  );
+
+  it('hits when the total exactly meets defense', () => {
+    const attacker = makeUnit({ attack: 3 });
+    const defender = makeUnit({ team: 'enemy', defense: 12 });
+    queueRolls([[20, 9]], 'min');
+
+    expect(resolveAttack(attacker, defender, abilitiesData.punch).hit).toBe(true);
+  });
+
+  it('misses when the total is below defense', () => {
+    const attacker = makeUnit({ attack: 3 });
+    const defender = makeUnit({ team: 'enemy', defense: 12 });
+    queueRolls([[20, 8]]);
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.hit).toBe(false);
+    expect(result.totalDamage).toBeUndefined();
+    expect(defender.currentHp).toBe(20);
+  });
+
+  it('applies the defender\'s resistances and immunities to typed damage', () => {
+    const devil = makeUnit({ team: 'enemy', defense: 10, currentHp: 50, maxHp: 50, resistances: ['non_radiant'] });
+    queueRolls([[20, 15]], 'max');
+
+    const resisted = resolveAttack(makeUnit(), devil, abilitiesData.punch);
+
+    expect(resisted.damageModifier).toBe('resistant');
+    expect(resisted.totalDamage).toBe(5);
+    expect(devil.currentHp).toBe(45);
+
+    const hound = makeUnit({ team: 'enemy', defense: 10, currentHp: 50, maxHp: 50, immunities: ['fire'] });
+    queueRolls([[20, 15]], 'max');
+
+    const immune = resolveAttack(makeUnit(), hound, abilitiesData.fire_spit);
+
+    expect(immune.hit).toBe(true);
+    expect(immune.totalDamage).toBe(0);
+    expect(hound.currentHp).toBe(50);
+  });
+
+  it('adds cover to defense', () => {
+    const attacker = makeUnit({ attack: 3 });
+    const defender = makeUnit({ team: 'enemy', defense: 12 });
+
+    queueRolls([[20, 9]], 'min');
+    expect(resolveAttack(attacker, defender, abilitiesData.punch).hit).toBe(true);
+
+    queueRolls([[20, 9]], 'min');
+    expect(resolveAttack(attacker, defender, abilitiesData.punch, { cover: 2 }).hit).toBe(false);
+  });
+
+  it('always misses on a natural 1', () => {
+    const attacker = makeUnit({ attack: 30 });
+    const defender = makeUnit({ team: 'enemy', defense: 5 });
+    queueRolls([[20, 1]]);
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.isFumble).toBe(true);
+    expect(result.hit).toBe(false);
+  });
+
+  it('always hits on a natural 20', () => {
+    const attacker = makeUnit({ attack: 0 });
+    const defender = makeUnit({ team: 'enemy', defense: 40, currentHp: 50, maxHp: 50 });
+    queueRolls([[20, 20]], 'min');
+
+    expect(resolveAttack(attacker, defender, abilitiesData.punch).hit).toBe(true);
+  });
+
+  it('uses the ability crit range', () => {
+    const ability = abilitiesData.psychic_dagger;
+    const attacker = makeUnit();
+    const defender = makeUnit({ team: 'enemy', currentHp: 50, maxHp: 50 });
+    queueRolls([[20, ability.critRange!]], 'min');
+
+    expect(resolveAttack(attacker, defender, ability).isCritical).toBe(true);
+  });
+
+  it('adds the rune damage bonus', () => {
+    const attacker = makeUnit({ damageBonus: 2 });
+    const defender = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 15]], 'min');
+
+    expect(resolveAttack(attacker, defender, abilitiesData.punch).totalDamage).toBe(3);
+  });
+
+  it('adds hidden bonus damage and breaks hidden', () => {
+    const attacker = makeUnit({ statusEffects: [{ type: 'hidden', duration: -1, value: 2 }] });
+    const defender = makeUnit({ team: 'enemy', currentHp: 50, maxHp: 50 });
+    queueRolls([[20, 15]], 'min');
+
+    const result = resolveAttack(attacker, defender, abilitiesData.psychic_dagger);
+
+    expect(result.totalDamage).toBe(2); // 1d6 + 1d10, both rolling 1
+    expect(attacker.statusEffects).toEqual([]);
+  });
+
+  it('reports the defender statuses the damage broke', () => {
+    const attacker = makeUnit();
+    const defender = makeUnit({ team: 'enemy', name: 'Azrael', statusEffects: [{ type: 'hidden', duration: -1, value: 2 }] });
+    queueRolls([[20, 15]], 'min');
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.statusesBroken?.map(e => e.type)).toEqual(['hidden']);
+    expect(describeBrokenStatuses(defender, result.statusesBroken)).toEqual(['Azrael is no longer hidden.']);
+  });
+
+  it('breaks hidden even when the attack misses', () => {
+    const attacker = makeUnit({ statusEffects: [{ type: 'hidden', duration: -1, value: 2 }] });
+    const defender = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 1]]);
+
+    expect(resolveAttack(attacker, defender, abilitiesData.psychic_dagger).hit).toBe(false);
+    expect(attacker.statusEffects).toEqual([]);
+  });
+
+  it('consumes exposed on the defender when hit', () => {
+    const attacker = makeUnit({ attack: 0 });
+    const defender = makeUnit({
+      team: 'enemy',
+      defense: 12,
+      statusEffects: [{ type: 'exposed', duration: 1, value: 2 }],
+    });
+    queueRolls([[20, 10]], 'min'); // 10 only hits the exposed defense of 10
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.targetNumber).toBe(10);
+    expect(result.hit).toBe(true);
+    expect(defender.statusEffects).toEqual([]);
+  });
+
+  it('knocks out a defender reduced to 0 HP', () => {
+    const attacker = makeUnit();
+    const defender = makeUnit({ team: 'enemy', currentHp: 3 });
+    queueRolls([[20, 15]], 'max');
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.defenderDefeated).toBe(true);
+    expect(defender.currentHp).toBe(0);
+    expect(defender.isUnconscious).toBe(true);
+  });
+
+  it('takes the higher d20 with advantage', () => {
+    setAdvantageSources(advantageData);
+    const attacker = makeUnit({ attack: 0 });
+    const defender = makeUnit({
+      team: 'enemy',
+      defense: 15,
+      statusEffects: [{ type: 'held', duration: 2 }],
+    });
+    queueRolls([[20, 4], [20, 16]], 'min');
+
+    const result = resolveAttack(attacker, defender, abilitiesData.punch);
+
+    expect(result.attackAdvantage?.state).toBe('advantage');
+    expect(result.hit).toBe(true);
+  });
+});
+
+describe('resolveSpell', () => {
+  it.each(halfOnSaveSpells.map(a => [a.id, a] as const))(
+    '%s deals full damage on a failed save',
+    (_id, ability) => {
+      const caster = makeUnit({ magic: 12 });
+      const target = makeUnit({ team: 'enemy', resilience: 2, currentHp: 50, maxHp: 50 });
+      queueRolls([[20, 5]], 'max');
+
+      const result = resolveSpell(caster, target, ability);
+
+      expect(result.savePassed).toBe(false);
+      expect(result.totalDamage).toBe(maxDice(ability.damage!));
+    }
+  );
+
+  it.each(halfOnSaveSpells.map(a => [a.id, a] as const))(
+    '%s deals half damage (rounded down) on a passed save',
+    (_id, ability) => {
+      const caster = makeUnit({ magic: 12 });
+      const target = makeUnit({ team: 'enemy', resilience: 2, currentHp: 50, maxHp: 50 });
+      queueRolls([[20, 10]], 'max');
+
+      const result = resolveSpell(caster, target, ability);
+
+      expect(result.savePassed).toBe(true);
+      expect(result.totalDamage).toBe(Math.floor(maxDice(ability.damage!) / 2));
+    }
+  );
+
+  it('doubles damage against a vulnerable target', () => {
+    const wisp = makeUnit({ team: 'enemy', resilience: 2, currentHp: 50, maxHp: 50, vulnerabilities: ['radiant'] });
+    queueRolls([[20, 5]], 'max');
+
+    const result = resolveSpell(makeUnit({ magic: 12 }), wisp, abilitiesData.sacred_flame);
+
+    expect(result.damageModifier).toBe('vulnerable');
+    expect(result.totalDamage).toBe(2 * maxDice(abilitiesData.sacred_flame.damage!));
+  });
+
+  it('scales the rolled damage for chain jumps', () => {
+    const target = makeUnit({ team: 'enemy', resilience: 2, currentHp: 50, maxHp: 50 });
+    queueRolls([[20, 5]], 'max');
+
+    const result = resolveSpell(makeUnit({ magic: 12 }), target, abilitiesData.eldritch_blast, { damageScale: 0.5 });
+
+    expect(result.totalDamage).toBe(Math.floor(maxDice(abilitiesData.eldritch_blast.damage!) / 2));
+  });
+
+  it.each(halfOnSaveSpells.map(a => [a.id, a] as const))(
+    '%s deals at least 1 damage on a passed save',
+    (_id, ability) => {
+      const caster = makeUnit({ magic: 12 });
+      const target = makeUnit({ team: 'enemy', currentHp: 50, maxHp: 50 });
+      queueRolls([[20, 20]], 'min');
+
+      const expected = Math.max(1, Math.floor(minDice(ability.damage!) / 2));
+      expect(resolveSpell(caster, target, ability).totalDamage).toBe(expected);
+    }
+  );
+
+  it('adds the rune bonus before halving', () => {
+    const caster = makeUnit({ magic: 12, damageBonus: 3 });
+    const target = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 20]], 'max');
+
+    // (6 + 3) / 2
+    expect(resolveSpell(caster, target, abilitiesData.sacred_flame).totalDamage).toBe(4);
+  });
+
+  it('applies held for the rolled duration on a failed save', () => {
+    const caster = makeUnit({ id: 'rooker', name: 'Rooker', magic: 12 });
+    const target = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 1], [4, 3]]);
+
+    const result = resolveSpell(caster, target, abilitiesData.hold);
+
+    // Hold is a concentration spell, linked back to its caster
+    const held = { type: 'held', duration: 3, concentration: { casterId: 'rooker', casterName: 'Rooker' } };
+    expect(result.effectApplied).toEqual(held);
+    expect(target.statusEffects).toEqual([held]);
+  });
+
+  it('applies the shorter save duration on a passed save', () => {
+    const caster = makeUnit({ magic: 12 });
+    const target = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 20]]);
+
+    const result = resolveSpell(caster, target, abilitiesData.hold);
+
+    expect(result.effectApplied).toMatchObject({ type: 'held', duration: 1 });
+  });
+
+  it('applies no effect on a save when the ability has no save duration', () => {
+    const caster = makeUnit({ magic: 12 });
+    const target = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 20]]);
+
+    const result = resolveSpell(caster, target, abilitiesData.grasping_vine);
+
+    expect(result.effectApplied).toBeUndefined();
+    expect(target.statusEffects).toEqual([]);
+  });
+
+  it('rolls poison duration and damage per turn', () => {
+    const caster = makeUnit({ magic: 12 });
+    const target = makeUnit({ team: 'enemy' });
+    queueRolls([[20, 1], [6, 4], [4, 2]]);
+
+    const result = resolveSpell(caster, target, abilitiesData.poison);
+
+    expect(result.effectApplied).toEqual({ type: 'poison', duration: 4, value: 2 });
+  });
+});
+
+describe('resolveHeal', () => {
+  it('heals up to max HP', () => {
+    const caster = makeUnit();
+    const target = makeUnit({ currentHp: 15, maxHp: 20 });
+    rollAll('max');
+
+    const result = resolveHeal(caster, target, abilitiesData.cure_light_wounds);
+
+    expect(result.totalHealing).toBe(12);
+    expect(target.currentHp).toBe(20);
+  });
+
+  it('revives an unconscious ally', () => {
+    const caster = makeUnit();
+    const target = makeUnit({
+      currentHp: 0,
+      isUnconscious: true,
+      statusEffects: [{ type: 'unconscious', duration: -1 }],
+    });
+    rollAll('min');
+
+    resolveHeal(caster, target, abilitiesData.healing_hands);
+
+    expect(target.currentHp).toBe(1);
+    expect(target.isUnconscious).toBe(false);
+    expect(target.statusEffects).toEqual([]);
+  });
+
+  it('gives Hide the break triggers from abilities.json', () => {
+    const unit = makeUnit();
+    const result = resolveSelfAbility(unit, abilitiesData.hide);
+
+    expect(result.effectApplied).toEqual({
+      type: 'hidden',
+      duration: -1,
+      value: 2,
+      breaksOn: ['attack', 'damage_taken'],
+    });
+  });
+
+  it('ends the caster\'s cast-breaking statuses', () => {
+    const caster = makeUnit({ statusEffects: [{ type: 'hidden', duration: -1, breaksOn: ['cast'] }] });
+    resolveHeal(caster, makeUnit(), abilitiesData.barkskin);
+
+    expect(caster.statusEffects).toEqual([]);
+  });
+
+  it('applies barkskin with a rolled duration', () => {
+    const caster = makeUnit();
+    const target = makeUnit();
+    rollAll('min');
+
+    const result = resolveHeal(caster, target, abilitiesData.barkskin);
+
+    expect(result.effectApplied).toEqual({ type: 'barkskin', duration: 3, value: 2 });
+  });
+
+  it('removes a negative status with restoration', () => {
+    const caster = makeUnit();
+    const target = makeUnit({ statusEffects: [{ type: 'poison', duration: 3, value: 2 }] });
+
+    resolveHeal(caster, target, abilitiesData.restoration);
+
+    expect(target.statusEffects).toEqual([]);
+  });
+});
+
+describe('ability costs', () => {
+  function unitWith(ability: Ability, amount: number) {
+    return ability.costType === 'ki'
+      ? makeUnit({ currentKi: amount })
+      : makeUnit({ currentMana: amount });
+  }
+
+  it.each(paidAbilities.map(a => [a.id, a] as const))(
+    '%s can be used with exactly enough resource and is paid in full',
+    (_id, ability) => {
+      const unit = unitWith(ability, ability.cost);
+
+      expect(canUseAbility(unit, ability).canUse).toBe(true);
+      payAbilityCost(unit, ability);
+      expect(ability.costType === 'ki' ? unit.currentKi : unit.currentMana).toBe(0);
+    }
+  );
+
+  it.each(paidAbilities.map(a => [a.id, a] as const))(
+    '%s cannot be used one point short',
+    (_id, ability) => {
+      const unit = unitWith(ability, ability.cost - 1);
+
+      expect(canUseAbility(unit, ability).canUse).toBe(false);
+    }
+  );
+
+  it('does not allow hiding while hidden', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'hidden', duration: -1 }] });
+
+    expect(canUseAbility(unit, abilitiesData.hide)).toEqual({ canUse: false, reason: 'Already hidden' });
+  });
+});
+
+describe('getValidTargets', () => {
+  const caster = makeUnit({ id: 'caster', gridX: 0, gridY: 0 });
+  const ally = makeUnit({ id: 'ally', gridX: 1, gridY: 0 });
+  const downedAlly = makeUnit({ id: 'downed_ally', gridX: 0, gridY: 1, isUnconscious: true });
+  const enemy = makeUnit({ id: 'enemy', team: 'enemy', gridX: 1, gridY: 1 });
+  const downedEnemy = makeUnit({ id: 'downed_enemy', team: 'enemy', gridX: 0, gridY: 2, isUnconscious: true });
+  const farEnemy = makeUnit({ id: 'far_enemy', team: 'enemy', gridX: 5, gridY: 5 });
+  const units = [caster, ally, downedAlly, enemy, downedEnemy, farEnemy];
+
+  it('targets conscious enemies in range', () => {
+    const targets = getValidTargets(caster, abilitiesData.sacred_flame, units);
+    expect(targets.map(t => t.id)).toEqual(['enemy']);
+  });
+
+  it('lets heals target unconscious allies', () => {
+    const targets = getValidTargets(caster, abilitiesData.cure_light_wounds, units);
+    expect(targets.map(t => t.id)).toEqual(['caster', 'ally', 'downed_ally']);
+  });
+
+  it('only targets the caster with self abilities', () => {
+    const targets = getValidTargets(caster, abilitiesData.hide, units);
+    expect(targets).toEqual([caster]);
+  });
+});
+
+describe('opportunity attacks', () => {
+  function setup() {
+    const hero = makeUnit({ id: 'hero', gridX: 2, gridY: 2 });
+    const lemure = makeUnit({ id: 'lemure', team: 'enemy', gridX: 3, gridY: 2, abilities: ['slam'] });
+    const hunter = makeUnit({ id: 'hunter', team: 'enemy', gridX: 2, gridY: 3, abilities: ['crossbow_bolt'] });
+    return { hero, lemure, hunter, units: [hero, lemure, hunter] };
+  }
+
+  it('triggers for melee enemies the mover steps away from', () => {
+    const { hero, lemure, units } = setup();
+    const attacks = getOpportunityAttackers(hero, { x: 2, y: 2 }, { x: 1, y: 2 }, units, abilitiesData);
+
+    expect(attacks).toEqual([{ attacker: lemure, ability: abilitiesData.slam }]);
+  });
+
+  it('does not trigger while the mover stays in reach', () => {
+    const { hero, units } = setup();
+    expect(getOpportunityAttackers(hero, { x: 2, y: 2 }, { x: 3, y: 3 }, units, abilitiesData)).toEqual([]);
+  });
+
+  it.each([
+    ['the mover is disengaged', 'hero', 'disengaged'],
+    ['the enemy is held', 'lemure', 'held'],
+  ] as const)('does not trigger when %s', (_name, unitKey, status) => {
+    const battle = setup();
+    battle[unitKey].statusEffects = [{ type: status, duration: 1 }];
+    const { hero, units } = battle;
+
+    expect(getOpportunityAttackers(hero, { x: 2, y: 2 }, { x: 1, y: 2 }, units, abilitiesData)).toEqual([]);
+  });
+
+  it('uses up the attacker\'s reaction for the round', () => {
+    const { hero, lemure, units } = setup();
+    const path = [{ x: 1, y: 2 }, { x: 0, y: 2 }];
+    expect(getPathOpportunityAttackers(hero, path, units, abilitiesData).map(a => a.attacker)).toEqual([lemure]);
+
+    queueRolls([[20, 15]], 'min');
+    resolveOpportunityAttack(lemure, hero, abilitiesData.slam);
+
+    expect(lemure.hasReacted).toBe(true);
+    expect(getPathOpportunityAttackers(hero, path, units, abilitiesData)).toEqual([]);
+  });
+});
+
+describe('facing', () => {
+  // Defender at (2, 2) facing north
+  const defender = () => makeUnit({ team: 'enemy', gridX: 2, gridY: 2, facing: 'north', defense: 14 });
+
+  it.each([
+    ['ahead', 2, 1, 'front'],
+    ['far ahead, slightly off line', 3, 0, 'front'],
+    ['to the east', 3, 2, 'side'],
+    ['on the diagonal', 1, 1, 'side'],
+    ['behind', 2, 3, 'rear'],
+    ['behind at range', 1, 4, 'rear'],
+  ] as const)('attacks from %s come from the %s', (_name, x, y, expected) => {
+    expect(getAttackDirection(makeUnit({ gridX: x, gridY: y }), defender())).toBe(expected);
+  });
+
+  it.each([
+    [2, 1, 0],
+    [3, 2, 1],
+    [2, 3, 2],
+  ])('adds the facing bonus to the attack roll from (%i, %i)', (x, y, bonus) => {
+    const attacker = makeUnit({ attack: 3, gridX: x, gridY: y });
+    queueRolls([[20, 10]], 'min');
+
+    const result = resolveAttack(attacker, defender(), abilitiesData.punch);
+
+    expect(result.facingBonus).toBe(bonus);
+    expect(result.attackRoll.finalTotal).toBe(13 + bonus);
+    expect(result.hit).toBe(bonus > 0);
+  });
+
+  it('adds backstab dice only from behind', () => {
+    const ability = abilitiesData.psychic_dagger;
+    queueRolls([[20, 15], [6, 6], [6, 6]]);
+    const rear = resolveAttack(makeUnit({ gridX: 2, gridY: 4 }), defender(), ability);
+
+    expect(rear.backstab).toBe(true);
+    expect(rear.totalDamage).toBe(12);
+
+    queueRolls([[20, 15], [6, 6]]);
+    const side = resolveAttack(makeUnit({ gridX: 4, gridY: 2 }), defender(), ability);
+
+    expect(side.backstab).toBeUndefined();
+    expect(side.totalDamage).toBe(6);
+  });
+});
+
+describe('getTriggeredForcedMovement', () => {
+  it('moves the target only on a hit that leaves it standing', () => {
+    const ability = abilitiesData.shillelagh;
+    const defender = makeUnit({ team: 'enemy', defense: 12, currentHp: 50, maxHp: 50 });
+
+    queueRolls([[20, 15]], 'min');
+    expect(getTriggeredForcedMovement(resolveAttack(makeUnit(), defender, ability))).toEqual(ability.forcedMovement);
+
+    queueRolls([[20, 2]], 'min');
+    expect(getTriggeredForcedMovement(resolveAttack(makeUnit(), defender, ability))).toBeUndefined();
+
+    const frail = makeUnit({ team: 'enemy', defense: 12, currentHp: 1 });
+    queueRolls([[20, 15]], 'min');
+    expect(getTriggeredForcedMovement(resolveAttack(makeUnit(), frail, ability))).toBeUndefined();
+  });
+});
+
+describe('getRollAdvantage', () => {
+  it('cancels advantage against disadvantage', () => {
+    setAdvantageSources(advantageData);
+    const attacker = makeUnit({ statusEffects: [{ type: 'immobilized', duration: 1 }] });
+    const defender = makeUnit({ team: 'enemy', statusEffects: [{ type: 'held', duration: 1 }] });
+
+    const advantage = getRollAdvantage('attack', attacker, defender);
+
+    expect(advantage.state).toBe('normal');
+    expect(advantage.sources).toHaveLength(2);
+  });
+
+  it('gives no advantage with no sources loaded', () => {
+    const defender = makeUnit({ team: 'enemy', statusEffects: [{ type: 'held', duration: 1 }] });
+
+    expect(getRollAdvantage('attack', makeUnit(), defender).state).toBe('normal');
+  });
+});
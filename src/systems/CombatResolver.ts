@@ -4,8 +4,16 @@ import {
   AttackResult,
   SpellResult,
   StatusEffect,
+  AdvantageSource,
+  AdvantageState,
+  AttackDirection,
+  CombatSituation,
+  DiceRoll,
+  ForcedMovement,
+  Position,
+  RollAdvantage,
 } from '../data/BattleTypes';
-import { rollAttack, rollDamage, rollSave, rollDice } from './DiceRoller';
+import { rollAttack, rollDamage, rollSave, rollDice, rollTotal } from './DiceRoller';
 import {
   applyDamage,
   applyHealing,
@@ -14,84 +22,268 @@ import {
   removeStatusEffect,
   getEffectiveDefense,
 } from '../entities/Unit';
+import {
+  breakStatusEffects,
+  canMakeReactions,
+  getEffectiveStat,
+  getStatModifier,
+  getStatusEffectDefinition,
+  ignoresOpportunityAttacks,
+  isNegativeStatus,
+  runStatusHook,
+} from './StatusEffects';
+import { adjustDamage, describeDamageModifier } from './DamageTypes';
+import { getConcentrationLink } from './Concentration';
+import { isOutOfBattle } from './DeathSaves';
 
 /**
  * Combat Resolution System
  * Handles all attack rolls, damage calculations, spell saves, and combat effects
  */
 
+// Natural d20 roll needed for a critical hit unless the ability sets critRange
+const DEFAULT_CRIT_RANGE = 20;
+
+// ============================================
+// Facing
+// ============================================
+
+// Attack roll bonus by where the attacker stands relative to the defender's facing
+export const FACING_ATTACK_BONUS: Record<AttackDirection, number> = {
+  front: 0,
+  side: 1,
+  rear: 2,
+};
+
+// Unit vector each facing points along (y grows southward)
+const FACING_VECTORS: Record<Unit['facing'], Position> = {
+  north: { x: 0, y: -1 },
+  south: { x: 0, y: 1 },
+  east: { x: 1, y: 0 },
+  west: { x: -1, y: 0 },
+};
+
+/**
+ * Which side of the defender the attacker is on, from the defender's facing
+ * The defender's front and rear are the quarters ahead of and behind it;
+ * exact diagonals count as the side
+ */
+export function getAttackDirection(attacker: Unit, defender: Unit): AttackDirection {
+  const dx = attacker.gridX - defender.gridX;
+  const dy = attacker.gridY - defender.gridY;
+  const facing = FACING_VECTORS[defender.facing] ?? FACING_VECTORS.south;
+
+  const ahead = dx * facing.x + dy * facing.y; // Along the facing
+  const across = dx * facing.y - dy * facing.x; // Sideways from it
+
+  if (ahead === 0 && across === 0) return 'front'; // Same tile (no position to flank from)
+  if (Math.abs(ahead) <= Math.abs(across)) return 'side';
+  return ahead > 0 ? 'front' : 'rear';
+}
+
+/**
+ * Describe a side/rear attack bonus, e.g. "Rear attack: +2 ATK, +1d6 backstab"
+ * Returns null for attacks from the front
+ */
+export function describeFacingBonus(result: AttackResult): string | null {
+  return formatFacingBonus(
+    result.attackDirection,
+    result.backstab ? result.ability.backstabDamage : undefined
+  );
+}
+
+/**
+ * The side/rear bonus an attack would get from where the attacker stands now
+ * (backstab dice are only added on a hit)
+ */
+export function forecastFacingBonus(attacker: Unit, defender: Unit, ability: Ability): string | null {
+  const direction = getAttackDirection(attacker, defender);
+  return formatFacingBonus(direction, direction === 'rear' ? ability.backstabDamage : undefined);
+}
+
+function formatFacingBonus(direction: AttackDirection, backstabDamage?: string): string | null {
+  const bonus = FACING_ATTACK_BONUS[direction];
+  if (bonus <= 0) return null;
+
+  const label = direction === 'rear' ? 'Rear' : 'Side';
+  let text = `${label} attack: +${bonus} ATK`;
+  if (backstabDamage) {
+    text += `, +${backstabDamage} backstab`;
+  }
+  return text;
+}
+
+// ============================================
+// Advantage / Disadvantage
+// ============================================
+
+// Sources loaded from advantage.json (empty until set)
+let advantageSources: AdvantageSource[] = [];
+
+/**
+ * Set advantage/disadvantage sources from Phaser's cache (advantage.json)
+ */
+export function setAdvantageSources(data: { sources: AdvantageSource[] }): void {
+  advantageSources = data?.sources ?? [];
+}
+
+/**
+ * Work out advantage for a d20 roll from the data-declared sources.
+ * For attacks the attacker rolls; for saves the defender (spell target) rolls.
+ * Advantage and disadvantage cancel out, as in 5e.
+ */
+export function getRollAdvantage(
+  roll: 'attack' | 'save',
+  attacker: Unit,
+  defender: Unit,
+  situation: CombatSituation = {}
+): { state: AdvantageState; sources: string[] } {
+  let hasAdvantage = false;
+  let hasDisadvantage = false;
+  const sources: string[] = [];
+
+  for (const source of advantageSources) {
+    if (source.roll !== roll) continue;
+
+    let applies = false;
+    switch (source.condition) {
+      case 'attacker_status':
+        applies = !!source.status && hasStatusEffect(attacker, source.status);
+        break;
+      case 'defender_status':
+        applies = !!source.status && hasStatusEffect(defender, source.status);
+        break;
+      case 'flanking':
+        applies = !!situation.flanking;
+        break;
+      case 'higher_ground':
+        applies = !!situation.higherGround;
+        break;
+    }
+
+    if (applies) {
+      sources.push(source.name);
+      if (source.effect === 'advantage') hasAdvantage = true;
+      else hasDisadvantage = true;
+    }
+  }
+
+  let state: AdvantageState = 'normal';
+  if (hasAdvantage && !hasDisadvantage) state = 'advantage';
+  if (hasDisadvantage && !hasAdvantage) state = 'disadvantage';
+
+  return { state, sources };
+}
+
+/**
+ * Build the advantage record (both d20s, which one counted) for a d20 roll
+ */
+function describeAdvantage(
+  roll: DiceRoll,
+  state: AdvantageState,
+  sources: string[]
+): RollAdvantage {
+  const d20Term = roll.terms?.[0];
+  if (!d20Term) {
+    return { state, d20s: [roll.rolls[0]], usedIndex: 0, sources };
+  }
+  return {
+    state,
+    d20s: d20Term.rolls,
+    usedIndex: Math.max(0, d20Term.dropped?.indexOf(false) ?? 0),
+    sources,
+  };
+}
+
 /**
  * Resolve a physical attack (type: 'attack')
- * Attack roll: d20 + attacker.attack vs defender.defense
- * On hit: roll damage dice
+ * Attack roll: d20 + attacker.attack (+ side/rear and terrain bonuses) vs defender.defense (+ cover)
+ * (two d20s when advantage or disadvantage applies)
+ * On hit: roll damage dice (+ backstab dice from behind)
  */
 export function resolveAttack(
   attacker: Unit,
   defender: Unit,
-  ability: Ability
+  ability: Ability,
+  situation: CombatSituation = {}
 ): AttackResult {
-  // Roll attack: d20 + attack modifier
-  const attackRoll = rollAttack(attacker.attack);
+  // Roll attack: d20 + attack modifier, plus a bonus for striking the side or rear
+  const attackDirection = getAttackDirection(attacker, defender);
+  const facingBonus = FACING_ATTACK_BONUS[attackDirection];
+  const advantage = getRollAdvantage('attack', attacker, defender, situation);
+  const attackRoll = rollAttack(
+    getEffectiveStat(attacker, 'attack') + facingBonus,
+    advantage.state
+  );
 
-  // Get defender's effective defense (includes buffs/debuffs)
-  const targetNumber = getEffectiveDefense(defender);
+  // Get defender's effective defense (includes buffs/debuffs and cover)
+  const targetNumber = getEffectiveDefense(defender) + (situation.cover ?? 0);
+
+  // Natural 1 always misses; a natural roll in the crit range always hits
+  const naturalRoll = attackRoll.rolls[0];
+  const isFumble = naturalRoll === 1;
+  const isCritical = !isFumble && naturalRoll >= (ability.critRange ?? DEFAULT_CRIT_RANGE);
 
   // Determine hit
-  const hit = (attackRoll.finalTotal || attackRoll.total) >= targetNumber;
+  const hit = isCritical ||
+    (!isFumble && (attackRoll.finalTotal || attackRoll.total) >= targetNumber);
 
   const result: AttackResult = {
     attacker,
     defender,
     ability,
     attackRoll,
+    attackAdvantage: describeAdvantage(attackRoll, advantage.state, advantage.sources),
     targetNumber,
     hit,
+    isCritical,
+    isFumble,
+    attackDirection,
+    facingBonus,
   };
 
   if (hit && ability.damage) {
     // Roll damage
     let damageNotation = ability.damage;
 
-    // Check for bonus damage (e.g., Azrael's psychic dagger when hidden)
+    // Bonus damage (e.g., Azrael's psychic dagger when hidden) joins the expression
     if (ability.bonusDamageIfHidden && hasStatusEffect(attacker, 'hidden')) {
-      // Roll both and add
-      const baseDamage = rollDamage(ability.damage);
-      const bonusDamage = rollDamage(ability.bonusDamageIfHidden);
-
-      result.damageRoll = {
-        dice: `${ability.damage}+${ability.bonusDamageIfHidden}`,
-        rolls: [...baseDamage.rolls, ...bonusDamage.rolls],
-        total: baseDamage.total + bonusDamage.total,
-        finalTotal: baseDamage.total + bonusDamage.total,
-      };
-    } else {
-      result.damageRoll = rollDamage(damageNotation);
+      damageNotation = `${ability.damage}+${ability.bonusDamageIfHidden}`;
+    }
+
+    // Backstab dice (e.g. Psychic Dagger) when striking from behind
+    if (ability.backstabDamage && attackDirection === 'rear') {
+      damageNotation = `${damageNotation}+${ability.backstabDamage}`;
+      result.backstab = true;
     }
 
+    result.damageRoll = rollDamage(damageNotation, isCritical);
+
     result.totalDamage = result.damageRoll.finalTotal || result.damageRoll.total;
 
     // Apply permanent damage bonus from runes (Phase 10 - Permanent Upgrades)
     if (attacker.damageBonus && attacker.damageBonus > 0) {
       result.totalDamage += attacker.damageBonus;
     }
+    result.totalDamage += getStatModifier(attacker, 'damage');
 
-    // Minimum 1 damage on hit
-    result.totalDamage = Math.max(1, result.totalDamage);
+    // Minimum 1 damage on hit, then the defender's resistance, immunity or vulnerability
+    const adjusted = adjustDamage(defender, Math.max(1, result.totalDamage), ability.damageType);
+    result.totalDamage = adjusted.amount;
+    result.damageModifier = adjusted.modifier;
 
     // Apply damage
-    applyDamage(defender, result.totalDamage);
+    result.statusesBroken = applyDamage(defender, result.totalDamage);
     result.defenderNewHp = defender.currentHp;
     result.defenderDefeated = defender.isUnconscious;
+  }
 
-    // Breaking hidden status on attack
-    if (hasStatusEffect(attacker, 'hidden')) {
-      removeStatusEffect(attacker, 'hidden');
-    }
+  // Attacking ends statuses like hidden, hit or miss
+  breakStatusEffects(attacker, 'attack');
 
-    // Consume exposed status after being hit (it lasts for "next_attack")
-    if (hasStatusEffect(defender, 'exposed')) {
-      removeStatusEffect(defender, 'exposed');
-    }
+  // Statuses consumed by being hit (e.g. exposed lasts until the next attack)
+  if (hit) {
+    runStatusHook(defender, 'onAttacked');
   }
 
   // If ability has an effect (like expose_weakness), apply it on hit
@@ -110,11 +302,13 @@ export function resolveAttack(
 export function resolveSpell(
   caster: Unit,
   target: Unit,
-  ability: Ability
+  ability: Ability,
+  situation: CombatSituation = {}
 ): SpellResult {
   // Save roll: d20 + resilience vs caster's magic
-  const saveRoll = rollSave(target.resilience);
-  const targetNumber = caster.magic;
+  const advantage = getRollAdvantage('save', caster, target, situation);
+  const saveRoll = rollSave(getEffectiveStat(target, 'resilience'), advantage.state);
+  const targetNumber = getEffectiveStat(caster, 'magic');
 
   const savePassed = (saveRoll.finalTotal || saveRoll.total) >= targetNumber;
 
@@ -123,6 +317,7 @@ export function resolveSpell(
     target,
     ability,
     saveRoll,
+    saveAdvantage: describeAdvantage(saveRoll, advantage.state, advantage.sources),
     targetNumber,
     savePassed,
   };
@@ -138,6 +333,12 @@ export function resolveSpell(
     if (caster.damageBonus && caster.damageBonus > 0) {
       totalDamage += caster.damageBonus;
     }
+    totalDamage += getStatModifier(caster, 'damage');
+
+    // Reduced damage further along a chain
+    if (situation.damageScale !== undefined) {
+      totalDamage = Math.floor(totalDamage * situation.damageScale);
+    }
 
     // Apply damage reduction on save
     if (savePassed && ability.damageOnSave === 'half') {
@@ -151,10 +352,15 @@ export function resolveSpell(
       totalDamage = Math.max(1, totalDamage);
     }
 
+    // Target's resistance, immunity or vulnerability to the spell's damage type
+    const adjusted = adjustDamage(target, totalDamage, ability.damageType);
+    totalDamage = adjusted.amount;
+    result.damageModifier = adjusted.modifier;
+
     result.totalDamage = totalDamage;
 
     if (totalDamage > 0) {
-      applyDamage(target, totalDamage);
+      result.statusesBroken = applyDamage(target, totalDamage);
       result.targetNewHp = target.currentHp;
       result.targetDefeated = target.isUnconscious;
     }
@@ -162,12 +368,14 @@ export function resolveSpell(
 
   // Handle effects (status conditions)
   if (ability.effect) {
-    const effectApplied = applySpellEffect(target, ability, savePassed);
+    const effectApplied = applySpellEffect(caster, target, ability, savePassed);
     if (effectApplied) {
       result.effectApplied = effectApplied;
     }
   }
 
+  breakStatusEffects(caster, 'cast');
+
   return result;
 }
 
@@ -206,6 +414,8 @@ export function resolveHeal(
     }
   }
 
+  breakStatusEffects(caster, 'cast');
+
   return result;
 }
 
@@ -258,6 +468,7 @@ function applyAbilityEffect(target: Unit, ability: Ability): void {
  * Apply spell effects based on save result
  */
 function applySpellEffect(
+  caster: Unit,
   target: Unit,
   ability: Ability,
   savePassed: boolean
@@ -274,37 +485,38 @@ function applySpellEffect(
     }
     duration = typeof effect.durationOnSave === 'number'
       ? effect.durationOnSave
-      : rollDice(effect.durationOnSave as string).total;
+      : rollTotal(effect.durationOnSave as string);
   } else {
     duration = typeof effect.durationOnFail === 'number'
       ? effect.durationOnFail
       : effect.durationOnFail
-        ? rollDice(effect.durationOnFail as string).total
+        ? rollTotal(effect.durationOnFail as string)
         : 1;
   }
 
   const statusEffect: StatusEffect = {
     type: effect.type as StatusEffect['type'],
     duration,
+    ...(effect.breaksOn && { breaksOn: [...effect.breaksOn] }),
   };
 
-  // Add specific values for certain effects
-  if (effect.type === 'poison' && effect.damagePerTurn) {
-    // Store the damage per turn as a value (we'll parse this when applying)
-    statusEffect.value = rollDice(effect.damagePerTurn).total;
+  // Concentration effects end with the caster's focus
+  const concentration = getConcentrationLink(caster, ability);
+  if (concentration) {
+    statusEffect.concentration = concentration;
   }
 
-  if (effect.type === 'immobilized' || effect.type === 'held') {
-    addStatusEffect(target, statusEffect);
-    return statusEffect;
+  // Damage over time is rolled once and stored as the status value
+  if (effect.damagePerTurn) {
+    statusEffect.value = rollTotal(effect.damagePerTurn);
   }
 
-  if (effect.type === 'poison') {
-    addStatusEffect(target, statusEffect);
-    return statusEffect;
+  // Zones are created by the caller; everything else becomes a status
+  if (effect.type === 'entangle_zone') {
+    return undefined;
   }
 
-  return undefined;
+  return addStatusEffect(target, statusEffect);
 }
 
 /**
@@ -318,9 +530,7 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
   // Handle status removal (Restoration)
   if (effect.type === 'remove_status') {
     // Remove the first negative status effect
-    const negativeEffects = target.statusEffects.filter(
-      (e) => ['poison', 'held', 'immobilized', 'exposed'].includes(e.type)
-    );
+    const negativeEffects = target.statusEffects.filter((e) => isNegativeStatus(e.type));
     if (negativeEffects.length > 0) {
       removeStatusEffect(target, negativeEffects[0].type);
       return { type: negativeEffects[0].type, duration: 0 }; // Return what was removed
@@ -333,7 +543,7 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
   if (typeof effect.duration === 'number') {
     duration = effect.duration;
   } else if (typeof effect.duration === 'string') {
-    duration = rollDice(effect.duration).total;
+    duration = rollTotal(effect.duration);
   } else {
     duration = -1; // Permanent until broken
   }
@@ -341,6 +551,7 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
   const statusEffect: StatusEffect = {
     type: effect.type as StatusEffect['type'],
     duration,
+    ...(effect.breaksOn && { breaksOn: [...effect.breaksOn] }),
   };
 
   // Add defense bonuses
@@ -348,8 +559,7 @@ function applyBuffEffect(target: Unit, ability: Ability): StatusEffect | undefin
     statusEffect.value = effect.defenseBonus;
   }
 
-  addStatusEffect(target, statusEffect);
-  return statusEffect;
+  return addStatusEffect(target, statusEffect);
 }
 
 /**
@@ -448,6 +658,8 @@ export function getValidTargets(
 
     if (ability.targetType === 'ally') {
       // Ally targeting (heals/buffs): ALLOW unconscious allies for revival!
+      // (not those who failed their death saves)
+      if (isOutOfBattle(target)) return false;
       return target.team === caster.team && isInRange(caster, target, ability);
     }
 
@@ -461,6 +673,121 @@ export function getValidTargets(
   });
 }
 
+// ============================================
+// Forced Movement
+// ============================================
+
+/**
+ * The ability's push, pull or swap if it lands: on a hit or failed save
+ * against a target still standing (the grid applies the move)
+ */
+export function getTriggeredForcedMovement(result: AttackResult | SpellResult): ForcedMovement | undefined {
+  const movement = result.ability.forcedMovement;
+  if (!movement) return undefined;
+
+  const [target, landed] = 'hit' in result
+    ? [result.defender, result.hit]
+    : [result.target, !result.savePassed];
+  return landed && !target.isUnconscious ? movement : undefined;
+}
+
+// ============================================
+// Opportunity Attacks
+// ============================================
+
+export interface OpportunityAttack {
+  attacker: Unit;
+  ability: Ability;
+}
+
+/**
+ * The attack a unit makes when an enemy leaves its reach:
+ * its first free melee attack, if it has one
+ */
+export function getOpportunityAttack(
+  unit: Unit,
+  abilities: Record<string, Ability>
+): Ability | undefined {
+  return unit.abilities
+    .map(id => abilities[id])
+    .find(a => a && a.type === 'attack' && a.range === 1 && a.cost === 0);
+}
+
+/**
+ * Enemies that get an opportunity attack on a unit stepping from one tile to
+ * the next: adjacent to the tile it leaves but not the one it enters, with a
+ * melee attack and their reaction unused this round
+ */
+export function getOpportunityAttackers(
+  mover: Unit,
+  from: Position,
+  to: Position,
+  units: Unit[],
+  abilities: Record<string, Ability>
+): OpportunityAttack[] {
+  if (ignoresOpportunityAttacks(mover)) return [];
+
+  const attacks: OpportunityAttack[] = [];
+  for (const attacker of units) {
+    if (attacker.team === mover.team || attacker.isUnconscious || attacker.hasReacted) continue;
+    if (!canMakeReactions(attacker)) continue;
+    if (getDistance(attacker.gridX, attacker.gridY, from.x, from.y) !== 1) continue;
+    if (getDistance(attacker.gridX, attacker.gridY, to.x, to.y) <= 1) continue;
+
+    const ability = getOpportunityAttack(attacker, abilities);
+    if (ability) {
+      attacks.push({ attacker, ability });
+    }
+  }
+  return attacks;
+}
+
+/**
+ * Every enemy that would get an opportunity attack along a path (for previews)
+ */
+export function getPathOpportunityAttackers(
+  mover: Unit,
+  path: Position[],
+  units: Unit[],
+  abilities: Record<string, Ability>
+): OpportunityAttack[] {
+  const attacks: OpportunityAttack[] = [];
+  let from: Position = { x: mover.gridX, y: mover.gridY };
+
+  for (const step of path) {
+    for (const attack of getOpportunityAttackers(mover, from, step, units, abilities)) {
+      if (!attacks.some(a => a.attacker === attack.attacker)) {
+        attacks.push(attack);
+      }
+    }
+    from = step;
+  }
+  return attacks;
+}
+
+/**
+ * Make an opportunity attack, using up the attacker's reaction for the round
+ */
+export function resolveOpportunityAttack(
+  attacker: Unit,
+  mover: Unit,
+  ability: Ability,
+  situation: CombatSituation = {}
+): AttackResult {
+  attacker.hasReacted = true;
+  return resolveAttack(attacker, mover, ability, situation);
+}
+
+/**
+ * Log lines for statuses a hit ended, e.g. "Azrael is no longer hidden."
+ */
+export function describeBrokenStatuses(unit: Unit, broken: StatusEffect[] = []): string[] {
+  return broken.map(effect => {
+    const name = getStatusEffectDefinition(effect.type)?.name ?? effect.type;
+    return `${unit.name} is no longer ${name.toLowerCase()}.`;
+  });
+}
+
 /**
  * Format combat result for display
  */
@@ -468,18 +795,29 @@ export function formatAttackResult(result: AttackResult): string {
   const { attacker, defender, ability, attackRoll, targetNumber, hit } = result;
 
   let text = `${attacker.name} uses ${ability.name} on ${defender.name}!\n`;
-  text += `Attack: ${attackRoll.rolls[0]} + ${attacker.attack} = ${attackRoll.finalTotal} vs DEF ${targetNumber}\n`;
+  text += `Attack: ${attackRoll.rolls[0]} + ${attacker.attack + result.facingBonus} = ${attackRoll.finalTotal} vs DEF ${targetNumber}\n`;
+
+  const facingBonus = describeFacingBonus(result);
+  if (facingBonus) {
+    text += `${facingBonus}\n`;
+  }
 
   if (hit) {
-    text += `HIT! `;
+    text += result.isCritical ? `CRITICAL HIT! ` : `HIT! `;
     if (result.damageRoll) {
       text += `Damage: ${result.totalDamage}\n`;
     }
+    if (result.damageModifier) {
+      text += `${describeDamageModifier(defender, result.damageModifier, ability.damageType)}\n`;
+    }
+    for (const line of describeBrokenStatuses(defender, result.statusesBroken)) {
+      text += `${line}\n`;
+    }
     if (result.defenderDefeated) {
       text += `${defender.name} is defeated!`;
     }
   } else {
-    text += `MISS!`;
+    text += result.isFumble ? `FUMBLE! MISS!` : `MISS!`;
   }
 
   return text;
@@ -507,6 +845,14 @@ export function formatSpellResult(result: SpellResult): string {
     text += `Damage: ${result.totalDamage}\n`;
   }
 
+  if (result.damageModifier) {
+    text += `${describeDamageModifier(target, result.damageModifier, ability.damageType)}\n`;
+  }
+
+  for (const line of describeBrokenStatuses(target, result.statusesBroken)) {
+    text += `${line}\n`;
+  }
+
   if (result.totalHealing !== undefined && result.totalHealing > 0) {
     text += `Healed for ${result.totalHealing}!\n`;
   }
@@ -521,3 +867,4 @@ export function formatSpellResult(result: SpellResult): string {
 
   return text;
 }
+
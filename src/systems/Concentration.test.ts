@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { checkConcentration, getConcentrationDC, getConcentrationLink } from './Concentration';
+import { resetRandomSource } from './DiceRoller';
+import { applyDamage } from '../entities/Unit';
+import { abilitiesData, makeUnit, queueRolls } from '../test/helpers';
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('getConcentrationDC', () => {
+  it.each<[number, number]>([
+    [1, 10],
+    [20, 10],
+    [25, 12],
+    [40, 20],
+  ])('after %i damage is %i', (damage, dc) => {
+    expect(getConcentrationDC(damage)).toBe(dc);
+  });
+});
+
+describe('getConcentrationLink', () => {
+  it('links concentration abilities back to the caster', () => {
+    const rooker = makeUnit({ id: 'rooker', name: 'Rooker' });
+
+    expect(getConcentrationLink(rooker, abilitiesData.hold)).toEqual({ casterId: 'rooker', casterName: 'Rooker' });
+    expect(getConcentrationLink(rooker, abilitiesData.shatter)).toBeUndefined();
+  });
+});
+
+describe('checkConcentration', () => {
+  const concentrating = () => makeUnit({
+    resilience: 2,
+    concentratingOn: { abilityId: 'hold', abilityName: 'Hold' },
+  });
+
+  it('keeps concentration on a save of 10 or more', () => {
+    const unit = concentrating();
+
+    queueRolls([[20, 8]]);
+    checkConcentration(unit, 6);
+
+    expect(unit.concentratingOn?.lostReason).toBeUndefined();
+  });
+
+  it('loses concentration on a failed save', () => {
+    const unit = concentrating();
+
+    queueRolls([[20, 7]]);
+    checkConcentration(unit, 6);
+
+    expect(unit.concentratingOn?.lostReason).toBe('fails a concentration save (9 vs 10)');
+  });
+
+  it('saves against half the damage when that is higher', () => {
+    const unit = concentrating();
+
+    queueRolls([[20, 10]]);
+    checkConcentration(unit, 26);
+
+    expect(unit.concentratingOn?.lostReason).toBe('fails a concentration save (12 vs 13)');
+  });
+
+  it('is lost without a save when damage knocks the unit out', () => {
+    const unit = concentrating();
+
+    applyDamage(unit, 20);
+
+    expect(unit.concentratingOn?.lostReason).toBe('falls unconscious');
+  });
+
+  it('is tested whenever the unit takes damage', () => {
+    const unit = concentrating();
+
+    queueRolls([[20, 1]]);
+    applyDamage(unit, 3);
+
+    expect(unit.concentratingOn?.lostReason).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+// Concentration - sustained spells that last only while their caster keeps focus
+//
+// A caster keeps up one concentration ability at a time. Taking damage forces
+// a save (d20 + resilience vs 10 or half the damage, whichever is higher) and
+// going unconscious ends it outright. Statuses and zones the ability created
+// carry a link back to the caster and end with it.
+
+import { Ability, ConcentrationLink, Unit } from '../data/BattleTypes';
+import { rollSave } from './DiceRoller';
+import { getEffectiveStat } from './StatusEffects';
+
+// Lowest target number for a concentration save
+export const CONCENTRATION_MIN_DC = 10;
+
+/**
+ * Target number for the concentration save after taking this much damage
+ */
+export function getConcentrationDC(damage: number): number {
+  return Math.max(CONCENTRATION_MIN_DC, Math.floor(damage / 2));
+}
+
+/**
+ * Link for statuses and zones created by a concentration ability
+ */
+export function getConcentrationLink(caster: Unit, ability: Ability): ConcentrationLink | undefined {
+  if (!ability.concentration) return undefined;
+  return { casterId: caster.id, casterName: caster.name };
+}
+
+/**
+ * Whether a status or zone is kept up by this caster
+ */
+export function isLinkedTo(link: ConcentrationLink | undefined, caster: Unit): boolean {
+  return link?.casterId === caster.id;
+}
+
+/**
+ * Test the unit's concentration after it took damage
+ * Marks it lost (with the reason) on a failed save or when the unit is down
+ */
+export function checkConcentration(unit: Unit, damage: number): void {
+  const concentration = unit.concentratingOn;
+  if (!concentration || concentration.lostReason || damage <= 0) return;
+
+  if (unit.isUnconscious) {
+    concentration.lostReason = 'falls unconscious';
+    return;
+  }
+
+  const dc = getConcentrationDC(damage);
+  const save = rollSave(getEffectiveStat(unit, 'resilience'));
+  const total = save.finalTotal || save.total;
+  if (total < dc) {
+    concentration.lostReason = `fails a concentration save (${total} vs ${dc})`;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { adjustDamage, describeDamageModifier, getDamageModifier } from './DamageTypes';
+import { DamageDefenses, DamageModifier, DamageType } from '../data/BattleTypes';
+import { makeUnit } from '../test/helpers';
+
+describe('getDamageModifier', () => {
+  it.each<[string, DamageDefenses, DamageType | undefined, DamageModifier | undefined]>([
+    ['untyped damage', {}, undefined, undefined],
+    ['no defenses', {}, 'fire', undefined],
+    ['an immunity', { immunities: ['fire'] }, 'fire', 'immune'],
+    ['a resistance', { resistances: ['poison'] }, 'poison', 'resistant'],
+    ['a vulnerability', { vulnerabilities: ['radiant'] }, 'radiant', 'vulnerable'],
+    ['a resistance to another type', { resistances: ['poison'] }, 'fire', undefined],
+    ['immunity over vulnerability', { immunities: ['fire'], vulnerabilities: ['fire'] }, 'fire', 'immune'],
+    ['resistance and vulnerability', { resistances: ['cold'], vulnerabilities: ['cold'] }, 'cold', undefined],
+  ])('handles %s', (_name, defenses, type, expected) => {
+    expect(getDamageModifier(makeUnit(defenses), type)).toBe(expected);
+  });
+
+  it('matches every type but the named one for non_ entries', () => {
+    const devil = makeUnit({ resistances: ['non_radiant'] });
+
+    expect(getDamageModifier(devil, 'psychic')).toBe('resistant');
+    expect(getDamageModifier(devil, 'radiant')).toBeUndefined();
+  });
+});
+
+describe('adjustDamage', () => {
+  it.each<[DamageDefenses, number]>([
+    [{ immunities: ['fire'] }, 0],
+    [{ resistances: ['fire'] }, 3],
+    [{ vulnerabilities: ['fire'] }, 14],
+  ])('adjusts 7 fire damage for %o', (defenses, expected) => {
+    expect(adjustDamage(makeUnit(defenses), 7, 'fire').amount).toBe(expected);
+  });
+
+  it('leaves untyped damage alone', () => {
+    expect(adjustDamage(makeUnit({ immunities: ['fire'] }), 7)).toEqual({ amount: 7, modifier: undefined });
+  });
+});
+
+describe('describeDamageModifier', () => {
+  it('names the unit and damage type', () => {
+    const hound = makeUnit({ name: 'Hellhound' });
+
+    expect(describeDamageModifier(hound, 'immune', 'fire')).toBe('Hellhound is immune to fire!');
+    expect(describeDamageModifier(hound, 'resistant', 'poison')).toBe('Hellhound resists poison damage (halved)');
+  });
+});
@@ -0,0 +1,69 @@
+// DamageTypes - resistances, immunities and vulnerabilities
+//
+// Abilities, statuses and hazards declare the type of damage they deal and
+// units declare the types they resist (half), ignore or are vulnerable to
+// (double). Untyped damage is never adjusted.
+
+import { DamageModifier, DamageType, DamageTypeMatch, Unit } from '../data/BattleTypes';
+
+function matches(match: DamageTypeMatch, type: DamageType): boolean {
+  return match.startsWith('non_') ? match !== `non_${type}` : match === type;
+}
+
+/**
+ * How the unit's defenses change damage of this type
+ * Immunity wins; resistance and vulnerability to the same type cancel out
+ */
+export function getDamageModifier(unit: Unit, type?: DamageType): DamageModifier | undefined {
+  if (!type) return undefined;
+
+  if (unit.immunities?.some(m => matches(m, type))) return 'immune';
+
+  const resistant = !!unit.resistances?.some(m => matches(m, type));
+  const vulnerable = !!unit.vulnerabilities?.some(m => matches(m, type));
+  if (resistant === vulnerable) return undefined;
+  return resistant ? 'resistant' : 'vulnerable';
+}
+
+/**
+ * Multiplier the modifier applies to damage (for estimates)
+ */
+export function getDamageMultiplier(modifier?: DamageModifier): number {
+  switch (modifier) {
+    case 'immune': return 0;
+    case 'resistant': return 0.5;
+    case 'vulnerable': return 2;
+    default: return 1;
+  }
+}
+
+/**
+ * Damage after the modifier (resisted damage rounds down)
+ */
+export function applyDamageModifier(amount: number, modifier?: DamageModifier): number {
+  return Math.floor(amount * getDamageMultiplier(modifier));
+}
+
+/**
+ * Adjust damage of a type for the unit taking it
+ */
+export function adjustDamage(
+  unit: Unit,
+  amount: number,
+  type?: DamageType
+): { amount: number; modifier?: DamageModifier } {
+  const modifier = getDamageModifier(unit, type);
+  return { amount: applyDamageModifier(amount, modifier), modifier };
+}
+
+/**
+ * Log/result line for a modified hit, e.g. "Hellhound is immune to fire!"
+ */
+export function describeDamageModifier(unit: Unit, modifier: DamageModifier, type?: DamageType): string {
+  const damage = type ? `${type} damage` : 'the damage';
+  switch (modifier) {
+    case 'immune': return `${unit.name} is immune to ${type ?? 'the damage'}!`;
+    case 'resistant': return `${unit.name} resists ${damage} (halved)`;
+    case 'vulnerable': return `${unit.name} is vulnerable to ${damage} (doubled)!`;
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { describeDeathSaves, isOutOfBattle, needsDeathSave, rollDeathSave } from './DeathSaves';
+import { resetRandomSource } from './DiceRoller';
+import { applyDamage, applyHealing } from '../entities/Unit';
+import { makeUnit, queueRolls } from '../test/helpers';
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+/**
+ * A hero knocked out by damage
+ */
+function downedHero() {
+  const hero = makeUnit({ id: 'thump', name: 'Thump' });
+  applyDamage(hero, hero.maxHp);
+  return hero;
+}
+
+describe('rollDeathSave', () => {
+  it('counts 10 or more as a success', () => {
+    const hero = downedHero();
+
+    queueRolls([[20, 10]]);
+
+    expect(rollDeathSave(hero)).toEqual({ roll: 10, outcome: 'success' });
+    expect(hero.deathSaves).toEqual({ successes: 1, failures: 0 });
+  });
+
+  it('counts under 10 as a failure', () => {
+    const hero = downedHero();
+
+    queueRolls([[20, 9]]);
+
+    expect(rollDeathSave(hero).outcome).toBe('failure');
+    expect(hero.deathSaves).toEqual({ successes: 0, failures: 1 });
+  });
+
+  it('stabilizes on the third success', () => {
+    const hero = downedHero();
+    hero.deathSaves = { successes: 2, failures: 2 };
+
+    queueRolls([[20, 15]]);
+
+    expect(rollDeathSave(hero).outcome).toBe('stabilized');
+    expect(needsDeathSave(hero)).toBe(false);
+  });
+
+  it('puts the hero out on the third failure', () => {
+    const hero = downedHero();
+    hero.deathSaves = { successes: 1, failures: 2 };
+
+    queueRolls([[20, 4]]);
+
+    expect(rollDeathSave(hero).outcome).toBe('out');
+    expect(isOutOfBattle(hero)).toBe(true);
+    expect(needsDeathSave(hero)).toBe(false);
+  });
+
+  it('counts a natural 1 as two failures', () => {
+    const hero = downedHero();
+
+    queueRolls([[20, 1]]);
+    rollDeathSave(hero);
+
+    expect(hero.deathSaves).toEqual({ successes: 0, failures: 2 });
+  });
+
+  it('revives on a natural 20 without touching the tally', () => {
+    const hero = downedHero();
+
+    queueRolls([[20, 20]]);
+
+    expect(rollDeathSave(hero).outcome).toBe('revived');
+    expect(hero.deathSaves).toEqual({ successes: 0, failures: 0 });
+  });
+});
+
+describe('needsDeathSave', () => {
+  it('is only for downed heroes', () => {
+    const lemure = makeUnit({ team: 'hero', summonerId: 'vessan' });
+    applyDamage(lemure, lemure.maxHp);
+    const imp = makeUnit({ team: 'enemy' });
+    applyDamage(imp, imp.maxHp);
+
+    expect(needsDeathSave(downedHero())).toBe(true);
+    expect(needsDeathSave(makeUnit())).toBe(false);
+    expect(needsDeathSave(lemure)).toBe(false);
+    expect(needsDeathSave(imp)).toBe(false);
+  });
+});
+
+describe('healing a downed hero', () => {
+  it('revives them and clears the tally', () => {
+    const hero = downedHero();
+    hero.deathSaves = { successes: 1, failures: 2 };
+
+    applyHealing(hero, 5);
+
+    expect(hero.isUnconscious).toBe(false);
+    expect(hero.currentHp).toBe(5);
+    expect(hero.deathSaves).toBeUndefined();
+  });
+
+  it('does nothing once they are out of the battle', () => {
+    const hero = downedHero();
+    hero.deathSaves = { successes: 0, failures: 3 };
+
+    applyHealing(hero, 5);
+
+    expect(hero.isUnconscious).toBe(true);
+    expect(hero.currentHp).toBe(0);
+  });
+});
+
+describe('describeDeathSaves', () => {
+  it.each<[number, number, string]>([
+    [0, 0, 'S0 F0'],
+    [2, 1, 'S2 F1'],
+    [3, 1, 'Stable'],
+    [1, 3, 'Out'],
+  ])('shows %i successes and %i failures as %s', (successes, failures, expected) => {
+    expect(describeDeathSaves({ successes, failures })).toBe(expected);
+  });
+});
@@ -0,0 +1,79 @@
+// DeathSaves - downed heroes fight for their lives at the start of each turn
+//
+// A flat d20 of 10 or more is a success. Three successes stabilize the hero
+// (no more saves, still unconscious); three failures put them out for the rest
+// of the battle, beyond healing. A natural 20 brings them back with 1 HP and
+// a natural 1 counts as two failures. Healing revives a downed hero who
+// isn't out and clears the tally.
+
+import { DeathSaves, Unit } from '../data/BattleTypes';
+import { rollDice } from './DiceRoller';
+
+export const DEATH_SAVES_NEEDED = 3;
+export const DEATH_SAVE_DC = 10;
+
+// What a death save did: revived on a natural 20
+export type DeathSaveOutcome = 'success' | 'failure' | 'stabilized' | 'out' | 'revived';
+
+export interface DeathSaveResult {
+  roll: number;
+  outcome: DeathSaveOutcome;
+}
+
+/**
+ * Whether a downed hero is stable (three successes)
+ */
+export function isStable(unit: Unit): boolean {
+  return (unit.deathSaves?.successes ?? 0) >= DEATH_SAVES_NEEDED;
+}
+
+/**
+ * Whether a downed hero failed three death saves and can't be revived this battle
+ */
+export function isOutOfBattle(unit: Unit): boolean {
+  return (unit.deathSaves?.failures ?? 0) >= DEATH_SAVES_NEEDED;
+}
+
+/**
+ * Whether the unit rolls a death save on its turn
+ * Only heroes (not summons or NPCs) do; enemies are defeated at 0 HP
+ */
+export function needsDeathSave(unit: Unit): boolean {
+  return unit.isUnconscious &&
+    unit.team === 'hero' &&
+    !unit.summonerId &&
+    !unit.npc &&
+    !isStable(unit) &&
+    !isOutOfBattle(unit);
+}
+
+/**
+ * Roll a death save and add it to the unit's tally
+ * The caller heals a revived unit back to 1 HP
+ */
+export function rollDeathSave(unit: Unit): DeathSaveResult {
+  const saves: DeathSaves = unit.deathSaves ??= { successes: 0, failures: 0 };
+  const roll = rollDice('1d20').total;
+
+  if (roll === 20) {
+    return { roll, outcome: 'revived' };
+  }
+
+  if (roll >= DEATH_SAVE_DC) {
+    saves.successes = Math.min(DEATH_SAVES_NEEDED, saves.successes + 1);
+    return { roll, outcome: isStable(unit) ? 'stabilized' : 'success' };
+  }
+
+  // A natural 1 counts twice
+  saves.failures = Math.min(DEATH_SAVES_NEEDED, saves.failures + (roll === 1 ? 2 : 1));
+  return { roll, outcome: isOutOfBattle(unit) ? 'out' : 'failure' };
+}
+
+/**
+ * Short tally for the UI: "Stable", "Out", or e.g. "S2 F1"
+ */
+export function describeDeathSaves(saves: DeathSaves): string {
+  if (saves.failures >= DEATH_SAVES_NEEDED) return 'Out';
+  if (saves.successes >= DEATH_SAVES_NEEDED) return 'Stable';
+  return `S${saves.successes} F${saves.failures}`;
+}
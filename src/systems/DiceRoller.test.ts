@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createSeededRandom,
+  rollAttack,
+  rollDamage,
+  rollDice,
+  rollTotal,
+  resetRandomSource,
+} from './DiceRoller';
+import { queueRolls, rollAll } from '../test/helpers';
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('rollDice', () => {
+  it.each([
+    ['1d20', 'min', 1],
+    ['1d20', 'max', 20],
+    ['2d6+3', 'min', 5],
+    ['2d6+3', 'max', 15],
+    ['3d6-1', 'min', 2],
+    ['1d6+1d10+2', 'max', 18],
+  ] as const)('%s rolls %s as %i', (notation, face, expected) => {
+    rollAll(face);
+    expect(rollTotal(notation)).toBe(expected);
+  });
+
+  it('keeps dice sum and modifier apart', () => {
+    queueRolls([[4, 3]]);
+    const roll = rollDice('1d4+2');
+
+    expect(roll.total).toBe(3);
+    expect(roll.modifier).toBe(2);
+    expect(roll.finalTotal).toBe(5);
+  });
+
+  it('drops the lowest die', () => {
+    queueRolls([[6, 6], [6, 1], [6, 4], [6, 3]]);
+    expect(rollTotal('4d6dl1')).toBe(13);
+  });
+
+  it.each(['3d6kl0', '3d6kh0', '3d6dh3', '3d6dl3'])('%s keeps no dice', notation => {
+    rollAll('max');
+    const roll = rollDice(notation);
+
+    expect(roll.total).toBe(0);
+    expect(roll.rolls).toEqual([]);
+    expect(roll.terms?.[0].dropped).toEqual([true, true, true]);
+  });
+});
+
+describe('rollDamage', () => {
+  it('doubles dice but not modifiers on a critical hit', () => {
+    rollAll('max');
+    expect(rollTotal('1d8+2')).toBe(10);
+
+    const crit = rollDamage('1d8+2', true);
+    expect(crit.rolls).toHaveLength(2);
+    expect(crit.finalTotal).toBe(18);
+  });
+});
+
+describe('rollAttack', () => {
+  it.each([
+    ['advantage', 15],
+    ['disadvantage', 4],
+  ] as const)('with %s uses the right d20', (advantage, expected) => {
+    queueRolls([[20, 4], [20, 15]]);
+    expect(rollAttack(0, advantage).finalTotal).toBe(expected);
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(99);
+    const b = createSeededRandom(99);
+    const sequence = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    expect(sequence.every(v => v >= 0 && v < 1)).toBe(true);
+  });
+});
@@ -1,26 +1,305 @@
-import { DiceRoll } from '../data/BattleTypes';
+import { AdvantageState, DiceRoll, DiceTermResult } from '../data/BattleTypes';
 
 /**
  * Dice rolling utility for the combat system
- * Supports standard dice notation (e.g., "1d20", "2d6+3")
+ * Supports dice expressions (e.g., "1d20", "2d6+3", "1d6+1d10+2", "4d6dl1")
+ *
+ * All rolls draw from a swappable random source. Seeding it makes a battle
+ * reproducible: the same seed plus the same inputs gives the same rolls.
  */
 
+// ============================================
+// Random Source
+// ============================================
+
+/**
+ * A random number generator returning floats in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+let randomSource: RandomSource = Math.random;
+
+/**
+ * Create a deterministic PRNG (mulberry32) from a 32-bit seed
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh random seed (used when no seed was supplied)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derive a stable sub-seed from a seed and a key (e.g. battle map or chest ID)
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = (seed ^ 0x9e3779b9) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Replace the random source used by all dice rolls
+ */
+export function setRandomSource(source: RandomSource): void {
+  randomSource = source;
+}
+
+/**
+ * Get the random source currently used by dice rolls
+ */
+export function getRandomSource(): RandomSource {
+  return randomSource;
+}
+
+/**
+ * Seed the dice with a deterministic PRNG
+ */
+export function seedRandom(seed: number): void {
+  randomSource = createSeededRandom(seed);
+}
+
+/**
+ * Restore the unseeded Math.random source
+ */
+export function resetRandomSource(): void {
+  randomSource = Math.random;
+}
+
+// ============================================
+// Roll Listener
+// ============================================
+
+/**
+ * Called with every completed roll (expressions and d20 checks)
+ */
+export type RollListener = (roll: DiceRoll) => void;
+
+let rollListener: RollListener | null = null;
+
+/**
+ * Observe every roll, e.g. to record a battle replay (null to stop)
+ */
+export function setRollListener(listener: RollListener | null): void {
+  rollListener = listener;
+}
+
+function notifyRoll(roll: DiceRoll): DiceRoll {
+  rollListener?.(roll);
+  return roll;
+}
+
+// ============================================
+// Dice Rolls
+// ============================================
+
 /**
  * Roll a single die with the given number of sides
  */
 export function rollDie(sides: number): number {
-  return Math.floor(Math.random() * sides) + 1;
+  return Math.floor(randomSource() * sides) + 1;
+}
+
+// ============================================
+// Dice Expressions
+// ============================================
+
+// Safety cap so exploding d1s (or unlucky streaks) can't loop forever
+const MAX_EXPLOSIONS = 100;
+
+/**
+ * A parsed dice term, e.g. "4d6dl1" or the constant "+2"
+ */
+interface DiceTerm {
+  sign: 1 | -1;
+  notation: string;
+  count: number; // 0 for a constant term
+  sides: number; // the constant's value for a constant term
+  keep?: { mode: 'highest' | 'lowest'; count: number };
+  drop?: { mode: 'highest' | 'lowest'; count: number };
+  explode: boolean;
+  min?: number; // per-die clamp
+  max?: number; // per-die clamp
+}
+
+/**
+ * Parse a single term (without its sign) into a DiceTerm
+ */
+function parseTerm(text: string, sign: 1 | -1): DiceTerm | null {
+  if (/^\d+$/.test(text)) {
+    return { sign, notation: text, count: 0, sides: parseInt(text, 10), explode: false };
+  }
+
+  const match = text.match(/^(\d*)d(\d+)(.*)$/);
+  if (!match) return null;
+
+  const term: DiceTerm = {
+    sign,
+    notation: text,
+    count: match[1] ? parseInt(match[1], 10) : 1,
+    sides: parseInt(match[2], 10),
+    explode: false,
+  };
+  if (term.count < 1 || term.sides < 1) return null;
+
+  // Modifiers: kh/kl/k (keep), dh/dl (drop), ! (explode), min/max (clamp)
+  let rest = match[3];
+  while (rest.length > 0) {
+    const mod = rest.match(/^(kh|kl|k|dh|dl|min|max|!)(\d*)/);
+    if (!mod) return null;
+
+    const value = mod[2] ? parseInt(mod[2], 10) : undefined;
+    switch (mod[1]) {
+      case 'k':
+      case 'kh':
+        term.keep = { mode: 'highest', count: value ?? 1 };
+        break;
+      case 'kl':
+        term.keep = { mode: 'lowest', count: value ?? 1 };
+        break;
+      case 'dh':
+        term.drop = { mode: 'highest', count: value ?? 1 };
+        break;
+      case 'dl':
+        term.drop = { mode: 'lowest', count: value ?? 1 };
+        break;
+      case 'min':
+        if (value === undefined) return null;
+        term.min = value;
+        break;
+      case 'max':
+        if (value === undefined) return null;
+        term.max = value;
+        break;
+      case '!':
+        if (value !== undefined) return null;
+        term.explode = true;
+        break;
+    }
+    rest = rest.slice(mod[0].length);
+  }
+
+  return term;
+}
+
+/**
+ * Parse a dice expression into signed terms
+ * Returns null if any part of the expression is invalid
+ */
+function parseDiceExpression(notation: string): DiceTerm[] | null {
+  const expression = notation.replace(/\s+/g, '').toLowerCase();
+  if (expression.length === 0) return null;
+
+  const terms: DiceTerm[] = [];
+  const pattern = /([+-]?)([^+-]+)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(expression)) !== null) {
+    // Only the first term may omit its sign
+    if (match.index !== consumed || (!match[1] && terms.length > 0)) return null;
+
+    const term = parseTerm(match[2], match[1] === '-' ? -1 : 1);
+    if (!term) return null;
+
+    terms.push(term);
+    consumed = match.index + match[0].length;
+  }
+
+  return consumed === expression.length ? terms : null;
 }
 
 /**
- * Parse dice notation and roll
- * Supports: "1d20", "2d6", "1d8+2", "3d6-1"
+ * Roll a single dice term, applying explode, clamp and keep/drop modifiers
+ */
+function rollTerm(term: DiceTerm): DiceTermResult {
+  const signText = term.sign < 0 ? '-' : '+';
+
+  if (term.count === 0) {
+    return {
+      notation: `${signText}${term.notation}`,
+      rolls: [],
+      kept: [],
+      total: term.sign * term.sides,
+      isConstant: true,
+    };
+  }
+
+  const rolls: number[] = [];
+  let explosions = 0;
+
+  for (let i = 0; i < term.count; i++) {
+    let roll = rollDie(term.sides);
+    rolls.push(roll);
+
+    // Exploding dice: every max roll adds another die to the pool
+    while (term.explode && term.sides > 1 && roll === term.sides && explosions < MAX_EXPLOSIONS) {
+      roll = rollDie(term.sides);
+      rolls.push(roll);
+      explosions++;
+    }
+  }
+
+  const clamped = rolls.map(roll => {
+    let value = roll;
+    if (term.min !== undefined) value = Math.max(term.min, value);
+    if (term.max !== undefined) value = Math.min(term.max, value);
+    return value;
+  });
+
+  // Keep/drop works on indices so the breakdown can mark dropped dice
+  const order = clamped.map((_, index) => index).sort((a, b) => clamped[b] - clamped[a]);
+  let keptIndices = order;
+  if (term.keep) {
+    keptIndices = term.keep.mode === 'highest'
+      ? order.slice(0, term.keep.count)
+      : order.slice(Math.max(0, order.length - term.keep.count)); // slice(-0) would keep every die
+  }
+  if (term.drop) {
+    keptIndices = term.drop.mode === 'highest'
+      ? keptIndices.slice(term.drop.count)
+      : keptIndices.slice(0, Math.max(0, keptIndices.length - term.drop.count));
+  }
+  const keptSet = new Set(keptIndices);
+
+  const kept = clamped.filter((_, index) => keptSet.has(index));
+  const sum = kept.reduce((acc, value) => acc + value, 0);
+
+  return {
+    notation: `${signText}${term.notation}`,
+    rolls: clamped,
+    kept,
+    dropped: clamped.map((_, index) => !keptSet.has(index)),
+    total: term.sign * sum,
+  };
+}
+
+/**
+ * Parse a dice expression and roll it
+ * Supports: "1d20", "2d6", "1d8+2", "3d6-1", "1d6+1d10+2",
+ * keep/drop ("2d20kh1", "2d20kl1", "4d6dl1"), exploding ("1d6!"),
+ * and per-die clamps ("2d6min2", "1d20max15")
+ *
+ * `total` is the dice sum and `modifier` the sum of constants, so
+ * `finalTotal` is the full result; `terms` holds the per-term breakdown.
  */
 export function rollDice(notation: string): DiceRoll {
-  // Parse notation like "2d6+3" or "1d20"
-  const match = notation.match(/^(\d+)d(\d+)([+-]\d+)?$/i);
+  const terms = parseDiceExpression(notation);
 
-  if (!match) {
+  if (!terms) {
     console.error(`Invalid dice notation: ${notation}`);
     return {
       dice: notation,
@@ -29,82 +308,168 @@ export function rollDice(notation: string): DiceRoll {
     };
   }
 
-  const numDice = parseInt(match[1], 10);
-  const sides = parseInt(match[2], 10);
-  const modifier = match[3] ? parseInt(match[3], 10) : 0;
+  return rollTerms(notation, terms);
+}
 
-  const rolls: number[] = [];
-  let total = 0;
+/**
+ * Roll a dice expression and return its full result (dice plus modifiers)
+ * e.g. rollTotal("1d4+2") is 3-6
+ */
+export function rollTotal(notation: string): number {
+  const roll = rollDice(notation);
+  return roll.finalTotal ?? roll.total;
+}
 
-  for (let i = 0; i < numDice; i++) {
-    const roll = rollDie(sides);
-    rolls.push(roll);
-    total += roll;
-  }
+/**
+ * Roll parsed terms and total them into a DiceRoll
+ */
+function rollTerms(notation: string, terms: DiceTerm[]): DiceRoll {
+  const termResults = terms.map(rollTerm);
+  const diceTerms = termResults.filter(term => !term.isConstant);
 
-  return {
+  const total = diceTerms.reduce((acc, term) => acc + term.total, 0);
+  const modifier = termResults
+    .filter(term => term.isConstant)
+    .reduce((acc, term) => acc + term.total, 0);
+
+  return notifyRoll({
     dice: notation,
-    rolls,
+    rolls: diceTerms.flatMap(term => term.kept),
     total,
     modifier: modifier !== 0 ? modifier : undefined,
     finalTotal: total + modifier,
-  };
+    terms: termResults,
+  });
 }
 
 /**
- * Roll initiative: d20 + speed modifier
+ * Roll a d20 check with a modifier, optionally with advantage/disadvantage
+ * (roll two d20s, keep the higher/lower). Both dice are kept in `terms`.
  */
-export function rollInitiative(speedModifier: number): DiceRoll {
-  const roll = rollDie(20);
-  return {
-    dice: '1d20',
+function rollD20(modifier: number, advantage: AdvantageState): DiceRoll {
+  if (advantage === 'normal') {
+    const roll = rollDie(20);
+    return notifyRoll({
+      dice: '1d20',
+      rolls: [roll],
+      total: roll,
+      modifier,
+      finalTotal: roll + modifier,
+    });
+  }
+
+  const d20s = [rollDie(20), rollDie(20)];
+  const roll = advantage === 'advantage' ? Math.max(...d20s) : Math.min(...d20s);
+  const usedIndex = d20s.indexOf(roll);
+  const dice = advantage === 'advantage' ? '2d20kh1' : '2d20kl1';
+
+  const terms: DiceTermResult[] = [{
+    notation: `+${dice}`,
+    rolls: d20s,
+    kept: [roll],
+    dropped: d20s.map((_, index) => index !== usedIndex),
+    total: roll,
+  }];
+  if (modifier !== 0) {
+    terms.push({
+      notation: `${modifier > 0 ? '+' : '-'}${Math.abs(modifier)}`,
+      rolls: [],
+      kept: [],
+      total: modifier,
+      isConstant: true,
+    });
+  }
+
+  return notifyRoll({
+    dice,
     rolls: [roll],
     total: roll,
-    modifier: speedModifier,
-    finalTotal: roll + speedModifier,
-  };
+    modifier,
+    finalTotal: roll + modifier,
+    terms,
+  });
+}
+
+/**
+ * Roll initiative: d20 + speed modifier
+ */
+export function rollInitiative(speedModifier: number): DiceRoll {
+  return rollD20(speedModifier, 'normal');
 }
 
 /**
  * Roll an attack: d20 + attack modifier
  */
-export function rollAttack(attackModifier: number): DiceRoll {
-  const roll = rollDie(20);
-  return {
-    dice: '1d20',
-    rolls: [roll],
-    total: roll,
-    modifier: attackModifier,
-    finalTotal: roll + attackModifier,
-  };
+export function rollAttack(attackModifier: number, advantage: AdvantageState = 'normal'): DiceRoll {
+  return rollD20(attackModifier, advantage);
 }
 
 /**
  * Roll a saving throw: d20 + resilience modifier
  */
-export function rollSave(resilienceModifier: number): DiceRoll {
-  const roll = rollDie(20);
-  return {
-    dice: '1d20',
-    rolls: [roll],
-    total: roll,
-    modifier: resilienceModifier,
-    finalTotal: roll + resilienceModifier,
-  };
+export function rollSave(resilienceModifier: number, advantage: AdvantageState = 'normal'): DiceRoll {
+  return rollD20(resilienceModifier, advantage);
 }
 
 /**
  * Roll damage using dice notation
+ * Critical hits double every dice term (and its keep/drop counts);
+ * flat modifiers are not doubled
  */
-export function rollDamage(notation: string): DiceRoll {
-  return rollDice(notation);
+export function rollDamage(notation: string, critical: boolean = false): DiceRoll {
+  if (!critical) {
+    return rollDice(notation);
+  }
+
+  const terms = parseDiceExpression(notation);
+  if (!terms) {
+    console.error(`Invalid dice notation: ${notation}`);
+    return {
+      dice: notation,
+      rolls: [0],
+      total: 0,
+    };
+  }
+
+  const doubled = terms.map(term => {
+    if (term.count === 0) return term;
+    return {
+      ...term,
+      notation: term.notation.replace(/^\d*d/, `${term.count * 2}d`),
+      count: term.count * 2,
+      keep: term.keep && { ...term.keep, count: term.keep.count * 2 },
+      drop: term.drop && { ...term.drop, count: term.drop.count * 2 },
+    };
+  });
+
+  // e.g. "1d6+1d10+2" crits as "2d6+2d10+2"
+  const critNotation = doubled
+    .map(term => `${term.sign < 0 ? '-' : '+'}${term.notation}`)
+    .join('')
+    .replace(/^\+/, '');
+
+  return rollTerms(critNotation, doubled);
 }
 
 /**
  * Format a dice roll for display
- * e.g., "1d20+3 = [15] + 3 = 18"
+ * e.g., "1d20+3 = [15] + 3 = 18", "4d6dl1 = [6, 5, 3, ~1] = 14"
  */
 export function formatRoll(roll: DiceRoll): string {
+  if (roll.terms && roll.terms.length > 0) {
+    const parts = roll.terms.map((term, index) => {
+      const body = term.isConstant
+        ? `${Math.abs(term.total)}`
+        : `[${term.rolls.map((value, i) => (term.dropped?.[i] ? `~${value}` : `${value}`)).join(', ')}]`;
+      if (index === 0) {
+        return term.total < 0 ? `-${body}` : body;
+      }
+      return `${term.total < 0 ? '-' : '+'} ${body}`;
+    });
+    const result = roll.finalTotal ?? roll.total;
+    return `${roll.dice} = ${parts.join(' ')} = ${result}`;
+  }
+
   const rollsStr = roll.rolls.length > 1
     ? `[${roll.rolls.join(', ')}]`
     : `[${roll.rolls[0]}]`;
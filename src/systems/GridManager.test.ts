@@ -0,0 +1,411 @@
+import { describe, expect, it } from 'vitest';
+import { GridManager } from './GridManager';
+import { Ability } from '../data/BattleTypes';
+import { makeUnit } from '../test/helpers';
+
+// 0 = normal, 1 = difficult, 2 = impassable, 3 = cover, 4 = hazard, 5 = water, 6 = high ground
+const OPEN_5X5 = [
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+];
+
+function sortTiles(tiles: { x: number; y: number }[]): string[] {
+  return tiles.map(t => `${t.x},${t.y}`).sort();
+}
+
+describe('getMoveCost', () => {
+  const grid = new GridManager([[0, 1, 2]], 3, 1);
+
+  it.each([
+    ['normal', 0, false, 1],
+    ['difficult', 1, false, 2],
+    ['impassable', 2, false, Infinity],
+    ['difficult (flying)', 1, true, 1],
+    ['impassable (flying)', 2, true, 1],
+  ])('%s terrain costs the expected movement', (_name, x, flying, cost) => {
+    expect(grid.getMoveCost(x, 0, flying)).toBe(cost);
+  });
+
+  it('lets only flying units cross impassable terrain', () => {
+    expect(grid.isWalkable(2, 0)).toBe(false);
+    expect(grid.isWalkable(2, 0, true)).toBe(true);
+  });
+
+  it('lets only swimming or flying units enter water', () => {
+    const water = new GridManager([[5]], 1, 1);
+
+    expect(water.isWalkable(0, 0)).toBe(false);
+    expect(water.isWalkable(0, 0, false, true)).toBe(true);
+    expect(water.isWalkable(0, 0, true)).toBe(true);
+  });
+
+  it('charges double to climb high ground', () => {
+    expect(new GridManager([[6]], 1, 1).getMoveCost(0, 0)).toBe(2);
+  });
+});
+
+describe('getMovementRange', () => {
+  it('reaches a diamond of tiles on open ground', () => {
+    const grid = new GridManager(OPEN_5X5, 5, 5);
+    const unit = makeUnit({ gridX: 2, gridY: 2 });
+    grid.placeUnit(unit, 2, 2);
+
+    const tiles = grid.getMovementRange(2, 2, 1, unit);
+
+    expect(sortTiles(tiles)).toEqual(['1,2', '2,1', '2,3', '3,2']);
+  });
+
+  it('charges double for difficult terrain', () => {
+    const grid = new GridManager([[0, 1, 0, 0]], 4, 1);
+    const unit = makeUnit();
+    grid.placeUnit(unit, 0, 0);
+
+    expect(sortTiles(grid.getMovementRange(0, 0, 2, unit))).toEqual(['1,0']);
+    expect(sortTiles(grid.getMovementRange(0, 0, 3, unit))).toEqual(['1,0', '2,0']);
+  });
+
+  it('ignores terrain costs for flying units', () => {
+    const grid = new GridManager([[0, 1, 2, 0]], 4, 1);
+    const unit = makeUnit({ flying: true });
+    grid.placeUnit(unit, 0, 0);
+
+    expect(sortTiles(grid.getMovementRange(0, 0, 3, unit))).toEqual(['1,0', '2,0', '3,0']);
+  });
+
+  it('passes through allies but cannot stop on them', () => {
+    const grid = new GridManager([[0, 0, 0]], 3, 1);
+    const unit = makeUnit({ id: 'mover' });
+    const ally = makeUnit({ id: 'ally' });
+    grid.placeUnit(unit, 0, 0);
+    grid.placeUnit(ally, 1, 0);
+
+    expect(sortTiles(grid.getMovementRange(0, 0, 2, unit))).toEqual(['2,0']);
+  });
+
+  it('is blocked by conscious enemies but not unconscious ones', () => {
+    const grid = new GridManager([[0, 0, 0]], 3, 1);
+    const unit = makeUnit({ id: 'mover' });
+    const enemy = makeUnit({ id: 'enemy', team: 'enemy' });
+    grid.placeUnit(unit, 0, 0);
+    grid.placeUnit(enemy, 1, 0);
+
+    expect(grid.getMovementRange(0, 0, 2, unit)).toEqual([]);
+
+    enemy.isUnconscious = true;
+    expect(sortTiles(grid.getMovementRange(0, 0, 2, unit))).toEqual(['2,0']);
+  });
+});
+
+describe('findPath', () => {
+  it('returns the path excluding the start and including the goal', () => {
+    const grid = new GridManager(OPEN_5X5, 5, 5);
+    const unit = makeUnit();
+    grid.placeUnit(unit, 0, 0);
+
+    const path = grid.findPath(0, 0, 3, 0, unit);
+
+    expect(path).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }]);
+  });
+
+  it('detours around difficult terrain when that is cheaper', () => {
+    const grid = new GridManager(
+      [
+        [0, 1, 0],
+        [0, 0, 0],
+      ],
+      3,
+      2
+    );
+    const unit = makeUnit();
+    grid.placeUnit(unit, 0, 0);
+
+    const path = grid.findPath(0, 0, 2, 0, unit)!;
+    const cost = path.reduce((sum, step) => sum + grid.getMoveCost(step.x, step.y), 0);
+
+    // Straight through costs 2 + 1 = 3; around costs 4, so the straight line wins
+    expect(cost).toBe(3);
+    expect(path).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+  });
+
+  it('routes around impassable terrain', () => {
+    const grid = new GridManager(
+      [
+        [0, 2, 0],
+        [0, 0, 0],
+      ],
+      3,
+      2
+    );
+    const unit = makeUnit();
+    grid.placeUnit(unit, 0, 0);
+
+    expect(grid.findPath(0, 0, 2, 0, unit)).toHaveLength(4);
+  });
+
+  it('goes around a hazard unless the detour costs more than it can move', () => {
+    const grid = new GridManager(
+      [
+        [0, 4, 0],
+        [0, 0, 0],
+      ],
+      3,
+      2
+    );
+    const unit = makeUnit();
+    grid.placeUnit(unit, 0, 0);
+
+    expect(grid.findPath(0, 0, 2, 0, unit)).toHaveLength(4);
+    expect(grid.findPath(0, 0, 2, 0, unit, 3)).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+  });
+
+  it.each([
+    ['flying', { flying: true }],
+    ['immune to fire', { immunities: ['fire' as const] }],
+  ])('crosses a hazard it can ignore when %s', (_name, overrides) => {
+    const grid = new GridManager(
+      [
+        [0, 4, 0],
+        [0, 0, 0],
+      ],
+      3,
+      2
+    );
+    const unit = makeUnit(overrides);
+    grid.placeUnit(unit, 0, 0);
+
+    expect(grid.findPath(0, 0, 2, 0, unit)).toHaveLength(2);
+  });
+
+  it.each([
+    ['off the grid', 9, 9],
+    ['onto impassable terrain', 1, 0],
+    ['onto an occupied tile', 2, 0],
+  ])('returns null when moving %s', (_name, x, y) => {
+    const grid = new GridManager([[0, 2, 0]], 3, 1);
+    const unit = makeUnit({ id: 'mover' });
+    grid.placeUnit(unit, 0, 0);
+    grid.placeUnit(makeUnit({ id: 'other' }), 2, 0);
+
+    expect(grid.findPath(0, 0, x, y, unit)).toBeNull();
+  });
+
+  it('returns null when enemies wall off the goal', () => {
+    const grid = new GridManager([[0, 0, 0]], 3, 1);
+    const unit = makeUnit({ id: 'mover' });
+    grid.placeUnit(unit, 0, 0);
+    grid.placeUnit(makeUnit({ id: 'enemy', team: 'enemy' }), 1, 0);
+
+    expect(grid.findPath(0, 0, 2, 0, unit)).toBeNull();
+  });
+});
+
+describe('findStoppingTile', () => {
+  it('drops a unit downed on an ally back to the last free tile', () => {
+    const grid = new GridManager([[0, 0, 0, 0, 0]], 5, 1);
+    const imp = makeUnit({ id: 'imp_1', team: 'enemy' });
+    const ally = makeUnit({ id: 'imp_2', team: 'enemy' });
+    grid.placeUnit(ally, 2, 0);
+    const path = [1, 2, 3].map(x => ({ x, y: 0 }));
+
+    // Downed on the ally's tile it steps back to 1,0; past it, it stays put
+    expect(grid.findStoppingTile(imp, { x: 0, y: 0 }, path.slice(0, 2))).toEqual({ x: 1, y: 0 });
+    expect(grid.findStoppingTile(imp, { x: 0, y: 0 }, path)).toEqual({ x: 3, y: 0 });
+    expect(grid.getUnitAt(2, 0)).toBe(ally);
+  });
+
+  it('falls back to the start when every tile reached is taken', () => {
+    const grid = new GridManager([[0, 0, 0]], 3, 1);
+    const imp = makeUnit({ id: 'imp_1', team: 'enemy' });
+    grid.placeUnit(makeUnit({ id: 'imp_2', team: 'enemy' }), 1, 0);
+
+    expect(grid.findStoppingTile(imp, { x: 0, y: 0 }, [{ x: 1, y: 0 }])).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('line of sight', () => {
+  // A wall in the middle column with a gap at the bottom
+  const WALLED_5X5 = [
+    [0, 0, 2, 0, 0],
+    [0, 0, 2, 0, 0],
+    [0, 0, 2, 0, 0],
+    [0, 0, 2, 0, 0],
+    [0, 0, 0, 0, 0],
+  ];
+  const grid = new GridManager(WALLED_5X5, 5, 5);
+
+  it.each([
+    ['straight through the wall', 0, 1, 4, 1, false],
+    ['through the gap', 0, 4, 4, 4, true],
+    ['diagonally past the wall end', 1, 4, 3, 3, false],
+    ['along open ground', 0, 0, 1, 3, true],
+  ])('%s', (_name, fromX, fromY, toX, toY, visible) => {
+    expect(grid.hasLineOfSight(fromX, fromY, toX, toY)).toBe(visible);
+    expect(grid.hasLineOfSight(toX, toY, fromX, fromY)).toBe(visible);
+  });
+
+  it('only blocks a corner when both sides are walls', () => {
+    const corners = new GridManager([[0, 2], [0, 0]], 2, 2);
+    expect(corners.hasLineOfSight(0, 0, 1, 1)).toBe(true);
+
+    const closed = new GridManager([[0, 2], [2, 0]], 2, 2);
+    expect(closed.hasLineOfSight(0, 0, 1, 1)).toBe(false);
+  });
+
+  it('lets abilities that ignore line of sight reach past walls', () => {
+    const bolt = { range: 4 } as Ability;
+    const flame = { range: 4, ignoresLineOfSight: true } as Ability;
+
+    expect(grid.canTargetTile(1, 1, 3, 1, bolt)).toBe(false);
+    expect(grid.canTargetTile(1, 1, 3, 1, flame)).toBe(true);
+    expect(grid.canTargetTile(0, 0, 4, 4, flame)).toBe(false); // Out of range
+  });
+});
+
+describe('positional advantage', () => {
+  it('detects flanking with a conscious ally opposite', () => {
+    const grid = new GridManager(OPEN_5X5, 5, 5);
+    const attacker = makeUnit({ id: 'attacker' });
+    const partner = makeUnit({ id: 'partner' });
+    const defender = makeUnit({ id: 'defender', team: 'enemy' });
+    grid.placeUnit(attacker, 1, 2);
+    grid.placeUnit(defender, 2, 2);
+    grid.placeUnit(partner, 3, 2);
+
+    expect(grid.isFlanking(attacker, defender)).toBe(true);
+
+    partner.isUnconscious = true;
+    expect(grid.isFlanking(attacker, defender)).toBe(false);
+  });
+
+  it('compares elevation for higher ground', () => {
+    const grid = new GridManager([[0, 0]], 2, 1, [[1, 0]]);
+    const high = makeUnit({ gridX: 0, gridY: 0 });
+    const low = makeUnit({ team: 'enemy', gridX: 1, gridY: 0 });
+
+    expect(grid.hasHigherGround(high, low)).toBe(true);
+    expect(grid.hasHigherGround(low, high)).toBe(false);
+  });
+
+  it('counts high ground terrain as a level up on its elevation', () => {
+    const grid = new GridManager([[6, 0, 6]], 3, 1, [[0, 1, 1]]);
+    const onHighGround = makeUnit({ gridX: 0, gridY: 0 });
+    const onLedge = makeUnit({ team: 'enemy', gridX: 1, gridY: 0 });
+
+    expect(grid.getElevation(0, 0)).toBe(1);
+    expect(grid.getElevation(2, 0)).toBe(2);
+    expect(grid.hasHigherGround(onHighGround, onLedge)).toBe(false);
+    expect(grid.hasHigherGround(onLedge, onHighGround)).toBe(false);
+  });
+});
+
+describe('terrain effects', () => {
+  it('gives cover only against attacks from range', () => {
+    const grid = new GridManager([[0, 0, 3]], 3, 1);
+    const defender = makeUnit({ team: 'enemy', gridX: 2, gridY: 0 });
+
+    expect(grid.getCoverBonus(makeUnit({ gridX: 1, gridY: 0 }), defender)).toBe(0);
+    expect(grid.getCoverBonus(makeUnit({ gridX: 0, gridY: 0 }), defender)).toBe(2);
+  });
+
+  it('puts high ground above lower terrain', () => {
+    const grid = new GridManager([[6, 0, 6]], 3, 1);
+    const high = makeUnit({ gridX: 0, gridY: 0 });
+
+    expect(grid.hasHigherGround(high, makeUnit({ team: 'enemy', gridX: 1, gridY: 0 }))).toBe(true);
+    expect(grid.hasHigherGround(high, makeUnit({ team: 'enemy', gridX: 2, gridY: 0 }))).toBe(false);
+  });
+
+  it('reports hazard damage only on hazardous tiles', () => {
+    const grid = new GridManager([[0, 4]], 2, 1);
+
+    expect(grid.getHazardDamage(0, 0)).toBeUndefined();
+    expect(grid.getHazardDamage(1, 0)).toBe('1d4');
+  });
+});
+
+describe('forced movement', () => {
+  function lineUp(terrain: number[][]) {
+    const grid = new GridManager(terrain, terrain[0].length, terrain.length);
+    const source = makeUnit({ id: 'source' });
+    const target = makeUnit({ id: 'target', team: 'enemy' });
+    grid.placeUnit(source, 0, 0);
+    grid.placeUnit(target, 1, 0);
+    return { grid, source, target };
+  }
+
+  it('pushes the target straight away from the source', () => {
+    const { grid, source, target } = lineUp([[0, 0, 0, 0, 0]]);
+
+    const move = grid.applyForcedMovement(source, target, { type: 'push', distance: 2 });
+
+    expect(move.path).toEqual([{ x: 2, y: 0 }, { x: 3, y: 0 }]);
+    expect(move.collidedWith).toBeUndefined();
+    expect(grid.getUnitAt(3, 0)).toBe(target);
+    expect(grid.getUnitAt(1, 0)).toBeNull();
+  });
+
+  it('stops a push at walls and other units', () => {
+    const walled = lineUp([[0, 0, 0, 2]]);
+    const intoWall = walled.grid.applyForcedMovement(walled.source, walled.target, { type: 'push', distance: 3 });
+
+    expect(intoWall.path).toEqual([{ x: 2, y: 0 }]);
+    expect(intoWall.collidedWith).toBe('terrain');
+
+    const crowded = lineUp([[0, 0, 0, 0]]);
+    const blocker = makeUnit({ id: 'blocker' });
+    crowded.grid.placeUnit(blocker, 2, 0);
+    const intoUnit = crowded.grid.applyForcedMovement(crowded.source, crowded.target, { type: 'push' });
+
+    expect(intoUnit.path).toEqual([]);
+    expect(intoUnit.collidedWith).toBe(blocker);
+  });
+
+  it('pulls the target in until it is beside the source', () => {
+    const grid = new GridManager(OPEN_5X5, 5, 5);
+    const source = makeUnit({ id: 'source' });
+    const target = makeUnit({ id: 'target', team: 'enemy' });
+    grid.placeUnit(source, 2, 0);
+    grid.placeUnit(target, 2, 3);
+
+    const move = grid.applyForcedMovement(source, target, { type: 'pull', distance: 5 });
+
+    expect(move.path).toEqual([{ x: 2, y: 2 }, { x: 2, y: 1 }]);
+    expect(move.collidedWith).toBeUndefined();
+  });
+
+  it('swaps places only when both units can stand on the other tile', () => {
+    const { grid, source, target } = lineUp([[0, 0]]);
+    const move = grid.applyForcedMovement(source, target, { type: 'swap' });
+
+    expect(move.swappedWith).toBe(source);
+    expect([source.gridX, target.gridX]).toEqual([1, 0]);
+    expect(grid.getUnitAt(0, 0)).toBe(target);
+    expect(grid.getUnitAt(1, 0)).toBe(source);
+
+    const water = lineUp([[0, 5]]);
+    water.target.swimming = true;
+    expect(water.grid.applyForcedMovement(water.source, water.target, { type: 'swap' }).path).toEqual([]);
+  });
+});
+
+describe('getFreeTilesNear', () => {
+  it('returns the nearest free tiles first', () => {
+    const grid = new GridManager(OPEN_5X5, 5, 5);
+    grid.placeUnit(makeUnit({ id: 'caster' }), 2, 2);
+    grid.placeUnit(makeUnit({ id: 'ally' }), 2, 1);
+
+    const tiles = grid.getFreeTilesNear(2, 2, 3, {});
+
+    expect(sortTiles(tiles)).toEqual(['1,2', '2,3', '3,2']);
+  });
+
+  it('skips walls, water and hazards unless the creature can cross them', () => {
+    const grid = new GridManager([[2, 0, 5, 4]], 4, 1);
+
+    expect(grid.getFreeTilesNear(1, 0, 3, {})).toEqual([]);
+    expect(sortTiles(grid.getFreeTilesNear(1, 0, 3, { swimming: true }))).toEqual(['2,0']);
+  });
+});
@@ -1,17 +1,43 @@
 import { GAME_CONFIG } from '../config';
-import { Unit, TerrainType } from '../data/BattleTypes';
+import { Unit, Ability, TerrainType, TerrainRules, ForcedMovement, ForcedMoveResult, Position } from '../data/BattleTypes';
+import { getDamageModifier } from './DamageTypes';
+
+// Extra cost pathfinding gives a hazard tile, so routes go around fire and spikes
+const HAZARD_PATH_PENALTY = 4;
+
+/**
+ * What each terrain kind does in battle
+ */
+export const TERRAIN_RULES: Record<TerrainType, TerrainRules> = {
+  [TerrainType.Normal]: { name: 'Walkable', moveCost: 1 },
+  [TerrainType.Difficult]: { name: 'Difficult', editorColor: 0xffff00, moveCost: 2 },
+  [TerrainType.Impassable]: { name: 'Impassable', editorColor: 0xff0000, moveCost: Infinity, blocksSight: true },
+  [TerrainType.Cover]: { name: 'Cover', editorColor: 0x8b4513, moveCost: 1, rangedDefense: 2 },
+  [TerrainType.Hazard]: { name: 'Hazard', editorColor: 0xff6600, moveCost: 1, hazardDamage: '1d4', hazardDamageType: 'fire' },
+  [TerrainType.Water]: { name: 'Water', editorColor: 0x3399ff, moveCost: 1, swimOnly: true },
+  [TerrainType.HighGround]: { name: 'High Ground', editorColor: 0x66ff66, moveCost: 2, elevation: 1 },
+};
+
+/**
+ * Rules for a terrain value from map data (unknown values count as open ground)
+ */
+export function getTerrainRules(terrain: number): TerrainRules {
+  return TERRAIN_RULES[terrain as TerrainType] ?? TERRAIN_RULES[TerrainType.Normal];
+}
 
 interface GridCell {
   x: number;
   y: number;
   terrain: TerrainType;
+  elevation: number;
   unit: Unit | null;
 }
 
 interface PathNode {
   x: number;
   y: number;
-  g: number; // Cost from start
+  g: number; // Cost from start, including hazard penalties
+  cost: number; // Movement spent from start
   h: number; // Heuristic (Manhattan distance to goal)
   f: number; // Total cost (g + h)
   parent: PathNode | null;
@@ -30,7 +56,12 @@ export class GridManager {
   private width: number;
   private height: number;
 
-  constructor(terrainData: number[][], width: number, height: number) {
+  constructor(
+    terrainData: number[][],
+    width: number,
+    height: number,
+    elevationData?: number[][]
+  ) {
     this.width = width;
     this.height = height;
     this.grid = [];
@@ -43,6 +74,7 @@ export class GridManager {
           x,
           y,
           terrain: (terrainData[y]?.[x] ?? 0) as TerrainType,
+          elevation: elevationData?.[y]?.[x] ?? 0,
           unit: null,
         };
       }
@@ -67,11 +99,32 @@ export class GridManager {
     return cell ? cell.terrain : TerrainType.Impassable;
   }
 
-  isWalkable(x: number, y: number, flying?: boolean): boolean {
+  /**
+   * Change a tile's terrain mid-battle (battle events)
+   */
+  setTerrain(x: number, y: number, terrain: TerrainType): void {
+    const cell = this.getCell(x, y);
+    if (cell) cell.terrain = terrain;
+  }
+
+  /**
+   * Height of a tile: the map's elevation plus whatever its terrain adds
+   */
+  getElevation(x: number, y: number): number {
+    const cell = this.getCell(x, y);
+    return cell ? cell.elevation + (getTerrainRules(cell.terrain).elevation ?? 0) : 0;
+  }
+
+  getTerrainRules(x: number, y: number): TerrainRules {
+    return getTerrainRules(this.getTerrain(x, y));
+  }
+
+  isWalkable(x: number, y: number, flying?: boolean, swimming?: boolean): boolean {
     // Flying units can move over any terrain (except off-map)
     if (flying) return this.isValidPosition(x, y);
-    const terrain = this.getTerrain(x, y);
-    return terrain !== TerrainType.Impassable;
+    const rules = this.getTerrainRules(x, y);
+    if (rules.swimOnly) return !!swimming;
+    return rules.moveCost !== Infinity;
   }
 
   isOccupied(x: number, y: number): boolean {
@@ -112,6 +165,18 @@ export class GridManager {
     this.placeUnit(unit, toX, toY);
   }
 
+  /**
+   * Where a unit stopped partway along a path can stay: the last tile it
+   * reached that no one else stands on (paths can pass through allies)
+   */
+  findStoppingTile(unit: Unit, start: Position, reached: Position[]): Position {
+    for (let i = reached.length - 1; i >= 0; i--) {
+      const occupant = this.getUnitAt(reached[i].x, reached[i].y);
+      if (!occupant || occupant === unit) return reached[i];
+    }
+    return start;
+  }
+
   // ============================================
   // Movement Range Calculation
   // ============================================
@@ -158,7 +223,7 @@ export class GridManager {
         const { x: nx, y: ny } = neighbor;
 
         if (!this.isValidPosition(nx, ny)) continue;
-        if (!this.isWalkable(nx, ny, unit.flying)) continue;
+        if (!this.isWalkable(nx, ny, unit.flying, unit.swimming)) continue;
 
         // Can move through allies and unconscious enemies, but not conscious enemies
         const occupant = this.getUnitAt(nx, ny);
@@ -189,22 +254,12 @@ export class GridManager {
   }
 
   /**
-   * Get movement cost for a tile (for future terrain effects)
+   * Get movement cost for a tile from its terrain rules
    */
   getMoveCost(x: number, y: number, flying?: boolean): number {
     // Flying units ignore terrain costs
     if (flying) return 1;
-    const terrain = this.getTerrain(x, y);
-    switch (terrain) {
-      case TerrainType.Normal:
-        return 1;
-      case TerrainType.Difficult:
-        return 2; // Difficult terrain costs 2 movement
-      case TerrainType.Impassable:
-        return Infinity;
-      default:
-        return 1;
-    }
+    return this.getTerrainRules(x, y).moveCost;
   }
 
   // ============================================
@@ -213,6 +268,8 @@ export class GridManager {
 
   /**
    * Find the shortest path from start to goal using A*
+   * Steers around hazards that would hurt the unit unless that costs more
+   * than maxCost movement
    * Returns array of positions (excluding start, including goal)
    */
   findPath(
@@ -220,12 +277,35 @@ export class GridManager {
     startY: number,
     goalX: number,
     goalY: number,
-    unit: Unit
+    unit: Unit,
+    maxCost: number = Infinity
   ): { x: number; y: number }[] | null {
     if (!this.isValidPosition(goalX, goalY)) return null;
-    if (!this.isWalkable(goalX, goalY, unit.flying)) return null;
+    if (!this.isWalkable(goalX, goalY, unit.flying, unit.swimming)) return null;
     if (this.isOccupied(goalX, goalY)) return null;
 
+    return this.searchPath(startX, startY, goalX, goalY, unit, true, maxCost) ??
+      this.searchPath(startX, startY, goalX, goalY, unit, false, maxCost);
+  }
+
+  /**
+   * Path cost a hazard tile adds for a unit it would hurt
+   */
+  private getHazardPenalty(x: number, y: number, unit: Unit): number {
+    const terrain = this.getTerrainRules(x, y);
+    if (!terrain.hazardDamage || unit.flying) return 0;
+    return getDamageModifier(unit, terrain.hazardDamageType) === 'immune' ? 0 : HAZARD_PATH_PENALTY;
+  }
+
+  private searchPath(
+    startX: number,
+    startY: number,
+    goalX: number,
+    goalY: number,
+    unit: Unit,
+    avoidHazards: boolean,
+    maxCost: number
+  ): { x: number; y: number }[] | null {
     const openSet: PathNode[] = [];
     const closedSet = new Set<string>();
     const key = (x: number, y: number) => `${x},${y}`;
@@ -237,6 +317,7 @@ export class GridManager {
       x: startX,
       y: startY,
       g: 0,
+      cost: 0,
       h: heuristic(startX, startY),
       f: heuristic(startX, startY),
       parent: null,
@@ -275,7 +356,7 @@ export class GridManager {
         const { x: nx, y: ny } = neighbor;
 
         if (!this.isValidPosition(nx, ny)) continue;
-        if (!this.isWalkable(nx, ny, unit.flying)) continue;
+        if (!this.isWalkable(nx, ny, unit.flying, unit.swimming)) continue;
         if (closedSet.has(key(nx, ny))) continue;
 
         // Can move through allies and unconscious enemies (matching getMovementRange logic)
@@ -287,7 +368,9 @@ export class GridManager {
         }
 
         const moveCost = this.getMoveCost(nx, ny, unit.flying);
-        const tentativeG = current.g + moveCost;
+        const cost = current.cost + moveCost;
+        if (cost > maxCost) continue;
+        const tentativeG = current.g + moveCost + (avoidHazards ? this.getHazardPenalty(nx, ny, unit) : 0);
 
         // Check if already in open set with better score
         const existingIndex = openSet.findIndex(n => n.x === nx && n.y === ny);
@@ -301,6 +384,7 @@ export class GridManager {
           x: nx,
           y: ny,
           g: tentativeG,
+          cost,
           h,
           f: tentativeG + h,
           parent: current,
@@ -374,6 +458,222 @@ export class GridManager {
     );
   }
 
+  // ============================================
+  // Line of Sight
+  // ============================================
+
+  /**
+   * Check if nothing impassable stands between two tiles
+   * Walks every tile the line between the tile centers crosses (the end tiles
+   * themselves never block). A line through a corner is only blocked when
+   * both tiles beside the corner are.
+   */
+  hasLineOfSight(fromX: number, fromY: number, toX: number, toY: number): boolean {
+    const nx = Math.abs(toX - fromX);
+    const ny = Math.abs(toY - fromY);
+    const stepX = Math.sign(toX - fromX);
+    const stepY = Math.sign(toY - fromY);
+
+    let x = fromX;
+    let y = fromY;
+    let ix = 0;
+    let iy = 0;
+
+    while (ix < nx || iy < ny) {
+      // Which tile edge the line crosses next: < 0 vertical, > 0 horizontal, 0 a corner
+      const crossing = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+
+      if (crossing === 0) {
+        if (this.blocksSight(x + stepX, y) && this.blocksSight(x, y + stepY)) return false;
+        x += stepX;
+        y += stepY;
+        ix++;
+        iy++;
+      } else if (crossing < 0) {
+        x += stepX;
+        ix++;
+      } else {
+        y += stepY;
+        iy++;
+      }
+
+      if ((x !== toX || y !== toY) && this.blocksSight(x, y)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check if an ability used from one tile reaches another: within range and,
+   * unless the ability ignores it, in line of sight
+   */
+  canTargetTile(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    ability: Ability
+  ): boolean {
+    if (this.getDistance(fromX, fromY, toX, toY) > ability.range) return false;
+    return !!ability.ignoresLineOfSight || this.hasLineOfSight(fromX, fromY, toX, toY);
+  }
+
+  private blocksSight(x: number, y: number): boolean {
+    return !!this.getTerrainRules(x, y).blocksSight;
+  }
+
+  // ============================================
+  // Positional Advantage
+  // ============================================
+
+  /**
+   * Check if an attacker flanks a defender: adjacent, with a conscious
+   * ally of the attacker on the tile directly opposite
+   */
+  isFlanking(attacker: Unit, defender: Unit): boolean {
+    const dx = defender.gridX - attacker.gridX;
+    const dy = defender.gridY - attacker.gridY;
+    if (Math.abs(dx) + Math.abs(dy) !== 1) return false;
+
+    const partner = this.getUnitAt(defender.gridX + dx, defender.gridY + dy);
+    return !!partner &&
+      partner !== attacker &&
+      partner.team === attacker.team &&
+      !partner.isUnconscious;
+  }
+
+  /**
+   * Check if an attacker stands on higher ground than a defender
+   */
+  hasHigherGround(attacker: Unit, defender: Unit): boolean {
+    return this.getElevation(attacker.gridX, attacker.gridY) >
+      this.getElevation(defender.gridX, defender.gridY);
+  }
+
+  /**
+   * Defense bonus the defender's terrain gives against this attacker
+   * Cover only helps against attacks from beyond melee reach
+   */
+  getCoverBonus(attacker: Unit, defender: Unit): number {
+    if (this.getDistance(attacker.gridX, attacker.gridY, defender.gridX, defender.gridY) <= 1) return 0;
+    return this.getTerrainRules(defender.gridX, defender.gridY).rangedDefense ?? 0;
+  }
+
+  /**
+   * Damage dice dealt to units entering or starting their turn on a tile
+   */
+  getHazardDamage(x: number, y: number): string | undefined {
+    return this.getTerrainRules(x, y).hazardDamage;
+  }
+
+  // ============================================
+  // Forced Movement (push, pull, swap)
+  // ============================================
+
+  /**
+   * Tiles a push or pull would move the target through, in a straight line
+   * along the axis between it and the source. Stops early at the map edge,
+   * terrain the target can't enter or another unit (returned as blockedBy);
+   * a pull simply stops beside the source.
+   */
+  getForcedMovePath(
+    source: Unit,
+    target: Unit,
+    movement: ForcedMovement
+  ): { path: Position[]; blockedBy?: Unit | 'terrain' } {
+    const dx = target.gridX - source.gridX;
+    const dy = target.gridY - source.gridY;
+    if (movement.type === 'swap' || (dx === 0 && dy === 0)) return { path: [] };
+
+    // One step along the dominant axis, away from the source for a push
+    const away = movement.type === 'push' ? 1 : -1;
+    const stepX = Math.abs(dx) >= Math.abs(dy) ? Math.sign(dx) * away : 0;
+    const stepY = stepX === 0 ? Math.sign(dy) * away : 0;
+
+    const path: Position[] = [];
+    let x = target.gridX;
+    let y = target.gridY;
+    for (let i = 0; i < (movement.distance ?? 1); i++) {
+      const next = { x: x + stepX, y: y + stepY };
+      if (next.x === source.gridX && next.y === source.gridY) break;
+      if (!this.isValidPosition(next.x, next.y) ||
+          !this.isWalkable(next.x, next.y, target.flying, target.swimming)) {
+        return { path, blockedBy: 'terrain' };
+      }
+      const occupant = this.getUnitAt(next.x, next.y);
+      if (occupant && occupant !== target) {
+        return { path, blockedBy: occupant };
+      }
+      path.push(next);
+      x = next.x;
+      y = next.y;
+    }
+    return { path };
+  }
+
+  /**
+   * Move the target by a push, pull or swap (updating occupancy)
+   * A swap only happens when each unit can stand on the other's tile
+   */
+  applyForcedMovement(source: Unit, target: Unit, movement: ForcedMovement): ForcedMoveResult {
+    const from = { x: target.gridX, y: target.gridY };
+
+    if (movement.type === 'swap') {
+      const canSwap =
+        this.isWalkable(source.gridX, source.gridY, target.flying, target.swimming) &&
+        this.isWalkable(target.gridX, target.gridY, source.flying, source.swimming);
+      if (!canSwap) return { unit: target, type: 'swap', from, path: [] };
+
+      const to = { x: source.gridX, y: source.gridY };
+      this.removeUnit(source);
+      this.placeUnit(target, to.x, to.y);
+      this.placeUnit(source, from.x, from.y);
+      return { unit: target, type: 'swap', from, path: [to], swappedWith: source };
+    }
+
+    const { path, blockedBy } = this.getForcedMovePath(source, target, movement);
+    const end = path[path.length - 1];
+    if (end) {
+      this.moveUnit(target, end.x, end.y);
+    }
+    return { unit: target, type: movement.type, from, path, collidedWith: blockedBy };
+  }
+
+  // ============================================
+  // Summoning
+  // ============================================
+
+  /**
+   * Up to count free tiles within maxDistance of (x, y) that a creature can
+   * stand on, nearest first. Hazards are skipped so summons don't arrive
+   * already burning.
+   */
+  getFreeTilesNear(
+    x: number,
+    y: number,
+    count: number,
+    creature: { flying?: boolean; swimming?: boolean },
+    maxDistance: number = 2
+  ): Position[] {
+    const tiles: Position[] = [];
+
+    for (let ty = y - maxDistance; ty <= y + maxDistance; ty++) {
+      for (let tx = x - maxDistance; tx <= x + maxDistance; tx++) {
+        const distance = this.getDistance(x, y, tx, ty);
+        if (distance === 0 || distance > maxDistance) continue;
+        if (!this.isValidPosition(tx, ty) || this.isOccupied(tx, ty)) continue;
+        if (!this.isWalkable(tx, ty, creature.flying, creature.swimming)) continue;
+        if (this.getHazardDamage(tx, ty)) continue;
+        tiles.push({ x: tx, y: ty });
+      }
+    }
+
+    // Stable sort keeps row order between tiles at the same distance
+    return tiles
+      .sort((a, b) => this.getDistance(x, y, a.x, a.y) - this.getDistance(x, y, b.x, b.y))
+      .slice(0, count);
+  }
+
   // ============================================
   // Coordinate Conversion
   // ============================================
@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { InventoryManager } from './InventoryManager';
+import { SaveManager } from './SaveManager';
+import { CONSUMABLE_IDS, EQUIPMENT_IDS } from '../data/ItemTypes';
+import { itemsData } from '../test/helpers';
+
+function createInventory(): InventoryManager {
+  return new InventoryManager(
+    SaveManager.createInitialInventory(),
+    SaveManager.createInitialHeroState()
+  );
+}
+
+beforeAll(() => {
+  InventoryManager.setItemsData(itemsData);
+});
+
+describe('InventoryManager', () => {
+  describe('addItem', () => {
+    it.each(CONSUMABLE_IDS.map(id => [id]))('adds consumable %s to the bag', (itemId) => {
+      const inventory = createInventory();
+      expect(inventory.addItem(itemId)).toBe(true);
+      expect(inventory.getConsumableCount(itemId)).toBe(1);
+    });
+
+    it.each(EQUIPMENT_IDS.map(id => [id]))('adds equipment %s as obtained and unequipped', (itemId) => {
+      const inventory = createInventory();
+      expect(inventory.addItem(itemId)).toBe(true);
+      expect(inventory.hasObtainedEquipment(itemId)).toBe(true);
+      expect(inventory.getUnequippedEquipment().map(e => e.itemId)).toEqual([itemId]);
+    });
+
+    it('stores damage runes until used', () => {
+      const inventory = createInventory();
+      inventory.addItem('damage_rune');
+      expect(inventory.getDamageRuneCount()).toBe(1);
+    });
+
+    it('rejects unknown items', () => {
+      const inventory = createInventory();
+      expect(inventory.addItem('vorpal_sword')).toBe(false);
+    });
+
+    it('does not duplicate equipment', () => {
+      const inventory = createInventory();
+      inventory.addItem('wardstone');
+      inventory.addItem('wardstone');
+      expect(inventory.getUnequippedEquipment()).toHaveLength(1);
+    });
+  });
+
+  it('has a definition for every consumable and equipment ID', () => {
+    for (const itemId of [...CONSUMABLE_IDS, ...EQUIPMENT_IDS]) {
+      expect(InventoryManager.getItem(itemId)?.id).toBe(itemId);
+    }
+  });
+
+  describe('consumables', () => {
+    it('removes consumables only when enough are held', () => {
+      const inventory = createInventory();
+      inventory.addConsumable('healing_potion', 2);
+
+      expect(inventory.removeConsumable('healing_potion', 3)).toBe(false);
+      expect(inventory.removeConsumable('healing_potion', 2)).toBe(true);
+      expect(inventory.getConsumableCount('healing_potion')).toBe(0);
+      expect(inventory.hasAnyConsumables()).toBe(false);
+    });
+
+    it('lists only consumables that are in stock', () => {
+      const inventory = createInventory();
+      inventory.addConsumable('antidote');
+
+      expect(inventory.getAvailableConsumables().map(c => c.itemId)).toEqual(['antidote']);
+    });
+  });
+
+  describe('equipment', () => {
+    it('equips from the unequipped pool', () => {
+      const inventory = createInventory();
+      inventory.addEquipment('bloodstone');
+
+      expect(inventory.equipToHero('bloodstone', 'thump')).toBe(true);
+      expect(inventory.getHeroEquipment('thump')?.id).toBe('bloodstone');
+      expect(inventory.getUnequippedEquipment()).toEqual([]);
+    });
+
+    it('swaps the previously equipped item back into the pool', () => {
+      const inventory = createInventory();
+      inventory.addEquipment('bloodstone');
+      inventory.addEquipment('wardstone');
+      inventory.equipToHero('bloodstone', 'thump');
+
+      inventory.equipToHero('wardstone', 'thump');
+
+      expect(inventory.getHeroEquipment('thump')?.id).toBe('wardstone');
+      expect(inventory.getUnequippedEquipment().map(e => e.itemId)).toEqual(['bloodstone']);
+    });
+
+    it('cannot equip items that are not in the pool', () => {
+      const inventory = createInventory();
+      expect(inventory.equipToHero('swift_anklet', 'lyra')).toBe(false);
+    });
+
+    it('unequips back into the pool', () => {
+      const inventory = createInventory();
+      inventory.addEquipment('swift_anklet');
+      inventory.equipToHero('swift_anklet', 'lyra');
+
+      expect(inventory.unequipFromHero('lyra')).toBe(true);
+      expect(inventory.unequipFromHero('lyra')).toBe(false);
+      expect(inventory.getUnequippedEquipment().map(e => e.itemId)).toEqual(['swift_anklet']);
+    });
+  });
+
+  describe('damage runes', () => {
+    it('moves a rune from the bag to the hero damage bonus', () => {
+      const inventory = createInventory();
+      inventory.addItem('damage_rune');
+
+      expect(inventory.useDamageRune('azrael')).toBe(true);
+      expect(inventory.getDamageRuneCount()).toBe(0);
+      expect(inventory.getHeroDamageBonus('azrael')).toBe(1);
+    });
+
+    it('does nothing without a rune', () => {
+      const inventory = createInventory();
+      expect(inventory.useDamageRune('azrael')).toBe(false);
+      expect(inventory.getHeroDamageBonus('azrael')).toBe(0);
+    });
+  });
+});
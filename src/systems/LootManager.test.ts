@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { LootManager } from './LootManager';
+import { InventoryManager } from './InventoryManager';
+import { SaveManager } from './SaveManager';
+import { EQUIPMENT_IDS } from '../data/ItemTypes';
+import { itemsData } from '../test/helpers';
+
+function createLootManager(seed?: number): { loot: LootManager; inventory: InventoryManager } {
+  const inventory = new InventoryManager(
+    SaveManager.createInitialInventory(),
+    SaveManager.createInitialHeroState()
+  );
+  return { loot: new LootManager({}, inventory, seed), inventory };
+}
+
+beforeAll(() => {
+  InventoryManager.setItemsData(itemsData);
+});
+
+describe('LootManager', () => {
+  // Loot weights in items.json add up to 100, so each roll maps onto a
+  // cumulative band: potion 0-22, dendritium 22-40, antidote 40-52, tears 52-60,
+  // rune 60-75, then 5 per equipment item
+  it.each([
+    [0.1, 'healing_potion'],
+    [0.3, 'distilled_dendritium'],
+    [0.45, 'antidote'],
+    [0.55, 'celestial_tears'],
+    [0.7, 'damage_rune'],
+    [0.78, 'ambushers_ring'],
+    [0.83, 'healers_pendant'],
+    [0.88, 'wardstone'],
+    [0.93, 'swift_anklet'],
+    [0.99, 'bloodstone'],
+  ])('a roll of %f draws %s', (roll, itemId) => {
+    const { loot } = createLootManager();
+    expect(loot.generateLoot(() => roll)?.itemId).toBe(itemId);
+  });
+
+  it('never draws equipment that was already obtained', () => {
+    const { loot, inventory } = createLootManager();
+    for (const itemId of EQUIPMENT_IDS) {
+      inventory.addEquipment(itemId);
+    }
+
+    expect(loot.getAvailableEquipment()).toEqual([]);
+    expect(loot.generateLoot(() => 0.999)?.itemId).toBe('damage_rune');
+  });
+
+  it('puts opened loot in the inventory and only opens a chest once', () => {
+    const { loot, inventory } = createLootManager(1234);
+
+    const result = loot.openChest('chest_1');
+
+    expect(result).not.toBeNull();
+    expect(loot.isChestOpened('chest_1')).toBe(true);
+    expect(loot.openChest('chest_1')).toBeNull();
+
+    if (result!.item.type === 'equipment') {
+      expect(inventory.hasObtainedEquipment(result!.itemId)).toBe(true);
+    }
+  });
+
+  it('gives the same chest the same contents for the same seed', () => {
+    const first = createLootManager(42).loot;
+    const second = createLootManager(42).loot;
+
+    // Opening order must not matter with a seed
+    first.preGenerateChestContents('chest_a');
+    first.preGenerateChestContents('chest_b');
+    second.preGenerateChestContents('chest_b');
+    second.preGenerateChestContents('chest_a');
+
+    expect(first.getChestContents('chest_a')).toEqual(second.getChestContents('chest_a'));
+    expect(first.getChestContents('chest_b')).toEqual(second.getChestContents('chest_b'));
+  });
+
+  it('opens pre-generated contents', () => {
+    const { loot } = createLootManager(7);
+    loot.preGenerateChestContents('chest_1');
+    const contents = loot.getChestContents('chest_1');
+
+    expect(loot.openChest('chest_1')?.item).toEqual(contents);
+  });
+});
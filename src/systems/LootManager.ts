@@ -7,17 +7,30 @@ import {
   EQUIPMENT_IDS,
 } from '../data/ItemTypes';
 import { InventoryManager } from './InventoryManager';
+import {
+  RandomSource,
+  createSeededRandom,
+  deriveSeed,
+  getRandomSource,
+} from './DiceRoller';
 
 export class LootManager {
   private chestStates: Record<string, ChestState>;
   private inventoryManager: InventoryManager;
+  private seed: number | undefined;
 
+  /**
+   * @param seed - Optional save seed; when set, each chest's contents depend
+   *               only on the seed and chest ID (not on roll order)
+   */
   constructor(
     chestStates: Record<string, ChestState>,
-    inventoryManager: InventoryManager
+    inventoryManager: InventoryManager,
+    seed?: number
   ) {
     this.chestStates = chestStates ?? {};
     this.inventoryManager = inventoryManager;
+    this.seed = seed;
   }
 
   // ==========================================================================
@@ -28,7 +41,7 @@ export class LootManager {
    * Generate a random item from the loot pool
    * Prevents duplicate equipment drops
    */
-  generateLoot(): LootResult | null {
+  generateLoot(random: RandomSource = getRandomSource()): LootResult | null {
     const allItems = this.getAvailableLootPool();
 
     if (allItems.length === 0) {
@@ -40,7 +53,7 @@ export class LootManager {
     const totalWeight = allItems.reduce((sum, item) => sum + item.lootWeight, 0);
 
     // Roll for item
-    let roll = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
 
     for (const item of allItems) {
       roll -= item.lootWeight;
@@ -59,6 +72,15 @@ export class LootManager {
     };
   }
 
+  /**
+   * Get the random source for a chest (seeded per chest when a save seed is set)
+   */
+  private getChestRandom(chestId: string): RandomSource {
+    return this.seed !== undefined
+      ? createSeededRandom(deriveSeed(this.seed, chestId))
+      : getRandomSource();
+  }
+
   /**
    * Get available loot pool (excludes already-obtained equipment)
    */
@@ -112,7 +134,7 @@ export class LootManager {
     let contents = this.chestStates[chestId]?.contents;
 
     if (!contents) {
-      const loot = this.generateLoot();
+      const loot = this.generateLoot(this.getChestRandom(chestId));
       if (!loot) {
         console.warn(`Failed to generate loot for chest ${chestId}`);
         return null;
@@ -158,7 +180,7 @@ export class LootManager {
       return; // Already generated
     }
 
-    const loot = this.generateLoot();
+    const loot = this.generateLoot(this.getChestRandom(chestId));
     if (loot) {
       this.chestStates[chestId] = {
         opened: false,
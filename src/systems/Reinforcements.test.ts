@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { findArrivalTile, getEntryFacing, getEntryTiles, nextEnemyId } from './Reinforcements';
+import { GridManager } from './GridManager';
+import { makeUnit } from '../test/helpers';
+
+const config = {
+  gridWidth: 5,
+  gridHeight: 4,
+  spawnPoints: [{ id: 'cave_mouth', x: 4, y: 3 }],
+};
+
+describe('getEntryTiles', () => {
+  it('works out from the middle of a map edge', () => {
+    const tiles = getEntryTiles('north', config);
+
+    expect(tiles.slice(0, 5)).toEqual([
+      { x: 2, y: 0 }, { x: 1, y: 0 }, { x: 3, y: 0 }, { x: 0, y: 0 }, { x: 4, y: 0 },
+    ]);
+    expect(tiles[5]).toEqual({ x: 2, y: 1 });
+  });
+
+  it('starts at a spawn point and spreads around it on the map', () => {
+    const tiles = getEntryTiles('cave_mouth', config);
+
+    expect(tiles[0]).toEqual({ x: 4, y: 3 });
+    expect(tiles.slice(1, 3)).toEqual([{ x: 4, y: 2 }, { x: 3, y: 3 }]);
+    expect(tiles.every(t => t.x < 5 && t.y < 4)).toBe(true);
+  });
+
+  it('has nowhere to offer for an unknown spawn point', () => {
+    expect(getEntryTiles('nowhere', config)).toEqual([]);
+  });
+});
+
+describe('findArrivalTile', () => {
+  it('skips occupied, impassable and hazardous tiles', () => {
+    // 0 = normal, 2 = impassable, 4 = hazard
+    const grid = new GridManager([[0, 2, 4, 0]], 4, 1);
+    grid.placeUnit(makeUnit(), 0, 0);
+    const tiles = [0, 1, 2, 3].map(x => ({ x, y: 0 }));
+
+    expect(findArrivalTile(tiles, grid, {})).toEqual({ x: 3, y: 0 });
+    expect(findArrivalTile(tiles.slice(0, 3), grid, {})).toBeNull();
+  });
+});
+
+describe('getEntryFacing', () => {
+  it('faces into the map from an edge', () => {
+    expect(getEntryFacing('east', 'north')).toBe('west');
+    expect(getEntryFacing('cave_mouth', 'north')).toBe('north');
+  });
+});
+
+describe('nextEnemyId', () => {
+  it('continues the numbering from the initial placements', () => {
+    const units = [
+      makeUnit({ id: 'imp_1', dataId: 'imp', team: 'enemy' }),
+      makeUnit({ id: 'imp_2', dataId: 'imp', team: 'enemy' }),
+      makeUnit({ id: 'imp_summon_1', dataId: 'imp', team: 'enemy', summonerId: 'imp_1' }),
+    ];
+
+    expect(nextEnemyId('imp', units)).toBe('imp_3');
+    expect(nextEnemyId('ogre', units)).toBe('ogre_1');
+  });
+});
@@ -0,0 +1,112 @@
+// Reinforcements - placing enemies that join a battle mid-fight
+//
+// Reinforcement waves and battle events (see BattleEvents) can bring in
+// enemies. The engine decides when they are due; BattleScene and the
+// simulator place them with the helpers here, either along a map edge or
+// around a named spawn point.
+
+import { BattleConfig, EnemyData, MapEdge, Position, Unit } from '../data/BattleTypes';
+import { GridManager } from './GridManager';
+
+// How far from a spawn point arrivals spread when it is crowded
+export const SPAWN_RADIUS = 2;
+
+// How many rows in from a map edge arrivals can appear
+const EDGE_DEPTH = 2;
+
+const MAP_EDGES: MapEdge[] = ['north', 'south', 'east', 'west'];
+
+// Units arriving from an edge face into the map
+const EDGE_FACING: Record<MapEdge, Unit['facing']> = {
+  north: 'south',
+  south: 'north',
+  east: 'west',
+  west: 'east',
+};
+
+export function isMapEdge(from: string): from is MapEdge {
+  return (MAP_EDGES as string[]).includes(from);
+}
+
+/**
+ * Tiles a wave can arrive on, best first: a spawn point and the tiles around
+ * it, or the strip along a map edge working out from its middle
+ */
+export function getEntryTiles(
+  from: string,
+  config: Pick<BattleConfig, 'gridWidth' | 'gridHeight' | 'spawnPoints'>
+): Position[] {
+  const { gridWidth, gridHeight } = config;
+  const tiles: Position[] = [];
+
+  if (isMapEdge(from)) {
+    const vertical = from === 'east' || from === 'west';
+    const length = vertical ? gridHeight : gridWidth;
+    const middle = Math.floor(length / 2);
+
+    for (let depth = 0; depth < EDGE_DEPTH; depth++) {
+      const row: Position[] = [];
+      for (let i = 0; i < length; i++) {
+        switch (from) {
+          case 'north': row.push({ x: i, y: depth }); break;
+          case 'south': row.push({ x: i, y: gridHeight - 1 - depth }); break;
+          case 'west': row.push({ x: depth, y: i }); break;
+          case 'east': row.push({ x: gridWidth - 1 - depth, y: i }); break;
+        }
+      }
+      const offset = (tile: Position) => Math.abs((vertical ? tile.y : tile.x) - middle);
+      tiles.push(...row.sort((a, b) => offset(a) - offset(b)));
+    }
+    return tiles;
+  }
+
+  const point = config.spawnPoints?.find((p) => p.id === from);
+  if (!point) {
+    console.warn(`Unknown reinforcement entry: ${from}`);
+    return [];
+  }
+
+  for (let y = point.y - SPAWN_RADIUS; y <= point.y + SPAWN_RADIUS; y++) {
+    for (let x = point.x - SPAWN_RADIUS; x <= point.x + SPAWN_RADIUS; x++) {
+      const distance = Math.abs(x - point.x) + Math.abs(y - point.y);
+      if (distance > SPAWN_RADIUS) continue;
+      if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) continue;
+      tiles.push({ x, y });
+    }
+  }
+
+  // Stable sort keeps row order between tiles at the same distance
+  const distance = (tile: Position) => Math.abs(tile.x - point.x) + Math.abs(tile.y - point.y);
+  return tiles.sort((a, b) => distance(a) - distance(b));
+}
+
+/**
+ * First entry tile the creature can stand on (free, walkable, not hazardous)
+ */
+export function findArrivalTile(
+  tiles: Position[],
+  grid: GridManager,
+  creature: Pick<EnemyData, 'flying' | 'swimming'>
+): Position | null {
+  return tiles.find((tile) =>
+    grid.isValidPosition(tile.x, tile.y) &&
+    !grid.isOccupied(tile.x, tile.y) &&
+    grid.isWalkable(tile.x, tile.y, creature.flying, creature.swimming) &&
+    !grid.getHazardDamage(tile.x, tile.y)
+  ) ?? null;
+}
+
+/**
+ * Which way arrivals face: into the map from an edge, otherwise the battle's enemy facing
+ */
+export function getEntryFacing(from: string, fallback: Unit['facing']): Unit['facing'] {
+  return isMapEdge(from) ? EDGE_FACING[from] : fallback;
+}
+
+/**
+ * Instance ID continuing the battle's numbering, e.g. a fourth imp is "imp_4"
+ */
+export function nextEnemyId(dataId: string, units: Unit[]): string {
+  const count = units.filter((u) => u.dataId === dataId && !u.summonerId).length;
+  return `${dataId}_${count + 1}`;
+}
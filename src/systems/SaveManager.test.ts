@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SaveData, SaveManager } from './SaveManager';
+
+/**
+ * In-memory stand-in for the browser's localStorage
+ */
+function memoryStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: (key) => { items.delete(key); },
+  };
+}
+
+function makeSave(slot: number, overrides: Partial<SaveData> = {}): SaveData {
+  return {
+    slot,
+    mainHero: 'thump',
+    currentMap: 'ishetar_town',
+    playerPosition: { x: 15, y: 15 },
+    playTime: 600,
+    heroState: SaveManager.createInitialHeroState(),
+    flags: {},
+    timestamp: '',
+    rngSeed: 7,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Ironman saves', () => {
+  it('are marked in the slot previews', () => {
+    SaveManager.save(makeSave(1));
+    SaveManager.autoSave(makeSave(2));
+
+    const previews = SaveManager.getAllSlotPreviews();
+
+    expect(previews.map(p => p.ironman)).toEqual([false, true, undefined]);
+    expect(previews[2].isEmpty).toBe(true);
+  });
+
+  it('load old saves as normal mode', () => {
+    // Written before Ironman existed, so no ironman field
+    localStorage.setItem('ishetar_save_1', JSON.stringify(makeSave(1)));
+
+    expect(SaveManager.load(1)?.ironman).toBe(false);
+  });
+});
+
+describe('findEmptySlot', () => {
+  it('returns the first free slot', () => {
+    SaveManager.save(makeSave(1));
+    SaveManager.save(makeSave(3));
+
+    expect(SaveManager.findEmptySlot()).toBe(2);
+  });
+
+  it('returns null when every slot is taken', () => {
+    [1, 2, 3].forEach(slot => SaveManager.save(makeSave(slot)));
+
+    expect(SaveManager.findEmptySlot()).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import {
   createDefaultInventory,
   createDefaultPermanentBonuses,
 } from '../data/ItemTypes';
+import { generateSeed } from './DiceRoller';
 
 export interface HeroState {
   xp: number;
@@ -29,6 +30,8 @@ export interface SaveData {
   timestamp: string;
   inventory?: InventoryState; // party-wide inventory
   chests?: Record<string, ChestState>; // chest states by chest ID
+  rngSeed?: number; // campaign RNG seed (battle and chest seeds derive from it)
+  ironman?: boolean; // Ironman campaign: auto-saved to this slot only, fallen heroes are gone for good
 }
 
 export interface SaveSlotPreview {
@@ -39,6 +42,7 @@ export interface SaveSlotPreview {
   playTime?: number;
   location?: string;
   timestamp?: string;
+  ironman?: boolean;
 }
 
 const SAVE_KEY_PREFIX = 'ishetar_save_';
@@ -190,6 +194,8 @@ export class SaveManager {
       heroState: this.migrateHeroState(saveData.heroState),
       inventory: saveData.inventory ?? createDefaultInventory(),
       chests: saveData.chests ?? {},
+      rngSeed: saveData.rngSeed ?? generateSeed(),
+      ironman: saveData.ironman ?? false,
     };
   }
 
@@ -208,6 +214,13 @@ export class SaveManager {
     }
   }
 
+  /**
+   * Record an Ironman campaign to its slot (after every battle and shrine visit)
+   */
+  static autoSave(saveData: SaveData): boolean {
+    return this.save({ ...saveData, ironman: true });
+  }
+
   /**
    * Load game from a specific slot (auto-migrates old save formats)
    */
@@ -247,6 +260,17 @@ export class SaveManager {
     return localStorage.getItem(key) !== null;
   }
 
+  /**
+   * First empty save slot, or null when all are taken
+   * An Ironman campaign claims one when it starts
+   */
+  static findEmptySlot(): number | null {
+    for (let slot = 1; slot <= MAX_SLOTS; slot++) {
+      if (!this.exists(slot)) return slot;
+    }
+    return null;
+  }
+
   /**
    * Get preview info for all save slots
    */
@@ -268,6 +292,7 @@ export class SaveManager {
           playTime: saveData.playTime,
           location: saveData.currentMap,
           timestamp: saveData.timestamp,
+          ironman: saveData.ironman,
         });
       }
     }
@@ -301,6 +326,7 @@ export class SaveManager {
       'oracle_shrine': "Oracle's Shrine",
       'quetzi_shrine_exploration': 'Quetzi Shrine',
       'hell_hound_den': 'Hell Hound Den',
+      'world_map': 'World Map',
     };
     return mapNames[mapId] || mapId;
   }
@@ -0,0 +1,178 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  applyStatusEffect,
+  breakStatusEffects,
+  getEffectiveStat,
+  getMovementAllowance,
+  getStatusColor,
+  isNegativeStatus,
+  runStatusHook,
+  setStatusEffectDefinitions,
+  tickStatusEffects,
+} from './StatusEffects';
+import { resetRandomSource } from './DiceRoller';
+import { makeUnit, queueRolls, statusEffectsData } from '../test/helpers';
+
+beforeAll(() => {
+  setStatusEffectDefinitions(statusEffectsData);
+});
+
+afterEach(() => {
+  resetRandomSource();
+});
+
+describe('definitions', () => {
+  it('loads every status from status_effects.json', () => {
+    expect(getStatusColor('poison')).toBe(0x00ff00);
+    expect(getStatusColor('unconscious')).toBeUndefined(); // Not drawn
+    expect(isNegativeStatus('held')).toBe(true);
+    expect(isNegativeStatus('blessed')).toBe(false);
+  });
+});
+
+describe('applyStatusEffect', () => {
+  it('replaces an existing status by default', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'poison', duration: 4, value: 3 }] });
+    applyStatusEffect(unit, { type: 'poison', duration: 2, value: 1 });
+
+    expect(unit.statusEffects).toEqual([{ type: 'poison', duration: 2, value: 1 }]);
+  });
+
+  it('refreshes to the longer duration for refresh statuses', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'slowed', duration: 3 }] });
+    applyStatusEffect(unit, { type: 'slowed', duration: 1 });
+
+    expect(unit.statusEffects).toEqual([{ type: 'slowed', duration: 3 }]);
+  });
+});
+
+describe('runStatusHook', () => {
+  it('deals turn-start damage through the handler', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'poison', duration: 2, value: 3 }] });
+    const damage: number[] = [];
+    const log: string[] = [];
+
+    runStatusHook(unit, 'onTurnStart', { damage: (amount) => damage.push(amount), log: (m) => log.push(m) });
+
+    expect(damage).toEqual([3]);
+    expect(log).toEqual([`${unit.name} takes 3 poison damage!`]);
+  });
+
+  it('rolls damage given as dice', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'burning', duration: 2 }] });
+    const damage: number[] = [];
+    queueRolls([[4, 3]]);
+
+    runStatusHook(unit, 'onTurnEnd', { damage: (amount) => damage.push(amount) });
+
+    expect(damage).toEqual([3]);
+  });
+
+  it('reports the status that skips the turn', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'held', duration: 1 }] });
+    expect(runStatusHook(unit, 'onTurnStart')).toEqual({ skipReason: 'held' });
+  });
+
+  it('removes a status from its own hook', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'exposed', duration: 1 }] });
+    runStatusHook(unit, 'onAttacked');
+
+    expect(unit.statusEffects).toEqual([]);
+  });
+});
+
+describe('tickStatusEffects', () => {
+  it('only ticks statuses on their own tick', () => {
+    const unit = makeUnit({
+      statusEffects: [
+        { type: 'held', duration: 1 },
+        { type: 'burning', duration: 2 },
+        { type: 'unconscious', duration: -1 },
+      ],
+    });
+    const log: string[] = [];
+
+    const expired = tickStatusEffects(unit, 'turn_start', { log: (m) => log.push(m) });
+
+    expect(expired.map(e => e.type)).toEqual(['held']);
+    expect(log).toEqual([`${unit.name} is no longer held.`]);
+    expect(unit.statusEffects).toEqual([
+      { type: 'burning', duration: 2 },
+      { type: 'unconscious', duration: -1 },
+    ]);
+
+    tickStatusEffects(unit, 'turn_end');
+    expect(unit.statusEffects[0]).toEqual({ type: 'burning', duration: 1 });
+  });
+
+  it('names a status without an onExpire hook by its display name', () => {
+    const unit = makeUnit({ statusEffects: [{ type: 'slowed', duration: 1 }] });
+    const log: string[] = [];
+
+    tickStatusEffects(unit, 'turn_start', { log: (m) => log.push(m) });
+
+    expect(log).toEqual([`${unit.name}'s Slowed effect has worn off.`]);
+  });
+});
+
+describe('breakStatusEffects', () => {
+  it('ends statuses whose definition breaks on the event', () => {
+    const unit = makeUnit({
+      statusEffects: [{ type: 'hidden', duration: -1 }, { type: 'barkskin', duration: 3 }],
+    });
+    const log: string[] = [];
+
+    breakStatusEffects(unit, 'move');
+    expect(unit.statusEffects).toHaveLength(2);
+
+    const broken = breakStatusEffects(unit, 'damage_taken', { log: (m) => log.push(m) });
+
+    expect(broken.map(e => e.type)).toEqual(['hidden']);
+    expect(unit.statusEffects).toEqual([{ type: 'barkskin', duration: 3 }]);
+    expect(log).toEqual([`${unit.name} is no longer hidden.`]);
+  });
+
+  it('prefers the triggers set on the effect itself', () => {
+    const unit = makeUnit({
+      statusEffects: [{ type: 'hidden', duration: -1, breaksOn: ['adjacent_enemy'] }],
+    });
+
+    breakStatusEffects(unit, 'attack');
+    expect(unit.statusEffects).toHaveLength(1);
+
+    breakStatusEffects(unit, 'adjacent_enemy');
+    expect(unit.statusEffects).toEqual([]);
+  });
+});
+
+describe('modifiers', () => {
+  it('applies stat modifiers from statuses', () => {
+    const unit = makeUnit({
+      attack: 3,
+      speed: 4,
+      statusEffects: [{ type: 'blessed', duration: 2 }, { type: 'slowed', duration: 2 }],
+    });
+
+    expect(getEffectiveStat(unit, 'attack')).toBe(4);
+    expect(getEffectiveStat(unit, 'speed')).toBe(2);
+  });
+
+  it("resizes only a status's primary stat by its value", () => {
+    const unit = makeUnit({ speed: 4, statusEffects: [{ type: 'slowed', duration: 2, value: 5 }] });
+
+    expect(getMovementAllowance(unit, 6)).toBe(1);
+    expect(getEffectiveStat(unit, 'speed')).toBe(2);
+  });
+
+  it.each([
+    ['no status', [], 6],
+    ['slowed', [{ type: 'slowed' as const, duration: 1 }], 3],
+    ['slowed and frightened', [
+      { type: 'slowed' as const, duration: 1 },
+      { type: 'frightened' as const, duration: 1 },
+    ], 1],
+    ['immobilized', [{ type: 'immobilized' as const, duration: 1 }], 0],
+  ])('limits movement with %s', (_name, statusEffects, expected) => {
+    expect(getMovementAllowance(makeUnit({ statusEffects }), 6)).toBe(expected);
+  });
+});
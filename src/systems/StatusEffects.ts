@@ -0,0 +1,322 @@
+// StatusEffects - data-driven status conditions (status_effects.json)
+//
+// Each status declares its stat modifiers, stacking rule, when its duration
+// ticks and hook actions for points in the turn. The engine, combat resolver
+// and Unit helpers call into here instead of checking status types by name.
+
+import {
+  Unit,
+  StatusEffect,
+  StatusEffectType,
+  StatusEffectDefinition,
+  StatusBreakTrigger,
+  StatusHook,
+  StatusHookAction,
+  StatusModifiers,
+} from '../data/BattleTypes';
+import { rollTotal } from './DiceRoller';
+import { adjustDamage } from './DamageTypes';
+
+// Definitions loaded from status_effects.json (empty until set)
+let definitions: Partial<Record<StatusEffectType, StatusEffectDefinition>> = {};
+
+/**
+ * Set status definitions from Phaser's cache (status_effects.json)
+ */
+export function setStatusEffectDefinitions(data: { effects: StatusEffectDefinition[] }): void {
+  definitions = {};
+  for (const definition of data?.effects ?? []) {
+    if (!definition.id) {
+      console.warn('Status effect definition without an id:', definition);
+      continue;
+    }
+    definitions[definition.id] = definition;
+  }
+}
+
+export function getStatusEffectDefinition(type: StatusEffectType): StatusEffectDefinition | undefined {
+  return definitions[type];
+}
+
+/**
+ * Marker color for a status, or undefined if it isn't drawn
+ */
+export function getStatusColor(type: StatusEffectType): number | undefined {
+  const definition = definitions[type];
+  if (!definition || definition.hidden) return undefined;
+  return parseInt(definition.color.replace('#', ''), 16);
+}
+
+/**
+ * Harmful conditions that cures can remove
+ */
+export function isNegativeStatus(type: StatusEffectType): boolean {
+  return !!definitions[type]?.negative;
+}
+
+// ============================================
+// Applying
+// ============================================
+
+/**
+ * Give a unit a status, combining with an existing one by its stacking rule,
+ * then run its onApply hook
+ * Returns the status now on the unit, or undefined if it was ignored
+ */
+export function applyStatusEffect(
+  unit: Unit,
+  effect: StatusEffect,
+  handlers: StatusHookHandlers = {}
+): StatusEffect | undefined {
+  const existing = unit.statusEffects.find(e => e.type === effect.type);
+  const stacking = definitions[effect.type]?.stacking ?? 'replace';
+
+  if (existing) {
+    switch (stacking) {
+      case 'ignore':
+        return undefined;
+      case 'refresh':
+        existing.duration = longerDuration(existing.duration, effect.duration);
+        if (effect.value !== undefined) {
+          existing.value = Math.max(existing.value ?? 0, effect.value);
+        }
+        return existing;
+      case 'stack':
+        existing.duration = longerDuration(existing.duration, effect.duration);
+        if (effect.value !== undefined) {
+          existing.value = (existing.value ?? 0) + effect.value;
+        }
+        return existing;
+      case 'replace':
+        unit.statusEffects = unit.statusEffects.filter(e => e !== existing);
+        break;
+    }
+  }
+
+  unit.statusEffects.push(effect);
+  runStatusHook(unit, 'onApply', handlers, [effect]);
+  return effect;
+}
+
+// -1 (permanent) outlasts any duration
+function longerDuration(a: number, b: number): number {
+  if (a === -1 || b === -1) return -1;
+  return Math.max(a, b);
+}
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * Callbacks for hook actions that need the caller's context
+ * Without them damage and healing are skipped and messages dropped
+ */
+export interface StatusHookHandlers {
+  damage?: (amount: number, effect: StatusEffect) => void;
+  heal?: (amount: number, effect: StatusEffect) => void;
+  log?: (message: string) => void;
+}
+
+/**
+ * Run a hook for every status on the unit (or only the given ones)
+ * Returns the status that made the unit skip its turn, if any
+ */
+export function runStatusHook(
+  unit: Unit,
+  hook: StatusHook,
+  handlers: StatusHookHandlers = {},
+  effects: StatusEffect[] = [...unit.statusEffects]
+): { skipReason?: StatusEffectType } {
+  let skipReason: StatusEffectType | undefined;
+
+  for (const effect of effects) {
+    const actions = definitions[effect.type]?.hooks?.[hook];
+    if (!actions) continue;
+
+    for (const action of actions) {
+      if (runHookAction(unit, effect, action, handlers)) {
+        skipReason ??= effect.type;
+      }
+    }
+  }
+
+  return { skipReason };
+}
+
+/**
+ * Returns true if the action skips the unit's turn
+ */
+function runHookAction(
+  unit: Unit,
+  effect: StatusEffect,
+  action: StatusHookAction,
+  handlers: StatusHookHandlers
+): boolean {
+  const say = (message: string | undefined, amount?: number) => {
+    if (message) handlers.log?.(formatMessage(message, unit, effect, amount));
+  };
+
+  switch (action.action) {
+    case 'damage': {
+      const rolled = action.amount ? rollTotal(action.amount) : effect.value ?? 0;
+      const amount = adjustDamage(unit, rolled, action.damageType).amount;
+      if (amount <= 0 || !handlers.damage) return false;
+      say(action.message, amount);
+      handlers.damage(amount, effect);
+      if (unit.isUnconscious) say(action.defeatMessage, amount);
+      return false;
+    }
+
+    case 'heal': {
+      const amount = action.amount ? rollTotal(action.amount) : effect.value ?? 0;
+      if (amount <= 0 || !handlers.heal) return false;
+      say(action.message, amount);
+      handlers.heal(amount, effect);
+      return false;
+    }
+
+    case 'skip_turn':
+      say(action.message);
+      return true;
+
+    case 'remove':
+      unit.statusEffects = unit.statusEffects.filter(e => e !== effect);
+      say(action.message);
+      return false;
+
+    case 'apply_status':
+      applyStatusEffect(
+        unit,
+        { type: action.status, duration: action.duration, value: action.value },
+        handlers
+      );
+      say(action.message);
+      return false;
+
+    case 'log':
+      say(action.message);
+      return false;
+  }
+}
+
+function formatMessage(message: string, unit: Unit, effect: StatusEffect, amount?: number): string {
+  return message
+    .replace(/\{unit\}/g, unit.name)
+    .replace(/\{name\}/g, definitions[effect.type]?.name ?? effect.type)
+    .replace(/\{amount\}/g, `${amount ?? effect.value ?? ''}`);
+}
+
+/**
+ * Count down durations that tick at this point of the turn and expire
+ * the ones that run out (running their onExpire hook)
+ */
+export function tickStatusEffects(
+  unit: Unit,
+  tick: 'turn_start' | 'turn_end',
+  handlers: StatusHookHandlers = {}
+): StatusEffect[] {
+  const expired: StatusEffect[] = [];
+
+  for (const effect of [...unit.statusEffects]) {
+    if ((definitions[effect.type]?.tick ?? 'turn_start') !== tick) continue;
+    if (effect.duration <= 0) continue; // Permanent / until triggered
+
+    effect.duration--;
+    if (effect.duration <= 0) {
+      unit.statusEffects = unit.statusEffects.filter(e => e !== effect);
+      expired.push(effect);
+    }
+  }
+
+  for (const effect of expired) {
+    if (definitions[effect.type]?.hooks?.onExpire) {
+      runStatusHook(unit, 'onExpire', handlers, [effect]);
+    } else {
+      const name = definitions[effect.type]?.name ?? effect.type;
+      handlers.log?.(`${unit.name}'s ${name} effect has worn off.`);
+    }
+  }
+
+  return expired;
+}
+
+// ============================================
+// Break Triggers
+// ============================================
+
+/**
+ * End every status on the unit that breaks on this event
+ * (the effect's own breaksOn, else its definition's)
+ */
+export function breakStatusEffects(
+  unit: Unit,
+  trigger: StatusBreakTrigger,
+  handlers: StatusHookHandlers = {}
+): StatusEffect[] {
+  const broken = unit.statusEffects.filter(effect =>
+    (effect.breaksOn ?? definitions[effect.type]?.breaksOn)?.includes(trigger)
+  );
+  if (broken.length === 0) return broken;
+
+  unit.statusEffects = unit.statusEffects.filter(e => !broken.includes(e));
+  for (const effect of broken) {
+    const name = definitions[effect.type]?.name ?? effect.type;
+    handlers.log?.(`${unit.name} is no longer ${name.toLowerCase()}.`);
+  }
+  return broken;
+}
+
+// ============================================
+// Modifiers
+// ============================================
+
+/**
+ * Total modifier to a stat from the unit's statuses
+ * A status's value only replaces the size of its primary (first listed) stat
+ */
+export function getStatModifier(unit: Unit, stat: keyof StatusModifiers): number {
+  let total = 0;
+  for (const effect of unit.statusEffects) {
+    const modifiers = definitions[effect.type]?.modifiers;
+    const base = modifiers?.[stat];
+    if (!modifiers || !base) continue;
+    const isPrimary = Object.keys(modifiers)[0] === stat;
+    total += effect.value && isPrimary ? Math.sign(base) * effect.value : base;
+  }
+  return total;
+}
+
+/**
+ * A unit stat with status modifiers applied
+ */
+export function getEffectiveStat(
+  unit: Unit,
+  stat: 'attack' | 'defense' | 'magic' | 'resilience' | 'speed'
+): number {
+  return unit[stat] + getStatModifier(unit, stat);
+}
+
+/**
+ * Whether the unit can make opportunity attacks (e.g. not while held)
+ */
+export function canMakeReactions(unit: Unit): boolean {
+  return !unit.statusEffects.some(e => definitions[e.type]?.blocksReactions);
+}
+
+/**
+ * Whether the unit can leave enemies' reach without provoking (e.g. disengaged)
+ */
+export function ignoresOpportunityAttacks(unit: Unit): boolean {
+  return unit.statusEffects.some(e => definitions[e.type]?.preventsOpportunityAttacks);
+}
+
+/**
+ * Tiles the unit may move this turn
+ */
+export function getMovementAllowance(unit: Unit, baseRange: number): number {
+  if (unit.statusEffects.some(e => definitions[e.type]?.blocksMovement)) {
+    return 0;
+  }
+  return Math.max(0, baseRange + getStatModifier(unit, 'movement'));
+}
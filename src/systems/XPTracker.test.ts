@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { XPTracker } from './XPTracker';
+import { SaveManager } from './SaveManager';
+
+function createTracker(levels: Record<string, number> = {}): XPTracker {
+  const heroState = SaveManager.createInitialHeroState();
+  for (const [heroId, level] of Object.entries(levels)) {
+    heroState[heroId].level = level;
+  }
+  return new XPTracker(heroState);
+}
+
+describe('XPTracker', () => {
+  it.each([
+    [0, 1],
+    [3, 3],
+    [7, 7],
+  ])('awards %i damage as %i XP', (damage, xp) => {
+    const tracker = createTracker();
+    tracker.awardDamageXP('azrael', damage);
+    expect(tracker.getBattleXP('azrael')).toBe(xp);
+  });
+
+  it('awards 4 XP per resource spent and nothing for free abilities', () => {
+    const tracker = createTracker();
+    tracker.awardResourceXP('lyra', 3, 'Barkskin');
+    tracker.awardResourceXP('lyra', 0, 'Shillelagh');
+    expect(tracker.getBattleXP('lyra')).toBe(12);
+  });
+
+  it('awards flat kill and item XP', () => {
+    const tracker = createTracker();
+    tracker.awardKillXP('thump', 'Imp');
+    expect(tracker.awardItemXP('thump', 'Healing Potion')).toBe(5);
+    expect(tracker.getBattleXP('thump')).toBe(10);
+  });
+
+  it('ignores units that are not heroes', () => {
+    const tracker = createTracker();
+    tracker.awardDamageXP('imp_1', 5);
+    tracker.awardKillXP('imp_1', 'Vicas');
+    expect(tracker.getBattleXP('imp_1')).toBe(0);
+    expect(tracker.getXPGains()).toEqual([]);
+  });
+
+  describe('catch-up bonus', () => {
+    it.each([
+      ['damage', (t: XPTracker) => t.awardDamageXP('rooker', 5), 7],
+      ['resource', (t: XPTracker) => t.awardResourceXP('rooker', 2, 'Arcane Bolt'), 12],
+      ['kill', (t: XPTracker) => t.awardKillXP('rooker', 'Imp'), 7],
+      ['item', (t: XPTracker) => t.awardItemXP('rooker', 'Antidote'), 7],
+    ])('gives +50%% (rounded down) %s XP to heroes behind the party', (_source, award, xp) => {
+      const tracker = createTracker({ vicas: 2 });
+      award(tracker);
+      expect(tracker.getBattleXP('rooker')).toBe(xp);
+    });
+
+    it('does not apply to the highest level heroes', () => {
+      const tracker = createTracker({ vicas: 2 });
+      tracker.awardDamageXP('vicas', 5);
+      expect(tracker.getBattleXP('vicas')).toBe(5);
+    });
+
+    it('does not apply when the whole party is level', () => {
+      const tracker = createTracker();
+      tracker.awardDamageXP('rooker', 5);
+      expect(tracker.getBattleXP('rooker')).toBe(5);
+    });
+  });
+
+  it.each([
+    [0, 1],
+    [49, 1],
+    [50, 2],
+    [124, 2],
+    [125, 3],
+    [1000, 3],
+  ])('places %i total XP at level %i', (xp, level) => {
+    expect(XPTracker.calculateLevel(xp)).toBe(level);
+  });
+
+  it('levels up and restores resources on finalize', () => {
+    const heroState = SaveManager.createInitialHeroState();
+    heroState.vicas = { ...heroState.vicas, xp: 40, currentHp: 2, currentKi: 0 };
+    const tracker = new XPTracker(heroState);
+    tracker.awardKillXP('vicas', 'Imp');
+    tracker.awardKillXP('vicas', 'Imp');
+
+    const summary = tracker.finalizeBattle().find(s => s.heroId === 'vicas');
+
+    expect(summary).toEqual({
+      heroId: 'vicas',
+      totalXP: 10,
+      leveledUp: true,
+      newLevel: 2,
+      previousLevel: 1,
+    });
+    expect(heroState.vicas).toMatchObject({
+      xp: 50,
+      level: 2,
+      currentHp: SaveManager.getMaxHp('vicas', 2),
+      currentKi: SaveManager.getMaxKi(2),
+    });
+  });
+
+  it('keeps current HP when not leveling up', () => {
+    const heroState = SaveManager.createInitialHeroState();
+    heroState.lyra.currentHp = 3;
+    const tracker = new XPTracker(heroState);
+    tracker.awardDamageXP('lyra', 4);
+
+    tracker.finalizeBattle();
+
+    expect(heroState.lyra).toMatchObject({ xp: 4, level: 1, currentHp: 3 });
+  });
+
+  it('counts critical hits and fumbles per hero', () => {
+    const tracker = createTracker();
+    tracker.recordAttackRoll('azrael', true, false);
+    tracker.recordAttackRoll('azrael', false, true);
+    tracker.recordAttackRoll('azrael', false, false);
+    tracker.recordAttackRoll('imp_1', true, false);
+
+    expect(tracker.getAllAttackRollStats().azrael).toEqual({ criticals: 1, fumbles: 1 });
+    expect(tracker.getAllAttackRollStats().imp_1).toBeUndefined();
+  });
+});
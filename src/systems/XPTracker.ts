@@ -9,6 +9,11 @@ export interface XPGain {
   description: string;
 }
 
+export interface AttackRollStats {
+  criticals: number;
+  fumbles: number;
+}
+
 export interface BattleXPSummary {
   heroId: string;
   totalXP: number;
@@ -43,6 +48,9 @@ export class XPTracker {
   // XP log for summary display
   private xpGains: XPGain[] = [];
 
+  // Critical hits and fumbles per hero this battle
+  private attackRollStats: Record<string, AttackRollStats> = {};
+
   // Hero state reference (from save data)
   private heroState: Record<string, HeroState>;
 
@@ -52,6 +60,7 @@ export class XPTracker {
     // Initialize battle XP counters
     for (const heroId of Object.keys(heroState)) {
       this.battleXP[heroId] = 0;
+      this.attackRollStats[heroId] = { criticals: 0, fumbles: 0 };
     }
   }
 
@@ -166,6 +175,24 @@ export class XPTracker {
     return finalXP;
   }
 
+  /**
+   * Count a critical hit or fumble on a hero's attack roll
+   */
+  recordAttackRoll(heroId: string, isCritical: boolean, isFumble: boolean): void {
+    const stats = this.attackRollStats[heroId];
+    if (!stats) return; // Not a hero
+
+    if (isCritical) stats.criticals++;
+    if (isFumble) stats.fumbles++;
+  }
+
+  /**
+   * Get critical hit/fumble counts for all heroes (for summary display)
+   */
+  getAllAttackRollStats(): Record<string, AttackRollStats> {
+    return { ...this.attackRollStats };
+  }
+
   /**
    * Get XP earned this battle for a hero
    */
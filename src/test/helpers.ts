@@ -0,0 +1,85 @@
+// Shared helpers for unit tests (deterministic dice, unit factory, game data)
+
+import { Ability, AdvantageSource, EnemyData, HeroData, StatusEffectDefinition, Unit } from '../data/BattleTypes';
+import { ItemData } from '../data/ItemTypes';
+import { setRandomSource } from '../systems/DiceRoller';
+import abilitiesJson from '../../public/data/abilities.json';
+import heroesJson from '../../public/data/heroes.json';
+import enemiesJson from '../../public/data/enemies.json';
+import itemsJson from '../../public/data/items.json';
+import advantageJson from '../../public/data/advantage.json';
+import statusEffectsJson from '../../public/data/status_effects.json';
+
+// ============================================
+// Game Data (the real JSON files)
+// ============================================
+
+export const abilitiesData = abilitiesJson as unknown as Record<string, Ability>;
+export const heroesData = heroesJson as unknown as Record<string, HeroData>;
+export const enemiesData = enemiesJson as unknown as Record<string, EnemyData>;
+export const itemsData = itemsJson as unknown as Record<string, ItemData>;
+export const advantageData = advantageJson as unknown as { sources: AdvantageSource[] };
+export const statusEffectsData = statusEffectsJson as unknown as { effects: StatusEffectDefinition[] };
+
+// ============================================
+// Deterministic Dice
+// ============================================
+
+/**
+ * Make the next dice come up as the given faces, in order: [sides, face] pairs
+ * e.g. queueRolls([[20, 15], [6, 4]]) rolls a 15 on the d20, then a 4 on the d6.
+ * Once the queue runs out every die rolls its min/max face, or throws if no
+ * fallback is given.
+ */
+export function queueRolls(
+  rolls: [sides: number, face: number][],
+  then?: 'min' | 'max'
+): void {
+  const values = rolls.map(([sides, face]) => (face - 0.5) / sides);
+  setRandomSource(() => {
+    const value = values.shift();
+    if (value !== undefined) return value;
+    if (then) return then === 'min' ? 0 : 0.999999;
+    throw new Error('queueRolls: more dice rolled than queued');
+  });
+}
+
+/**
+ * Make every die roll its minimum (1) or maximum face
+ */
+export function rollAll(face: 'min' | 'max'): void {
+  setRandomSource(face === 'min' ? () => 0 : () => 0.999999);
+}
+
+// ============================================
+// Units
+// ============================================
+
+/**
+ * Create a bare Unit (no sprite) with sensible stats for tests
+ */
+export function makeUnit(overrides: Partial<Unit> = {}): Unit {
+  return {
+    id: 'unit',
+    dataId: 'unit',
+    name: 'Unit',
+    team: 'hero',
+    gridX: 0,
+    gridY: 0,
+    facing: 'north',
+    currentHp: 20,
+    maxHp: 20,
+    attack: 3,
+    defense: 12,
+    magic: 12,
+    resilience: 2,
+    speed: 2,
+    abilities: [],
+    statusEffects: [],
+    isUnconscious: false,
+    hasMoved: false,
+    hasActed: false,
+    actionsRemaining: 1,
+    ...overrides,
+  };
+}